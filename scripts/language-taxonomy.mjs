@@ -0,0 +1,62 @@
+// Writes the programming languages in GitHub Linguist's language list
+// (linguist-languages on npm, MIT License) into the skill taxonomy seed in
+// supabase/migrations/019_skill_taxonomy.sql. Run it with `npm run db:languages`
+// after updating linguist-languages.
+import { readFile, writeFile } from 'node:fs/promises';
+import * as linguist from 'linguist-languages';
+
+const MIGRATION = new URL('../supabase/migrations/019_skill_taxonomy.sql', import.meta.url);
+const BEGIN = '-- BEGIN GENERATED: npm run db:languages';
+const END = '-- END GENERATED';
+
+const { version } = JSON.parse(
+  await readFile(new URL('../node_modules/linguist-languages/package.json', import.meta.url), 'utf8')
+);
+
+// "C#" as "csharp", "Objective-C++" as "objective-cplusplus"
+function slug(name) {
+  return name
+    .toLowerCase()
+    .replace(/#/g, 'sharp')
+    .replace(/\+/g, 'plus')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function quote(value) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Dialects Linguist files under another language (e.g. "Gentoo Ebuild" under
+// Shell) are left out, so they are not matched as that language
+const languages = Object.values(linguist)
+  .filter((language) => language.type === 'programming' && (!language.group || language.group === language.name))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const ids = new Set();
+const rows = languages.map((language) => {
+  let id = slug(language.name);
+  while (ids.has(id)) id += '-lang';
+  ids.add(id);
+
+  const aliases = (language.aliases ?? []).map(quote).join(', ');
+  return `  (${quote(id)}, ${quote(language.name)}, ARRAY[${aliases}]::TEXT[])`;
+});
+
+const generated = [
+  BEGIN,
+  `-- linguist-languages ${version}: ${rows.length} programming languages`,
+  'INSERT INTO linguist_languages (id, name, aliases) VALUES',
+  rows.join(',\n') + ';',
+  END,
+].join('\n');
+
+const migration = await readFile(MIGRATION, 'utf8');
+const start = migration.indexOf(BEGIN);
+const end = migration.indexOf(END, start);
+if (start === -1 || end === -1) {
+  throw new Error(`${MIGRATION.pathname} has no "${BEGIN}" ... "${END}" block`);
+}
+
+await writeFile(MIGRATION, migration.slice(0, start) + generated + migration.slice(end + END.length));
+console.log(`Wrote ${rows.length} languages from linguist-languages ${version}`);
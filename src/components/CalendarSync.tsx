@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Button, Card, CardContent } from './ui';
+import {
+  calendarFeedUrl,
+  disableCalendarFeed,
+  downloadCalendar,
+  getCalendarFeedToken,
+  rotateCalendarFeedToken,
+} from '../lib/api';
+
+interface CalendarSyncProps {
+  userId: string;
+}
+
+export function CalendarSync({ userId }: CalendarSyncProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isUpdatingFeed, setIsUpdatingFeed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    getCalendarFeedToken(userId).then(({ token: existing }) => setToken(existing));
+  }, [userId]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    const { error } = await downloadCalendar();
+    setIsDownloading(false);
+    if (error) alert(error);
+  };
+
+  const handleCreateFeed = async () => {
+    if (token && !confirm('Create a new feed URL? Calendars subscribed to the current URL will stop updating.')) {
+      return;
+    }
+
+    setIsUpdatingFeed(true);
+    const { token: newToken, error } = await rotateCalendarFeedToken();
+    setIsUpdatingFeed(false);
+
+    if (error || !newToken) {
+      console.error('Error creating calendar feed:', error);
+      alert('Failed to create a calendar feed. Please try again.');
+      return;
+    }
+    setToken(newToken);
+  };
+
+  const handleDisableFeed = async () => {
+    if (!confirm('Turn off the calendar feed? Subscribed calendars will stop updating.')) return;
+
+    setIsUpdatingFeed(true);
+    const { error } = await disableCalendarFeed(userId);
+    setIsUpdatingFeed(false);
+
+    if (error) {
+      console.error('Error disabling calendar feed:', error);
+      return;
+    }
+    setToken(null);
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(calendarFeedUrl(token));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Calendar</h3>
+          <Button variant="outline" size="sm" onClick={handleDownload} isLoading={isDownloading}>
+            Download .ics
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Milestone due dates and the daily goals you block time for.
+        </p>
+
+        {token ? (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Subscribe from Google Calendar ("From URL") or Outlook ("Subscribe from web") to stay in sync.
+              Keep this URL private.
+            </p>
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={calendarFeedUrl(token)}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-3 py-1.5 text-xs rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300"
+              />
+              <Button size="sm" onClick={handleCopy}>
+                {copied ? 'Copied' : 'Copy'}
+              </Button>
+            </div>
+            <div className="flex gap-3 text-xs">
+              <button onClick={handleCreateFeed} disabled={isUpdatingFeed} className="text-indigo-600 hover:text-indigo-500">
+                New URL
+              </button>
+              <button onClick={handleDisableFeed} disabled={isUpdatingFeed} className="text-red-600 hover:text-red-500">
+                Turn off
+              </button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={handleCreateFeed} isLoading={isUpdatingFeed}>
+            Get Subscription URL
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
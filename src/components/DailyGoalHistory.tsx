@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { getDailyGoals, getGoalFocusMinutes } from '../lib/api';
+import { formatDate } from '../lib/scheduler';
+import type { DailyGoal } from '../types';
+
+interface DailyGoalHistoryProps {
+  userId: string;
+  today: string; // YYYY-MM-DD
+  longestStreak: number;
+}
+
+// Number of past days shown
+const HISTORY_DAYS = 30;
+
+function formatDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function DailyGoalHistory({ userId, today, longestStreak }: DailyGoalHistoryProps) {
+  const [days, setDays] = useState<Array<{ date: string; goals: DailyGoal[] }>>([]);
+  const [focusMinutes, setFocusMinutes] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const [year, month, day] = today.split('-').map(Number);
+    const from = formatDate(new Date(year, month - 1, day - HISTORY_DAYS));
+    const yesterday = formatDate(new Date(year, month - 1, day - 1));
+
+    getDailyGoals(userId, from, yesterday).then(async ({ goals, error }) => {
+      if (error) {
+        console.error('Error loading goal history:', error);
+      }
+
+      const { minutes } = await getGoalFocusMinutes(goals.map(g => g.id));
+      setFocusMinutes(minutes);
+
+      // Goals come back newest day first
+      const byDate = new Map<string, DailyGoal[]>();
+      for (const goal of goals) {
+        byDate.set(goal.goalDate, [...(byDate.get(goal.goalDate) || []), goal]);
+      }
+      setDays([...byDate].map(([date, dayGoals]) => ({ date, goals: dayGoals })));
+      setIsLoading(false);
+    });
+  }, [userId, today]);
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-400 mt-3">Loading history...</p>;
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white">Last {HISTORY_DAYS} days</h4>
+        <span className="text-xs text-gray-500">Longest streak: {longestStreak} days</span>
+      </div>
+
+      {days.length === 0 ? (
+        <p className="text-xs text-gray-500">No goals from earlier days yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {days.map(({ date, goals }) => {
+            const completed = goals.filter(g => g.isCompleted).length;
+            const focused = goals.reduce((sum, g) => sum + (focusMinutes[g.id] || 0), 0);
+            const planned = goals.reduce((sum, g) => sum + g.minutes, 0);
+
+            return (
+              <div key={date}>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{formatDay(date)}</span>
+                  <span className={completed > 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-400'}>
+                    {focused > 0 && (
+                      <span className="text-gray-500 mr-2" title="Minutes focused / minutes planned">
+                        {focused}/{planned} min
+                      </span>
+                    )}
+                    {completed}/{goals.length} done
+                  </span>
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {goals.map(goal => (
+                    <li
+                      key={goal.id}
+                      className={`text-xs truncate ${goal.isCompleted ? 'text-gray-600 dark:text-gray-400' : 'text-gray-400 line-through'}`}
+                    >
+                      {goal.isCompleted ? '✓ ' : ''}{goal.title}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,184 +1,197 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Card, CardContent } from './ui';
-import { supabase } from '../lib/supabase';
-import { generateDailyGoals } from '../lib/api';
-import type { TaskForGoals, DailyGoalFromAI } from '../lib/api';
-
-interface DailyGoal {
-  id: string;
-  sourceTaskId: string;
-  title: string;
-  duration: 'short' | 'medium' | 'long';
-  durationLabel: string;
-  milestoneTitle: string;
-  roadmapId: string;
-  isPartialTask: boolean;
-}
+import { Button, Card, CardContent } from './ui';
+import { DailyGoalHistory } from './DailyGoalHistory';
+import { FocusTimer } from './FocusTimer';
+import { GoalPlanSettings } from './GoalPlanSettings';
+import {
+  completeDailyGoal,
+  createGoalBlock,
+  deleteDailyGoals,
+  generateDailyGoals,
+  getDailyGoals,
+  getGoalBlockTimes,
+  getGoalFocusMinutes,
+  getGoalPlan,
+  getGoalStreakDays,
+  getOpenMilestones,
+  saveDailyGoals,
+} from '../lib/api';
+import type { TaskForGoals, DailyGoalFromAI, GoalSlot } from '../lib/api';
+import { REVIEW_GOAL_MINUTES, minutesForDay, planGoalSlots } from '../lib/dailyBudget';
+import { pickGoalTasks, type GoalRoadmap } from '../lib/goalPlanner';
+import { formatDate } from '../lib/scheduler';
+import { computeGoalStreak } from '../lib/streaks';
+import type { DailyGoal } from '../types';
 
 interface DailyGoalsProps {
   userId: string;
 }
 
-// Cache key for localStorage
-const GOALS_CACHE_KEY = 'dailyGoals_cache';
+// A goal before it is saved to daily_goals
+type NewDailyGoal = Omit<DailyGoal, 'id' | 'goalDate' | 'position' | 'isCompleted' | 'completedAt'>;
+
+// Goals used to be cached here; they now live in the daily_goals table
+const LEGACY_GOALS_CACHE_KEY = 'dailyGoals_cache';
+
+// How far back streaks are counted
+const STREAK_LOOKBACK_DAYS = 365;
 
-interface CachedGoals {
-  goals: DailyGoal[];
-  date: string; // YYYY-MM-DD format
+function formatStudyTime(minutes: number): string {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} ${hours === 1 ? 'hour' : 'hours'}`;
 }
 
 export function DailyGoals({ userId }: DailyGoalsProps) {
   const [goals, setGoals] = useState<DailyGoal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [completedToday, setCompletedToday] = useState<Set<string>>(new Set());
+  const [streakDays, setStreakDays] = useState<string[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [planRoadmaps, setPlanRoadmaps] = useState<GoalRoadmap[]>([]);
+  const [focusRoadmapId, setFocusRoadmapId] = useState<string | null>(null);
+  const [showPlanSettings, setShowPlanSettings] = useState(false);
+  // Study minutes available today; 0 is a rest day
+  const [budgetMinutes, setBudgetMinutes] = useState<number | null>(null);
+  // Start time of today's calendar block, by daily goal
+  const [blockTimes, setBlockTimes] = useState<Record<string, string>>({});
+  // Minutes actually spent in focus sessions, by daily goal
+  const [focusMinutes, setFocusMinutes] = useState<Record<string, number>>({});
+  const [timerGoal, setTimerGoal] = useState<DailyGoal | null>(null);
+  // Goals whose completion is being saved, so a double click does not log it twice
+  const [completingIds, setCompletingIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
+    localStorage.removeItem(LEGACY_GOALS_CACHE_KEY);
     loadDailyGoals();
   }, [userId]);
 
-  // Get today's date as YYYY-MM-DD
-  const getTodayDate = (): string => {
-    return new Date().toISOString().split('T')[0];
-  };
-
-  // Get cached goals if they're from today
-  const getCachedGoals = (): DailyGoal[] | null => {
-    try {
-      const cached = localStorage.getItem(GOALS_CACHE_KEY);
-      if (!cached) return null;
+  useEffect(() => {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const since = new Date(startOfToday);
+    since.setDate(since.getDate() - STREAK_LOOKBACK_DAYS);
 
-      const parsed: CachedGoals = JSON.parse(cached);
-      if (parsed.date === getTodayDate()) {
-        return parsed.goals;
-      }
+    getGoalBlockTimes(userId, startOfToday).then(({ times }) => setBlockTimes(times));
 
-      // Cache is stale, remove it
-      localStorage.removeItem(GOALS_CACHE_KEY);
-      return null;
-    } catch {
-      return null;
-    }
-  };
+    getGoalStreakDays(userId, formatDate(since)).then(({ days }) => setStreakDays(days));
+  }, [userId]);
 
-  // Save goals to cache
-  const saveGoalsToCache = (goalsToCache: DailyGoal[]) => {
-    try {
-      const cacheData: CachedGoals = {
-        goals: goalsToCache,
-        date: getTodayDate(),
-      };
-      localStorage.setItem(GOALS_CACHE_KEY, JSON.stringify(cacheData));
-    } catch {
-      // Ignore storage errors
-    }
-  };
+  // Get today's date as YYYY-MM-DD in the user's timezone
+  const getTodayDate = (): string => formatDate(new Date());
 
-  const loadDailyGoals = async () => {
+  // review plans a single short recap goal, offered on rest days
+  const loadDailyGoals = async (options: { review?: boolean } = {}) => {
     try {
-      // Check cache first
-      const cachedGoals = getCachedGoals();
-      if (cachedGoals && cachedGoals.length > 0) {
-        setGoals(cachedGoals);
+      const { roadmaps, focusRoadmapId: focusId, availableHours, weekdayMinutes } = await getGoalPlan(userId);
+      setPlanRoadmaps(roadmaps);
+      setFocusRoadmapId(focusId);
+
+      const budget = minutesForDay(weekdayMinutes, availableHours, new Date());
+      setBudgetMinutes(budget);
+
+      // Today's goals may already have been created on this or another device
+      const today = getTodayDate();
+      const { goals: savedGoals } = await getDailyGoals(userId, today);
+      if (savedGoals.length > 0) {
+        setGoals(savedGoals);
+        const { minutes } = await getGoalFocusMinutes(savedGoals.map(g => g.id));
+        setFocusMinutes(minutes);
         setIsLoading(false);
         return;
       }
 
-      // Get user's roadmaps
-      const { data: roadmaps } = await supabase
-        .from('roadmaps')
-        .select('id, target_career')
-        .eq('user_id', userId);
-
-      if (!roadmaps || roadmaps.length === 0) {
+      // No goals on days without study time unless the user asks for a review
+      if (roadmaps.length === 0 || (budget === 0 && !options.review)) {
         setIsLoading(false);
         return;
       }
 
+      const slots: GoalSlot[] = options.review
+        ? [{ duration: 'short', minutes: REVIEW_GOAL_MINUTES }]
+        : planGoalSlots(budget);
+
       const roadmapIds = roadmaps.map(r => r.id);
-      const targetCareer = roadmaps[0]?.target_career || 'professional';
 
-      // Get incomplete milestones in order
-      const { data: milestones } = await supabase
-        .from('milestones')
-        .select('id, title, roadmap_id, status, order_index')
-        .in('roadmap_id', roadmapIds)
-        .neq('status', 'completed')
-        .order('order_index');
+      // Get incomplete milestones and their incomplete subtasks, in order
+      const { milestones } = await getOpenMilestones(roadmapIds);
 
-      if (!milestones || milestones.length === 0) {
+      if (!milestones.some(m => m.subtasks.length > 0)) {
         setIsLoading(false);
         return;
       }
 
-      const milestoneIds = milestones.map(m => m.id);
-      const milestoneMap = new Map(milestones.map(m => [m.id, m]));
-
-      // Get incomplete subtasks in order
-      const { data: subtasks } = await supabase
-        .from('subtasks')
-        .select('id, title, milestone_id, is_completed, order_index')
-        .in('milestone_id', milestoneIds)
-        .eq('is_completed', false)
-        .order('order_index');
+      // Each roadmap's tasks in its own milestone order, then subtask order
+      const tasksByRoadmap = new Map<string, TaskForGoals[]>();
+      for (const roadmap of roadmaps) {
+        const tasks: TaskForGoals[] = [];
+        for (const milestone of milestones.filter(m => m.roadmapId === roadmap.id)) {
+          for (const subtask of milestone.subtasks) {
+            tasks.push({
+              id: subtask.id,
+              title: subtask.title,
+              milestoneTitle: milestone.title,
+              roadmapId: roadmap.id,
+              targetCareer: roadmap.targetCareer,
+              // Lets tomorrow's goals continue where the user stopped
+              progress: subtask.progress || undefined,
+              lastProgressNote: subtask.lastProgressNote,
+            });
+          }
+        }
+        tasksByRoadmap.set(roadmap.id, tasks);
+      }
 
-      if (!subtasks || subtasks.length === 0) {
+      // Share the tasks offered to the AI between roadmaps by focus or weight
+      const limitedTasks = pickGoalTasks(roadmaps, tasksByRoadmap, focusId);
+      if (limitedTasks.length === 0) {
         setIsLoading(false);
         return;
       }
 
-      // Build task list for AI - prioritized by milestone order, then subtask order
-      const tasksForAI: TaskForGoals[] = [];
-      for (const milestone of milestones) {
-        const milestoneSubtasks = subtasks.filter(s => s.milestone_id === milestone.id);
-        for (const subtask of milestoneSubtasks) {
-          tasksForAI.push({
-            id: subtask.id,
-            title: subtask.title,
-            milestoneTitle: milestone.title,
-          });
-        }
-      }
-
-      // Limit to first 10 tasks for API efficiency
-      const limitedTasks = tasksForAI.slice(0, 10);
-
       // Get AI-generated goals
-      const result = await generateDailyGoals(limitedTasks, targetCareer);
+      const result = await generateDailyGoals(limitedTasks, limitedTasks[0].targetCareer, {
+        slots,
+        review: options.review,
+      });
 
       if (result.error || result.goals.length === 0) {
-        // Fallback: create simple goals from first 3 tasks
-        const fallbackGoals = createFallbackGoals(limitedTasks, milestoneMap, roadmaps[0].id);
-        setGoals(fallbackGoals);
-        saveGoalsToCache(fallbackGoals);
+        // Fallback: one goal per time slot from the first tasks
+        const fallbackGoals = createFallbackGoals(limitedTasks, slots).map(goal =>
+          options.review ? { ...goal, title: `Review: ${goal.title}`, sourceTaskId: undefined } : goal
+        );
+        const { goals: stored } = await saveDailyGoals(userId, today, fallbackGoals);
+        setGoals(stored);
         setIsLoading(false);
         return;
       }
 
       // Convert AI goals to DailyGoal format
-      const dailyGoals: DailyGoal[] = result.goals.map((aiGoal: DailyGoalFromAI) => {
-        const task = tasksForAI.find(t => t.id === aiGoal.sourceTaskId);
-        const subtask = subtasks.find(s => s.id === aiGoal.sourceTaskId);
-        const milestone = subtask ? milestoneMap.get(subtask.milestone_id) : null;
-
-        return {
-          id: `${aiGoal.sourceTaskId}-${aiGoal.duration}`,
-          sourceTaskId: aiGoal.sourceTaskId,
-          title: aiGoal.dailyTitle,
-          duration: aiGoal.duration,
-          durationLabel: getDurationLabel(aiGoal.minutes),
-          milestoneTitle: task?.milestoneTitle || milestone?.title || 'Milestone',
-          roadmapId: milestone?.roadmap_id || roadmaps[0].id,
-          isPartialTask: aiGoal.isPartialTask,
-        };
-      });
-
-      // Sort by duration: short, medium, long
-      const sortOrder = { short: 0, medium: 1, long: 2 };
-      dailyGoals.sort((a, b) => sortOrder[a.duration] - sortOrder[b.duration]);
-
-      setGoals(dailyGoals);
-      saveGoalsToCache(dailyGoals);
+      const taskMap = new Map(limitedTasks.map(t => [t.id, t]));
+      const dailyGoals: NewDailyGoal[] = result.goals
+        .filter((aiGoal: DailyGoalFromAI) => taskMap.has(aiGoal.sourceTaskId))
+        .slice(0, slots.length)
+        .map((aiGoal: DailyGoalFromAI) => {
+          const task = taskMap.get(aiGoal.sourceTaskId)!;
+
+          return {
+            // Reviews go over earlier work and do not advance the task
+            sourceTaskId: options.review ? undefined : aiGoal.sourceTaskId,
+            title: aiGoal.dailyTitle,
+            duration: aiGoal.duration,
+            minutes: aiGoal.minutes,
+            milestoneTitle: task.milestoneTitle,
+            roadmapId: task.roadmapId,
+            isPartialTask: aiGoal.isPartialTask,
+            portion: aiGoal.portion,
+          };
+        });
+
+      // Shortest first
+      dailyGoals.sort((a, b) => a.minutes - b.minutes);
+
+      const { goals: stored } = await saveDailyGoals(userId, today, dailyGoals);
+      setGoals(stored);
     } catch (error) {
       console.error('Error loading daily goals:', error);
     } finally {
@@ -187,28 +200,18 @@ export function DailyGoals({ userId }: DailyGoalsProps) {
   };
 
   // Create fallback goals if AI fails
-  const createFallbackGoals = (
-    tasks: TaskForGoals[],
-    _milestoneMap: Map<string, unknown>,
-    defaultRoadmapId: string
-  ): DailyGoal[] => {
-    const durations: Array<{ duration: 'short' | 'medium' | 'long'; minutes: number }> = [
-      { duration: 'short', minutes: 30 },
-      { duration: 'medium', minutes: 60 },
-      { duration: 'long', minutes: 120 },
-    ];
-
-    return tasks.slice(0, 3).map((task, idx) => {
-      const dur = durations[idx] || durations[0];
+  const createFallbackGoals = (tasks: TaskForGoals[], slots: GoalSlot[]): NewDailyGoal[] => {
+    return tasks.slice(0, slots.length).map((task, idx) => {
+      const dur = slots[idx];
       return {
-        id: `${task.id}-${dur.duration}`,
         sourceTaskId: task.id,
         title: task.title,
         duration: dur.duration,
-        durationLabel: getDurationLabel(dur.minutes),
+        minutes: dur.minutes,
         milestoneTitle: task.milestoneTitle,
-        roadmapId: defaultRoadmapId,
+        roadmapId: task.roadmapId,
         isPartialTask: false,
+        portion: 1,
       };
     });
   };
@@ -232,22 +235,90 @@ export function DailyGoals({ userId }: DailyGoalsProps) {
     }
   };
 
-  const handleMarkComplete = async (goal: DailyGoal) => {
+  // actualMinutes from focus sessions replaces the planned time in the task's time log
+  const handleMarkComplete = async (goal: DailyGoal, actualMinutes: number = focusMinutes[goal.id] || 0) => {
+    if (completingIds.has(goal.id)) return;
+    setCompletingIds(prev => new Set(prev).add(goal.id));
+
     try {
-      // Only mark the source subtask as complete if it's NOT a partial task
-      if (!goal.isPartialTask) {
-        await supabase
-          .from('subtasks')
-          .update({ is_completed: true, completed_at: new Date().toISOString() })
-          .eq('id', goal.sourceTaskId);
-      }
+      // Partial goals advance the source subtask's progress; whole-task goals complete it
+      const { error } = await completeDailyGoal(goal.id, actualMinutes > 0 ? actualMinutes : undefined);
+      if (error) throw new Error(error);
 
-      setCompletedToday(prev => new Set([...prev, goal.id]));
+      setGoals(prev => prev.map(g => (g.id === goal.id ? { ...g, isCompleted: true } : g)));
+      setStreakDays(prev => (prev.includes(goal.goalDate) ? prev : [goal.goalDate, ...prev]));
     } catch (error) {
       console.error('Error marking goal complete:', error);
+    } finally {
+      setCompletingIds(prev => {
+        const next = new Set(prev);
+        next.delete(goal.id);
+        return next;
+      });
     }
   };
 
+  const handleTimerClose = async (result: { focusMinutes: number; completed: boolean } | null) => {
+    const goal = timerGoal;
+    setTimerGoal(null);
+    if (!goal || !result) return;
+
+    const total = (focusMinutes[goal.id] || 0) + result.focusMinutes;
+    setFocusMinutes(prev => ({ ...prev, [goal.id]: total }));
+    if (result.completed) {
+      await handleMarkComplete(goal, total);
+    }
+  };
+
+  // Block time on the calendar from the next half hour
+  const handleBlockTime = async (goal: DailyGoal) => {
+    const startsAt = new Date();
+    startsAt.setMinutes(startsAt.getMinutes() < 30 ? 30 : 60, 0, 0);
+
+    const { block, error } = await createGoalBlock({
+      userId,
+      dailyGoalId: goal.id,
+      roadmapId: goal.roadmapId,
+      subtaskId: goal.sourceTaskId,
+      title: goal.title,
+      milestoneTitle: goal.milestoneTitle,
+      startsAt,
+      durationMinutes: goal.minutes,
+    });
+
+    if (error || !block) {
+      console.error('Error blocking time:', error);
+      return;
+    }
+
+    setBlockTimes(prev => ({ ...prev, [goal.id]: block.starts_at }));
+  };
+
+  // Start today over with the current focus and weights
+  const handleReplanToday = async () => {
+    const { error } = await deleteDailyGoals(userId, getTodayDate());
+    if (error) {
+      console.error('Error clearing daily goals:', error);
+      return;
+    }
+
+    setGoals([]);
+    setShowPlanSettings(false);
+    setIsLoading(true);
+    await loadDailyGoals();
+  };
+
+  const handleReviewGoal = async () => {
+    setIsLoading(true);
+    await loadDailyGoals({ review: true });
+  };
+
+  const careerFor = (roadmapId?: string) =>
+    planRoadmaps.length > 1 ? planRoadmaps.find(r => r.id === roadmapId)?.targetCareer : undefined;
+
+  const completedCount = goals.filter(g => g.isCompleted).length;
+  const streak = computeGoalStreak(streakDays, getTodayDate());
+
   if (isLoading) {
     return (
       <Card>
@@ -264,7 +335,21 @@ export function DailyGoals({ userId }: DailyGoalsProps) {
   }
 
   if (goals.length === 0) {
-    return null;
+    if (budgetMinutes !== 0 || planRoadmaps.length === 0) return null;
+
+    return (
+      <Card>
+        <CardContent className="py-4">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Today's Goals</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-3">
+            You haven't set aside study time today. Enjoy the break, or keep things fresh with a quick review.
+          </p>
+          <Button size="sm" variant="outline" onClick={handleReviewGoal}>
+            Add a {REVIEW_GOAL_MINUTES}-minute review
+          </Button>
+        </CardContent>
+      </Card>
+    );
   }
 
   return (
@@ -274,14 +359,21 @@ export function DailyGoals({ userId }: DailyGoalsProps) {
           <h3 className="font-semibold text-gray-900 dark:text-white">
             Today's Goals
           </h3>
-          <span className="text-xs text-gray-500">
-            {completedToday.size}/{goals.length} done
-          </span>
+          <div className="flex items-center gap-3">
+            {streak.current > 0 && (
+              <span className="text-xs font-medium text-orange-600 dark:text-orange-400" title={`Longest streak: ${streak.longest} days`}>
+                {streak.current}-day streak
+              </span>
+            )}
+            <span className="text-xs text-gray-500">
+              {completedCount}/{goals.length} done
+            </span>
+          </div>
         </div>
 
         <div className="space-y-2">
           {goals.map((goal) => {
-            const isCompleted = completedToday.has(goal.id);
+            const isCompleted = goal.isCompleted;
 
             return (
               <div
@@ -295,7 +387,7 @@ export function DailyGoals({ userId }: DailyGoalsProps) {
                 {/* Checkbox */}
                 <button
                   onClick={() => handleMarkComplete(goal)}
-                  disabled={isCompleted}
+                  disabled={isCompleted || completingIds.has(goal.id)}
                   className={`w-5 h-5 rounded border-2 flex items-center justify-center flex-shrink-0 transition-colors ${
                     isCompleted
                       ? 'bg-green-500 border-green-500 text-white'
@@ -315,12 +407,17 @@ export function DailyGoals({ userId }: DailyGoalsProps) {
                     {goal.title}
                   </p>
                   <div className="flex items-center gap-2">
-                    <Link
-                      to={`/roadmap/${goal.roadmapId}`}
-                      className="text-xs text-gray-500 hover:text-indigo-600 truncate"
-                    >
-                      {goal.milestoneTitle}
-                    </Link>
+                    {goal.roadmapId ? (
+                      <Link
+                        to={`/roadmap/${goal.roadmapId}`}
+                        className="text-xs text-gray-500 hover:text-indigo-600 truncate"
+                      >
+                        {careerFor(goal.roadmapId) && `${careerFor(goal.roadmapId)} · `}
+                        {goal.milestoneTitle}
+                      </Link>
+                    ) : (
+                      <span className="text-xs text-gray-500 truncate">{goal.milestoneTitle}</span>
+                    )}
                     {goal.isPartialTask && (
                       <span className="text-xs text-indigo-500 dark:text-indigo-400 flex-shrink-0">
                         (progress)
@@ -329,18 +426,109 @@ export function DailyGoals({ userId }: DailyGoalsProps) {
                   </div>
                 </div>
 
+                {/* Calendar block */}
+                {blockTimes[goal.id] ? (
+                  <span className="text-xs text-indigo-600 dark:text-indigo-400 flex-shrink-0">
+                    {new Date(blockTimes[goal.id]).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                ) : !isCompleted && (
+                  <button
+                    onClick={() => handleBlockTime(goal)}
+                    className="text-gray-400 hover:text-indigo-600 flex-shrink-0"
+                    title="Block time in your calendar"
+                    aria-label="Block time in your calendar"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                  </button>
+                )}
+
+                {/* Focus timer */}
+                {!isCompleted && (
+                  <button
+                    onClick={() => setTimerGoal(goal)}
+                    disabled={timerGoal !== null}
+                    className="text-gray-400 hover:text-indigo-600 disabled:opacity-40 flex-shrink-0"
+                    title="Start a focus session"
+                    aria-label="Start a focus session"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                  </button>
+                )}
+
+                {/* Actual versus planned time */}
+                {focusMinutes[goal.id] > 0 && (
+                  <span
+                    className={`text-xs flex-shrink-0 ${focusMinutes[goal.id] > goal.minutes ? 'text-orange-600 dark:text-orange-400' : 'text-gray-500'}`}
+                    title="Minutes focused / minutes planned"
+                  >
+                    {focusMinutes[goal.id]}/{goal.minutes} min
+                  </span>
+                )}
+
                 {/* Duration Badge */}
                 <span className={`px-2 py-0.5 text-xs rounded-full flex-shrink-0 ${getDurationColor(goal.duration)}`}>
-                  {goal.durationLabel}
+                  {getDurationLabel(goal.minutes)}
                 </span>
               </div>
             );
           })}
         </div>
 
-        <p className="text-xs text-gray-400 mt-3 text-center">
-          Pick a goal based on how much time you have today
-        </p>
+        <div className="flex items-center justify-between mt-3">
+          <p className="text-xs text-gray-400">
+            {budgetMinutes
+              ? `Sized to your ${formatStudyTime(budgetMinutes)} of study time today`
+              : 'Pick a goal based on how much time you have today'}
+          </p>
+          <div className="flex gap-3 flex-shrink-0 ml-2">
+            {planRoadmaps.length > 1 && (
+              <button
+                onClick={() => setShowPlanSettings(!showPlanSettings)}
+                className="text-xs text-indigo-600 hover:text-indigo-500"
+              >
+                {showPlanSettings ? 'Hide focus' : 'Focus'}
+              </button>
+            )}
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-xs text-indigo-600 hover:text-indigo-500"
+            >
+              {showHistory ? 'Hide history' : 'History'}
+            </button>
+          </div>
+        </div>
+
+        {showPlanSettings && (
+          <GoalPlanSettings
+            userId={userId}
+            roadmaps={planRoadmaps}
+            focusRoadmapId={focusRoadmapId}
+            onChange={(roadmaps, focusId) => {
+              setPlanRoadmaps(roadmaps);
+              setFocusRoadmapId(focusId);
+            }}
+            onReplanToday={completedCount === 0 ? handleReplanToday : undefined}
+          />
+        )}
+
+        {showHistory && (
+          <DailyGoalHistory userId={userId} today={getTodayDate()} longestStreak={streak.longest} />
+        )}
+
+        {timerGoal && (
+          <FocusTimer
+            title={timerGoal.title}
+            estimatedMinutes={timerGoal.minutes}
+            dailyGoalId={timerGoal.id}
+            subtaskId={timerGoal.sourceTaskId}
+            canComplete
+            onClose={handleTimerClose}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { Button, Card, CardContent } from './ui';
+import { finishStudySession, startStudySession } from '../lib/api';
+
+interface FocusTimerProps {
+  title: string;
+  estimatedMinutes?: number;
+  dailyGoalId?: string;
+  subtaskId?: string;
+  // Offer to finish the goal along with the session
+  canComplete?: boolean;
+  // null when the timer is closed before a session was started
+  onClose: (result: { focusMinutes: number; completed: boolean } | null) => void;
+}
+
+const FOCUS_MS = 25 * 60 * 1000;
+const BREAK_MS = 5 * 60 * 1000;
+
+interface TimerState {
+  phase: 'focus' | 'break';
+  isPaused: boolean;
+  segmentStartedAt: number; // when the timer last started running
+  phaseElapsedMs: number; // time in this phase before segmentStartedAt
+  focusMs: number; // focus time from finished pomodoros
+  pomodoros: number;
+  interruptions: number;
+  now: number;
+}
+
+function phaseLength(phase: TimerState['phase']): number {
+  return phase === 'focus' ? FOCUS_MS : BREAK_MS;
+}
+
+function phaseElapsed(timer: TimerState): number {
+  return timer.phaseElapsedMs + (timer.isPaused ? 0 : timer.now - timer.segmentStartedAt);
+}
+
+// Move to the break after each pomodoro and back to focus after the break
+function advance(timer: TimerState, now: number): TimerState {
+  const next = { ...timer, now };
+  if (next.isPaused || phaseElapsed(next) < phaseLength(next.phase)) return next;
+
+  const finishedFocus = next.phase === 'focus';
+  return {
+    ...next,
+    phase: finishedFocus ? 'break' : 'focus',
+    focusMs: finishedFocus ? next.focusMs + FOCUS_MS : next.focusMs,
+    pomodoros: finishedFocus ? next.pomodoros + 1 : next.pomodoros,
+    segmentStartedAt: now,
+    phaseElapsedMs: 0,
+  };
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${minutes}:${seconds}`;
+}
+
+export function FocusTimer({
+  title,
+  estimatedMinutes,
+  dailyGoalId,
+  subtaskId,
+  canComplete,
+  onClose,
+}: FocusTimerProps) {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [timer, setTimer] = useState<TimerState | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isRunning = timer !== null && !timer.isPaused;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setTimer((t) => (t ? advance(t, Date.now()) : t)), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const handleStart = async () => {
+    setIsBusy(true);
+    const { session, error } = await startStudySession({ dailyGoalId, subtaskId, title, estimatedMinutes });
+    setIsBusy(false);
+
+    if (error || !session) {
+      console.error('Error starting focus session:', error);
+      alert('Failed to start the focus session. Please try again.');
+      return;
+    }
+
+    const now = Date.now();
+    setSessionId(session.id);
+    setTimer({
+      phase: 'focus',
+      isPaused: false,
+      segmentStartedAt: now,
+      phaseElapsedMs: 0,
+      focusMs: 0,
+      pomodoros: 0,
+      interruptions: 0,
+      now,
+    });
+  };
+
+  const handlePause = () => {
+    if (!timer) return;
+    const now = Date.now();
+    setTimer({
+      ...timer,
+      now,
+      isPaused: true,
+      phaseElapsedMs: timer.phaseElapsedMs + now - timer.segmentStartedAt,
+      // Stepping away mid-pomodoro counts as an interruption
+      interruptions: timer.phase === 'focus' ? timer.interruptions + 1 : timer.interruptions,
+    });
+  };
+
+  const handleResume = () => {
+    if (!timer) return;
+    const now = Date.now();
+    setTimer({ ...timer, now, isPaused: false, segmentStartedAt: now });
+  };
+
+  const focusMinutesSoFar = (t: TimerState) =>
+    Math.round((t.focusMs + (t.phase === 'focus' ? phaseElapsed(t) : 0)) / 60000);
+
+  const handleFinish = async (completed: boolean) => {
+    if (!timer || !sessionId) {
+      onClose(null);
+      return;
+    }
+
+    const current = advance(timer, Date.now());
+    const focusMinutes = focusMinutesSoFar(current);
+
+    setIsBusy(true);
+    const { error } = await finishStudySession(sessionId, {
+      focusMinutes,
+      pomodoros: current.pomodoros,
+      interruptions: current.interruptions,
+    });
+    setIsBusy(false);
+
+    if (error) {
+      console.error('Error saving focus session:', error);
+      alert('Failed to save the focus session. Please try again.');
+      return;
+    }
+    onClose({ focusMinutes, completed });
+  };
+
+  const remaining = timer ? phaseLength(timer.phase) - phaseElapsed(timer) : FOCUS_MS;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)]">
+      <Card className="shadow-lg">
+        <CardContent>
+          <div className="flex items-start justify-between gap-2 mb-2">
+            <div className="min-w-0">
+              <p className="text-xs font-medium uppercase tracking-wide text-indigo-600 dark:text-indigo-400">
+                {!timer ? 'Focus session' : timer.phase === 'focus' ? 'Focus' : 'Break'}
+                {timer?.isPaused && ' · Paused'}
+              </p>
+              <p className="text-sm font-medium text-gray-900 dark:text-white truncate" title={title}>
+                {title}
+              </p>
+            </div>
+            {!timer && (
+              <button
+                onClick={() => onClose(null)}
+                className="text-gray-400 hover:text-gray-600 flex-shrink-0"
+                aria-label="Close"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+
+          <p className="text-4xl font-bold tabular-nums text-center text-gray-900 dark:text-white my-3">
+            {formatClock(remaining)}
+          </p>
+
+          {timer && (
+            <p className="text-xs text-center text-gray-500 dark:text-gray-400 mb-3">
+              Focused {focusMinutesSoFar(timer)}
+              {estimatedMinutes ? ` of ~${estimatedMinutes}` : ''} min
+              {' · '}{timer.pomodoros} pomodoro{timer.pomodoros === 1 ? '' : 's'}
+              {' · '}{timer.interruptions} interruption{timer.interruptions === 1 ? '' : 's'}
+            </p>
+          )}
+
+          <div className="flex flex-wrap justify-center gap-2">
+            {!timer ? (
+              <Button size="sm" onClick={handleStart} isLoading={isBusy}>
+                Start {FOCUS_MS / 60000}-minute focus
+              </Button>
+            ) : (
+              <>
+                {timer.isPaused ? (
+                  <Button size="sm" onClick={handleResume} disabled={isBusy}>
+                    Resume
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={handlePause} disabled={isBusy}>
+                    Pause
+                  </Button>
+                )}
+                <Button size="sm" variant="secondary" onClick={() => handleFinish(false)} disabled={isBusy}>
+                  End session
+                </Button>
+                {canComplete && (
+                  <Button size="sm" onClick={() => handleFinish(true)} disabled={isBusy}>
+                    Done with goal
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Button } from './ui';
+import { setFocusRoadmap, setRoadmapGoalWeight } from '../lib/api';
+import { GOAL_WEIGHTS, type GoalRoadmap } from '../lib/goalPlanner';
+
+interface GoalPlanSettingsProps {
+  userId: string;
+  roadmaps: GoalRoadmap[];
+  focusRoadmapId: string | null;
+  onChange: (roadmaps: GoalRoadmap[], focusRoadmapId: string | null) => void;
+  // Set when today's goals can still be planned again (none are done yet)
+  onReplanToday?: () => void;
+}
+
+export function GoalPlanSettings({
+  userId,
+  roadmaps,
+  focusRoadmapId,
+  onChange,
+  onReplanToday,
+}: GoalPlanSettingsProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleFocusChange = async (roadmapId: string | null) => {
+    setIsSaving(true);
+    const { error } = await setFocusRoadmap(userId, roadmapId);
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error saving focus roadmap:', error);
+      alert('Failed to save your focus. Please try again.');
+      return;
+    }
+    onChange(roadmaps, roadmapId);
+  };
+
+  const handleWeightChange = async (roadmapId: string, goalWeight: number) => {
+    setIsSaving(true);
+    const { error } = await setRoadmapGoalWeight(roadmapId, goalWeight);
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error saving roadmap weight:', error);
+      alert('Failed to save the roadmap weight. Please try again.');
+      return;
+    }
+    onChange(roadmaps.map((r) => (r.id === roadmapId ? { ...r, goalWeight } : r)), focusRoadmapId);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+      <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-1">Goals across roadmaps</h4>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        Focus on one roadmap, or balance goals between them by weight.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 mb-1">
+        <input
+          type="radio"
+          name="goal-focus"
+          checked={focusRoadmapId === null}
+          disabled={isSaving}
+          onChange={() => handleFocusChange(null)}
+        />
+        Balance all roadmaps
+      </label>
+
+      <ul className="space-y-1">
+        {roadmaps.map((roadmap) => (
+          <li key={roadmap.id} className="flex items-center gap-2">
+            <label className="flex flex-1 min-w-0 items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="goal-focus"
+                checked={focusRoadmapId === roadmap.id}
+                disabled={isSaving}
+                onChange={() => handleFocusChange(roadmap.id)}
+              />
+              <span className="truncate">Focus on {roadmap.targetCareer}</span>
+            </label>
+            <select
+              value={roadmap.goalWeight}
+              disabled={isSaving || focusRoadmapId !== null}
+              onChange={(e) => handleWeightChange(roadmap.id, Number(e.target.value))}
+              className="text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-1 py-0.5 disabled:opacity-50"
+              aria-label={`Share of goals for ${roadmap.targetCareer}`}
+            >
+              {GOAL_WEIGHTS.map((weight) => (
+                <option key={weight.value} value={weight.value}>
+                  {weight.label}
+                </option>
+              ))}
+            </select>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between mt-2">
+        <p className="text-xs text-gray-400">Changes apply to the next goals that are planned.</p>
+        {onReplanToday && (
+          <Button size="sm" variant="outline" onClick={onReplanToday} disabled={isSaving}>
+            Re-plan today
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
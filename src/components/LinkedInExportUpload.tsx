@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { importLinkedInExport } from '../lib/api';
+import type { ResumeImportResult } from '../lib/api';
+
+interface LinkedInExportUploadProps {
+  // Called before each import, to clear the results of the last one
+  onStart?: () => void;
+  // Return a message to show it under the upload, e.g. when nothing new was found
+  onImported: (result: ResumeImportResult) => string | void;
+}
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export function LinkedInExportUpload({ onStart, onImported }: LinkedInExportUploadProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    if (files.some((file) => !/\.(zip|csv)$/i.test(file.name))) {
+      setError('Please upload the ZIP file from LinkedIn, or CSV files from it.');
+      return;
+    }
+
+    if (files.reduce((total, file) => total + file.size, 0) > MAX_UPLOAD_BYTES) {
+      setError('Files must be less than 10MB in total. Upload Skills.csv, Positions.csv, Education.csv and Certifications.csv on their own instead.');
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    onStart?.();
+
+    try {
+      const result = await importLinkedInExport(files);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+
+      const message = onImported(result);
+      if (message) setError(message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className={`flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${isImporting ? 'border-gray-300 bg-gray-50 cursor-not-allowed' : 'border-indigo-300 dark:border-indigo-600 active:border-indigo-500 active:bg-indigo-50 dark:active:bg-indigo-900/20'}`}>
+        <input
+          type="file"
+          accept=".zip,.csv"
+          multiple
+          onChange={handleFileUpload}
+          disabled={isImporting}
+          className="hidden"
+        />
+        {isImporting ? (
+          <>
+            <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-indigo-600"></div>
+            <span className="text-gray-600 dark:text-gray-400">Reading LinkedIn export...</span>
+          </>
+        ) : (
+          <>
+            <svg className="w-5 h-5 text-indigo-600" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M16 8a6 6 0 016 6v7h-4v-7a2 2 0 00-2-2 2 2 0 00-2 2v7h-4v-7a6 6 0 016-6zM2 9h4v12H2z" />
+            </svg>
+            <span className="text-indigo-600 font-medium">Upload LinkedIn Export</span>
+          </>
+        )}
+      </label>
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
 import { useState } from 'react';
 import { Button, Card } from './ui';
+import { FocusTimer } from './FocusTimer';
 import type { Milestone, Subtask } from '../types';
-import { supabase } from '../lib/supabase';
+import { setSubtaskCompleted } from '../lib/api';
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round((minutes / 60) * 10) / 10;
+  return `${hours}h`;
+}
 
 interface MilestoneCardProps {
   milestone: Milestone;
   index: number;
   onStatusChange: (milestoneId: string, status: Milestone['status']) => void;
   onSubtaskToggle: (subtaskId: string, isCompleted: boolean) => void;
+  onSubtaskTimeLogged?: (subtaskId: string, minutes: number) => void;
   onGenerateSubtasks?: (milestoneId: string) => void;
   isGeneratingSubtasks?: boolean;
 }
@@ -17,15 +25,20 @@ export function MilestoneCard({
   index,
   onStatusChange,
   onSubtaskToggle,
+  onSubtaskTimeLogged,
   onGenerateSubtasks,
   isGeneratingSubtasks,
 }: MilestoneCardProps) {
   const [isExpanded, setIsExpanded] = useState(milestone.status === 'in_progress');
+  const [timerSubtask, setTimerSubtask] = useState<Subtask | null>(null);
 
   const subtasks = milestone.subtasks || [];
   const completedSubtasks = subtasks.filter((s) => s.isCompleted).length;
   const totalSubtasks = subtasks.length;
-  const subtaskProgress = totalSubtasks > 0 ? (completedSubtasks / totalSubtasks) * 100 : 0;
+  // Partly done tasks count towards the bar by their progress
+  const subtaskProgress = totalSubtasks > 0
+    ? (subtasks.reduce((sum, s) => sum + (s.isCompleted ? 1 : s.progress), 0) / totalSubtasks) * 100
+    : 0;
 
   const getStatusColor = (status: Milestone['status']) => {
     switch (status) {
@@ -49,18 +62,16 @@ export function MilestoneCard({
     }
   };
 
+  // Due dates are stored as YYYY-MM-DD; read them as local dates
+  const dueDate = milestone.dueDate ? new Date(`${milestone.dueDate}T00:00:00`) : null;
+  const isOverdue = dueDate !== null && milestone.status !== 'completed' && dueDate < new Date(new Date().toDateString());
+
   const handleSubtaskCheck = async (subtask: Subtask) => {
     const newIsCompleted = !subtask.isCompleted;
     onSubtaskToggle(subtask.id, newIsCompleted);
 
-    // Update in database
-    await supabase
-      .from('subtasks')
-      .update({
-        is_completed: newIsCompleted,
-        completed_at: newIsCompleted ? new Date().toISOString() : null,
-      })
-      .eq('id', subtask.id);
+    // Update in database. Unchecking reopens the task from the start.
+    await setSubtaskCompleted(subtask.id, newIsCompleted);
   };
 
   return (
@@ -104,6 +115,12 @@ export function MilestoneCard({
                 </span>
               </div>
             )}
+            {dueDate && (
+              <p className={`text-xs mt-0.5 ${isOverdue ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                {isOverdue ? 'Overdue · ' : 'Due '}
+                {dueDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+              </p>
+            )}
           </div>
 
           {/* Status Badge */}
@@ -187,7 +204,39 @@ export function MilestoneCard({
                             {subtask.description}
                           </p>
                         )}
+                        {(subtask.minutesSpent > 0 || (!subtask.isCompleted && subtask.progress > 0)) && (
+                          <p className="text-xs text-indigo-600 dark:text-indigo-400 mt-0.5" title={subtask.lastProgressNote}>
+                            {!subtask.isCompleted && subtask.progress > 0 && `${Math.round(subtask.progress * 100)}% done`}
+                            {!subtask.isCompleted && subtask.progress > 0 && subtask.minutesSpent > 0 && ' · '}
+                            {subtask.minutesSpent > 0 && `${formatMinutes(subtask.minutesSpent)} logged`}
+                            {subtask.minutesSpent > 0 && subtask.calibratedMinutes && ` of ~${formatMinutes(subtask.calibratedMinutes)}`}
+                          </p>
+                        )}
+                        {!subtask.isCompleted && subtask.minutesSpent === 0 && subtask.progress === 0 && subtask.calibratedMinutes && (
+                          <p
+                            className="text-xs text-gray-500 dark:text-gray-500 mt-0.5"
+                            title={subtask.estimatedMinutes ? `Typical estimate: ${formatMinutes(subtask.estimatedMinutes)}` : undefined}
+                          >
+                            About {formatMinutes(subtask.calibratedMinutes)} at your pace
+                          </p>
+                        )}
                       </div>
+                      {!subtask.isCompleted && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setTimerSubtask(subtask);
+                          }}
+                          disabled={timerSubtask !== null}
+                          className="text-gray-400 hover:text-indigo-600 disabled:opacity-40 flex-shrink-0 mt-0.5"
+                          title="Start a focus session"
+                          aria-label="Start a focus session"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                        </button>
+                      )}
                     </li>
                   ))}
               </ul>
@@ -283,6 +332,19 @@ export function MilestoneCard({
           </div>
         </div>
       </div>
+
+      {timerSubtask && (
+        <FocusTimer
+          title={timerSubtask.title}
+          subtaskId={timerSubtask.id}
+          onClose={(result) => {
+            if (result && result.focusMinutes > 0) {
+              onSubtaskTimeLogged?.(timerSubtask.id, result.focusMinutes);
+            }
+            setTimerSubtask(null);
+          }}
+        />
+      )}
     </Card>
   );
 }
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import type { DragEvent } from 'react';
+import { Card } from './ui';
+import type { Milestone } from '../types';
+import type { MilestoneChanges } from '../lib/api';
+
+interface MilestoneEditorProps {
+  milestone: Milestone;
+  index: number;
+  onChange: (milestoneId: string, changes: MilestoneChanges) => void;
+  onDelete: (milestoneId: string) => void;
+  onAddSubtask: (milestoneId: string, title: string) => void;
+  onRenameSubtask: (subtaskId: string, title: string) => void;
+  onDeleteSubtask: (subtaskId: string) => void;
+  onReorderSubtasks: (milestoneId: string, subtaskIds: string[]) => void;
+  // Milestone drag and drop is handled by the list
+  onDragStart: () => void;
+  onDragEnter: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+  isDragOver?: boolean;
+}
+
+// Drag data types keep milestone and subtask drags apart
+const MILESTONE_DRAG_TYPE = 'application/x-careerguide-milestone';
+const SUBTASK_DRAG_TYPE = 'application/x-careerguide-subtask';
+
+const inputClass =
+  'w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+function DragHandle({ onMouseDown }: { onMouseDown: () => void }) {
+  return (
+    <span
+      onMouseDown={onMouseDown}
+      onTouchStart={onMouseDown}
+      className="cursor-grab text-gray-400 hover:text-gray-600 flex-shrink-0 select-none"
+      title="Drag to reorder"
+    >
+      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+        <path d="M9 5a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zM9 10.5a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3zM9 16a1.5 1.5 0 110 3 1.5 1.5 0 010-3zm6 0a1.5 1.5 0 110 3 1.5 1.5 0 010-3z" />
+      </svg>
+    </span>
+  );
+}
+
+function DeleteButton({ onClick, label }: { onClick: () => void; label: string }) {
+  return (
+    <button
+      onClick={onClick}
+      className="text-gray-400 hover:text-red-600 flex-shrink-0"
+      title={label}
+      aria-label={label}
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+      </svg>
+    </button>
+  );
+}
+
+export function MilestoneEditor({
+  milestone,
+  index,
+  onChange,
+  onDelete,
+  onAddSubtask,
+  onRenameSubtask,
+  onDeleteSubtask,
+  onReorderSubtasks,
+  onDragStart,
+  onDragEnter,
+  onDrop,
+  onDragEnd,
+  isDragOver,
+}: MilestoneEditorProps) {
+  const [title, setTitle] = useState(milestone.title);
+  const [description, setDescription] = useState(milestone.description);
+  const [taskTitles, setTaskTitles] = useState<Record<string, string>>({});
+  const [newTask, setNewTask] = useState('');
+  // Only start a native drag from a handle, so text in the inputs can still be selected
+  const [dragSource, setDragSource] = useState<'milestone' | string | null>(null);
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [taskDropTarget, setTaskDropTarget] = useState<string | null>(null);
+
+  const subtasks = [...(milestone.subtasks || [])].sort((a, b) => a.orderIndex - b.orderIndex);
+
+  const commitTitle = () => {
+    const trimmed = title.trim();
+    if (!trimmed) {
+      setTitle(milestone.title);
+    } else if (trimmed !== milestone.title) {
+      onChange(milestone.id, { title: trimmed });
+    }
+  };
+
+  const commitDescription = () => {
+    if (description !== milestone.description) {
+      onChange(milestone.id, { description });
+    }
+  };
+
+  const commitTaskTitle = (subtaskId: string, original: string) => {
+    const draft = taskTitles[subtaskId];
+    if (draft === undefined) return;
+
+    const trimmed = draft.trim();
+    if (trimmed && trimmed !== original) {
+      onRenameSubtask(subtaskId, trimmed);
+    }
+    setTaskTitles((drafts) => {
+      const next = { ...drafts };
+      delete next[subtaskId];
+      return next;
+    });
+  };
+
+  const handleAddTask = () => {
+    const trimmed = newTask.trim();
+    if (!trimmed) return;
+    onAddSubtask(milestone.id, trimmed);
+    setNewTask('');
+  };
+
+  const handleTaskDrop = (e: DragEvent, targetId: string) => {
+    if (!draggingTaskId) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (draggingTaskId !== targetId) {
+      const ids = subtasks.map((s) => s.id);
+      ids.splice(ids.indexOf(draggingTaskId), 1);
+      ids.splice(subtasks.findIndex((s) => s.id === targetId), 0, draggingTaskId);
+      onReorderSubtasks(milestone.id, ids);
+    }
+
+    setDraggingTaskId(null);
+    setTaskDropTarget(null);
+  };
+
+  return (
+    <div
+      draggable={dragSource === 'milestone'}
+      onDragStart={(e) => {
+        if (dragSource !== 'milestone') return;
+        e.dataTransfer.setData(MILESTONE_DRAG_TYPE, milestone.id);
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart();
+      }}
+      onDragEnter={(e) => {
+        if (e.dataTransfer.types.includes(MILESTONE_DRAG_TYPE)) onDragEnter();
+      }}
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes(MILESTONE_DRAG_TYPE)) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        if (!e.dataTransfer.types.includes(MILESTONE_DRAG_TYPE)) return;
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={() => {
+        setDragSource(null);
+        onDragEnd();
+      }}
+      onMouseUp={() => setDragSource(null)}
+    >
+      <Card
+        variant="bordered"
+        className={`!p-0 ${isDragOver ? 'ring-2 ring-indigo-400' : ''}`}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3 px-3 py-2 border-b border-gray-100 dark:border-gray-700">
+          <DragHandle onMouseDown={() => setDragSource('milestone')} />
+          <div className="w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm flex-shrink-0 bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+            {index + 1}
+          </div>
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onBlur={commitTitle}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className={`${inputClass} text-sm font-semibold`}
+            aria-label="Milestone title"
+          />
+          <DeleteButton onClick={() => onDelete(milestone.id)} label="Delete milestone" />
+        </div>
+
+        <div className="px-3 pb-3 pt-2 space-y-3">
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            onBlur={commitDescription}
+            rows={2}
+            placeholder="Description"
+            className={`${inputClass} text-sm`}
+            aria-label="Milestone description"
+          />
+
+          <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+            Due date
+            <input
+              type="date"
+              value={milestone.dueDate || ''}
+              onChange={(e) => onChange(milestone.id, { dueDate: e.target.value || null })}
+              className={`${inputClass} !w-auto text-xs`}
+            />
+          </label>
+
+          {/* Subtasks */}
+          <div>
+            <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1.5">Tasks</h4>
+            <ul className="space-y-1.5">
+              {subtasks.map((subtask) => (
+                <li
+                  key={subtask.id}
+                  draggable={dragSource === subtask.id}
+                  onDragStart={(e) => {
+                    e.stopPropagation();
+                    e.dataTransfer.setData(SUBTASK_DRAG_TYPE, subtask.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggingTaskId(subtask.id);
+                  }}
+                  onDragOver={(e) => {
+                    if (!e.dataTransfer.types.includes(SUBTASK_DRAG_TYPE) || !draggingTaskId) return;
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setTaskDropTarget(subtask.id);
+                  }}
+                  onDrop={(e) => handleTaskDrop(e, subtask.id)}
+                  onDragEnd={(e) => {
+                    e.stopPropagation();
+                    setDragSource(null);
+                    setDraggingTaskId(null);
+                    setTaskDropTarget(null);
+                  }}
+                  className={`flex items-center gap-2 rounded ${
+                    taskDropTarget === subtask.id && draggingTaskId !== subtask.id ? 'ring-2 ring-indigo-300' : ''
+                  }`}
+                >
+                  <DragHandle onMouseDown={() => setDragSource(subtask.id)} />
+                  <input
+                    value={taskTitles[subtask.id] ?? subtask.title}
+                    onChange={(e) => setTaskTitles({ ...taskTitles, [subtask.id]: e.target.value })}
+                    onBlur={() => commitTaskTitle(subtask.id, subtask.title)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className={`${inputClass} text-sm ${subtask.isCompleted ? 'text-gray-400 line-through' : ''}`}
+                    aria-label="Task title"
+                  />
+                  <DeleteButton onClick={() => onDeleteSubtask(subtask.id)} label="Delete task" />
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                value={newTask}
+                onChange={(e) => setNewTask(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddTask()}
+                placeholder="Add a task and press Enter"
+                className={`${inputClass} text-sm`}
+                aria-label="New task"
+              />
+            </div>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
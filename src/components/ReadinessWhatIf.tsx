@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from './ui';
+import { getSkillTaxonomy, getUserSkills } from '../lib/api';
+import { EMPTY_TAXONOMY, scoreSkills } from '../lib/skillScoring';
+import type { ScoringUserSkill, TaxonomyIndex } from '../lib/skillScoring';
+import type { TargetRoleSkill } from '../types';
+import { PROFICIENCY_LABELS } from '../types';
+
+interface ReadinessWhatIfProps {
+  userId: string;
+  targetSkills: TargetRoleSkill[];
+}
+
+export function ReadinessWhatIf({ userId, targetSkills }: ReadinessWhatIfProps) {
+  const [userSkills, setUserSkills] = useState<ScoringUserSkill[] | null>(null);
+  const [taxonomy, setTaxonomy] = useState<TaxonomyIndex>(EMPTY_TAXONOMY);
+  // Levels the user is trying out, by required skill name
+  const [levels, setLevels] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    getUserSkills(userId).then(({ skills, error }) => {
+      if (error) {
+        console.error('Error loading skills:', error);
+      }
+      setUserSkills(skills);
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    getSkillTaxonomy().then(({ taxonomy: loaded, error }) => {
+      if (error) {
+        console.error('Error loading skill taxonomy:', error);
+      }
+      setTaxonomy(loaded);
+    });
+  }, []);
+
+  if (!userSkills || targetSkills.length === 0) return null;
+
+  const targets = targetSkills.map((t) => ({ skillName: t.skillName, requiredLevel: t.requiredLevel, priority: t.priority }));
+  const current = scoreSkills(userSkills, targets, taxonomy);
+
+  // A tried-out level stands in for the user's own rating of that exact skill
+  const tried = Object.keys(levels);
+  const whatIf = scoreSkills(
+    [
+      ...userSkills.filter((s) => !tried.some((name) => name.toLowerCase() === s.skillName.toLowerCase())),
+      ...tried.map((name) => ({ skillName: name, proficiencyLevel: levels[name] })),
+    ],
+    targets,
+    taxonomy
+  );
+
+  return (
+    <Card className="mb-4">
+      <CardContent>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="font-semibold text-gray-900 dark:text-white">What if?</h3>
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {current.readiness}%
+            {tried.length > 0 && (
+              <span className={whatIf.readiness >= current.readiness ? 'text-green-600' : 'text-red-600'}>
+                {' → '}{whatIf.readiness}%
+              </span>
+            )}
+          </span>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Try other levels to see how your readiness would change. Nothing is saved.
+        </p>
+
+        <div className="space-y-2">
+          {current.skills.map((skill) => (
+            <label key={skill.skillName} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-gray-900 dark:text-white truncate">
+                {skill.skillName}
+                <span className="text-xs text-gray-500 ml-1">needs {skill.requiredLevel}</span>
+              </span>
+              <select
+                value={levels[skill.skillName] ?? skill.currentLevel}
+                onChange={(e) => setLevels({ ...levels, [skill.skillName]: Number(e.target.value) })}
+                className="text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-1 py-1 flex-shrink-0"
+              >
+                {[0, 1, 2, 3, 4, 5].map((level) => (
+                  <option key={level} value={level}>
+                    {level === 0 ? 'None' : PROFICIENCY_LABELS[level]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {tried.length > 0 && (
+          <button
+            onClick={() => setLevels({})}
+            className="mt-3 text-xs text-indigo-600 hover:text-indigo-700"
+          >
+            Reset
+          </button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
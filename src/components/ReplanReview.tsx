@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Button, Card, CardContent } from './ui';
+import type { Milestone, ReplanMilestone, ReplanProposal } from '../types';
+
+interface ReplanReviewProps {
+  milestones: Milestone[];
+  proposal: ReplanProposal;
+  onAccept: () => void;
+  onDiscard: () => void;
+  onRevise: (feedback: string) => void;
+  isApplying?: boolean;
+  isRevising?: boolean;
+}
+
+type MilestoneChange =
+  | { kind: 'kept'; milestone: Milestone }
+  | { kind: 'updated'; milestone: Milestone; next: ReplanMilestone; addedTasks: string[]; removedTasks: string[] }
+  | { kind: 'added'; next: ReplanMilestone }
+  | { kind: 'removed'; milestone: Milestone; keptTasks: number };
+
+// Compare the proposal with the current milestones the same way apply_roadmap_replan applies it
+function diffProposal(milestones: Milestone[], proposal: ReplanProposal): MilestoneChange[] {
+  const changes: MilestoneChange[] = milestones
+    .filter((m) => m.status === 'completed')
+    .map((milestone) => ({ kind: 'kept', milestone }));
+
+  const referenced = new Set<string>();
+
+  for (const next of proposal.milestones) {
+    const milestone = next.id ? milestones.find((m) => m.id === next.id && m.status !== 'completed') : undefined;
+
+    if (!milestone) {
+      changes.push({ kind: 'added', next });
+      continue;
+    }
+
+    referenced.add(milestone.id);
+    const openTasks = (milestone.subtasks || []).filter((s) => !s.isCompleted).map((s) => s.title);
+    const nextTasks = next.subtasks.map((s) => s.title);
+
+    changes.push({
+      kind: 'updated',
+      milestone,
+      next,
+      addedTasks: nextTasks.filter((title) => !openTasks.includes(title)),
+      removedTasks: openTasks.filter((title) => !nextTasks.includes(title)),
+    });
+  }
+
+  for (const milestone of milestones) {
+    if (milestone.status === 'completed' || referenced.has(milestone.id)) continue;
+    const keptTasks = (milestone.subtasks || []).filter((s) => s.isCompleted).length;
+    changes.push({ kind: 'removed', milestone, keptTasks });
+  }
+
+  return changes;
+}
+
+const CHANGE_STYLES: Record<MilestoneChange['kind'], { label: string; className: string }> = {
+  kept: { label: 'Completed', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  updated: { label: 'Revised', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
+  added: { label: 'New', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+};
+
+export function ReplanReview({
+  milestones,
+  proposal,
+  onAccept,
+  onDiscard,
+  onRevise,
+  isApplying,
+  isRevising,
+}: ReplanReviewProps) {
+  const [feedback, setFeedback] = useState('');
+  const changes = diffProposal(milestones, proposal);
+
+  return (
+    <Card className="mb-8 border-2 border-indigo-200 dark:border-indigo-800">
+      <CardContent>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          Review Re-planned Roadmap
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{proposal.summary}</p>
+
+        {proposal.changes.length > 0 && (
+          <ul className="mb-4 space-y-1">
+            {proposal.changes.map((change, i) => (
+              <li key={i} className="text-sm text-gray-600 dark:text-gray-400 flex items-start gap-2">
+                <span className="text-indigo-500">•</span>
+                {change}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2 mb-4">
+          {changes.map((change, i) => {
+            const style = CHANGE_STYLES[change.kind];
+            const title = change.kind === 'added' ? change.next.title : change.milestone.title;
+
+            return (
+              <div
+                key={i}
+                className={`p-3 rounded-lg border border-gray-200 dark:border-gray-700 ${
+                  change.kind === 'kept' ? 'opacity-60' : ''
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={`px-1.5 py-0.5 text-xs rounded flex-shrink-0 ${style.className}`}>
+                    {style.label}
+                  </span>
+                  <span className={`text-sm font-medium text-gray-900 dark:text-white ${
+                    change.kind === 'removed' ? 'line-through' : ''
+                  }`}>
+                    {title}
+                  </span>
+                </div>
+
+                {change.kind === 'updated' && change.next.title !== change.milestone.title && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    Renamed to "{change.next.title}"
+                  </p>
+                )}
+
+                {change.kind === 'updated' && (
+                  <ul className="mt-1 space-y-0.5 text-xs">
+                    {change.addedTasks.map((task) => (
+                      <li key={`+${task}`} className="text-green-700 dark:text-green-400">+ {task}</li>
+                    ))}
+                    {change.removedTasks.map((task) => (
+                      <li key={`-${task}`} className="text-red-700 dark:text-red-400 line-through">- {task}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {change.kind === 'added' && (
+                  <ul className="mt-1 space-y-0.5 text-xs">
+                    {change.next.subtasks.map((task, j) => (
+                      <li key={j} className="text-green-700 dark:text-green-400">+ {task.title}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {change.kind === 'removed' && change.keptTasks > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Kept with its {change.keptTasks} completed {change.keptTasks === 1 ? 'task' : 'tasks'}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 mb-3">
+          <input
+            type="text"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            placeholder="Not quite right? Tell the planner what to change"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRevise(feedback)}
+            isLoading={isRevising}
+            disabled={!feedback.trim() || isApplying}
+          >
+            Revise
+          </Button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onDiscard} disabled={isApplying || isRevising}>
+            Discard
+          </Button>
+          <Button onClick={onAccept} isLoading={isApplying} disabled={isRevising}>
+            Accept Plan
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Button, Card, CardContent } from './ui';
+import type { ImportSource, OnboardingData, ResumeProfile } from '../types';
+import { EDUCATION_LABELS } from '../types';
+
+type ProfileDetails = Pick<OnboardingData, 'currentJob' | 'yearsExperience' | 'education'>;
+
+interface ResumeProfileReviewProps {
+  profile: ResumeProfile;
+  source?: ImportSource;
+  current: ProfileDetails | null; // the user's profile today, null before onboarding
+  onSave: (details: Partial<ProfileDetails>) => void;
+  onDiscard: () => void;
+  isSaving?: boolean;
+}
+
+// "2021-03-01" as "Mar 2021"
+function formatMonth(date: string | null): string {
+  if (!date) return '?';
+  const [year, month] = date.split('-').map(Number);
+  return new Date(year, month - 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+}
+
+function educationLabel(value: string): string {
+  return EDUCATION_LABELS[value as keyof typeof EDUCATION_LABELS] ?? value;
+}
+
+export function ResumeProfileReview({ profile, source = 'pdf', current, onSave, onDiscard, isSaving }: ResumeProfileReviewProps) {
+  const { suggested } = profile;
+
+  // Only details the resume changes are offered; education adds to what the user already listed
+  const education = [...new Set([...(current?.education ?? []), ...suggested.education])];
+  const changes: { key: keyof ProfileDetails; label: string; from: string; to: string; value: ProfileDetails[keyof ProfileDetails] }[] = [];
+  if (suggested.currentJob && suggested.currentJob !== current?.currentJob) {
+    changes.push({ key: 'currentJob', label: 'Current job', from: current?.currentJob || 'Not set', to: suggested.currentJob, value: suggested.currentJob });
+  }
+  if (suggested.yearsExperience !== null && suggested.yearsExperience !== current?.yearsExperience) {
+    changes.push({
+      key: 'yearsExperience',
+      label: 'Years of experience',
+      from: current ? String(current.yearsExperience) : 'Not set',
+      to: String(suggested.yearsExperience),
+      value: suggested.yearsExperience,
+    });
+  }
+  if (education.length > (current?.education.length ?? 0)) {
+    changes.push({
+      key: 'education',
+      label: 'Education',
+      from: current?.education.length ? current.education.map(educationLabel).join(', ') : 'Not set',
+      to: education.map(educationLabel).join(', '),
+      value: education,
+    });
+  }
+
+  const [selected, setSelected] = useState<Set<keyof ProfileDetails>>(() => new Set(changes.map((c) => c.key)));
+
+  const toggle = (key: keyof ProfileDetails) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setSelected(next);
+  };
+
+  const handleSave = () => {
+    onSave(Object.fromEntries(changes.filter((c) => selected.has(c.key)).map((c) => [c.key, c.value])));
+  };
+
+  return (
+    <Card className="mb-6 border-2 border-indigo-200 dark:border-indigo-800">
+      <CardContent>
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-1">
+          {source === 'linkedin' ? 'Work History from LinkedIn' : 'Work History from Your Resume'}
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Saved work history is used when your roadmaps are generated. Importing again replaces it.
+        </p>
+
+        {changes.length > 0 && (
+          <div className="mb-4 space-y-2">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Update your profile</p>
+            {changes.map((change) => (
+              <label key={change.key} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected.has(change.key)}
+                  onChange={() => toggle(change.key)}
+                  className="mt-0.5 rounded border-gray-300 text-indigo-600 flex-shrink-0"
+                />
+                <span className="text-gray-900 dark:text-white">
+                  {change.label}:{' '}
+                  <span className="text-gray-500 line-through">{change.from}</span>
+                  {' → '}
+                  <span className="font-medium">{change.to}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {profile.positions.length > 0 && (
+          <div className="mb-3">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Positions</p>
+            <ul className="space-y-1">
+              {profile.positions.map((position, i) => (
+                <li key={i} className="text-sm text-gray-900 dark:text-white">
+                  {position.title}
+                  {position.company && <span className="text-gray-600 dark:text-gray-400"> at {position.company}</span>}
+                  <span className="text-xs text-gray-500 ml-1">
+                    {formatMonth(position.startDate)} – {position.isCurrent ? 'Present' : formatMonth(position.endDate)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {profile.education.length > 0 && (
+          <div className="mb-3">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Education</p>
+            <ul className="space-y-1">
+              {profile.education.map((entry, i) => (
+                <li key={i} className="text-sm text-gray-900 dark:text-white">
+                  {[entry.degree, entry.fieldOfStudy].filter(Boolean).join(', ') || (entry.level && educationLabel(entry.level))}
+                  <span className="text-gray-600 dark:text-gray-400"> {entry.degree || entry.level ? '· ' : ''}{entry.institution}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {profile.certifications.length > 0 && (
+          <div className="mb-3">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Certifications</p>
+            <ul className="space-y-1">
+              {profile.certifications.map((certification, i) => (
+                <li key={i} className="text-sm text-gray-900 dark:text-white">
+                  {certification.name}
+                  {certification.issuer && <span className="text-gray-600 dark:text-gray-400"> · {certification.issuer}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-4">
+          <Button onClick={handleSave} isLoading={isSaving}>
+            Save to Profile
+          </Button>
+          <Button variant="outline" onClick={onDiscard} disabled={isSaving}>
+            Discard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { Button } from './ui';
+import { importResume } from '../lib/api';
+import type { ResumeImportResult, ResumeInput } from '../lib/api';
+import { MAX_OCR_PAGES, ocrPdfPages } from '../lib/ocr';
+
+interface ResumeUploadProps {
+  // Called before each import, to clear the results of the last one
+  onStart?: () => void;
+  // Return a message to show it under the upload, e.g. when nothing new was found
+  onImported: (result: ResumeImportResult) => string | void;
+}
+
+const RESUME_EXTENSIONS = ['pdf', 'docx', 'txt', 'md'];
+
+export function ResumeUpload({ onStart, onImported }: ResumeUploadProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<{ done: number; total: number } | null>(null);
+  // Scanned pages of the last imported PDF that were not read
+  const [skippedPages, setSkippedPages] = useState<{ file: File; pages: number[] } | null>(null);
+  const [showPaste, setShowPaste] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+
+  const readScannedPages = (file: File, pages: number[]) => {
+    setOcrProgress({ done: 0, total: Math.min(pages.length, MAX_OCR_PAGES) });
+    return ocrPdfPages(file, pages, (done, total) => setOcrProgress({ done, total }));
+  };
+
+  // Scanned PDF pages are read in the browser and the file is sent again with their text
+  const runImport = async (input: ResumeInput, scannedPages: number[] = []) => {
+    setIsImporting(true);
+    setError(null);
+    setSkippedPages(null);
+    onStart?.();
+
+    try {
+      let ocrPages: Record<number, string> | undefined;
+      if ('file' in input && scannedPages.length > 0) {
+        ocrPages = await readScannedPages(input.file, scannedPages);
+      }
+
+      let result = await importResume(input, ocrPages);
+      if (result.needsOcr && 'file' in input) {
+        result = await importResume(input, await readScannedPages(input.file, result.imagePages));
+      }
+
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+
+      if ('file' in input && result.imagePages.length > 0) {
+        setSkippedPages({ file: input.file, pages: result.imagePages });
+      }
+
+      const message = onImported(result);
+      if (message) {
+        setError(message);
+      } else {
+        setPastedText('');
+        setShowPaste(false);
+      }
+    } catch (err) {
+      console.error('Error reading scanned pages:', err);
+      setError('Could not read the scanned pages. Try a text-based PDF or paste your resume instead.');
+    } finally {
+      setIsImporting(false);
+      setOcrProgress(null);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const extension = file.name.toLowerCase().split('.').pop() ?? '';
+    if (!RESUME_EXTENSIONS.includes(extension)) {
+      setError('Please upload a PDF, Word (.docx), text or Markdown file.');
+      return;
+    }
+
+    if (file.size > 10 * 1024 * 1024) {
+      setError('File size must be less than 10MB.');
+      return;
+    }
+
+    await runImport({ file });
+  };
+
+  const handlePasteImport = async () => {
+    if (pastedText.trim().length < 50) {
+      setError('Paste at least a few lines of your resume.');
+      return;
+    }
+    await runImport({ text: pastedText });
+  };
+
+  return (
+    <div>
+      <label className={`flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${isImporting ? 'border-gray-300 bg-gray-50 cursor-not-allowed' : 'border-indigo-300 dark:border-indigo-600 active:border-indigo-500 active:bg-indigo-50 dark:active:bg-indigo-900/20'}`}>
+        <input
+          type="file"
+          accept=".pdf,.docx,.txt,.md"
+          onChange={handleFileUpload}
+          disabled={isImporting}
+          className="hidden"
+        />
+        {isImporting ? (
+          <>
+            <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-indigo-600"></div>
+            <span className="text-gray-600 dark:text-gray-400">
+              {ocrProgress
+                ? `Reading scanned pages (${ocrProgress.done}/${ocrProgress.total})...`
+                : 'Processing resume...'}
+            </span>
+          </>
+        ) : (
+          <>
+            <svg className="w-5 h-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            <span className="text-indigo-600 font-medium">Upload Resume</span>
+          </>
+        )}
+      </label>
+
+      {showPaste ? (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            rows={8}
+            placeholder="Paste your resume text here"
+            disabled={isImporting}
+            className="w-full px-3 py-2 rounded-lg border bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-sm text-gray-900 dark:text-white"
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handlePasteImport} disabled={isImporting || !pastedText.trim()}>
+              Import Text
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setShowPaste(false)} disabled={isImporting}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowPaste(true)}
+          disabled={isImporting}
+          className="mt-2 text-xs text-indigo-600 hover:text-indigo-700"
+        >
+          Or paste your resume as text
+        </button>
+      )}
+
+      {skippedPages && !isImporting && (
+        <div className="mt-3 p-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+          <p className="text-sm text-amber-700 dark:text-amber-400">
+            {skippedPages.pages.length === 1
+              ? `Page ${skippedPages.pages[0]} is a scanned image and was not read.`
+              : `Pages ${skippedPages.pages.join(', ')} are scanned images and were not read.`}
+          </p>
+          <button
+            onClick={() => runImport({ file: skippedPages.file }, skippedPages.pages)}
+            className="mt-1 text-xs text-indigo-600 hover:text-indigo-700"
+          >
+            Read them and import again
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
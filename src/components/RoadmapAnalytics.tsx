@@ -0,0 +1,291 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent } from './ui';
+import { getSkillGapSnapshots } from '../lib/api';
+import { computeRoadmapProgress } from '../lib/analytics';
+import { formatDate } from '../lib/scheduler';
+import type { Milestone } from '../types';
+
+interface RoadmapAnalyticsProps {
+  roadmapId: string;
+  milestones: Milestone[];
+  targetDate?: string | null;
+  createdAt: string;
+}
+
+interface ReadinessPoint {
+  readiness: number;
+  analyzedAt: string;
+}
+
+// SVG chart area, scaled to the card width
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDay = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatWeek = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+function dayNumber(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime() / DAY_MS;
+}
+
+// Map days and values onto the chart area
+function makeScale(firstDay: string, lastDay: string, maxValue: number) {
+  const from = dayNumber(firstDay);
+  const span = Math.max(1, dayNumber(lastDay) - from);
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  return {
+    x: (date: string) => CHART_PADDING + ((dayNumber(date) - from) / span) * plotWidth,
+    y: (value: number) => CHART_HEIGHT - CHART_PADDING - (value / Math.max(1, maxValue)) * plotHeight,
+  };
+}
+
+function toPath(points: Array<[number, number]>): string {
+  return points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+}
+
+function Legend({ items }: { items: Array<{ label: string; className: string; dashed?: boolean }> }) {
+  return (
+    <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
+      {items.map((item) => (
+        <span key={item.label} className="flex items-center gap-1">
+          <svg width="16" height="4" className={item.className}>
+            <line x1="0" y1="2" x2="16" y2="2" stroke="currentColor" strokeWidth={2} strokeDasharray={item.dashed ? '4 2' : undefined} />
+          </svg>
+          {item.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function RoadmapAnalytics({ roadmapId, milestones, targetDate, createdAt }: RoadmapAnalyticsProps) {
+  const [readiness, setReadiness] = useState<ReadinessPoint[]>([]);
+
+  useEffect(() => {
+    getSkillGapSnapshots(roadmapId).then(({ snapshots, error }) => {
+      if (error) {
+        console.error('Error loading readiness history:', error);
+      }
+      setReadiness(snapshots.map((s) => ({ readiness: s.overallReadiness, analyzedAt: s.analyzedAt })));
+    });
+  }, [roadmapId]);
+
+  const today = formatDate(new Date());
+  const subtasks = milestones.flatMap((m) => m.subtasks || []);
+  const progress = computeRoadmapProgress(subtasks, createdAt, today);
+  const { burndown, velocity, remaining, averageVelocity, projectedFinish } = progress;
+
+  if (subtasks.length === 0) {
+    return (
+      <Card>
+        <CardContent>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Break your milestones into subtasks to track progress over time.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Burndown runs from the roadmap's first day to the target or projected finish, whichever is later
+  const firstDay = burndown[0].date;
+  const lastDay = [today, targetDate, projectedFinish].filter((d): d is string => !!d).sort().pop()!;
+  // Subtasks are only ever added over time, so the full scope is today's count
+  const scope = subtasks.length;
+  const scale = makeScale(firstDay, lastDay, scope);
+
+  const actualPath = toPath(burndown.map((p): [number, number] => [scale.x(p.date), scale.y(p.remaining)]));
+  // Guideline from the full scope down to zero on the target date
+  const idealPath = targetDate
+    ? toPath([[scale.x(firstDay), scale.y(scope)], [scale.x(targetDate), scale.y(0)]])
+    : null;
+  const projectionPath = projectedFinish
+    ? toPath([[scale.x(today), scale.y(remaining)], [scale.x(projectedFinish), scale.y(0)]])
+    : null;
+
+  const isBehind = !!(targetDate && remaining > 0 && (!projectedFinish || projectedFinish > targetDate));
+  const maxVelocity = Math.max(1, ...velocity.map((w) => w.completed));
+
+  const readinessScale =
+    readiness.length > 0
+      ? makeScale(
+          formatDate(new Date(readiness[0].analyzedAt)),
+          formatDate(new Date(readiness[readiness.length - 1].analyzedAt)),
+          100
+        )
+      : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4">
+        <Card>
+          <CardContent>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{remaining}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">of {subtasks.length} subtasks left</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">
+              {averageVelocity.toFixed(averageVelocity < 10 ? 1 : 0)}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">subtasks per week lately</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent>
+            <p className={`text-lg font-bold ${isBehind ? 'text-yellow-600' : 'text-gray-900 dark:text-white'}`}>
+              {remaining === 0 ? 'Done' : projectedFinish ? formatDay(projectedFinish) : 'No pace yet'}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {remaining === 0
+                ? 'every subtask is finished'
+                : targetDate
+                  ? `projected finish · target ${formatDay(targetDate)}`
+                  : 'projected finish'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Burndown</h3>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Remaining subtasks over time">
+            <line
+              x1={CHART_PADDING}
+              y1={scale.y(0)}
+              x2={CHART_WIDTH - CHART_PADDING}
+              y2={scale.y(0)}
+              className="text-gray-200 dark:text-gray-700"
+              stroke="currentColor"
+            />
+            {targetDate && (
+              <line
+                x1={scale.x(targetDate)}
+                y1={CHART_PADDING}
+                x2={scale.x(targetDate)}
+                y2={scale.y(0)}
+                className="text-red-300"
+                stroke="currentColor"
+                strokeDasharray="2 3"
+              />
+            )}
+            {idealPath && (
+              <path d={idealPath} fill="none" className="text-gray-400" stroke="currentColor" strokeWidth={1.5} strokeDasharray="6 4" />
+            )}
+            {projectionPath && (
+              <path d={projectionPath} fill="none" className="text-indigo-300" stroke="currentColor" strokeWidth={2} strokeDasharray="4 3" />
+            )}
+            <path d={actualPath} fill="none" className="text-indigo-600" stroke="currentColor" strokeWidth={2.5} />
+            <text x={CHART_PADDING} y={CHART_HEIGHT - 6} className="fill-gray-400 text-[11px]">
+              {formatWeek(firstDay)}
+            </text>
+            <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-gray-400 text-[11px]">
+              {formatWeek(lastDay)}
+            </text>
+            <text x={CHART_PADDING} y={CHART_PADDING - 8} className="fill-gray-400 text-[11px]">
+              {scope}
+            </text>
+          </svg>
+          <Legend
+            items={[
+              { label: 'Remaining', className: 'text-indigo-600' },
+              ...(projectionPath ? [{ label: 'At current pace', className: 'text-indigo-300', dashed: true }] : []),
+              ...(idealPath ? [{ label: 'On schedule for target', className: 'text-gray-400', dashed: true }] : []),
+            ]}
+          />
+          {!targetDate && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Set a target date to compare your progress with the schedule.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Weekly velocity</h3>
+          <div className="flex items-end gap-2 h-32">
+            {velocity.map((week) => (
+              <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full">
+                <span className="text-xs text-gray-600 dark:text-gray-400 mb-1">{week.completed}</span>
+                <div
+                  className="w-full rounded-t bg-indigo-500"
+                  style={{ height: `${(week.completed / maxVelocity) * 100}%`, minHeight: week.completed > 0 ? 2 : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-1">
+            {velocity.map((week) => (
+              <span key={week.weekStart} className="flex-1 text-center text-[10px] text-gray-400">
+                {formatWeek(week.weekStart)}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Role readiness</h3>
+          {!readinessScale ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Run the skill gap analysis to start tracking your readiness.
+            </p>
+          ) : (
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Readiness over time">
+              {[0, 50, 100].map((value) => (
+                <g key={value}>
+                  <line
+                    x1={CHART_PADDING}
+                    y1={readinessScale.y(value)}
+                    x2={CHART_WIDTH - CHART_PADDING}
+                    y2={readinessScale.y(value)}
+                    className="text-gray-200 dark:text-gray-700"
+                    stroke="currentColor"
+                  />
+                  <text x={2} y={readinessScale.y(value) + 4} className="fill-gray-400 text-[11px]">
+                    {value}
+                  </text>
+                </g>
+              ))}
+              <path
+                d={toPath(
+                  readiness.map((r): [number, number] => [
+                    readinessScale.x(formatDate(new Date(r.analyzedAt))),
+                    readinessScale.y(r.readiness),
+                  ])
+                )}
+                fill="none"
+                className="text-green-600"
+                stroke="currentColor"
+                strokeWidth={2.5}
+              />
+              {readiness.map((r, i) => (
+                <circle
+                  key={i}
+                  cx={readinessScale.x(formatDate(new Date(r.analyzedAt)))}
+                  cy={readinessScale.y(r.readiness)}
+                  r={4}
+                  className="fill-green-600"
+                >
+                  <title>{`${r.readiness}% on ${formatDay(formatDate(new Date(r.analyzedAt)))}`}</title>
+                </circle>
+              ))}
+            </svg>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button, Card, CardContent } from './ui';
+import { getRoadmapVersions, restoreRoadmapVersion } from '../lib/api';
+import type { RoadmapSnapshot, RoadmapVersion } from '../types';
+
+interface RoadmapHistoryProps {
+  roadmapId: string;
+  onRestored: () => void;
+}
+
+type SnapshotMilestone = RoadmapSnapshot['milestones'][number];
+
+interface MilestoneDiff {
+  kind: 'added' | 'removed' | 'changed' | 'unchanged';
+  title: string;
+  details: string[];
+}
+
+const REASON_LABELS: Record<RoadmapVersion['reason'], string> = {
+  initial: 'Original roadmap',
+  generated: 'Generated',
+  replan: 'Re-planned',
+  edit: 'Edited',
+  checkpoint: 'Before change',
+  restore: 'Restored',
+};
+
+const DIFF_STYLES: Record<MilestoneDiff['kind'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  changed: { label: 'Changed', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
+  unchanged: { label: 'Same', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+// Describe what changed in one milestone between two versions
+function describeChanges(from: SnapshotMilestone, to: SnapshotMilestone): string[] {
+  const details: string[] = [];
+
+  if (from.title !== to.title) details.push(`Renamed from "${from.title}"`);
+  if ((from.description || '') !== (to.description || '')) details.push('Description changed');
+  if (from.status !== to.status) details.push(`Status ${from.status.replace('_', ' ')} → ${to.status.replace('_', ' ')}`);
+  if (from.due_date !== to.due_date) details.push(`Due date ${from.due_date || 'none'} → ${to.due_date || 'none'}`);
+
+  const fromTasks = new Map(from.subtasks.map((s) => [s.id, s]));
+  const toTasks = new Map(to.subtasks.map((s) => [s.id, s]));
+  const added = to.subtasks.filter((s) => !fromTasks.has(s.id)).length;
+  const removed = from.subtasks.filter((s) => !toTasks.has(s.id)).length;
+  const completed = to.subtasks.filter((s) => s.is_completed && fromTasks.get(s.id)?.is_completed === false).length;
+  const renamed = to.subtasks.filter((s) => {
+    const before = fromTasks.get(s.id);
+    return before && before.title !== s.title;
+  }).length;
+
+  if (added > 0) details.push(`${added} ${added === 1 ? 'task' : 'tasks'} added`);
+  if (removed > 0) details.push(`${removed} ${removed === 1 ? 'task' : 'tasks'} removed`);
+  if (renamed > 0) details.push(`${renamed} ${renamed === 1 ? 'task' : 'tasks'} renamed`);
+  if (completed > 0) details.push(`${completed} ${completed === 1 ? 'task' : 'tasks'} completed`);
+
+  return details;
+}
+
+// Milestone-level diff, in the order of the newer version with removed milestones last
+function diffSnapshots(from: RoadmapSnapshot, to: RoadmapSnapshot): MilestoneDiff[] {
+  const fromById = new Map(from.milestones.map((m) => [m.id, m]));
+  const toIds = new Set(to.milestones.map((m) => m.id));
+
+  const diffs: MilestoneDiff[] = to.milestones.map((milestone) => {
+    const before = fromById.get(milestone.id);
+    if (!before) {
+      return { kind: 'added', title: milestone.title, details: [`${milestone.subtasks.length} tasks`] };
+    }
+
+    const details = describeChanges(before, milestone);
+    if (before.order_index !== milestone.order_index && details.length === 0) {
+      details.push('Moved');
+    }
+    return { kind: details.length > 0 ? 'changed' : 'unchanged', title: milestone.title, details };
+  });
+
+  for (const milestone of from.milestones) {
+    if (!toIds.has(milestone.id)) {
+      diffs.push({ kind: 'removed', title: milestone.title, details: [] });
+    }
+  }
+
+  return diffs;
+}
+
+export function RoadmapHistory({ roadmapId, onRestored }: RoadmapHistoryProps) {
+  const [versions, setVersions] = useState<RoadmapVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+
+    const { versions: loaded, error } = await getRoadmapVersions(roadmapId);
+
+    if (error) {
+      console.error('Error loading roadmap versions:', error);
+    }
+
+    setVersions(loaded);
+    // Default to comparing the latest version with the one before it
+    setToId(loaded[0]?.id ?? null);
+    setFromId(loaded[1]?.id ?? null);
+    setIsLoading(false);
+  }, [roadmapId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleRestore = async (version: RoadmapVersion) => {
+    if (!confirm(`Restore version ${version.versionNumber}? Your current roadmap will be kept in the history.`)) {
+      return;
+    }
+
+    setRestoringId(version.id);
+
+    try {
+      const { error } = await restoreRoadmapVersion(version.id);
+      if (error) throw error;
+
+      await loadVersions();
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      alert('Failed to restore this version. Please try again.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent>
+          <div className="animate-pulse space-y-3">
+            <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-1/3"></div>
+            <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8">
+          <p className="text-gray-500 dark:text-gray-400">
+            No history yet. A version is saved every time this roadmap is regenerated, re-planned or edited.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const fromVersion = versions.find((v) => v.id === fromId);
+  const toVersion = versions.find((v) => v.id === toId);
+  const diffs = fromVersion && toVersion ? diffSnapshots(fromVersion.snapshot, toVersion.snapshot) : [];
+  const latestId = versions[0].id;
+
+  const versionOptions = versions.map((v) => (
+    <option key={v.id} value={v.id}>
+      v{v.versionNumber} · {REASON_LABELS[v.reason]} · {new Date(v.createdAt).toLocaleDateString()}
+    </option>
+  ));
+
+  return (
+    <div className="space-y-6">
+      {/* Version list */}
+      <Card>
+        <CardContent>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Versions</h3>
+          <div className="space-y-2">
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className="flex items-center justify-between py-2 border-b border-gray-100 dark:border-gray-700 last:border-0"
+              >
+                <div>
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">
+                    Version {version.versionNumber}
+                  </span>
+                  <span className="text-sm text-gray-500 dark:text-gray-400 ml-2">
+                    {REASON_LABELS[version.reason]}
+                    {version.restoredFromVersion && ` from v${version.restoredFromVersion}`}
+                  </span>
+                  <p className="text-xs text-gray-400">
+                    {new Date(version.createdAt).toLocaleString()} · {version.snapshot.milestones.length} milestones
+                  </p>
+                </div>
+                {version.id === latestId ? (
+                  <span className="text-xs text-indigo-600 font-medium">Current</span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(version)}
+                    isLoading={restoringId === version.id}
+                    disabled={restoringId !== null}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Diff between two versions */}
+      {versions.length > 1 && (
+        <Card>
+          <CardContent>
+            <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Compare Versions</h3>
+            <div className="flex flex-col sm:flex-row gap-2 mb-4">
+              <select
+                value={fromId ?? ''}
+                onChange={(e) => setFromId(e.target.value)}
+                className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              >
+                {versionOptions}
+              </select>
+              <span className="self-center text-gray-400">→</span>
+              <select
+                value={toId ?? ''}
+                onChange={(e) => setToId(e.target.value)}
+                className="flex-1 px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              >
+                {versionOptions}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              {diffs.map((diff, i) => (
+                <div key={i} className="flex items-start gap-2 text-sm">
+                  <span className={`px-1.5 py-0.5 text-xs rounded flex-shrink-0 ${DIFF_STYLES[diff.kind].className}`}>
+                    {DIFF_STYLES[diff.kind].label}
+                  </span>
+                  <div className="min-w-0">
+                    <span className={`text-gray-900 dark:text-white ${diff.kind === 'removed' ? 'line-through' : ''}`}>
+                      {diff.title}
+                    </span>
+                    {diff.details.length > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{diff.details.join(' · ')}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
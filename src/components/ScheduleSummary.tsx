@@ -0,0 +1,72 @@
+import { Button, Card, CardContent } from './ui';
+import type { RoadmapSchedule, ScheduleStatus } from '../lib/scheduler';
+
+interface ScheduleSummaryProps {
+  schedule: RoadmapSchedule;
+  targetDate?: string | null;
+  hoursPerWeek: number;
+  onSchedule: () => void;
+  isScheduling?: boolean;
+}
+
+const STATUS_STYLES: Record<ScheduleStatus, { label: string; className: string }> = {
+  on_track: { label: 'On track', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  at_risk: { label: 'At risk', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+  infeasible: { label: 'Not feasible', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+};
+
+const formatDay = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export function ScheduleSummary({
+  schedule,
+  targetDate,
+  hoursPerWeek,
+  onSchedule,
+  isScheduling,
+}: ScheduleSummaryProps) {
+  const style = schedule.status ? STATUS_STYLES[schedule.status] : null;
+  const hoursLeft = Math.round(schedule.remainingHours);
+
+  return (
+    <Card className="mb-8">
+      <CardContent>
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Schedule</h2>
+            {style && (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>
+                {style.label}
+              </span>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={onSchedule} isLoading={isScheduling}>
+            Schedule Due Dates
+          </Button>
+        </div>
+
+        <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+          <p>
+            About {hoursLeft} hours of work left at {hoursPerWeek} hours per week
+            {schedule.projectedFinish && <> · projected finish {formatDay(schedule.projectedFinish)}</>}
+          </p>
+          {targetDate ? (
+            <p>
+              Target date {formatDay(targetDate)}
+              {schedule.requiredHoursPerWeek !== null && schedule.status !== 'on_track' && (
+                <> · needs about {Math.ceil(schedule.requiredHoursPerWeek)} hours per week to finish on time</>
+              )}
+            </p>
+          ) : (
+            <p>No target date set.</p>
+          )}
+          {schedule.overdueCount > 0 && (
+            <p className="text-red-600 dark:text-red-400">
+              {schedule.overdueCount} {schedule.overdueCount === 1 ? 'milestone is' : 'milestones are'} past due
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
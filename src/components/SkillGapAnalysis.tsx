@@ -1,4 +1,5 @@
 import { Button, Card, CardContent } from './ui';
+import { SkillGapTrend } from './SkillGapTrend';
 import type { SkillGapAnalysis as SkillGapAnalysisType, SkillGap } from '../types';
 import { PROFICIENCY_LABELS } from '../types';
 
@@ -94,6 +95,8 @@ export function SkillGapAnalysis({
               Refresh Analysis
             </Button>
           </div>
+
+          <SkillGapTrend roadmapId={analysis.roadmapId} analyzedAt={analysis.analyzedAt} />
         </CardContent>
       </Card>
 
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { getSkillGapSnapshots } from '../lib/api';
+import type { SkillGap, SkillGapSnapshot } from '../types';
+
+interface SkillGapTrendProps {
+  roadmapId: string;
+  analyzedAt: string; // the latest run, so a new run reloads the history
+}
+
+interface GapChanges {
+  closed: SkillGap[];
+  opened: SkillGap[];
+  narrowed: Array<{ from: SkillGap; to: SkillGap }>;
+  widened: Array<{ from: SkillGap; to: SkillGap }>;
+  levels: Array<{ skillName: string; from: number; to: number }>;
+}
+
+const SPARK_WIDTH = 240;
+const SPARK_HEIGHT = 48;
+
+const formatRun = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const skillKey = (name: string) => name.trim().toLowerCase();
+
+// What changed in the gaps, and in the skill levels behind them, between two runs
+function compareSnapshots(from: SkillGapSnapshot, to: SkillGapSnapshot): GapChanges {
+  const before = new Map(from.criticalGaps.map((g) => [skillKey(g.skillName), g]));
+  const after = new Map(to.criticalGaps.map((g) => [skillKey(g.skillName), g]));
+
+  const changes: GapChanges = { closed: [], opened: [], narrowed: [], widened: [], levels: [] };
+
+  for (const [key, gap] of before) {
+    const now = after.get(key);
+    if (!now) changes.closed.push(gap);
+    else if (now.gap < gap.gap) changes.narrowed.push({ from: gap, to: now });
+    else if (now.gap > gap.gap) changes.widened.push({ from: gap, to: now });
+  }
+  for (const [key, gap] of after) {
+    if (!before.has(key)) changes.opened.push(gap);
+  }
+
+  if (from.skillLevels && to.skillLevels) {
+    const levelsBefore = new Map(from.skillLevels.map((s) => [skillKey(s.skillName), s.proficiencyLevel]));
+    for (const skill of to.skillLevels) {
+      const previous = levelsBefore.get(skillKey(skill.skillName));
+      if (previous !== undefined && previous !== skill.proficiencyLevel) {
+        changes.levels.push({ skillName: skill.skillName, from: previous, to: skill.proficiencyLevel });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function sparklinePath(snapshots: SkillGapSnapshot[]): string {
+  const step = snapshots.length > 1 ? SPARK_WIDTH / (snapshots.length - 1) : 0;
+  return snapshots
+    .map((s, i) => {
+      const x = snapshots.length > 1 ? i * step : SPARK_WIDTH / 2;
+      const y = SPARK_HEIGHT - 4 - (s.overallReadiness / 100) * (SPARK_HEIGHT - 8);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+export function SkillGapTrend({ roadmapId, analyzedAt }: SkillGapTrendProps) {
+  const [snapshots, setSnapshots] = useState<SkillGapSnapshot[]>([]);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSkillGapSnapshots(roadmapId).then(({ snapshots: loaded, error }) => {
+      if (error) {
+        console.error('Error loading skill gap history:', error);
+      }
+      setSnapshots(loaded);
+      // Default to comparing the latest run with the one before it
+      setCompareId(loaded.length > 1 ? loaded[loaded.length - 2].id : null);
+    });
+  }, [roadmapId, analyzedAt]);
+
+  if (snapshots.length < 2) return null;
+
+  const latest = snapshots[snapshots.length - 1];
+  const earlier = snapshots.slice(0, -1).reverse();
+  const previous = earlier.find((s) => s.id === compareId) || earlier[0];
+  const changes = compareSnapshots(previous, latest);
+  const delta = latest.overallReadiness - previous.overallReadiness;
+  const hasChanges =
+    changes.closed.length + changes.opened.length + changes.narrowed.length + changes.widened.length + changes.levels.length > 0;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-gray-900 dark:text-white">Readiness over time</h4>
+        <span className="text-xs text-gray-500">{snapshots.length} runs</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`}
+        className="w-full h-12 mb-3"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Readiness over time"
+      >
+        <path d={sparklinePath(snapshots)} fill="none" className="text-indigo-600" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      <div className="flex items-center justify-between gap-2 mb-2 text-sm">
+        <label className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+          Since
+          <select
+            value={previous.id}
+            onChange={(e) => setCompareId(e.target.value)}
+            className="text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-2 py-1"
+          >
+            {earlier.map((s) => (
+              <option key={s.id} value={s.id}>
+                {formatRun(s.analyzedAt)} ({s.overallReadiness}%)
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className={delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-500'}>
+          {delta > 0 ? '+' : ''}{delta} points
+        </span>
+      </div>
+
+      {!hasChanges ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No gaps changed between these runs.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {changes.closed.map((gap) => (
+            <li key={`closed-${gap.skillName}`} className="text-green-700 dark:text-green-400">
+              ✓ Closed: {gap.skillName}
+            </li>
+          ))}
+          {changes.narrowed.map(({ from, to }) => (
+            <li key={`narrowed-${to.skillName}`} className="text-green-700 dark:text-green-400">
+              ↑ {to.skillName}: gap {from.gap} → {to.gap}
+            </li>
+          ))}
+          {changes.opened.map((gap) => (
+            <li key={`opened-${gap.skillName}`} className="text-red-700 dark:text-red-400">
+              + New gap: {gap.skillName} ({gap.currentLevel} → {gap.requiredLevel})
+            </li>
+          ))}
+          {changes.widened.map(({ from, to }) => (
+            <li key={`widened-${to.skillName}`} className="text-red-700 dark:text-red-400">
+              ↓ {to.skillName}: gap {from.gap} → {to.gap}
+            </li>
+          ))}
+          {changes.levels.map((level) => (
+            <li key={`level-${level.skillName}`} className="text-gray-600 dark:text-gray-400">
+              Your {level.skillName}: level {level.from} → {level.to}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Button, Card, CardContent } from './ui';
+import type { ImportedSkill, ImportSource } from '../types';
+import { PROFICIENCY_LABELS } from '../types';
+
+interface SkillImportReviewProps {
+  skills: ImportedSkill[];
+  source?: ImportSource;
+  onAccept: (accepted: { skill: ImportedSkill; proficiencyLevel: number }[]) => void;
+  onDiscard: () => void;
+  isApplying?: boolean;
+}
+
+const ACTION_STYLES: Record<ImportedSkill['action'], { label: string; className: string }> = {
+  add: { label: 'New', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  raise: { label: 'Raise', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
+  keep: { label: 'In profile', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+export function SkillImportReview({ skills, source = 'pdf', onAccept, onDiscard, isApplying }: SkillImportReviewProps) {
+  // New skills and raises start selected; skills already at the suggested level are only shown
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(skills.filter((s) => s.action !== 'keep').map((s) => s.skillName))
+  );
+  const [levels, setLevels] = useState<Record<string, number>>(
+    () => Object.fromEntries(skills.map((s) => [s.skillName, s.suggestedLevel]))
+  );
+
+  const changes = skills.filter((s) => s.action !== 'keep');
+  const accepted = changes.filter((s) => selected.has(s.skillName));
+
+  const toggle = (skillName: string) => {
+    const next = new Set(selected);
+    if (next.has(skillName)) next.delete(skillName);
+    else next.add(skillName);
+    setSelected(next);
+  };
+
+  return (
+    <Card className="mb-6 border-2 border-indigo-200 dark:border-indigo-800">
+      <CardContent>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="font-semibold text-gray-900 dark:text-white">
+            Review Imported Skills ({skills.length})
+          </h3>
+          <div className="flex gap-3 text-xs">
+            <button
+              onClick={() => setSelected(new Set(changes.map((s) => s.skillName)))}
+              className="text-indigo-600 hover:text-indigo-700"
+            >
+              Select all
+            </button>
+            <button onClick={() => setSelected(new Set())} className="text-indigo-600 hover:text-indigo-700">
+              Select none
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          {source === 'linkedin'
+            ? 'Levels are suggested from how many people endorsed each skill on LinkedIn. Change any before accepting.'
+            : 'Levels are suggested from the years and roles in your resume. Change any before accepting.'}
+        </p>
+
+        <div className="space-y-2 max-h-[28rem] overflow-y-scroll pr-1 scrollbar-thin">
+          {skills.map((skill) => {
+            const style = ACTION_STYLES[skill.action];
+            const isKept = skill.action === 'keep';
+
+            return (
+              <div
+                key={skill.skillName}
+                className={`p-3 rounded-lg border border-gray-200 dark:border-gray-700 ${isKept ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!isKept && selected.has(skill.skillName)}
+                    onChange={() => toggle(skill.skillName)}
+                    disabled={isKept}
+                    className="rounded border-gray-300 text-indigo-600 flex-shrink-0"
+                    aria-label={`Accept ${skill.skillName}`}
+                  />
+                  <span className={`px-1.5 py-0.5 text-xs rounded flex-shrink-0 ${style.className}`}>
+                    {style.label}
+                  </span>
+                  <span className="flex-1 text-sm font-medium text-gray-900 dark:text-white break-words">
+                    {skill.skillName}
+                  </span>
+                  {isKept ? (
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      {PROFICIENCY_LABELS[skill.existing?.proficiencyLevel ?? 0]}
+                    </span>
+                  ) : (
+                    <select
+                      value={levels[skill.skillName]}
+                      onChange={(e) => setLevels({ ...levels, [skill.skillName]: Number(e.target.value) })}
+                      className="text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-1 py-1 flex-shrink-0"
+                    >
+                      {[1, 2, 3, 4, 5].map((level) => (
+                        <option key={level} value={level}>
+                          {level} - {PROFICIENCY_LABELS[level]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+
+                {skill.existing && skill.action === 'raise' && (
+                  <p className="text-xs text-blue-700 dark:text-blue-400 mt-1">
+                    {skill.existing.proficiencyLevel === 0
+                      ? 'In your profile, not rated yet'
+                      : `In your profile at ${skill.existing.proficiencyLevel} - ${PROFICIENCY_LABELS[skill.existing.proficiencyLevel]}`}
+                  </p>
+                )}
+
+                {skill.evidence && (
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 italic border-l-2 border-gray-300 dark:border-gray-600 pl-2">
+                    "{skill.evidence}"
+                  </p>
+                )}
+
+                {skill.reasoning && (
+                  <p className="text-xs text-gray-500 mt-1">{skill.reasoning}</p>
+                )}
+
+                {skill.targets.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {skill.targets.map((target) => (
+                      <span
+                        key={`${target.targetCareer}-${target.skillName}`}
+                        className="px-1.5 py-0.5 text-xs rounded bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300"
+                      >
+                        {target.targetCareer} needs {target.matchType === 'exact' ? '' : `${target.skillName} `}
+                        at {target.requiredLevel}
+                        {target.matchType === 'transferable' && ' (related)'}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <Button
+            onClick={() => onAccept(accepted.map((skill) => ({ skill, proficiencyLevel: levels[skill.skillName] })))}
+            disabled={accepted.length === 0}
+            isLoading={isApplying}
+          >
+            Accept {accepted.length} {accepted.length === 1 ? 'skill' : 'skills'}
+          </Button>
+          <Button variant="outline" onClick={onDiscard} disabled={isApplying}>
+            Discard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
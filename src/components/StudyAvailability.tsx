@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Button, Card, CardContent } from './ui';
+import { getStudyTime, saveWeekdayMinutes } from '../lib/api';
+import {
+  MAX_DAILY_GOAL_MINUTES,
+  STUDY_MINUTE_OPTIONS,
+  WEEKDAY_LABELS,
+  defaultWeekdayMinutes,
+} from '../lib/dailyBudget';
+
+interface StudyAvailabilityProps {
+  userId: string;
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes === 0) return 'Off';
+  if (minutes < 60) return `${minutes}m`;
+  return `${minutes / 60}h`;
+}
+
+// Nearest offered choice, for weekly hours spread over the days
+function toOption(minutes: number): number {
+  return STUDY_MINUTE_OPTIONS.reduce((best, option) =>
+    Math.abs(option - minutes) < Math.abs(best - minutes) ? option : best
+  );
+}
+
+export function StudyAvailability({ userId }: StudyAvailabilityProps) {
+  const [weekdayMinutes, setWeekdayMinutes] = useState<number[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    getStudyTime(userId).then(({ availableHours, weekdayMinutes: saved }) => {
+      setWeekdayMinutes((saved || defaultWeekdayMinutes(availableHours)).map(toOption));
+    });
+  }, [userId]);
+
+  if (!weekdayMinutes) return null;
+
+  const weeklyHours = weekdayMinutes.reduce((sum, m) => sum + m, 0) / 60;
+
+  const handleChange = (day: number, minutes: number) => {
+    setWeekdayMinutes(weekdayMinutes.map((m, i) => (i === day ? minutes : m)));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = await saveWeekdayMinutes(userId, weekdayMinutes);
+    setIsSaving(false);
+
+    if (error) {
+      console.error('Error saving study time:', error);
+      alert('Failed to save your study time. Please try again.');
+      return;
+    }
+    setIsDirty(false);
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-gray-900 dark:text-white">Study Time</h3>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {Number.isInteger(weeklyHours) ? weeklyHours : weeklyHours.toFixed(1)} hours / week
+          </span>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Daily goals are sized to the time you have each day, up to {MAX_DAILY_GOAL_MINUTES / 60} hours.
+          Days turned off get no goals.
+        </p>
+
+        <div className="grid grid-cols-7 gap-2 mb-3">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <label key={label} className="flex flex-col items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+              {label}
+              <select
+                value={weekdayMinutes[day]}
+                onChange={(e) => handleChange(day, Number(e.target.value))}
+                className="w-full text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-1 py-1"
+              >
+                {STUDY_MINUTE_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {formatMinutes(minutes)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <Button size="sm" onClick={handleSave} isLoading={isSaving} disabled={!isDirty}>
+          Save Study Time
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
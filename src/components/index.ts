@@ -1,5 +1,21 @@
 export { MilestoneCard } from './MilestoneCard';
 export { SkillsEditor } from './SkillsEditor';
 export { SkillGapAnalysis } from './SkillGapAnalysis';
+export { SkillGapTrend } from './SkillGapTrend';
+export { ReadinessWhatIf } from './ReadinessWhatIf';
 export { ApiUsageDisplay } from './ApiUsageDisplay';
 export { DailyGoals } from './DailyGoals';
+export { DailyGoalHistory } from './DailyGoalHistory';
+export { GoalPlanSettings } from './GoalPlanSettings';
+export { ReplanReview } from './ReplanReview';
+export { RoadmapHistory } from './RoadmapHistory';
+export { RoadmapAnalytics } from './RoadmapAnalytics';
+export { MilestoneEditor } from './MilestoneEditor';
+export { ScheduleSummary } from './ScheduleSummary';
+export { CalendarSync } from './CalendarSync';
+export { StudyAvailability } from './StudyAvailability';
+export { FocusTimer } from './FocusTimer';
+export { SkillImportReview } from './SkillImportReview';
+export { ResumeUpload } from './ResumeUpload';
+export { ResumeProfileReview } from './ResumeProfileReview';
+export { LinkedInExportUpload } from './LinkedInExportUpload';
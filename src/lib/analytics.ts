@@ -0,0 +1,94 @@
+import { formatDate } from './scheduler';
+import type { Subtask } from '../types';
+
+// Progress over time for one roadmap: remaining subtasks week by week, how many
+// get finished each week, and when the rest should be done at that rate.
+
+export interface BurndownPoint {
+  date: string; // YYYY-MM-DD, the first day, the last day of a week, or today
+  remaining: number;
+  total: number; // subtasks that existed by then
+}
+
+export interface VelocityWeek {
+  weekStart: string; // YYYY-MM-DD, a Sunday
+  completed: number;
+}
+
+export interface RoadmapProgress {
+  burndown: BurndownPoint[];
+  velocity: VelocityWeek[];
+  remaining: number;
+  averageVelocity: number; // subtasks per week over the recent weeks
+  projectedFinish: string | null; // null when nothing is left or nothing was finished lately
+}
+
+// Weeks of completions shown in the velocity chart
+export const VELOCITY_WEEKS = 8;
+
+// Recent weeks averaged for the projection
+const PROJECTION_WEEKS = 4;
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date): Date {
+  return addDays(date, -date.getDay());
+}
+
+// Local calendar day of a timestamp
+function toDay(timestamp: string): string {
+  return formatDate(new Date(timestamp));
+}
+
+export function computeRoadmapProgress(
+  subtasks: Subtask[],
+  roadmapCreatedAt: string,
+  today: string = formatDate(new Date())
+): RoadmapProgress {
+  const start = toDay(roadmapCreatedAt);
+  // Subtasks without a creation or completion time count from the day the roadmap was made
+  const created = subtasks.map((s) => (s.createdAt ? toDay(s.createdAt) : start));
+  const completed = subtasks
+    .filter((s) => s.isCompleted)
+    .map((s) => (s.completedAt ? toDay(s.completedAt) : start));
+
+  const countBy = (days: string[], date: string) => days.filter((d) => d <= date).length;
+  const pointFor = (date: string): BurndownPoint => {
+    const total = countBy(created, date);
+    return { date, total, remaining: Math.max(0, total - countBy(completed, date)) };
+  };
+
+  // The day the roadmap was made, the end of every week since, then today
+  const burndown: BurndownPoint[] = start < today ? [pointFor(start)] : [];
+  for (let weekEnd = addDays(startOfWeek(parseDate(start)), 6); formatDate(weekEnd) < today; weekEnd = addDays(weekEnd, 7)) {
+    if (formatDate(weekEnd) > start) burndown.push(pointFor(formatDate(weekEnd)));
+  }
+  burndown.push(pointFor(today));
+
+  const thisWeek = startOfWeek(parseDate(today));
+  const velocity: VelocityWeek[] = [];
+  for (let i = VELOCITY_WEEKS - 1; i >= 0; i--) {
+    const weekStart = formatDate(addDays(thisWeek, -7 * i));
+    const weekEnd = formatDate(addDays(thisWeek, -7 * i + 6));
+    velocity.push({ weekStart, completed: completed.filter((d) => d >= weekStart && d <= weekEnd).length });
+  }
+
+  // Average over the last full weeks plus this one, but not before the roadmap existed
+  const recent = velocity.slice(-PROJECTION_WEEKS).filter((w) => formatDate(addDays(parseDate(w.weekStart), 6)) >= start);
+  const averageVelocity = recent.length > 0 ? recent.reduce((sum, w) => sum + w.completed, 0) / recent.length : 0;
+
+  const remaining = burndown[burndown.length - 1].remaining;
+  const projectedFinish =
+    remaining > 0 && averageVelocity > 0
+      ? formatDate(addDays(parseDate(today), Math.ceil((remaining / averageVelocity) * 7)))
+      : null;
+
+  return { burndown, velocity, remaining, averageVelocity, projectedFinish };
+}
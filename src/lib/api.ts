@@ -1,10 +1,14 @@
+import type { PostgrestError } from '@supabase/supabase-js';
 import { supabase } from './supabase';
-import type { OnboardingData, Roadmap } from '../types';
+import { EMPTY_TAXONOMY, indexTaxonomy } from './skillScoring';
+import type { Json, Tables } from '../types/database';
+import type { AIParseReport, ApiUsageSummary, Citation, DailyGoal, ImportedSkill, ImportSource, Milestone, OnboardingData, Resource, ResumeProfile, Roadmap, RoadmapGenerationEvent, RoadmapVersion, SkillGap, SkillGapAnalysis, SkillGapSnapshot, SkillSource, StudySession, Subtask, TargetRoleSkill, UserSkill } from '../types';
 
-// Generate a career roadmap using Perplexity API via Supabase Edge Function
+// Generate and save a career roadmap via Supabase Edge Function
 export async function generateRoadmap(
-  userProfile: OnboardingData
-): Promise<{ roadmap: Roadmap; error?: string }> {
+  userProfile: OnboardingData,
+  targetDate?: string
+): Promise<{ roadmap: Roadmap; roadmapId?: string; parse?: AIParseReport; error?: string }> {
   try {
     const { data, error } = await supabase.functions.invoke('generate-roadmap', {
       body: {
@@ -17,6 +21,7 @@ export async function generateRoadmap(
         },
         targetCareer: userProfile.targetCareer,
         timeframe: userProfile.targetTimeframe,
+        targetDate,
       },
     });
 
@@ -24,7 +29,7 @@ export async function generateRoadmap(
       return { roadmap: null as unknown as Roadmap, error: error.message };
     }
 
-    return { roadmap: data.roadmap };
+    return { roadmap: data.roadmap, roadmapId: data.roadmapId, parse: data.parse };
   } catch (err) {
     return {
       roadmap: null as unknown as Roadmap,
@@ -33,13 +38,464 @@ export async function generateRoadmap(
   }
 }
 
+// Body for a streamed generation: either a new roadmap request or a generation to resume
+export type RoadmapStreamRequest =
+  | {
+      userProfile: {
+        currentJob: string;
+        yearsExperience: number;
+        education: string;
+        availableHours: number;
+        learningStyle: string;
+      };
+      targetCareer: string;
+      timeframe: string;
+      targetDate?: string;
+    }
+  | { resumeGenerationId: string };
+
+// Stream roadmap generation events from the Edge Function.
+// supabase.functions.invoke buffers the whole body, so this calls the function URL directly.
+export async function streamRoadmapGeneration(
+  request: RoadmapStreamRequest,
+  onEvent: (event: RoadmapGenerationEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-roadmap`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session?.access_token ?? ''}`,
+      apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let message = 'Failed to generate roadmap';
+    try {
+      const data = await response.json();
+      message = data.error || message;
+    } catch {
+      // Keep the generic message
+    }
+    throw new Error(message);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; only the data line is needed
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const dataLine = block.split('\n').find((line) => line.startsWith('data:'));
+      if (dataLine) {
+        onEvent(JSON.parse(dataLine.slice(5).trim()) as RoadmapGenerationEvent);
+      }
+    }
+  }
+}
+
+// Cancel a running generation; the Edge Function stops at its next heartbeat
+export async function cancelRoadmapGeneration(generationId: string) {
+  const { error } = await supabase
+    .from('roadmap_generations')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', generationId);
+
+  return { error };
+}
+
+// Download milestones and goal blocks as an .ics file
+export async function downloadCalendar(): Promise<{ error?: string }> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  try {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session?.access_token ?? ''}`,
+        apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+      },
+    });
+
+    if (!response.ok) {
+      return { error: 'Failed to export calendar' };
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'careerguide.ics';
+    link.click();
+    URL.revokeObjectURL(url);
+    return {};
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Failed to export calendar' };
+  }
+}
+
+// Subscribable feed URL for the user's calendar token
+export function calendarFeedUrl(token: string) {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
+
+export async function getCalendarFeedToken(userId: string) {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return { token: (data?.token as string | undefined) ?? null, error };
+}
+
+// Issue a new feed token; any previous feed URL stops working
+export async function rotateCalendarFeedToken() {
+  const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+  return { token: (data as string | null) ?? null, error };
+}
+
+export async function disableCalendarFeed(userId: string) {
+  const { error } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', userId);
+  return { error };
+}
+
+// Put a daily goal on the calendar
+export async function createGoalBlock(block: {
+  userId: string;
+  dailyGoalId: string;
+  roadmapId?: string;
+  subtaskId?: string;
+  title: string;
+  milestoneTitle: string;
+  startsAt: Date;
+  durationMinutes: number;
+}) {
+  const { data, error } = await supabase
+    .from('goal_blocks')
+    .insert({
+      user_id: block.userId,
+      daily_goal_id: block.dailyGoalId,
+      roadmap_id: block.roadmapId ?? null,
+      subtask_id: block.subtaskId ?? null,
+      title: block.title,
+      milestone_title: block.milestoneTitle,
+      starts_at: block.startsAt.toISOString(),
+      duration_minutes: block.durationMinutes,
+    })
+    .select('id, starts_at')
+    .single();
+
+  return { block: data as { id: string; starts_at: string } | null, error };
+}
+
+// Start times of the user's goal blocks from a moment on, by daily goal
+export async function getGoalBlockTimes(userId: string, from: Date) {
+  const { data, error } = await supabase
+    .from('goal_blocks')
+    .select('daily_goal_id, starts_at')
+    .eq('user_id', userId)
+    .gte('starts_at', from.toISOString());
+
+  const times: Record<string, string> = {};
+  for (const block of data || []) {
+    if (block.daily_goal_id) times[block.daily_goal_id] = block.starts_at;
+  }
+
+  return { times, error };
+}
+
+// Map a daily_goals row to the app type
+function toDailyGoal(row: Tables<'daily_goals'>): DailyGoal {
+  return {
+    id: row.id,
+    goalDate: row.goal_date,
+    position: row.position,
+    roadmapId: row.roadmap_id ?? undefined,
+    sourceTaskId: row.subtask_id ?? undefined,
+    title: row.title,
+    milestoneTitle: row.milestone_title || '',
+    duration: row.duration as DailyGoal['duration'],
+    minutes: row.minutes,
+    isPartialTask: row.is_partial_task ?? false,
+    portion: Number(row.portion),
+    isCompleted: row.is_completed ?? false,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+// Goals for one day, or for a range of days (inclusive) for history
+export async function getDailyGoals(userId: string, fromDate: string, toDate: string = fromDate) {
+  const { data, error } = await supabase
+    .from('daily_goals')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('goal_date', fromDate)
+    .lte('goal_date', toDate)
+    .order('goal_date', { ascending: false })
+    .order('position');
+
+  return { goals: (data || []).map(toDailyGoal), error };
+}
+
+// Save a day's goals. If another device saved them first, its goals are kept and returned.
+export async function saveDailyGoals(
+  userId: string,
+  goalDate: string,
+  goals: Omit<DailyGoal, 'id' | 'goalDate' | 'position' | 'isCompleted' | 'completedAt'>[]
+) {
+  const { error } = await supabase.from('daily_goals').upsert(
+    goals.map((goal, position) => ({
+      user_id: userId,
+      goal_date: goalDate,
+      position,
+      roadmap_id: goal.roadmapId ?? null,
+      subtask_id: goal.sourceTaskId ?? null,
+      title: goal.title,
+      milestone_title: goal.milestoneTitle,
+      duration: goal.duration,
+      minutes: goal.minutes,
+      is_partial_task: goal.isPartialTask,
+      portion: goal.portion,
+    })),
+    { onConflict: 'user_id,goal_date,position', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    return { goals: [], error };
+  }
+
+  return getDailyGoals(userId, goalDate);
+}
+
+// Remove a day's goals so they can be planned again
+export async function deleteDailyGoals(userId: string, goalDate: string) {
+  const { error } = await supabase
+    .from('daily_goals')
+    .delete()
+    .eq('user_id', userId)
+    .eq('goal_date', goalDate);
+
+  return { error };
+}
+
+// Roadmaps with their share of daily goals, the user's focus roadmap and their study time
+export async function getGoalPlan(userId: string) {
+  const [{ data: roadmaps, error }, { data: profile }] = await Promise.all([
+    supabase
+      .from('roadmaps')
+      .select('id, target_career, goal_weight')
+      .eq('user_id', userId)
+      .order('created_at'),
+    supabase
+      .from('user_profiles')
+      .select('focus_roadmap_id, available_hours, weekday_minutes')
+      .eq('id', userId)
+      .maybeSingle(),
+  ]);
+
+  return {
+    roadmaps: (roadmaps || []).map((r) => ({
+      id: r.id as string,
+      targetCareer: r.target_career as string,
+      goalWeight: (r.goal_weight as number | null) ?? 1,
+    })),
+    focusRoadmapId: (profile?.focus_roadmap_id as string | null) ?? null,
+    availableHours: (profile?.available_hours as number | null) ?? 10,
+    weekdayMinutes: (profile?.weekday_minutes as number[] | null) ?? null,
+    error,
+  };
+}
+
+export async function setRoadmapGoalWeight(roadmapId: string, goalWeight: number) {
+  const { error } = await supabase.from('roadmaps').update({ goal_weight: goalWeight }).eq('id', roadmapId);
+  return { error };
+}
+
+// null balances goals across roadmaps by weight
+export async function setFocusRoadmap(userId: string, roadmapId: string | null) {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({ focus_roadmap_id: roadmapId })
+    .eq('id', userId);
+
+  return { error };
+}
+
+export interface GoalCompletion {
+  subtaskId?: string;
+  progress?: number;
+  minutesSpent?: number;
+  isCompleted?: boolean;
+}
+
+// Complete a daily goal, logging its time against the source subtask and
+// advancing that subtask's progress (whole-task goals complete it)
+export async function completeDailyGoal(
+  goalId: string,
+  minutes?: number
+): Promise<{ completion: GoalCompletion | null; error?: string }> {
+  const { data, error } = await supabase.rpc('complete_daily_goal', {
+    p_goal_id: goalId,
+    p_minutes: minutes,
+  });
+
+  if (error || !data) {
+    return { completion: null, error: error?.message || 'Failed to complete goal' };
+  }
+
+  const result = data as { subtask_id?: string; progress?: number; minutes_spent?: number; is_completed?: boolean };
+  return {
+    completion: {
+      subtaskId: result.subtask_id,
+      progress: result.progress === undefined ? undefined : Number(result.progress),
+      minutesSpent: result.minutes_spent,
+      isCompleted: result.is_completed,
+    },
+  };
+}
+
+// Days (YYYY-MM-DD) on which at least one goal was completed, newest first
+export async function getGoalStreakDays(userId: string, sinceDate: string) {
+  const { data, error } = await supabase
+    .from('daily_goals')
+    .select('goal_date')
+    .eq('user_id', userId)
+    .eq('is_completed', true)
+    .gte('goal_date', sinceDate)
+    .order('goal_date', { ascending: false });
+
+  return { days: [...new Set((data || []).map((row) => row.goal_date as string))], error };
+}
+
+// Start a focus session; it is logged even if the user never finishes it
+export async function startStudySession(session: {
+  dailyGoalId?: string;
+  subtaskId?: string;
+  title: string;
+  estimatedMinutes?: number;
+}): Promise<{ session: StudySession | null; error?: string }> {
+  const { data: { session: authSession } } = await supabase.auth.getSession();
+  if (!authSession) {
+    return { session: null, error: 'Not authenticated' };
+  }
+
+  const { data, error } = await supabase
+    .from('study_sessions')
+    .insert({
+      user_id: authSession.user.id,
+      daily_goal_id: session.dailyGoalId ?? null,
+      subtask_id: session.subtaskId ?? null,
+      title: session.title,
+      estimated_minutes: session.estimatedMinutes ?? null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    return { session: null, error: error?.message || 'Failed to start session' };
+  }
+
+  return {
+    session: {
+      id: data.id,
+      dailyGoalId: data.daily_goal_id ?? undefined,
+      subtaskId: data.subtask_id ?? undefined,
+      title: data.title,
+      estimatedMinutes: data.estimated_minutes ?? undefined,
+      startedAt: data.started_at,
+      endedAt: data.ended_at ?? undefined,
+      focusMinutes: data.focus_minutes,
+      pomodoros: data.pomodoros,
+      interruptions: data.interruptions,
+    },
+  };
+}
+
+export async function finishStudySession(
+  sessionId: string,
+  result: { focusMinutes: number; pomodoros: number; interruptions: number }
+) {
+  const { error } = await supabase.rpc('finish_study_session', {
+    p_session_id: sessionId,
+    p_focus_minutes: result.focusMinutes,
+    p_pomodoros: result.pomodoros,
+    p_interruptions: result.interruptions,
+  });
+
+  return { error };
+}
+
+// Minutes actually spent focusing on each daily goal, from finished sessions
+export async function getGoalFocusMinutes(goalIds: string[]) {
+  if (goalIds.length === 0) return { minutes: {} as Record<string, number> };
+
+  const { data, error } = await supabase
+    .from('study_sessions')
+    .select('daily_goal_id, focus_minutes')
+    .in('daily_goal_id', goalIds)
+    .not('ended_at', 'is', null);
+
+  const minutes: Record<string, number> = {};
+  for (const row of data || []) {
+    if (!row.daily_goal_id) continue;
+    minutes[row.daily_goal_id] = (minutes[row.daily_goal_id] || 0) + row.focus_minutes;
+  }
+
+  return { minutes, error };
+}
+
+export async function getStudyTime(userId: string) {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('available_hours, weekday_minutes')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return {
+    availableHours: (data?.available_hours as number | null) ?? 10,
+    weekdayMinutes: (data?.weekday_minutes as number[] | null) ?? null,
+    error,
+  };
+}
+
+// Minutes of study time per weekday (Sunday first). Weekly available hours
+// are kept in step so roadmap scheduling uses the same budget.
+export async function saveWeekdayMinutes(userId: string, weekdayMinutes: number[]) {
+  const totalMinutes = weekdayMinutes.reduce((sum, m) => sum + m, 0);
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({
+      weekday_minutes: weekdayMinutes,
+      available_hours: Math.max(1, Math.round(totalMinutes / 60)),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  return { error };
+}
+
 // Save user profile to database
 export async function saveUserProfile(userId: string, profile: OnboardingData) {
   const { error } = await supabase.from('user_profiles').upsert({
     id: userId,
     current_job: profile.currentJob,
     years_experience: profile.yearsExperience,
-    education_level: profile.education,
+    education_level: profile.education.join(', '), // Stored as a comma-separated string
     income_bracket: profile.incomeBracket,
     available_hours: profile.availableHours,
     learning_style: profile.learningStyle,
@@ -60,6 +516,486 @@ export async function getUserRoadmaps(userId: string) {
   return { roadmaps: data, error };
 }
 
+// Whether the user has generated any roadmap yet
+export async function hasRoadmaps(userId: string) {
+  const { data, error } = await supabase.from('roadmaps').select('id').eq('user_id', userId).limit(1);
+  return { hasRoadmaps: (data || []).length > 0, error };
+}
+
+export async function getRoadmapTargetCareer(roadmapId: string) {
+  const { data, error } = await supabase.from('roadmaps').select('target_career').eq('id', roadmapId).maybeSingle();
+  return { targetCareer: data?.target_career || '', error };
+}
+
+// Milestones, subtasks, skills and analyses are removed with it (ON DELETE CASCADE)
+export async function deleteRoadmap(roadmapId: string) {
+  const { error } = await supabase.from('roadmaps').delete().eq('id', roadmapId);
+  return { error };
+}
+
+// A roadmap with its milestones and each milestone's subtasks
+export async function getRoadmapWithMilestones(roadmapId: string) {
+  const { data, error } = await supabase
+    .from('roadmaps')
+    .select('*, milestones(*)')
+    .eq('id', roadmapId)
+    .maybeSingle();
+
+  if (error || !data) return { roadmap: null, error };
+
+  const milestones = data.milestones.map(toMilestone);
+  let subtasks: Subtask[] = [];
+  let subtasksError = null;
+
+  if (milestones.length > 0) {
+    const result = await supabase
+      .from('subtasks')
+      .select('*')
+      .in('milestone_id', milestones.map((m) => m.id))
+      .order('order_index');
+
+    subtasks = (result.data || []).map(toSubtask);
+    subtasksError = result.error;
+  }
+
+  const roadmap: Roadmap = {
+    id: data.id,
+    userId: data.user_id,
+    targetCareer: data.target_career,
+    targetDate: data.target_date ?? undefined,
+    milestones: milestones.map((m) => ({ ...m, subtasks: subtasks.filter((s) => s.milestoneId === m.id) })),
+    citations: (data.citations as unknown as Citation[] | null) || [],
+    createdAt: data.created_at ?? '',
+    updatedAt: data.updated_at ?? '',
+  };
+
+  return { roadmap, error: subtasksError };
+}
+
+// Credits used this calendar month, per operation
+export async function getMonthlyApiUsage(userId: string) {
+  const now = new Date();
+  const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+
+  const { data, error } = await supabase
+    .from('api_usage')
+    .select('operation, credits_used')
+    .eq('user_id', userId)
+    .gte('created_at', firstDayOfMonth);
+
+  const usage: ApiUsageSummary[] = [];
+  for (const row of data || []) {
+    const existing = usage.find((u) => u.operation === row.operation);
+    if (existing) {
+      existing.totalCredits += row.credits_used ?? 1;
+      existing.usageCount += 1;
+    } else {
+      usage.push({ operation: row.operation, totalCredits: row.credits_used ?? 1, usageCount: 1 });
+    }
+  }
+
+  return { usage, error };
+}
+
+// PostgREST returns at most this many rows per request
+const TAXONOMY_PAGE_SIZE = 1000;
+
+// Every row of a query, read a page at a time; the query must have a stable order
+async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<{ data: T[]; error: PostgrestError | null }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += TAXONOMY_PAGE_SIZE) {
+    const { data, error } = await page(from, from + TAXONOMY_PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...(data ?? []));
+    if (!data || data.length < TAXONOMY_PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+// The skill taxonomy used to match skill names (reference data, readable by everyone)
+export async function getSkillTaxonomy() {
+  const [skills, aliases, relations] = await Promise.all([
+    selectAll((from, to) => supabase.from('skill_taxonomy').select('id, name, parent_id').order('id').range(from, to)),
+    selectAll((from, to) => supabase.from('skill_aliases').select('alias, skill_id').order('alias').range(from, to)),
+    selectAll((from, to) =>
+      supabase
+        .from('skill_relations')
+        .select('skill_id, related_skill_id, weight')
+        .order('skill_id')
+        .order('related_skill_id')
+        .range(from, to)
+    ),
+  ]);
+
+  const error = skills.error || aliases.error || relations.error;
+  if (error) return { taxonomy: EMPTY_TAXONOMY, error };
+
+  const taxonomy = indexTaxonomy({
+    skills: skills.data.map((s) => ({ id: s.id, name: s.name, parentId: s.parent_id })),
+    aliases: aliases.data.map((a) => ({ alias: a.alias, skillId: a.skill_id })),
+    relations: relations.data.map((r) => ({
+      skillId: r.skill_id,
+      relatedSkillId: r.related_skill_id,
+      weight: Number(r.weight),
+    })),
+  });
+
+  return { taxonomy, error: null };
+}
+
+// Map a user_skills row to the app type
+function toUserSkill(row: Tables<'user_skills'>): UserSkill {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    skillName: row.skill_name,
+    proficiencyLevel: row.proficiency_level as UserSkill['proficiencyLevel'],
+    source: row.source,
+    createdAt: row.created_at ?? undefined,
+    updatedAt: row.updated_at ?? undefined,
+  };
+}
+
+// The user's skills by name
+export async function getUserSkills(userId: string) {
+  const { data, error } = await supabase
+    .from('user_skills')
+    .select('*')
+    .eq('user_id', userId)
+    .order('skill_name');
+
+  return { skills: (data || []).map(toUserSkill), error };
+}
+
+// Add one skill. Fails with code 23505 when the user already has it, under any name.
+export async function addUserSkill(userId: string, skillName: string, proficiencyLevel: number, source: SkillSource) {
+  const { error } = await supabase.from('user_skills').insert({
+    user_id: userId,
+    skill_name: skillName,
+    proficiency_level: proficiencyLevel,
+    source,
+  });
+
+  return { error };
+}
+
+// Read a file as base64, without the data URL prefix
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+// A resume to import: a PDF, DOCX, TXT or Markdown file, or pasted text
+export type ResumeInput = { file: File } | { text: string };
+
+export interface ResumeImportResult {
+  skills: ImportedSkill[];
+  profile?: ResumeProfile;
+  profileName?: string | null;
+  imagePages: number[]; // scanned PDF pages that were not read
+  needsOcr?: boolean;
+  parse?: AIParseReport;
+  error?: string;
+}
+
+// Extract skills from a resume, each with its evidence, a suggested level and
+// how it compares with the user's profile and target roles, along with the
+// work history, education and certifications in it. needsOcr is set
+// for scanned PDFs: recognize imagePages with ocrPdfPages and import again
+// with the text as ocrPages.
+export async function importResume(input: ResumeInput, ocrPages?: Record<number, string>): Promise<ResumeImportResult> {
+  try {
+    const body = 'text' in input
+      ? { text: input.text }
+      : {
+          fileBase64: await readFileAsBase64(input.file),
+          fileName: input.file.name,
+          mimeType: input.file.type,
+          ocrPages,
+        };
+
+    const { data, error } = await supabase.functions.invoke('import-pdf-skills', { body });
+
+    if (error) {
+      return { skills: [], imagePages: [], error: error.message || 'Failed to process resume' };
+    }
+    if (!data.success) {
+      return {
+        skills: [],
+        imagePages: data.imagePages || [],
+        needsOcr: data.needsOcr,
+        parse: data.parse,
+        error: data.error || 'Could not extract skills from this resume.',
+      };
+    }
+
+    return {
+      skills: data.skills || [],
+      profile: data.profile,
+      profileName: data.profileName,
+      imagePages: data.imagePages || [],
+      parse: data.parse,
+    };
+  } catch (err) {
+    return {
+      skills: [],
+      imagePages: [],
+      error: err instanceof Error ? err.message : 'Failed to process resume',
+    };
+  }
+}
+
+// Read LinkedIn's data export: the ZIP file, or any of the CSV files in it.
+// Skills come with levels suggested from endorsements and are compared with
+// the profile like a resume import; work history, education and certifications
+// come from Positions.csv, Education.csv and Certifications.csv.
+export async function importLinkedInExport(files: File[]): Promise<ResumeImportResult> {
+  try {
+    const body = {
+      files: await Promise.all(files.map(async (file) => ({
+        fileName: file.name,
+        fileBase64: await readFileAsBase64(file),
+      }))),
+    };
+
+    const { data, error } = await supabase.functions.invoke('import-linkedin-skills', { body });
+
+    if (error) {
+      return { skills: [], imagePages: [], error: error.message || 'Failed to process LinkedIn export' };
+    }
+    if (!data.success) {
+      return { skills: [], imagePages: [], error: data.error || 'Could not read this LinkedIn export.' };
+    }
+
+    return {
+      skills: data.skills || [],
+      profile: data.profile,
+      profileName: data.profileName,
+      imagePages: [],
+    };
+  } catch (err) {
+    return {
+      skills: [],
+      imagePages: [],
+      error: err instanceof Error ? err.message : 'Failed to process LinkedIn export',
+    };
+  }
+}
+
+// Save imported work history, education and certifications, replacing earlier imports from the same source
+export async function saveResumeProfile(profile: ResumeProfile, source: ImportSource) {
+  const { error } = await supabase.rpc('replace_imported_profile', {
+    p_source: source,
+    p_positions: profile.positions as unknown as Json,
+    p_education: profile.education as unknown as Json,
+    p_certifications: profile.certifications as unknown as Json,
+  });
+  return { error };
+}
+
+// The onboarding details on the user's profile, or null before onboarding
+export async function getProfileDetails(userId: string) {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('current_job, years_experience, education_level')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const details = data && {
+    currentJob: data.current_job ?? '',
+    yearsExperience: data.years_experience ?? 0,
+    education: data.education_level ? data.education_level.split(', ') : [],
+  };
+
+  return { details, error };
+}
+
+// Update some of the onboarding details on the user's profile, leaving the others as they are
+export async function updateProfileDetails(
+  userId: string,
+  details: Partial<Pick<OnboardingData, 'currentJob' | 'yearsExperience' | 'education'>>
+) {
+  const { error } = await supabase.from('user_profiles').upsert({
+    id: userId,
+    ...(details.currentJob !== undefined ? { current_job: details.currentJob } : {}),
+    ...(details.yearsExperience !== undefined ? { years_experience: details.yearsExperience } : {}),
+    ...(details.education !== undefined ? { education_level: details.education.join(', ') } : {}),
+    updated_at: new Date().toISOString(),
+  });
+
+  return { error };
+}
+
+// Save the accepted rows of an import review: new skills are added with the
+// import as their source, and skills already in the profile take the chosen level
+export async function applySkillImport(
+  userId: string,
+  accepted: { skill: ImportedSkill; proficiencyLevel: number }[],
+  source: SkillSource
+) {
+  const added = accepted.filter(({ skill }) => !skill.existing);
+  const raised = accepted.flatMap(({ skill, proficiencyLevel }) =>
+    skill.existing ? [{ existing: skill.existing, proficiencyLevel }] : []
+  );
+
+  const results = await Promise.all([
+    added.length > 0
+      ? supabase.from('user_skills').upsert(
+          added.map(({ skill, proficiencyLevel }) => ({
+            user_id: userId,
+            skill_name: skill.skillName,
+            proficiency_level: proficiencyLevel,
+            source,
+          })),
+          { onConflict: 'user_id,skill_name', ignoreDuplicates: true }
+        )
+      : { error: null },
+    ...raised.map(({ existing, proficiencyLevel }) =>
+      supabase
+        .from('user_skills')
+        .update({
+          proficiency_level: proficiencyLevel,
+          // A skill only required by a role counts as rated once the resume backs it up
+          ...(existing.source === 'role_requirement' ? { source } : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', existing.id)
+    ),
+  ]);
+
+  return { error: results.find((r) => r.error)?.error ?? null };
+}
+
+// Save the user's own ratings, replacing the level of skills they already have
+export async function saveSkillRatings(userId: string, ratings: { skillName: string; proficiencyLevel: number }[]) {
+  if (ratings.length === 0) return { error: null };
+
+  const { error } = await supabase.from('user_skills').upsert(
+    ratings.map((r) => ({
+      user_id: userId,
+      skill_name: r.skillName,
+      proficiency_level: r.proficiencyLevel,
+      source: 'self_assessment' as const,
+    })),
+    { onConflict: 'user_id,skill_name' }
+  );
+
+  return { error };
+}
+
+// Add a role's required skills as not rated yet (level 0); skills the user already has are left alone
+export async function addRequiredSkills(userId: string, skillNames: string[]) {
+  if (skillNames.length === 0) return { error: null };
+
+  const { error } = await supabase.from('user_skills').upsert(
+    skillNames.map((skillName) => ({
+      user_id: userId,
+      skill_name: skillName,
+      proficiency_level: 0,
+      source: 'role_requirement' as const,
+    })),
+    { onConflict: 'user_id,skill_name', ignoreDuplicates: true }
+  );
+
+  return { error };
+}
+
+export async function updateUserSkillLevel(skillId: string, proficiencyLevel: number) {
+  const { error } = await supabase
+    .from('user_skills')
+    .update({ proficiency_level: proficiencyLevel, updated_at: new Date().toISOString() })
+    .eq('id', skillId);
+
+  return { error };
+}
+
+export async function deleteUserSkill(skillId: string) {
+  const { error } = await supabase.from('user_skills').delete().eq('id', skillId);
+  return { error };
+}
+
+// Fold one of the user's skills into another; the kept skill takes the higher level
+export async function mergeUserSkills(keepId: string, removeId: string) {
+  const { error } = await supabase.rpc('merge_user_skills', {
+    p_keep_id: keepId,
+    p_remove_id: removeId,
+  });
+  return { error };
+}
+
+// Map a target_role_skills row to the app type
+function toTargetRoleSkill(row: Tables<'target_role_skills'>): TargetRoleSkill {
+  return {
+    id: row.id,
+    roadmapId: row.roadmap_id,
+    skillName: row.skill_name,
+    requiredLevel: (row.required_level ?? 3) as TargetRoleSkill['requiredLevel'],
+    priority: (row.priority ?? 'medium') as TargetRoleSkill['priority'],
+    createdAt: row.created_at ?? undefined,
+  };
+}
+
+// Skills a roadmap's target role requires, most important first
+export async function getTargetRoleSkills(roadmapId: string) {
+  const { data, error } = await supabase.from('target_role_skills').select('*').eq('roadmap_id', roadmapId);
+
+  const priorityOrder: Record<TargetRoleSkill['priority'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+  const skills = (data || [])
+    .map(toTargetRoleSkill)
+    .sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
+
+  return { skills, error };
+}
+
+// The latest skill gap analysis for a roadmap, or null before the first run
+export async function getLatestSkillGapAnalysis(roadmapId: string) {
+  const { data, error } = await supabase
+    .from('skill_gap_analysis')
+    .select('*')
+    .eq('roadmap_id', roadmapId)
+    .order('analyzed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const analysis: SkillGapAnalysis | null = data && {
+    id: data.id,
+    roadmapId: data.roadmap_id,
+    userId: data.user_id,
+    overallReadiness: data.overall_readiness ?? 0,
+    criticalGaps: (data.critical_gaps as unknown as SkillGap[] | null) || [],
+    recommendations: (data.recommendations as string[] | null) || [],
+    milestoneSkillMapping: (data.milestone_skill_mapping as Record<string, unknown> | null) || {},
+    analyzedAt: data.analyzed_at ?? data.created_at ?? '',
+  };
+
+  return { analysis, error };
+}
+
+// Every skill gap analysis run for a roadmap, oldest first
+export async function getSkillGapSnapshots(roadmapId: string) {
+  const { data, error } = await supabase
+    .from('skill_gap_snapshots')
+    .select('*')
+    .eq('roadmap_id', roadmapId)
+    .order('analyzed_at');
+
+  const snapshots: SkillGapSnapshot[] = (data || []).map((row) => ({
+    id: row.id,
+    roadmapId: row.roadmap_id,
+    overallReadiness: row.overall_readiness,
+    criticalGaps: (row.critical_gaps as unknown as SkillGap[] | null) || [],
+    skillLevels: (row.skill_levels as SkillGapSnapshot['skillLevels'] | null) ?? undefined,
+    analyzedAt: row.analyzed_at,
+  }));
+
+  return { snapshots, error };
+}
+
 // Update milestone status
 export async function updateMilestoneStatus(
   milestoneId: string,
@@ -76,11 +1012,253 @@ export async function updateMilestoneStatus(
   return { error };
 }
 
+// Map a milestones row to the app type
+export function toMilestone(row: Tables<'milestones'>): Milestone {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description || '',
+    orderIndex: row.order_index ?? 0,
+    status: (row.status ?? 'pending') as Milestone['status'],
+    dueDate: row.due_date || undefined,
+    completedAt: row.completed_at || undefined,
+    estimatedWeeks: row.estimated_weeks ?? undefined,
+    resources: (row.resources as unknown as Resource[] | null) || [],
+  };
+}
+
+// Map a subtasks row to the app type
+export function toSubtask(row: Tables<'subtasks'>): Subtask {
+  return {
+    id: row.id,
+    milestoneId: row.milestone_id,
+    title: row.title,
+    description: row.description || undefined,
+    orderIndex: row.order_index ?? 0,
+    isCompleted: row.is_completed ?? false,
+    completedAt: row.completed_at || undefined,
+    createdAt: row.created_at || undefined,
+    progress: Number(row.progress ?? (row.is_completed ? 1 : 0)),
+    minutesSpent: row.minutes_spent ?? 0,
+    lastProgressNote: row.last_progress_note || undefined,
+    estimatedMinutes: row.estimated_minutes ?? undefined,
+    calibratedMinutes: row.calibrated_minutes ?? undefined,
+  };
+}
+
+// Milestones not completed yet, in order, with their open subtasks
+export async function getOpenMilestones(roadmapIds: string[]) {
+  const { data: milestones, error } = await supabase
+    .from('milestones')
+    .select('id, title, roadmap_id')
+    .in('roadmap_id', roadmapIds)
+    .neq('status', 'completed')
+    .order('order_index');
+
+  if (error || !milestones || milestones.length === 0) return { milestones: [], error };
+
+  const { data: subtasks, error: subtasksError } = await supabase
+    .from('subtasks')
+    .select('id, title, milestone_id, progress, last_progress_note')
+    .in('milestone_id', milestones.map((m) => m.id))
+    .eq('is_completed', false)
+    .order('order_index');
+
+  return {
+    milestones: milestones.map((m) => ({
+      id: m.id,
+      title: m.title,
+      roadmapId: m.roadmap_id,
+      subtasks: (subtasks || [])
+        .filter((s) => s.milestone_id === m.id)
+        .map((s) => ({
+          id: s.id,
+          title: s.title,
+          progress: Number(s.progress),
+          lastProgressNote: s.last_progress_note || undefined,
+        })),
+    })),
+    error: subtasksError,
+  };
+}
+
+// Check off a subtask, or reopen it from the start
+export async function setSubtaskCompleted(subtaskId: string, isCompleted: boolean) {
+  const { error } = await supabase
+    .from('subtasks')
+    .update({
+      is_completed: isCompleted,
+      completed_at: isCompleted ? new Date().toISOString() : null,
+      progress: isCompleted ? 1 : 0,
+    })
+    .eq('id', subtaskId);
+
+  return { error };
+}
+
+// Fields that can be edited on a milestone
+export interface MilestoneChanges {
+  title?: string;
+  description?: string;
+  dueDate?: string | null;
+}
+
+export async function updateMilestone(milestoneId: string, changes: MilestoneChanges) {
+  const { error } = await supabase
+    .from('milestones')
+    .update({
+      ...(changes.title !== undefined && { title: changes.title }),
+      ...(changes.description !== undefined && { description: changes.description }),
+      ...(changes.dueDate !== undefined && { due_date: changes.dueDate }),
+    })
+    .eq('id', milestoneId);
+
+  return { error };
+}
+
+// Insert a milestone. Passing an id (and completion fields) re-creates a deleted one.
+export async function createMilestone(
+  roadmapId: string,
+  milestone: Omit<Milestone, 'id' | 'subtasks'> & { id?: string }
+): Promise<{ milestone: Milestone | null; error?: string }> {
+  const { data, error } = await supabase
+    .from('milestones')
+    .insert({
+      ...(milestone.id && { id: milestone.id }),
+      roadmap_id: roadmapId,
+      title: milestone.title,
+      description: milestone.description,
+      order_index: milestone.orderIndex,
+      status: milestone.status,
+      due_date: milestone.dueDate || null,
+      completed_at: milestone.completedAt || null,
+      estimated_weeks: milestone.estimatedWeeks ?? null,
+      resources: milestone.resources as unknown as Json,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    return { milestone: null, error: error?.message || 'Failed to create milestone' };
+  }
+
+  return { milestone: toMilestone(data) };
+}
+
+// Subtasks are removed with their milestone (ON DELETE CASCADE)
+export async function deleteMilestone(milestoneId: string) {
+  const { error } = await supabase.from('milestones').delete().eq('id', milestoneId);
+  return { error };
+}
+
+// Insert subtasks. Passing ids re-creates deleted ones with their completion state.
+export async function createSubtasks(
+  subtasks: (Omit<Subtask, 'id' | 'createdAt'> & { id?: string })[]
+): Promise<{ subtasks: Subtask[]; error?: string }> {
+  if (subtasks.length === 0) return { subtasks: [] };
+
+  const { data, error } = await supabase
+    .from('subtasks')
+    .insert(subtasks.map((s) => ({
+      ...(s.id && { id: s.id }),
+      milestone_id: s.milestoneId,
+      title: s.title,
+      description: s.description || null,
+      order_index: s.orderIndex,
+      is_completed: s.isCompleted,
+      completed_at: s.completedAt || null,
+      progress: s.progress,
+      minutes_spent: s.minutesSpent,
+      last_progress_note: s.lastProgressNote || null,
+      estimated_minutes: s.estimatedMinutes ?? null,
+      calibrated_minutes: s.calibratedMinutes ?? null,
+    })))
+    .select();
+
+  if (error || !data) {
+    return { subtasks: [], error: error?.message || 'Failed to create tasks' };
+  }
+
+  return { subtasks: data.map(toSubtask) };
+}
+
+export async function updateSubtask(subtaskId: string, changes: { title?: string; description?: string }) {
+  const { error } = await supabase
+    .from('subtasks')
+    .update({
+      ...(changes.title !== undefined && { title: changes.title }),
+      ...(changes.description !== undefined && { description: changes.description || null }),
+    })
+    .eq('id', subtaskId);
+
+  return { error };
+}
+
+export async function deleteSubtask(subtaskId: string) {
+  const { error } = await supabase.from('subtasks').delete().eq('id', subtaskId);
+  return { error };
+}
+
+// Persist order_index for rows whose position changed
+export async function saveOrder(
+  table: 'milestones' | 'subtasks',
+  rows: { id: string; orderIndex: number }[]
+) {
+  const results = await Promise.all(
+    rows.map((row) => supabase.from(table).update({ order_index: row.orderIndex }).eq('id', row.id))
+  );
+
+  return { error: results.find((r) => r.error)?.error ?? null };
+}
+
+// Save the current state of a roadmap to its version history
+export async function snapshotRoadmap(roadmapId: string, reason: 'edit' | 'checkpoint') {
+  const { error } = await supabase.rpc('snapshot_roadmap', { p_roadmap_id: roadmapId, p_reason: reason });
+  return { error };
+}
+
+// Saved versions of a roadmap, newest first
+export async function getRoadmapVersions(roadmapId: string) {
+  const { data, error } = await supabase
+    .from('roadmap_versions')
+    .select('*')
+    .eq('roadmap_id', roadmapId)
+    .order('version_number', { ascending: false });
+
+  const versions: RoadmapVersion[] = (data || []).map((v) => ({
+    id: v.id,
+    roadmapId: v.roadmap_id,
+    versionNumber: v.version_number,
+    reason: v.reason as RoadmapVersion['reason'],
+    restoredFromVersion: v.restored_from_version ?? undefined,
+    snapshot: v.snapshot as unknown as RoadmapVersion['snapshot'],
+    createdAt: v.created_at ?? '',
+  }));
+
+  return { versions, error };
+}
+
+// Replace the roadmap with a saved version; the current state is saved first
+export async function restoreRoadmapVersion(versionId: string) {
+  const { error } = await supabase.rpc('restore_roadmap_version', { p_version_id: versionId });
+  return { error };
+}
+
 // Generate daily goals using AI
 export interface TaskForGoals {
   id: string;
   title: string;
   milestoneTitle: string;
+  roadmapId: string;
+  targetCareer: string;
+  progress?: number; // 0-1 for tasks already partly done
+  lastProgressNote?: string;
+}
+
+// A time slot for one daily goal
+export interface GoalSlot {
+  duration: 'short' | 'medium' | 'long';
+  minutes: number;
 }
 
 export interface DailyGoalFromAI {
@@ -89,23 +1267,27 @@ export interface DailyGoalFromAI {
   minutes: number;
   dailyTitle: string;
   isPartialTask: boolean;
+  portion: number;
   reasoning: string;
 }
 
+// Without slots the function plans the classic 30/60/120 minute goals.
+// review asks for a light recap of recent work instead of new progress.
 export async function generateDailyGoals(
   tasks: TaskForGoals[],
-  targetCareer: string
-): Promise<{ goals: DailyGoalFromAI[]; error?: string }> {
+  targetCareer: string,
+  options: { slots?: GoalSlot[]; review?: boolean } = {}
+): Promise<{ goals: DailyGoalFromAI[]; parse?: AIParseReport; error?: string }> {
   try {
     const { data, error } = await supabase.functions.invoke('estimate-task-durations', {
-      body: { tasks, targetCareer },
+      body: { tasks, targetCareer, slots: options.slots, review: options.review },
     });
 
     if (error) {
       return { goals: [], error: error.message };
     }
 
-    return { goals: data.goals || [] };
+    return { goals: data.goals || [], parse: data.parse };
   } catch (err) {
     return {
       goals: [],
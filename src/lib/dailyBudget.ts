@@ -0,0 +1,57 @@
+import type { GoalSlot } from './api';
+
+// Sizes each day's goals to the study time the user has that day.
+
+// Daily goals never add up to more than this
+export const MAX_DAILY_GOAL_MINUTES = 180;
+
+// Offered on days without study time
+export const REVIEW_GOAL_MINUTES = 15;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Choices offered for each weekday
+export const STUDY_MINUTE_OPTIONS = [0, 15, 30, 45, 60, 90, 120, 150, 180];
+
+function roundToFive(minutes: number): number {
+  return Math.round(minutes / 5) * 5;
+}
+
+// Same thresholds the estimate-task-durations schema uses
+function durationFor(minutes: number): GoalSlot['duration'] {
+  if (minutes <= 45) return 'short';
+  if (minutes < 90) return 'medium';
+  return 'long';
+}
+
+// Without a per-day schedule, weekly hours are spread evenly over the week
+export function defaultWeekdayMinutes(availableHours: number): number[] {
+  const perDay = Math.min(MAX_DAILY_GOAL_MINUTES, roundToFive((availableHours * 60) / 7));
+  return Array(7).fill(perDay);
+}
+
+export function minutesForDay(weekdayMinutes: number[] | null, availableHours: number, date: Date): number {
+  const minutes = (weekdayMinutes || defaultWeekdayMinutes(availableHours))[date.getDay()] ?? 0;
+  return Math.min(MAX_DAILY_GOAL_MINUTES, Math.max(0, minutes));
+}
+
+// Split a day's minutes into up to three goals of growing length that together
+// fill it: one goal up to 45 minutes, two up to 90, then 1/6, 1/3 and 1/2.
+export function planGoalSlots(budgetMinutes: number): GoalSlot[] {
+  const budget = Math.min(MAX_DAILY_GOAL_MINUTES, roundToFive(budgetMinutes));
+  if (budget <= 0) return [];
+
+  let minutes: number[];
+  if (budget <= 45) {
+    minutes = [budget];
+  } else if (budget <= 90) {
+    const first = roundToFive(budget / 3);
+    minutes = [first, budget - first];
+  } else {
+    const first = roundToFive(budget / 6);
+    const second = roundToFive(budget / 3);
+    minutes = [first, second, budget - first - second];
+  }
+
+  return minutes.map((m) => ({ duration: durationFor(m), minutes: m }));
+}
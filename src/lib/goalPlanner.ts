@@ -0,0 +1,58 @@
+import type { TaskForGoals } from './api';
+
+// Chooses the tasks daily goals are drawn from when the user has several roadmaps,
+// following their focus roadmap or the weight they gave each roadmap.
+
+export interface GoalRoadmap {
+  id: string;
+  targetCareer: string;
+  goalWeight: number; // 0 pauses the roadmap
+}
+
+// Tasks offered to the AI each day
+export const MAX_GOAL_TASKS = 10;
+
+export const GOAL_WEIGHTS = [
+  { value: 0, label: 'Paused' },
+  { value: 1, label: 'Normal' },
+  { value: 2, label: 'More' },
+  { value: 3, label: 'Most' },
+];
+
+// tasksByRoadmap holds each roadmap's open tasks in its own milestone and task
+// order. The result keeps that order within a roadmap and interleaves roadmaps
+// in proportion to their weights (smooth weighted round-robin), so the first
+// few tasks, which the goals are mostly drawn from, are shared fairly.
+export function pickGoalTasks(
+  roadmaps: GoalRoadmap[],
+  tasksByRoadmap: Map<string, TaskForGoals[]>,
+  focusRoadmapId: string | null,
+  limit: number = MAX_GOAL_TASKS
+): TaskForGoals[] {
+  const open = roadmaps.filter((r) => (tasksByRoadmap.get(r.id) || []).length > 0);
+
+  // A focus roadmap takes every goal until its tasks run out
+  const focus = open.find((r) => r.id === focusRoadmapId);
+  if (focus) {
+    return tasksByRoadmap.get(focus.id)!.slice(0, limit);
+  }
+
+  const queues = open
+    .filter((r) => r.goalWeight > 0)
+    .map((r) => ({ weight: r.goalWeight, credit: 0, tasks: [...tasksByRoadmap.get(r.id)!] }));
+
+  const picked: TaskForGoals[] = [];
+  while (picked.length < limit) {
+    const active = queues.filter((q) => q.tasks.length > 0);
+    if (active.length === 0) break;
+
+    const totalWeight = active.reduce((sum, q) => sum + q.weight, 0);
+    for (const q of active) q.credit += q.weight;
+
+    const next = active.reduce((best, q) => (q.credit > best.credit ? q : best));
+    next.credit -= totalWeight;
+    picked.push(next.tasks.shift()!);
+  }
+
+  return picked;
+}
@@ -0,0 +1,74 @@
+// Text recognition for scanned resume pages. It runs in the browser, so the
+// page images never leave the device. pdf.js and Tesseract are only loaded
+// when a scanned PDF is imported. Tesseract's worker, its WebAssembly core and
+// the English model are bundled with the app rather than fetched from a CDN.
+
+// Render scale for recognition; pdf.js pages are 72 dpi at scale 1
+const OCR_SCALE = 2.5;
+
+// Directory of a bundled file's URL; Tesseract takes directories for the core and model
+function directoryOf(url: string): string {
+  return url.slice(0, url.lastIndexOf('/'));
+}
+
+// Longer scans are cut off: the import only reads the first 15,000 characters anyway
+export const MAX_OCR_PAGES = 10;
+
+// Recognized text for the given 1-based PDF pages, by page number
+export async function ocrPdfPages(
+  file: File,
+  pages: number[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Record<number, string>> {
+  const [
+    pdfjs,
+    { default: workerUrl },
+    { createWorker, OEM },
+    { default: ocrWorkerUrl },
+    { default: coreUrl },
+    ,
+    { default: langDataUrl },
+  ] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    import('tesseract.js'),
+    import('tesseract.js/dist/worker.min.js?url'),
+    // Both cores are bundled next to each other; Tesseract picks the SIMD one when the browser supports it
+    import('tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url'),
+    import('tesseract.js-core/tesseract-core-lstm.wasm.js?url'),
+    import('@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+    workerPath: ocrWorkerUrl,
+    corePath: directoryOf(coreUrl),
+    langPath: directoryOf(langDataUrl),
+  });
+  const selected = pages.slice(0, MAX_OCR_PAGES);
+  const text: Record<number, string> = {};
+
+  try {
+    for (const [i, pageNumber] of selected.entries()) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: OCR_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not available for text recognition');
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      const { data } = await worker.recognize(canvas);
+      text[pageNumber] = data.text;
+      onProgress?.(i + 1, selected.length);
+    }
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+
+  return text;
+}
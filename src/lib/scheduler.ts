@@ -0,0 +1,149 @@
+import type { Milestone } from '../types';
+
+// Milestone scheduling: spreads the remaining work on a roadmap across the calendar
+// at the user's weekly available hours, and compares the result with the target date.
+
+export type ScheduleStatus = 'on_track' | 'at_risk' | 'infeasible';
+
+export interface MilestoneSchedule {
+  milestoneId: string;
+  remainingHours: number;
+  dueDate: string; // YYYY-MM-DD
+}
+
+export interface RoadmapSchedule {
+  milestones: MilestoneSchedule[];
+  remainingHours: number;
+  projectedFinish: string | null; // YYYY-MM-DD, null when nothing is left
+  weeksNeeded: number;
+  weeksAvailable: number | null; // null without a target date
+  requiredHoursPerWeek: number | null;
+  overdueCount: number;
+  status: ScheduleStatus | null; // null without a target date
+}
+
+// Used when a milestone has neither resource hours nor an estimate in weeks
+export const DEFAULT_MILESTONE_HOURS = 20;
+
+// Finishing this far past the target (as a share of the time left) is at risk rather than infeasible
+const AT_RISK_MARGIN = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as local calendar days
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Calendar-day steps, so a daylight saving change does not move the date
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Total effort for a milestone: resource hours when the AI gave them,
+// otherwise its estimate in weeks at the user's weekly hours
+export function estimateMilestoneHours(milestone: Milestone, hoursPerWeek: number): number {
+  const resourceHours = milestone.resources.reduce((sum, r) => sum + (r.estimatedHours || 0), 0);
+  if (resourceHours > 0) return resourceHours;
+  if (milestone.estimatedWeeks && hoursPerWeek > 0) return milestone.estimatedWeeks * hoursPerWeek;
+  return DEFAULT_MILESTONE_HOURS;
+}
+
+// Effort still left, reduced by the share of completed subtasks
+export function remainingMilestoneHours(milestone: Milestone, hoursPerWeek: number): number {
+  if (milestone.status === 'completed') return 0;
+
+  const subtasks = milestone.subtasks || [];
+  const done = subtasks.length > 0 ? subtasks.filter((s) => s.isCompleted).length / subtasks.length : 0;
+  return estimateMilestoneHours(milestone, hoursPerWeek) * (1 - done);
+}
+
+export function scheduleRoadmap(
+  milestones: Milestone[],
+  hoursPerWeek: number,
+  targetDate?: string | null,
+  now: Date = new Date()
+): RoadmapSchedule {
+  const today = startOfDay(now);
+  const hoursPerDay = hoursPerWeek / 7;
+  const ordered = [...milestones].sort((a, b) => a.orderIndex - b.orderIndex);
+
+  // Work through open milestones in order, one after another
+  let cumulativeHours = 0;
+  const scheduled: MilestoneSchedule[] = [];
+
+  for (const milestone of ordered) {
+    if (milestone.status === 'completed') continue;
+
+    const remainingHours = remainingMilestoneHours(milestone, hoursPerWeek);
+    cumulativeHours += remainingHours;
+
+    const days = hoursPerDay > 0 ? Math.max(1, Math.ceil(cumulativeHours / hoursPerDay)) : 0;
+    scheduled.push({
+      milestoneId: milestone.id,
+      remainingHours,
+      dueDate: formatDate(addDays(today, days)),
+    });
+  }
+
+  const overdueCount = ordered.filter(
+    (m) => m.status !== 'completed' && m.dueDate && parseDate(m.dueDate) < today
+  ).length;
+
+  const weeksNeeded = hoursPerWeek > 0 ? cumulativeHours / hoursPerWeek : Infinity;
+  const projectedFinish = scheduled.length > 0 ? scheduled[scheduled.length - 1].dueDate : null;
+
+  if (!targetDate) {
+    return {
+      milestones: scheduled,
+      remainingHours: cumulativeHours,
+      projectedFinish,
+      weeksNeeded,
+      weeksAvailable: null,
+      requiredHoursPerWeek: null,
+      overdueCount,
+      status: null,
+    };
+  }
+
+  const target = parseDate(targetDate);
+  // Rounded because a daylight saving change makes one day 23 or 25 hours long
+  const daysAvailable = Math.max(0, Math.round((target.getTime() - today.getTime()) / DAY_MS));
+  const weeksAvailable = daysAvailable / 7;
+  const requiredHoursPerWeek = weeksAvailable > 0 ? cumulativeHours / weeksAvailable : null;
+
+  let status: ScheduleStatus;
+  if (cumulativeHours === 0) {
+    status = 'on_track';
+  } else if (hoursPerWeek <= 0 || weeksAvailable === 0) {
+    status = 'infeasible';
+  } else if (weeksNeeded <= weeksAvailable) {
+    status = overdueCount > 0 ? 'at_risk' : 'on_track';
+  } else if (weeksNeeded <= weeksAvailable * (1 + AT_RISK_MARGIN)) {
+    status = 'at_risk';
+  } else {
+    status = 'infeasible';
+  }
+
+  return {
+    milestones: scheduled,
+    remainingHours: cumulativeHours,
+    projectedFinish,
+    weeksNeeded,
+    weeksAvailable,
+    requiredHoursPerWeek,
+    overdueCount,
+    status,
+  };
+}
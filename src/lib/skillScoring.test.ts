@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_TAXONOMY, indexTaxonomy, matchSkills, normalizeSkill, scoreSkills } from './skillScoring';
+
+const taxonomy = indexTaxonomy({
+  skills: [
+    { id: 'programming-languages', name: 'Programming Languages', parentId: null },
+    { id: 'javascript', name: 'JavaScript', parentId: 'programming-languages' },
+    { id: 'typescript', name: 'TypeScript', parentId: 'programming-languages' },
+    { id: 'coffeescript', name: 'CoffeeScript', parentId: 'programming-languages' },
+    { id: 'java', name: 'Java', parentId: 'programming-languages' },
+    { id: 'leadership', name: 'Leadership', parentId: null },
+    { id: 'mentoring', name: 'Mentoring', parentId: 'leadership' },
+  ],
+  aliases: [
+    { alias: 'js', skillId: 'javascript' },
+    { alias: 'ecmascript', skillId: 'javascript' },
+  ],
+  relations: [
+    { skillId: 'javascript', relatedSkillId: 'typescript', weight: 0.7 },
+    { skillId: 'coffeescript', relatedSkillId: 'javascript', weight: 1 },
+  ],
+});
+
+describe('normalizeSkill', () => {
+  it('lowercases and drops dots, dashes and underscores', () => {
+    expect(normalizeSkill('Node.js')).toBe('nodejs');
+    expect(normalizeSkill('CI_CD')).toBe('cicd');
+    expect(normalizeSkill('Front-End')).toBe('frontend');
+  });
+
+  it('collapses and trims whitespace', () => {
+    expect(normalizeSkill('  Machine \t  Learning ')).toBe('machine learning');
+  });
+
+  it('keeps the symbols that tell languages apart', () => {
+    expect(normalizeSkill('C++')).toBe('c++');
+    expect(normalizeSkill('C#')).toBe('c#');
+  });
+});
+
+describe('matchSkills', () => {
+  it('matches names that are equal after normalization exactly', () => {
+    expect(matchSkills(taxonomy, 'react.js', 'ReactJS')).toEqual({ matchType: 'exact', credit: 1 });
+  });
+
+  it('matches aliases of the same skill as similar', () => {
+    expect(matchSkills(taxonomy, 'JS', 'JavaScript')).toEqual({ matchType: 'similar', credit: 1 });
+  });
+
+  it('credits related skills with the edge weight, in both directions', () => {
+    expect(matchSkills(taxonomy, 'TypeScript', 'JavaScript')).toEqual({ matchType: 'transferable', credit: 0.7 });
+    expect(matchSkills(taxonomy, 'js', 'TypeScript')).toEqual({ matchType: 'transferable', credit: 0.7 });
+  });
+
+  it('credits a skill toward its category and back', () => {
+    expect(matchSkills(taxonomy, 'Mentoring', 'Leadership')).toEqual({ matchType: 'transferable', credit: 0.5 });
+    expect(matchSkills(taxonomy, 'Leadership', 'Mentoring')).toEqual({ matchType: 'transferable', credit: 0.5 });
+  });
+
+  it('does not match on substrings', () => {
+    expect(matchSkills(taxonomy, 'Java', 'JavaScript')).toBeNull();
+    expect(matchSkills(EMPTY_TAXONOMY, 'AI', 'Email Marketing')).toBeNull();
+  });
+
+  it('does not match skills that only share a category', () => {
+    expect(matchSkills(taxonomy, 'Java', 'TypeScript')).toBeNull();
+  });
+
+  it('does not match names the taxonomy does not know', () => {
+    expect(matchSkills(taxonomy, 'Cooking', 'JavaScript')).toBeNull();
+  });
+});
+
+describe('scoreSkills', () => {
+  describe('best match', () => {
+    it('prefers the stronger match type when scores tie', () => {
+      // exact: min(3, 5) * 1 = 3; transferable: min(floor(5 * 1), 5) * 0.6 = 3
+      const { skills } = scoreSkills(
+        [
+          { skillName: 'CoffeeScript', proficiencyLevel: 5 },
+          { skillName: 'JavaScript', proficiencyLevel: 3 },
+        ],
+        [{ skillName: 'JavaScript', requiredLevel: 5, priority: 'high' }],
+        taxonomy
+      );
+
+      expect(skills[0].match).toEqual({ userSkill: 'JavaScript', matchType: 'exact', confidence: 1 });
+      expect(skills[0].currentLevel).toBe(3);
+    });
+
+    it('prefers a similar match over a transferable one with the same score', () => {
+      // similar: min(2, 5) * 0.9 = 1.8; transferable: min(3, 5) * 0.6 = 1.8
+      const { skills } = scoreSkills(
+        [
+          { skillName: 'CoffeeScript', proficiencyLevel: 3 },
+          { skillName: 'JS', proficiencyLevel: 2 },
+        ],
+        [{ skillName: 'JavaScript', requiredLevel: 5, priority: 'high' }],
+        taxonomy
+      );
+
+      expect(skills[0].match?.matchType).toBe('similar');
+      expect(skills[0].currentLevel).toBe(2);
+    });
+
+    it('breaks remaining ties by user skill name, whatever order skills are given in', () => {
+      const userSkills = [
+        { skillName: 'JS', proficiencyLevel: 3 },
+        { skillName: 'ECMAScript', proficiencyLevel: 3 },
+      ];
+      const targets = [{ skillName: 'JavaScript', requiredLevel: 3, priority: 'high' }];
+
+      expect(scoreSkills(userSkills, targets, taxonomy).skills[0].match?.userSkill).toBe('ECMAScript');
+      expect(scoreSkills([...userSkills].reverse(), targets, taxonomy).skills[0].match?.userSkill).toBe('ECMAScript');
+    });
+
+    it('prefers a higher score over a stronger match type', () => {
+      const { skills } = scoreSkills(
+        [
+          { skillName: 'JS', proficiencyLevel: 4 },
+          { skillName: 'JavaScript', proficiencyLevel: 1 },
+        ],
+        [{ skillName: 'JavaScript', requiredLevel: 4, priority: 'high' }],
+        taxonomy
+      );
+
+      expect(skills[0].match?.userSkill).toBe('JS');
+      expect(skills[0].gap).toBe(0);
+    });
+
+    it('ignores unrated skills and credit that rounds down to nothing', () => {
+      const { skills } = scoreSkills(
+        [
+          { skillName: 'JavaScript', proficiencyLevel: 0 },
+          { skillName: 'Mentoring', proficiencyLevel: 1 }, // floor(1 * 0.5) = 0
+        ],
+        [
+          { skillName: 'JavaScript', requiredLevel: 2, priority: 'high' },
+          { skillName: 'Leadership', requiredLevel: 2, priority: 'high' },
+        ],
+        taxonomy
+      );
+
+      expect(skills.map((s) => s.match)).toEqual([null, null]);
+      expect(skills.map((s) => s.currentLevel)).toEqual([0, 0]);
+    });
+  });
+
+  describe('readiness', () => {
+    it('is the confidence-weighted share of required levels met', () => {
+      const { readiness } = scoreSkills(
+        [
+          { skillName: 'JavaScript', proficiencyLevel: 5 }, // exact, capped at 4
+          { skillName: 'Mentoring', proficiencyLevel: 4 }, // transferable, floor(4 * 0.5) = 2
+        ],
+        [
+          { skillName: 'JavaScript', requiredLevel: 4, priority: 'critical' },
+          { skillName: 'Leadership', requiredLevel: 3, priority: 'medium' },
+          { skillName: 'Java', requiredLevel: 2, priority: 'low' },
+        ],
+        taxonomy
+      );
+
+      // (4 * 1 * 4 + 2 * 0.6 * 2 + 1 * 0 * 0) / (4 * 4 + 2 * 3 + 1 * 2) = 18.4 / 24
+      expect(readiness).toBe(77);
+    });
+
+    it('weights unknown priorities as medium', () => {
+      const userSkills = [{ skillName: 'Java', proficiencyLevel: 2 }];
+      const asMedium = scoreSkills(userSkills, [
+        { skillName: 'Java', requiredLevel: 2, priority: 'medium' },
+        { skillName: 'Go', requiredLevel: 2, priority: 'high' },
+      ]);
+      const asUnknown = scoreSkills(userSkills, [
+        { skillName: 'Java', requiredLevel: 2, priority: 'urgent' },
+        { skillName: 'Go', requiredLevel: 2, priority: 'high' },
+      ]);
+
+      expect(asUnknown.readiness).toBe(asMedium.readiness);
+      expect(asUnknown.skills[0].priority).toBe('medium');
+    });
+
+    it('is 0 when there are no required skills', () => {
+      expect(scoreSkills([{ skillName: 'Java', proficiencyLevel: 3 }], []).readiness).toBe(0);
+    });
+  });
+
+  describe('gaps', () => {
+    it('orders gaps by priority, then by size, then by name', () => {
+      const { skills, gaps } = scoreSkills(
+        [{ skillName: 'Met', proficiencyLevel: 1 }],
+        [
+          { skillName: 'Zeta', requiredLevel: 5, priority: 'low' },
+          { skillName: 'Beta', requiredLevel: 2, priority: 'critical' },
+          { skillName: 'Delta', requiredLevel: 3, priority: 'high' },
+          { skillName: 'Met', requiredLevel: 1, priority: 'critical' },
+          { skillName: 'Alpha', requiredLevel: 2, priority: 'critical' },
+          { skillName: 'Gamma', requiredLevel: 4, priority: 'critical' },
+        ]
+      );
+
+      expect(gaps.map((g) => g.skillName)).toEqual(['Gamma', 'Alpha', 'Beta', 'Delta', 'Zeta']);
+      expect(skills.map((s) => s.skillName)).toEqual(['Zeta', 'Beta', 'Delta', 'Met', 'Alpha', 'Gamma']);
+    });
+  });
+});
@@ -0,0 +1,3 @@
+// The skill gap scoring engine lives with the edge functions so analyze-skill-gaps
+// and the app score skills the same way; see the algorithm notes in that file.
+export * from '../../supabase/functions/_shared/skill-scoring.ts';
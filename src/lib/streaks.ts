@@ -0,0 +1,42 @@
+import { formatDate } from './scheduler';
+
+export interface GoalStreak {
+  current: number;
+  longest: number;
+}
+
+// Move a YYYY-MM-DD date by a number of days
+function shiftDay(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return formatDate(new Date(year, month - 1, day + days));
+}
+
+// Streaks count consecutive days with at least one completed goal. Today still
+// counts as part of the current streak until it is over, so an unfinished today
+// does not break a streak that ran through yesterday.
+export function computeGoalStreak(activeDays: string[], today: string = formatDate(new Date())): GoalStreak {
+  const days = new Set(activeDays);
+
+  let current = 0;
+  let day = days.has(today) ? today : shiftDay(today, -1);
+  while (days.has(day)) {
+    current++;
+    day = shiftDay(day, -1);
+  }
+
+  let longest = 0;
+  for (const start of days) {
+    // Only count from the first day of each run
+    if (days.has(shiftDay(start, -1))) continue;
+
+    let length = 0;
+    let next = start;
+    while (days.has(next)) {
+      length++;
+      next = shiftDay(next, 1);
+    }
+    longest = Math.max(longest, length);
+  }
+
+  return { current, longest };
+}
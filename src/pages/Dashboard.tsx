@@ -3,7 +3,10 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Button, Card, CardHeader, CardTitle, CardContent } from '../components/ui';
 import { ApiUsageDisplay } from '../components/ApiUsageDisplay';
 import { DailyGoals } from '../components/DailyGoals';
+import { CalendarSync } from '../components/CalendarSync';
+import { StudyAvailability } from '../components/StudyAvailability';
 import { supabase } from '../lib/supabase';
+import { deleteRoadmap, getMonthlyApiUsage, getUserRoadmaps } from '../lib/api';
 import type { ApiUsageSummary } from '../types';
 
 interface RoadmapData {
@@ -48,12 +51,7 @@ export function Dashboard() {
 
   const loadRoadmaps = async (userId: string) => {
     try {
-      const { data } = await supabase
-        .from('roadmaps')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
+      const { roadmaps: data } = await getUserRoadmaps(userId);
       setRoadmaps(data || []);
     } catch (error) {
       console.error('Error loading roadmaps:', error);
@@ -64,35 +62,10 @@ export function Dashboard() {
 
   const loadApiUsage = async (userId: string) => {
     try {
-      // Get first day of current month
-      const now = new Date();
-      const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
-
-      const { data, error } = await supabase
-        .from('api_usage')
-        .select('operation, credits_used')
-        .eq('user_id', userId)
-        .gte('created_at', firstDayOfMonth);
-
+      const { usage, error } = await getMonthlyApiUsage(userId);
       if (error) throw error;
 
-      // Aggregate by operation
-      const aggregated = (data || []).reduce((acc, item) => {
-        const existing = acc.find((a) => a.operation === item.operation);
-        if (existing) {
-          existing.totalCredits += item.credits_used;
-          existing.usageCount += 1;
-        } else {
-          acc.push({
-            operation: item.operation,
-            totalCredits: item.credits_used,
-            usageCount: 1,
-          });
-        }
-        return acc;
-      }, [] as ApiUsageSummary[]);
-
-      setApiUsage(aggregated);
+      setApiUsage(usage);
     } catch (error) {
       console.error('Error loading API usage:', error);
     } finally {
@@ -108,10 +81,7 @@ export function Dashboard() {
   const handleDeleteRoadmap = async (roadmapId: string) => {
     setDeletingId(roadmapId);
     try {
-      const { error } = await supabase
-        .from('roadmaps')
-        .delete()
-        .eq('id', roadmapId);
+      const { error } = await deleteRoadmap(roadmapId);
 
       if (error) throw error;
 
@@ -298,6 +268,20 @@ export function Dashboard() {
           </div>
         )}
 
+        {/* Study time per weekday, used to size daily goals */}
+        {user && roadmaps.length > 0 && (
+          <div className="mt-8">
+            <StudyAvailability userId={user.id} />
+          </div>
+        )}
+
+        {/* Calendar export and feed */}
+        {user && roadmaps.length > 0 && (
+          <div className="mt-8">
+            <CalendarSync userId={user.id} />
+          </div>
+        )}
+
         {/* API Usage - collapsible at bottom */}
         <div className="mt-8">
           <ApiUsageDisplay usage={apiUsage} isLoading={isLoadingUsage} />
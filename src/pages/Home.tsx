@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '../components/ui';
 import { supabase } from '../lib/supabase';
+import { hasRoadmaps } from '../lib/api';
 
 export function Home() {
   const navigate = useNavigate();
@@ -41,13 +42,9 @@ export function Home() {
           window.history.replaceState(null, '', window.location.pathname);
 
           // Check if user has existing roadmaps
-          const { data: roadmaps } = await supabase
-            .from('roadmaps')
-            .select('id')
-            .eq('user_id', session.user.id)
-            .limit(1);
+          const { hasRoadmaps: returning } = await hasRoadmaps(session.user.id);
 
-          if (roadmaps && roadmaps.length > 0) {
+          if (returning) {
             navigate('/dashboard');
           } else {
             navigate('/onboarding');
@@ -62,13 +59,9 @@ export function Home() {
             window.history.replaceState(null, '', window.location.pathname);
 
             // Check if user has existing roadmaps
-            const { data: roadmaps } = await supabase
-              .from('roadmaps')
-              .select('id')
-              .eq('user_id', session.user.id)
-              .limit(1);
+            const { hasRoadmaps: returning } = await hasRoadmaps(session.user.id);
 
-            if (roadmaps && roadmaps.length > 0) {
+            if (returning) {
               navigate('/dashboard');
             } else {
               navigate('/onboarding');
@@ -1,8 +1,27 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { Button, Card, CardContent, Input } from '../components/ui';
+import { ResumeUpload } from '../components';
 import { supabase } from '../lib/supabase';
-import type { OnboardingData } from '../types';
+import {
+  cancelRoadmapGeneration,
+  hasRoadmaps,
+  saveResumeProfile,
+  saveUserProfile,
+  streamRoadmapGeneration,
+  type ResumeImportResult,
+  type RoadmapStreamRequest,
+} from '../lib/api';
+import { EDUCATION_LABELS } from '../types';
+import type { GeneratedMilestone, OnboardingData } from '../types';
+
+// localStorage key for a generation that may still be running
+const ACTIVE_GENERATION_KEY = 'roadmapGeneration_active';
+
+interface ActiveGeneration {
+  id: string;
+  targetCareer: string;
+}
 
 const STEPS = [
   { id: 1, title: 'Current Situation' },
@@ -18,9 +37,17 @@ export function Onboarding() {
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const [error, setError] = useState('');
   const [generationStatus, setGenerationStatus] = useState('');
+  const [generationId, setGenerationId] = useState<string | null>(null);
+  const [streamedMilestones, setStreamedMilestones] = useState<GeneratedMilestone[]>([]);
+  const [pendingGeneration, setPendingGeneration] = useState<ActiveGeneration | null>(() => {
+    const stored = localStorage.getItem(ACTIVE_GENERATION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  });
+  const abortRef = useRef<AbortController | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [hasExistingRoadmaps, setHasExistingRoadmaps] = useState(false);
+  const [filledFromResume, setFilledFromResume] = useState(false);
   const [formData, setFormData] = useState<OnboardingData>({
     currentJob: '',
     yearsExperience: 0,
@@ -33,17 +60,7 @@ export function Onboarding() {
     targetTimeframe: '12 months',
   });
 
-  const EDUCATION_OPTIONS = [
-    { value: 'high_school', label: 'High School Diploma' },
-    { value: 'some_college', label: 'Some College' },
-    { value: 'associates', label: "Associate's Degree" },
-    { value: 'bachelors', label: "Bachelor's Degree" },
-    { value: 'masters', label: "Master's Degree" },
-    { value: 'phd', label: 'PhD/Doctorate' },
-    { value: 'trade', label: 'Trade/Vocational Certificate' },
-    { value: 'bootcamp', label: 'Bootcamp/Short Course' },
-    { value: 'self_taught', label: 'Self-Taught' },
-  ];
+  const EDUCATION_OPTIONS = Object.entries(EDUCATION_LABELS).map(([value, label]) => ({ value, label }));
 
   const toggleEducation = (value: string) => {
     setFormData((prev) => ({
@@ -69,13 +86,8 @@ export function Onboarding() {
         setIsCheckingAuth(false);
 
         // Check if user has existing roadmaps
-        const { data: roadmaps } = await supabase
-          .from('roadmaps')
-          .select('id')
-          .eq('user_id', session.user.id)
-          .limit(1);
-
-        setHasExistingRoadmaps(roadmaps !== null && roadmaps.length > 0);
+        const { hasRoadmaps: returning } = await hasRoadmaps(session.user.id);
+        setHasExistingRoadmaps(returning);
       } else if (!hasAuthParams) {
         // Only redirect if we're not in the middle of OAuth
         navigate('/login?redirect=onboarding');
@@ -110,6 +122,29 @@ export function Onboarding() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  // Fill in step 1 from a resume and keep its work history for roadmap generation
+  const handleResumeImported = (result: ResumeImportResult) => {
+    const { profile } = result;
+    if (!profile || profile.positions.length + profile.education.length === 0) {
+      return 'No work history or education found in the document.';
+    }
+
+    const { suggested } = profile;
+    setFormData((prev) => ({
+      ...prev,
+      currentJob: suggested.currentJob ?? prev.currentJob,
+      yearsExperience: suggested.yearsExperience ?? prev.yearsExperience,
+      education: [...new Set([...prev.education, ...suggested.education])],
+    }));
+    setFilledFromResume(true);
+
+    if (userId) {
+      saveResumeProfile(profile, 'pdf').then(({ error }) => {
+        if (error) console.error('Error saving work history:', error);
+      });
+    }
+  };
+
   const handleNext = () => {
     if (currentStep < 4) {
       setCurrentStep((prev) => prev + 1);
@@ -122,111 +157,84 @@ export function Onboarding() {
     }
   };
 
-  const handleSubmit = async () => {
-    if (!userId) {
-      navigate('/login?redirect=onboarding');
-      return;
+  // Saved in localStorage so a reload can resume or cancel the generation
+  const storeActiveGeneration = (generation: ActiveGeneration | null) => {
+    if (generation) {
+      localStorage.setItem(ACTIVE_GENERATION_KEY, JSON.stringify(generation));
+    } else {
+      localStorage.removeItem(ACTIVE_GENERATION_KEY);
     }
+  };
 
-    setIsGenerating(true);
-    setError('');
-    setGenerationStatus('Connecting to AI...');
-
-    try {
-      // Update user profile
-      setGenerationStatus('Saving your profile...');
-      await supabase.from('user_profiles').upsert({
-        id: userId,
-        current_job: formData.currentJob,
-        years_experience: formData.yearsExperience,
-        education_level: formData.education.join(', '), // Store as comma-separated string
-        income_bracket: formData.incomeBracket,
-        available_hours: formData.availableHours,
-        learning_style: formData.learningStyle,
-        updated_at: new Date().toISOString(),
-      });
+  const resetGeneration = () => {
+    abortRef.current = null;
+    setIsGenerating(false);
+    setGenerationStatus('');
+    setGenerationId(null);
+    setStreamedMilestones([]);
+  };
 
-      // Call Edge Function to generate roadmap
-      setGenerationStatus('AI is researching your career path...');
-      const { data, error: fnError } = await supabase.functions.invoke('generate-roadmap', {
-        body: {
-          userProfile: {
-            currentJob: formData.currentJob,
-            yearsExperience: formData.yearsExperience,
-            education: formData.education.join(', '), // Send as readable string
-            availableHours: formData.availableHours,
-            learningStyle: formData.learningStyle,
-          },
-          targetCareer: formData.targetCareer,
-          timeframe: formData.targetTimeframe,
-        },
-      });
+  // Follow a new or resumed generation until it is saved, then continue to skill rating
+  const runGeneration = async (request: RoadmapStreamRequest, targetCareer: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const outcome: { roadmapId?: string; skillCount?: number; error?: string; cancelled?: boolean } = {};
 
-      if (fnError) {
-        throw new Error(fnError.message || 'Failed to generate roadmap');
-      }
+    try {
+      await streamRoadmapGeneration(request, (event) => {
+        switch (event.type) {
+          case 'started':
+            setGenerationId(event.generationId);
+            storeActiveGeneration({ id: event.generationId, targetCareer });
+            break;
+          case 'research':
+            setGenerationStatus('AI is researching your career path...');
+            break;
+          case 'milestone':
+            setStreamedMilestones((prev) => {
+              const next = [...prev];
+              next[event.index] = event.milestone;
+              return next;
+            });
+            setGenerationStatus(`Planned milestone ${event.index + 1}: ${event.milestone.title}`);
+            break;
+          case 'skills':
+            setGenerationStatus('Setting up your milestones and required skills...');
+            break;
+          case 'saved':
+            outcome.roadmapId = event.roadmapId;
+            outcome.skillCount = event.skillCount;
+            break;
+          case 'error':
+            outcome.error = event.message;
+            break;
+          case 'cancelled':
+            outcome.cancelled = true;
+            break;
+        }
+      }, controller.signal);
 
-      setGenerationStatus('Creating your personalized roadmap...');
-
-      // Save roadmap to database
-      const { data: roadmapData, error: roadmapError } = await supabase
-        .from('roadmaps')
-        .insert({
-          user_id: userId,
-          target_career: formData.targetCareer,
-          target_date: calculateTargetDate(formData.targetTimeframe),
-          ai_generated_plan: data.roadmap,
-          citations: data.citations || [],
-        })
-        .select()
-        .single();
-
-      if (roadmapError) {
-        throw new Error('Failed to save roadmap');
+      if (outcome.cancelled) {
+        storeActiveGeneration(null);
+        resetGeneration();
+        return;
       }
 
-      // Save milestones
-      if (data.roadmap?.milestones && Array.isArray(data.roadmap.milestones)) {
-        setGenerationStatus('Setting up your milestones...');
-
-        const milestones = data.roadmap.milestones.map((m: any, index: number) => ({
-          roadmap_id: roadmapData.id,
-          title: m.title || `Milestone ${index + 1}`,
-          description: m.description || '',
-          order_index: m.orderIndex ?? index,
-          status: 'pending',
-          resources: m.resources || [],
-        }));
-
-        await supabase.from('milestones').insert(milestones);
+      if (outcome.error || !outcome.roadmapId) {
+        storeActiveGeneration(null);
+        throw new Error(outcome.error || 'Roadmap generation ended unexpectedly. Please try again.');
       }
 
-      // Save required skills for the target role
-      setGenerationStatus('Setting up required skills...');
-
-      let hasSkills = false;
-      if (data.roadmap?.requiredSkills && Array.isArray(data.roadmap.requiredSkills) && data.roadmap.requiredSkills.length > 0) {
-        const targetSkills = data.roadmap.requiredSkills.map((s: any) => ({
-          roadmap_id: roadmapData.id,
-          skill_name: s.skillName,
-          required_level: Math.min(5, Math.max(1, s.requiredLevel || 3)),
-          priority: ['critical', 'high', 'medium', 'low'].includes(s.priority) ? s.priority : 'medium',
-        }));
-
-        const { error: skillsError } = await supabase.from('target_role_skills').insert(targetSkills);
-        if (!skillsError) {
-          hasSkills = true;
-        }
-      }
+      const roadmapId = outcome.roadmapId;
 
       // If no skills were saved, generate them via analyze-skill-gaps (which creates them if missing)
-      if (!hasSkills) {
+      if (!outcome.skillCount) {
         setGenerationStatus('Generating required skills for this role...');
         try {
           await supabase.functions.invoke('analyze-skill-gaps', {
             body: {
-              roadmapId: roadmapData.id,
-              targetCareer: formData.targetCareer,
+              roadmapId,
+              targetCareer,
             },
           });
         } catch (e) {
@@ -235,18 +243,87 @@ export function Onboarding() {
         }
       }
 
+      storeActiveGeneration(null);
       setGenerationStatus('Done! Redirecting to rate your skills...');
 
       // Redirect to the skill rating page
       setTimeout(() => {
-        navigate(`/skills/rate-required?roadmapId=${roadmapData.id}`);
+        navigate(`/skills/rate-required?roadmapId=${roadmapId}`);
       }, 1000);
 
     } catch (err) {
+      // Aborted by handleCancel, which has already reset the page
+      if (controller.signal.aborted) return;
+
       console.error('Error generating roadmap:', err);
       setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
-      setIsGenerating(false);
-      setGenerationStatus('');
+      resetGeneration();
+
+      // The generation may still be running server-side; offer to resume it
+      const stored = localStorage.getItem(ACTIVE_GENERATION_KEY);
+      setPendingGeneration(stored ? JSON.parse(stored) : null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!userId) {
+      navigate('/login?redirect=onboarding');
+      return;
+    }
+
+    setIsGenerating(true);
+    setError('');
+    setStreamedMilestones([]);
+    setGenerationStatus('Saving your profile...');
+
+    // Update user profile
+    await saveUserProfile(userId, formData);
+
+    // Call Edge Function to generate and save the roadmap, streaming progress
+    setGenerationStatus('Connecting to AI...');
+    await runGeneration(
+      {
+        userProfile: {
+          currentJob: formData.currentJob,
+          yearsExperience: formData.yearsExperience,
+          education: formData.education.join(', '), // Send as readable string
+          availableHours: formData.availableHours,
+          learningStyle: formData.learningStyle,
+        },
+        targetCareer: formData.targetCareer,
+        timeframe: formData.targetTimeframe,
+        targetDate: calculateTargetDate(formData.targetTimeframe),
+      },
+      formData.targetCareer
+    );
+  };
+
+  const handleResume = async () => {
+    if (!pendingGeneration) return;
+
+    const generation = pendingGeneration;
+    setPendingGeneration(null);
+    setIsGenerating(true);
+    setError('');
+    setStreamedMilestones([]);
+    setGenerationId(generation.id);
+    setGenerationStatus('Reconnecting to your roadmap generation...');
+
+    await runGeneration({ resumeGenerationId: generation.id }, generation.targetCareer);
+  };
+
+  const handleCancel = async () => {
+    const id = generationId || pendingGeneration?.id;
+    abortRef.current?.abort();
+    storeActiveGeneration(null);
+    setPendingGeneration(null);
+    resetGeneration();
+
+    if (id) {
+      const { error: cancelError } = await cancelRoadmapGeneration(id);
+      if (cancelError) {
+        console.error('Failed to cancel generation:', cancelError);
+      }
     }
   };
 
@@ -361,9 +438,34 @@ export function Onboarding() {
             </div>
           )}
 
+          {/* Generation left running by a reload or dropped connection */}
+          {pendingGeneration && !isGenerating && (
+            <div className="mb-4 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+              <p className="text-sm text-amber-800 dark:text-amber-300 mb-3">
+                Your roadmap for <span className="font-medium">{pendingGeneration.targetCareer}</span> may still be generating.
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleResume}>Resume</Button>
+                <Button size="sm" variant="outline" onClick={handleCancel}>Cancel it</Button>
+              </div>
+            </div>
+          )}
+
           {/* Step 1: Current Situation */}
           {currentStep === 1 && (
             <div className="space-y-4">
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Fill in from your resume (optional)
+                </p>
+                <ResumeUpload onStart={() => setFilledFromResume(false)} onImported={handleResumeImported} />
+                {filledFromResume && (
+                  <p className="mt-2 text-xs text-green-600 dark:text-green-400">
+                    Filled in from your resume. Check the details below before continuing.
+                  </p>
+                )}
+              </div>
+
               <Input
                 label="Current Job Title"
                 value={formData.currentJob}
@@ -563,8 +665,37 @@ export function Onboarding() {
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                   />
                 </svg>
-                <span className="text-indigo-700 dark:text-indigo-300">{generationStatus}</span>
+                <span className="text-indigo-700 dark:text-indigo-300 flex-1">{generationStatus}</span>
+                {generationId && (
+                  <Button size="sm" variant="outline" className="ml-3" onClick={handleCancel}>
+                    Cancel
+                  </Button>
+                )}
               </div>
+
+              {/* Milestones appear as soon as the AI finishes each one */}
+              {streamedMilestones.length > 0 && (
+                <ol className="mt-4 space-y-2">
+                  {streamedMilestones.map((milestone, index) => milestone && (
+                    <li
+                      key={index}
+                      className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-indigo-100 dark:border-indigo-800"
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 dark:text-white text-sm">
+                          {index + 1}. {milestone.title}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">
+                          ~{milestone.estimatedWeeks} weeks
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                        {milestone.subtasks.length} tasks
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
             </div>
           )}
 
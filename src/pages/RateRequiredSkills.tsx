@@ -2,14 +2,9 @@ import { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { Button, Card, CardContent } from '../components/ui';
 import { supabase } from '../lib/supabase';
+import { addRequiredSkills, getRoadmapTargetCareer, getTargetRoleSkills, saveSkillRatings } from '../lib/api';
 import { PROFICIENCY_LABELS } from '../types';
-
-interface TargetSkill {
-  id: string;
-  skillName: string;
-  requiredLevel: number;
-  priority: 'critical' | 'high' | 'medium' | 'low';
-}
+import type { TargetRoleSkill } from '../types';
 
 export function RateRequiredSkills() {
   const navigate = useNavigate();
@@ -18,7 +13,7 @@ export function RateRequiredSkills() {
 
   const [user, setUser] = useState<{ id: string } | null>(null);
   const [targetCareer, setTargetCareer] = useState<string>('');
-  const [targetSkills, setTargetSkills] = useState<TargetSkill[]>([]);
+  const [targetSkills, setTargetSkills] = useState<TargetRoleSkill[]>([]);
   const [ratings, setRatings] = useState<Map<string, number>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -45,24 +40,14 @@ export function RateRequiredSkills() {
     }
 
     // Load roadmap info
-    const { data: roadmap } = await supabase
-      .from('roadmaps')
-      .select('target_career')
-      .eq('id', roadmapId)
-      .single();
-
-    const career = roadmap?.target_career || '';
+    const { targetCareer: career } = await getRoadmapTargetCareer(roadmapId);
     setTargetCareer(career);
 
-    // Load target skills
-    let { data: skills } = await supabase
-      .from('target_role_skills')
-      .select('id, skill_name, required_level, priority')
-      .eq('roadmap_id', roadmapId)
-      .order('priority');
+    // Load target skills, most important first
+    let { skills } = await getTargetRoleSkills(roadmapId);
 
     // If no skills found, generate them via analyze-skill-gaps
-    if (!skills || skills.length === 0) {
+    if (skills.length === 0) {
       try {
         await supabase.functions.invoke('analyze-skill-gaps', {
           body: {
@@ -72,35 +57,18 @@ export function RateRequiredSkills() {
         });
 
         // Reload skills after generation
-        const { data: newSkills } = await supabase
-          .from('target_role_skills')
-          .select('id, skill_name, required_level, priority')
-          .eq('roadmap_id', roadmapId)
-          .order('priority');
-
-        skills = newSkills;
+        ({ skills } = await getTargetRoleSkills(roadmapId));
       } catch (e) {
         console.error('Failed to generate skills:', e);
       }
     }
 
-    if (skills && skills.length > 0) {
-      // Sort by priority
-      const priorityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
-      const sortedSkills = skills
-        .map(s => ({
-          id: s.id,
-          skillName: s.skill_name,
-          requiredLevel: s.required_level,
-          priority: s.priority as TargetSkill['priority'],
-        }))
-        .sort((a, b) => (priorityOrder[a.priority] ?? 2) - (priorityOrder[b.priority] ?? 2));
-
-      setTargetSkills(sortedSkills);
+    if (skills.length > 0) {
+      setTargetSkills(skills);
 
       // Initialize ratings
       const initialRatings = new Map<string, number>();
-      sortedSkills.forEach(s => initialRatings.set(s.skillName, 0));
+      skills.forEach(s => initialRatings.set(s.skillName, 0));
       setRatings(initialRatings);
     }
 
@@ -130,36 +98,22 @@ export function RateRequiredSkills() {
 
     try {
       // Save all rated skills to user_skills
-      const skillsToSave = Array.from(ratings.entries())
-        .filter(([_, rating]) => rating > 0)
-        .map(([skillName, rating]) => ({
-          user_id: user.id,
-          skill_name: skillName,
-          proficiency_level: rating,
-          source: 'self_assessment',
-        }));
-
-      if (skillsToSave.length > 0) {
-        await supabase
-          .from('user_skills')
-          .upsert(skillsToSave, { onConflict: 'user_id,skill_name' });
-      }
+      const { error: ratingsError } = await saveSkillRatings(
+        user.id,
+        Array.from(ratings.entries())
+          .filter(([_, rating]) => rating > 0)
+          .map(([skillName, rating]) => ({ skillName, proficiencyLevel: rating }))
+      );
+      if (ratingsError) throw ratingsError;
 
       // Also save unrated skills with level 0 so they appear in the skills list
-      const unratedSkills = Array.from(ratings.entries())
-        .filter(([_, rating]) => rating === 0)
-        .map(([skillName]) => ({
-          user_id: user.id,
-          skill_name: skillName,
-          proficiency_level: 0,
-          source: 'role_requirement',
-        }));
-
-      if (unratedSkills.length > 0) {
-        await supabase
-          .from('user_skills')
-          .upsert(unratedSkills, { onConflict: 'user_id,skill_name' });
-      }
+      const { error: unratedError } = await addRequiredSkills(
+        user.id,
+        Array.from(ratings.entries())
+          .filter(([_, rating]) => rating === 0)
+          .map(([skillName]) => skillName)
+      );
+      if (unratedError) throw unratedError;
 
       // Run skill gap analysis
       await supabase.functions.invoke('analyze-skill-gaps', {
@@ -186,18 +140,7 @@ export function RateRequiredSkills() {
 
     try {
       // Save all skills with level 0 (unrated)
-      const skillsToSave = targetSkills.map(skill => ({
-        user_id: user.id,
-        skill_name: skill.skillName,
-        proficiency_level: 0,
-        source: 'role_requirement',
-      }));
-
-      if (skillsToSave.length > 0) {
-        await supabase
-          .from('user_skills')
-          .upsert(skillsToSave, { onConflict: 'user_id,skill_name' });
-      }
+      await addRequiredSkills(user.id, targetSkills.map(skill => skill.skillName));
 
       // Navigate to roadmap
       navigate(`/roadmap/${roadmapId}?tab=skills`);
@@ -2,20 +2,65 @@ import { useEffect, useState } from 'react';
 import { useParams, useNavigate, Link, useSearchParams } from 'react-router-dom';
 import { Button, Card, CardContent } from '../components/ui';
 import { MilestoneCard } from '../components/MilestoneCard';
+import { ReplanReview } from '../components/ReplanReview';
+import { RoadmapHistory } from '../components/RoadmapHistory';
+import { MilestoneEditor } from '../components/MilestoneEditor';
+import { ScheduleSummary } from '../components/ScheduleSummary';
+import { RoadmapAnalytics } from '../components/RoadmapAnalytics';
+import { SkillGapTrend } from '../components/SkillGapTrend';
+import { ReadinessWhatIf } from '../components/ReadinessWhatIf';
 import { supabase } from '../lib/supabase';
-import type { Milestone, Subtask, SkillGapAnalysis as SkillGapAnalysisType, TargetRoleSkill, Citation, SkillMatch } from '../types';
-
-type TabType = 'milestones' | 'skills';
-
-// Local type matching database schema (snake_case)
-interface RoadmapData {
-  id: string;
-  user_id: string;
-  target_career: string;
-  target_date: string;
-  citations: Citation[];
-  created_at: string;
-  milestones: Milestone[];
+import {
+  getRoadmapWithMilestones,
+  getStudyTime,
+  getTargetRoleSkills,
+  getLatestSkillGapAnalysis,
+  updateMilestoneStatus as saveMilestoneStatus,
+  updateMilestone,
+  createMilestone,
+  deleteMilestone,
+  createSubtasks,
+  updateSubtask,
+  deleteSubtask,
+  saveOrder,
+  snapshotRoadmap,
+} from '../lib/api';
+import type { MilestoneChanges } from '../lib/api';
+import { scheduleRoadmap } from '../lib/scheduler';
+import type { MilestoneSchedule } from '../lib/scheduler';
+import type { Milestone, Roadmap as RoadmapType, Subtask, SkillGapAnalysis as SkillGapAnalysisType, TargetRoleSkill, SkillMatch, ReplanProposal } from '../types';
+
+type TabType = 'milestones' | 'skills' | 'progress' | 'history';
+
+// Edit that can be reverted from the undo bar
+interface UndoAction {
+  label: string;
+  undo: () => Promise<void>;
+}
+
+// Number items 0..n-1, keeping the rows whose position changed
+function renumber<T extends { id: string; orderIndex: number }>(items: T[]) {
+  const numbered = items.map((item, i) => ({ ...item, orderIndex: i }));
+  const changed = numbered
+    .filter((item, i) => items[i].orderIndex !== item.orderIndex)
+    .map((item) => ({ id: item.id, orderIndex: item.orderIndex }));
+  return { numbered, changed };
+}
+
+// Write scheduled due dates that differ from the current ones
+async function saveDueDates(milestones: Milestone[], scheduled: MilestoneSchedule[]) {
+  const dueDates = new Map(scheduled.map((m) => [m.milestoneId, m.dueDate]));
+  const changed = milestones.filter((m) => dueDates.has(m.id) && dueDates.get(m.id) !== m.dueDate);
+
+  const results = await Promise.all(
+    changed.map((m) => updateMilestone(m.id, { dueDate: dueDates.get(m.id) }))
+  );
+  const failed = results.find((r) => r.error);
+  if (failed) {
+    console.error('Error saving due dates:', failed.error);
+  }
+
+  return milestones.map((m) => (dueDates.has(m.id) ? { ...m, dueDate: dueDates.get(m.id) } : m));
 }
 
 export function Roadmap() {
@@ -23,7 +68,7 @@ export function Roadmap() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const initialTab = (searchParams.get('tab') as TabType) || 'milestones';
-  const [roadmap, setRoadmap] = useState<RoadmapData | null>(null);
+  const [roadmap, setRoadmap] = useState<RoadmapType | null>(null);
   const [targetSkills, setTargetSkills] = useState<TargetRoleSkill[]>([]);
   const [skillGapAnalysis, setSkillGapAnalysis] = useState<SkillGapAnalysisType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -32,6 +77,15 @@ export function Roadmap() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [skillsExpanded, setSkillsExpanded] = useState(false);
   const [analysisExpanded, setAnalysisExpanded] = useState(true); // Auto-expand when results exist
+  const [replanProposal, setReplanProposal] = useState<ReplanProposal | null>(null);
+  const [isReplanning, setIsReplanning] = useState(false);
+  const [isApplyingReplan, setIsApplyingReplan] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoAction[]>([]);
+  const [draggingMilestoneId, setDraggingMilestoneId] = useState<string | null>(null);
+  const [dragOverMilestoneId, setDragOverMilestoneId] = useState<string | null>(null);
+  const [availableHours, setAvailableHours] = useState(10);
+  const [isScheduling, setIsScheduling] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -41,45 +95,27 @@ export function Roadmap() {
 
   const loadRoadmap = async (roadmapId: string) => {
     try {
-      // Load roadmap with milestones
-      const { data: roadmapData } = await supabase
-        .from('roadmaps')
-        .select('*, milestones(*)')
-        .eq('id', roadmapId)
-        .single();
+      // Load roadmap with milestones and their subtasks
+      const { roadmap: roadmapData, error } = await getRoadmapWithMilestones(roadmapId);
+      if (error) {
+        console.error('Error loading roadmap:', error);
+      }
 
       if (!roadmapData) {
         setRoadmap(null);
         return;
       }
 
-      // Load subtasks for all milestones
-      const milestoneIds = roadmapData.milestones?.map((m: Milestone) => m.id) || [];
-      let subtasksData: Subtask[] = [];
-
-      if (milestoneIds.length > 0) {
-        const { data: subtasks } = await supabase
-          .from('subtasks')
-          .select('*')
-          .in('milestone_id', milestoneIds)
-          .order('order_index');
-
-        subtasksData = (subtasks || []).map((s) => ({
-          id: s.id,
-          milestoneId: s.milestone_id,
-          title: s.title,
-          description: s.description,
-          orderIndex: s.order_index,
-          isCompleted: s.is_completed,
-          completedAt: s.completed_at,
-        }));
-      }
+      let milestonesWithSubtasks = roadmapData.milestones;
 
-      // Attach subtasks to milestones
-      const milestonesWithSubtasks = (roadmapData.milestones || []).map((m: Milestone) => ({
-        ...m,
-        subtasks: subtasksData.filter((s) => s.milestoneId === m.id),
-      }));
+      const { availableHours: hoursPerWeek } = await getStudyTime(roadmapData.userId);
+      setAvailableHours(hoursPerWeek);
+
+      // New roadmaps have no due dates yet; derive them once
+      if (milestonesWithSubtasks.length > 0 && milestonesWithSubtasks.every((m) => !m.dueDate)) {
+        const schedule = scheduleRoadmap(milestonesWithSubtasks, hoursPerWeek, roadmapData.targetDate);
+        milestonesWithSubtasks = await saveDueDates(milestonesWithSubtasks, schedule.milestones);
+      }
 
       setRoadmap({
         ...roadmapData,
@@ -87,41 +123,14 @@ export function Roadmap() {
       });
 
       // Load target skills
-      const { data: skills } = await supabase
-        .from('target_role_skills')
-        .select('*')
-        .eq('roadmap_id', roadmapId);
-
-      if (skills) {
-        setTargetSkills(skills.map((s) => ({
-          id: s.id,
-          roadmapId: s.roadmap_id,
-          skillName: s.skill_name,
-          requiredLevel: s.required_level,
-          priority: s.priority,
-        })));
-      }
+      const { skills, error: skillsError } = await getTargetRoleSkills(roadmapId);
+      if (skillsError) throw skillsError;
+      setTargetSkills(skills);
 
       // Load skill gap analysis
-      const { data: analysisData } = await supabase
-        .from('skill_gap_analysis')
-        .select('*')
-        .eq('roadmap_id', roadmapId)
-        .order('analyzed_at', { ascending: false })
-        .limit(1)
-        .single();
-
-      if (analysisData) {
-        setSkillGapAnalysis({
-          id: analysisData.id,
-          roadmapId: analysisData.roadmap_id,
-          userId: analysisData.user_id,
-          overallReadiness: analysisData.overall_readiness,
-          criticalGaps: analysisData.critical_gaps || [],
-          recommendations: analysisData.recommendations || [],
-          milestoneSkillMapping: analysisData.milestone_skill_mapping || {},
-          analyzedAt: analysisData.analyzed_at,
-        });
+      const { analysis } = await getLatestSkillGapAnalysis(roadmapId);
+      if (analysis) {
+        setSkillGapAnalysis(analysis);
       }
     } catch (error) {
       console.error('Error loading roadmap:', error);
@@ -130,6 +139,26 @@ export function Roadmap() {
     }
   };
 
+  const handleSchedule = async () => {
+    if (!roadmap || !id) return;
+
+    if (
+      roadmap.milestones.some((m) => m.status !== 'completed' && m.dueDate) &&
+      !confirm('Replace the due dates of all open milestones with a new schedule?')
+    ) {
+      return;
+    }
+
+    setIsScheduling(true);
+    try {
+      const schedule = scheduleRoadmap(roadmap.milestones, availableHours, roadmap.targetDate);
+      setMilestones(await saveDueDates(roadmap.milestones, schedule.milestones));
+      await snapshotRoadmap(id, 'edit');
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
   const updateMilestoneStatus = async (
     milestoneId: string,
     status: Milestone['status']
@@ -145,10 +174,7 @@ export function Roadmap() {
     });
 
     // Update in database
-    await supabase
-      .from('milestones')
-      .update({ status, completed_at: status === 'completed' ? new Date().toISOString() : null })
-      .eq('id', milestoneId);
+    await saveMilestoneStatus(milestoneId, status);
   };
 
   const handleSubtaskToggle = (subtaskId: string, isCompleted: boolean) => {
@@ -161,13 +187,28 @@ export function Roadmap() {
         ...m,
         subtasks: m.subtasks?.map((s) =>
           s.id === subtaskId
-            ? { ...s, isCompleted, completedAt: isCompleted ? new Date().toISOString() : undefined }
+            ? { ...s, isCompleted, completedAt: isCompleted ? new Date().toISOString() : undefined, progress: isCompleted ? 1 : 0 }
             : s
         ),
       })),
     });
   };
 
+  // Focus session time is saved by the timer; this keeps the card's total current
+  const handleSubtaskTimeLogged = (subtaskId: string, minutes: number) => {
+    if (!roadmap) return;
+
+    setRoadmap({
+      ...roadmap,
+      milestones: roadmap.milestones.map((m) => ({
+        ...m,
+        subtasks: m.subtasks?.map((s) =>
+          s.id === subtaskId ? { ...s, minutesSpent: s.minutesSpent + minutes } : s
+        ),
+      })),
+    });
+  };
+
   const handleGenerateSubtasks = async (milestoneId: string) => {
     if (!roadmap) return;
 
@@ -188,7 +229,7 @@ export function Roadmap() {
           milestoneId,
           milestoneTitle: milestone.title,
           milestoneDescription: milestone.description,
-          targetCareer: roadmap.target_career,
+          targetCareer: roadmap.targetCareer,
         },
       });
 
@@ -212,6 +253,8 @@ export function Roadmap() {
         description: s.description,
         orderIndex: s.order_index,
         isCompleted: s.is_completed,
+        progress: 0,
+        minutesSpent: 0,
       }));
 
       setRoadmap({
@@ -244,7 +287,7 @@ export function Roadmap() {
       const response = await supabase.functions.invoke('analyze-skill-gaps', {
         body: {
           roadmapId: id,
-          targetCareer: roadmap.target_career,
+          targetCareer: roadmap.targetCareer,
         },
       });
 
@@ -270,6 +313,266 @@ export function Roadmap() {
     }
   };
 
+  // Ask for a revised plan; nothing changes until the user accepts it
+  const handleReplan = async (feedback?: string) => {
+    if (!id) return;
+
+    setIsReplanning(true);
+
+    try {
+      const response = await supabase.functions.invoke('replan-roadmap', {
+        body: { roadmapId: id, action: 'propose', feedback },
+      });
+
+      if (response.error) throw response.error;
+      if (response.data?.error) throw new Error(response.data.error);
+
+      setReplanProposal(response.data.proposal);
+    } catch (error) {
+      console.error('Error re-planning roadmap:', error);
+      alert(`Failed to re-plan roadmap: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsReplanning(false);
+    }
+  };
+
+  const handleAcceptReplan = async () => {
+    if (!id || !replanProposal) return;
+
+    setIsApplyingReplan(true);
+
+    try {
+      const response = await supabase.functions.invoke('replan-roadmap', {
+        body: { roadmapId: id, action: 'apply', plan: replanProposal },
+      });
+
+      if (response.error) throw response.error;
+      if (response.data?.error) throw new Error(response.data.error);
+
+      setReplanProposal(null);
+      await loadRoadmap(id);
+    } catch (error) {
+      console.error('Error applying re-plan:', error);
+      alert(`Failed to apply the new plan: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsApplyingReplan(false);
+    }
+  };
+
+  // ---- Manual editing ----
+
+  const setMilestones = (milestones: Milestone[]) => {
+    setRoadmap((current) => (current ? { ...current, milestones } : current));
+  };
+
+  const reportEditError = (action: string, error: unknown) => {
+    console.error(`Error trying to ${action}:`, error);
+    alert(`Failed to ${action}. Your roadmap has been reloaded.`);
+    if (id) loadRoadmap(id);
+  };
+
+  const pushUndo = (label: string, undo: () => Promise<void>) => {
+    setUndoStack((stack) => [...stack.slice(-9), { label, undo }]);
+  };
+
+  const handleUndo = async () => {
+    const action = undoStack[undoStack.length - 1];
+    if (!action || !id) return;
+
+    setUndoStack((stack) => stack.slice(0, -1));
+    try {
+      await action.undo();
+    } catch (error) {
+      reportEditError('undo', error);
+      return;
+    }
+    await loadRoadmap(id);
+  };
+
+  // Save a version on the way in and out of edit mode, so edits can be rolled back
+  const handleToggleEditing = async () => {
+    if (!id) return;
+
+    if (isEditing) {
+      setIsEditing(false);
+      setUndoStack([]);
+      const { error } = await snapshotRoadmap(id, 'edit');
+      if (error) console.error('Error saving roadmap version:', error);
+    } else {
+      const { error } = await snapshotRoadmap(id, 'checkpoint');
+      if (error) console.error('Error saving roadmap version:', error);
+      setIsEditing(true);
+    }
+  };
+
+  const sortedMilestones = [...(roadmap?.milestones || [])].sort((a, b) => a.orderIndex - b.orderIndex);
+
+  const handleMilestoneChange = async (milestoneId: string, changes: MilestoneChanges) => {
+    setMilestones(sortedMilestones.map((m) =>
+      m.id === milestoneId
+        ? {
+            ...m,
+            ...(changes.title !== undefined && { title: changes.title }),
+            ...(changes.description !== undefined && { description: changes.description }),
+            ...(changes.dueDate !== undefined && { dueDate: changes.dueDate || undefined }),
+          }
+        : m
+    ));
+
+    const { error } = await updateMilestone(milestoneId, changes);
+    if (error) reportEditError('update the milestone', error);
+  };
+
+  const handleAddMilestone = async () => {
+    if (!roadmap) return;
+
+    const { milestone, error } = await createMilestone(roadmap.id, {
+      title: 'New milestone',
+      description: '',
+      orderIndex: sortedMilestones.length,
+      status: 'pending',
+      resources: [],
+    });
+
+    if (!milestone) {
+      reportEditError('add a milestone', error);
+      return;
+    }
+
+    setMilestones([...sortedMilestones, { ...milestone, subtasks: [] }]);
+    pushUndo(`Added "${milestone.title}"`, async () => {
+      const { error: undoError } = await deleteMilestone(milestone.id);
+      if (undoError) throw undoError;
+    });
+  };
+
+  const handleDeleteMilestone = async (milestoneId: string) => {
+    if (!roadmap) return;
+
+    const removed = sortedMilestones.find((m) => m.id === milestoneId);
+    if (!removed) return;
+
+    const previousOrder = sortedMilestones.map((m) => ({ id: m.id, orderIndex: m.orderIndex }));
+    const { numbered, changed } = renumber(sortedMilestones.filter((m) => m.id !== milestoneId));
+    setMilestones(numbered);
+
+    const { error } = await deleteMilestone(milestoneId);
+    if (error) {
+      reportEditError('delete the milestone', error);
+      return;
+    }
+    const { error: orderError } = await saveOrder('milestones', changed);
+
+    pushUndo(`Deleted "${removed.title}"`, async () => {
+      const { error: milestoneError } = await createMilestone(roadmap.id, removed);
+      if (milestoneError) throw new Error(milestoneError);
+
+      const { error: subtaskError } = await createSubtasks(removed.subtasks || []);
+      if (subtaskError) throw new Error(subtaskError);
+
+      const { error: reorderError } = await saveOrder('milestones', previousOrder);
+      if (reorderError) throw reorderError;
+    });
+
+    // The milestone is gone either way, so undo stays available
+    if (orderError) reportEditError('renumber the milestones', orderError);
+  };
+
+  const handleMilestoneDrop = async (targetId: string) => {
+    const sourceId = draggingMilestoneId;
+    setDraggingMilestoneId(null);
+    setDragOverMilestoneId(null);
+    if (!sourceId || sourceId === targetId) return;
+
+    const reordered = [...sortedMilestones];
+    const [moved] = reordered.splice(reordered.findIndex((m) => m.id === sourceId), 1);
+    reordered.splice(sortedMilestones.findIndex((m) => m.id === targetId), 0, moved);
+
+    const { numbered, changed } = renumber(reordered);
+    setMilestones(numbered);
+
+    const { error } = await saveOrder('milestones', changed);
+    if (error) reportEditError('reorder milestones', error);
+  };
+
+  // Replace one milestone's subtasks in state
+  const setSubtasks = (milestoneId: string, subtasks: Subtask[]) => {
+    setMilestones(sortedMilestones.map((m) => (m.id === milestoneId ? { ...m, subtasks } : m)));
+  };
+
+  const subtasksOf = (milestoneId: string) =>
+    [...(sortedMilestones.find((m) => m.id === milestoneId)?.subtasks || [])].sort(
+      (a, b) => a.orderIndex - b.orderIndex
+    );
+
+  const handleAddSubtask = async (milestoneId: string, title: string) => {
+    const current = subtasksOf(milestoneId);
+    const { subtasks, error } = await createSubtasks([
+      { milestoneId, title, orderIndex: current.length, isCompleted: false, progress: 0, minutesSpent: 0 },
+    ]);
+
+    if (subtasks.length === 0) {
+      reportEditError('add the task', error);
+      return;
+    }
+
+    setSubtasks(milestoneId, [...current, ...subtasks]);
+    pushUndo(`Added "${title}"`, async () => {
+      const { error: undoError } = await deleteSubtask(subtasks[0].id);
+      if (undoError) throw undoError;
+    });
+  };
+
+  const handleRenameSubtask = async (subtaskId: string, title: string) => {
+    setMilestones(sortedMilestones.map((m) => ({
+      ...m,
+      subtasks: m.subtasks?.map((s) => (s.id === subtaskId ? { ...s, title } : s)),
+    })));
+
+    const { error } = await updateSubtask(subtaskId, { title });
+    if (error) reportEditError('rename the task', error);
+  };
+
+  const handleDeleteSubtask = async (subtaskId: string) => {
+    const milestone = sortedMilestones.find((m) => m.subtasks?.some((s) => s.id === subtaskId));
+    if (!milestone) return;
+
+    const current = subtasksOf(milestone.id);
+    const removed = current.find((s) => s.id === subtaskId)!;
+    const previousOrder = current.map((s) => ({ id: s.id, orderIndex: s.orderIndex }));
+    const { numbered, changed } = renumber(current.filter((s) => s.id !== subtaskId));
+    setSubtasks(milestone.id, numbered);
+
+    const { error } = await deleteSubtask(subtaskId);
+    if (error) {
+      reportEditError('delete the task', error);
+      return;
+    }
+    const { error: orderError } = await saveOrder('subtasks', changed);
+
+    pushUndo(`Deleted "${removed.title}"`, async () => {
+      const { error: undoError } = await createSubtasks([removed]);
+      if (undoError) throw new Error(undoError);
+      const { error: reorderError } = await saveOrder('subtasks', previousOrder);
+      if (reorderError) throw reorderError;
+    });
+
+    if (orderError) reportEditError('renumber the tasks', orderError);
+  };
+
+  const handleReorderSubtasks = async (milestoneId: string, subtaskIds: string[]) => {
+    const current = subtasksOf(milestoneId);
+    const reordered = subtaskIds
+      .map((subtaskId) => current.find((s) => s.id === subtaskId))
+      .filter((s): s is Subtask => s !== undefined);
+
+    const { numbered, changed } = renumber(reordered);
+    setSubtasks(milestoneId, numbered);
+
+    const { error } = await saveOrder('subtasks', changed);
+    if (error) reportEditError('reorder tasks', error);
+  };
+
   const completedCount = roadmap?.milestones.filter((m) => m.status === 'completed').length || 0;
   const totalCount = roadmap?.milestones.length || 0;
   const progressPercent = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
@@ -311,7 +614,7 @@ export function Roadmap() {
                 ← Back to Dashboard
               </Link>
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-                {roadmap.target_career}
+                {roadmap.targetCareer}
               </h1>
             </div>
             <div className="flex items-center gap-2">
@@ -320,6 +623,15 @@ export function Roadmap() {
                   My Skills
                 </Button>
               </Link>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleReplan()}
+                isLoading={isReplanning && !replanProposal}
+                disabled={isReplanning || completedCount === totalCount}
+              >
+                Re-plan
+              </Button>
               <Button variant="outline" size="sm" onClick={() => navigate('/dashboard')}>
                 Edit Goal
               </Button>
@@ -350,6 +662,26 @@ export function Roadmap() {
           </CardContent>
         </Card>
 
+        <ScheduleSummary
+          schedule={scheduleRoadmap(roadmap.milestones, availableHours, roadmap.targetDate)}
+          targetDate={roadmap.targetDate}
+          hoursPerWeek={availableHours}
+          onSchedule={handleSchedule}
+          isScheduling={isScheduling}
+        />
+
+        {replanProposal && (
+          <ReplanReview
+            milestones={roadmap.milestones}
+            proposal={replanProposal}
+            onAccept={handleAcceptReplan}
+            onDiscard={() => setReplanProposal(null)}
+            onRevise={(feedback) => handleReplan(feedback)}
+            isApplying={isApplyingReplan}
+            isRevising={isReplanning}
+          />
+        )}
+
         {/* Tabs */}
         <div className="flex gap-4 mb-6 border-b border-gray-200 dark:border-gray-700">
           <button
@@ -377,32 +709,95 @@ export function Roadmap() {
               </span>
             )}
           </button>
+          <button
+            onClick={() => setActiveTab('progress')}
+            className={`pb-3 px-1 font-medium transition-colors ${
+              activeTab === 'progress'
+                ? 'text-indigo-600 border-b-2 border-indigo-600'
+                : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
+            }`}
+          >
+            Progress
+          </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`pb-3 px-1 font-medium transition-colors ${
+              activeTab === 'history'
+                ? 'text-indigo-600 border-b-2 border-indigo-600'
+                : 'text-gray-500 hover:text-gray-700 dark:text-gray-400'
+            }`}
+          >
+            History
+          </button>
         </div>
 
         {/* Tab Content */}
         {activeTab === 'milestones' ? (
           <>
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-              Your Milestones
-            </h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Your Milestones
+              </h2>
+              <Button variant={isEditing ? 'primary' : 'outline'} size="sm" onClick={handleToggleEditing}>
+                {isEditing ? 'Done Editing' : 'Edit Roadmap'}
+              </Button>
+            </div>
 
-            <div className="space-y-4">
-              {roadmap.milestones
-                .sort((a, b) => a.orderIndex - b.orderIndex)
-                .map((milestone, index) => (
+            {isEditing ? (
+              <div className="space-y-4">
+                {sortedMilestones.map((milestone, index) => (
+                  <MilestoneEditor
+                    key={milestone.id}
+                    milestone={milestone}
+                    index={index}
+                    onChange={handleMilestoneChange}
+                    onDelete={handleDeleteMilestone}
+                    onAddSubtask={handleAddSubtask}
+                    onRenameSubtask={handleRenameSubtask}
+                    onDeleteSubtask={handleDeleteSubtask}
+                    onReorderSubtasks={handleReorderSubtasks}
+                    onDragStart={() => setDraggingMilestoneId(milestone.id)}
+                    onDragEnter={() => setDragOverMilestoneId(milestone.id)}
+                    onDrop={() => handleMilestoneDrop(milestone.id)}
+                    onDragEnd={() => {
+                      setDraggingMilestoneId(null);
+                      setDragOverMilestoneId(null);
+                    }}
+                    isDragOver={dragOverMilestoneId === milestone.id && draggingMilestoneId !== milestone.id}
+                  />
+                ))}
+                <Button variant="outline" className="w-full" onClick={handleAddMilestone}>
+                  + Add Milestone
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {sortedMilestones.map((milestone, index) => (
                   <MilestoneCard
                     key={milestone.id}
                     milestone={milestone}
                     index={index}
                     onStatusChange={updateMilestoneStatus}
                     onSubtaskToggle={handleSubtaskToggle}
+                    onSubtaskTimeLogged={handleSubtaskTimeLogged}
                     onGenerateSubtasks={handleGenerateSubtasks}
                     isGeneratingSubtasks={generatingSubtasksFor === milestone.id}
                   />
                 ))}
-            </div>
+              </div>
+            )}
+
+            {/* Undo bar */}
+            {isEditing && undoStack.length > 0 && (
+              <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2 rounded-lg shadow-lg bg-gray-900 text-white text-sm">
+                <span className="truncate max-w-xs">{undoStack[undoStack.length - 1].label}</span>
+                <button onClick={handleUndo} className="font-medium text-indigo-300 hover:text-indigo-200">
+                  Undo
+                </button>
+              </div>
+            )}
           </>
-        ) : (
+        ) : activeTab === 'skills' ? (
           <div className="max-w-xl mx-auto">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
               Skill Gap Analysis
@@ -513,6 +908,8 @@ export function Roadmap() {
                       <p className="text-xs text-gray-400 mt-3">
                         Last analyzed: {new Date(skillGapAnalysis.analyzedAt).toLocaleDateString()}
                       </p>
+
+                      <SkillGapTrend roadmapId={skillGapAnalysis.roadmapId} analyzedAt={skillGapAnalysis.analyzedAt} />
                     </CardContent>
                   </Card>
                 )}
@@ -535,6 +932,8 @@ export function Roadmap() {
               </Button>
             </div>
 
+            <ReadinessWhatIf userId={roadmap.userId} targetSkills={targetSkills} />
+
             {/* Collapsible Required Skills */}
             {targetSkills.length > 0 && (
               <div className="mt-4">
@@ -543,7 +942,7 @@ export function Roadmap() {
                   className="w-full flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg active:bg-gray-100 dark:active:bg-gray-700 transition-colors"
                 >
                   <span className="font-medium text-gray-900 dark:text-white">
-                    Required Skills for {roadmap.target_career} ({targetSkills.length})
+                    Required Skills for {roadmap.targetCareer} ({targetSkills.length})
                   </span>
                   <svg
                     className={`w-5 h-5 text-gray-500 transition-transform ${skillsExpanded ? 'rotate-180' : ''}`}
@@ -612,7 +1011,7 @@ export function Roadmap() {
                       Get Started with Skill Analysis
                     </h3>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Add your skills and run an analysis to see how you compare to the requirements for {roadmap.target_career}.
+                      Add your skills and run an analysis to see how you compare to the requirements for {roadmap.targetCareer}.
                     </p>
                   </div>
                   <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
@@ -633,6 +1032,25 @@ export function Roadmap() {
               </Card>
             )}
           </div>
+        ) : activeTab === 'progress' ? (
+          <div className="max-w-2xl mx-auto">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+              Progress
+            </h2>
+            <RoadmapAnalytics
+              roadmapId={roadmap.id}
+              milestones={roadmap.milestones}
+              targetDate={roadmap.targetDate}
+              createdAt={roadmap.createdAt}
+            />
+          </div>
+        ) : (
+          <div className="max-w-2xl mx-auto">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+              Roadmap History
+            </h2>
+            <RoadmapHistory roadmapId={roadmap.id} onRestored={() => loadRoadmap(roadmap.id)} />
+          </div>
         )}
 
       </main>
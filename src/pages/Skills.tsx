@@ -2,6 +2,9 @@ import { useEffect, useState } from 'react';
 import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button, Card, CardContent } from '../components/ui';
 import { supabase } from '../lib/supabase';
+import { deleteUserSkill, getSkillTaxonomy, getUserSkills, mergeUserSkills, updateUserSkillLevel } from '../lib/api';
+import { EMPTY_TAXONOMY, findNearDuplicates } from '../lib/skillScoring';
+import type { TaxonomyIndex } from '../lib/skillScoring';
 import type { UserSkill } from '../types';
 import { PROFICIENCY_LABELS } from '../types';
 
@@ -13,6 +16,9 @@ export function Skills() {
   const [skills, setSkills] = useState<UserSkill[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [editingSkillId, setEditingSkillId] = useState<string | null>(null);
+  const [taxonomy, setTaxonomy] = useState<TaxonomyIndex>(EMPTY_TAXONOMY);
+  // Merge suggestions the user said are different skills, as "id|id"
+  const [keptApart, setKeptApart] = useState<string[]>([]);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -33,26 +39,20 @@ export function Skills() {
     return () => subscription.unsubscribe();
   }, [navigate]);
 
+  useEffect(() => {
+    getSkillTaxonomy().then(({ taxonomy: loaded, error }) => {
+      if (error) {
+        console.error('Error loading skill taxonomy:', error);
+      }
+      setTaxonomy(loaded);
+    });
+  }, []);
+
   const loadSkills = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('user_skills')
-        .select('*')
-        .eq('user_id', userId)
-        .order('skill_name');
-
+      const { skills: transformedSkills, error } = await getUserSkills(userId);
       if (error) throw error;
 
-      const transformedSkills: UserSkill[] = (data || []).map((s) => ({
-        id: s.id,
-        userId: s.user_id,
-        skillName: s.skill_name,
-        proficiencyLevel: s.proficiency_level,
-        source: s.source,
-        createdAt: s.created_at,
-        updatedAt: s.updated_at,
-      }));
-
       // Sort skills: unrated (level 0) first, then alphabetically
       transformedSkills.sort((a, b) => {
         if (a.proficiencyLevel === 0 && b.proficiencyLevel !== 0) return -1;
@@ -70,13 +70,7 @@ export function Skills() {
 
   const handleUpdateSkill = async (skillId: string, proficiencyLevel: number) => {
     try {
-      const { error } = await supabase
-        .from('user_skills')
-        .update({
-          proficiency_level: proficiencyLevel,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', skillId);
+      const { error } = await updateUserSkillLevel(skillId, proficiencyLevel);
 
       if (error) throw error;
 
@@ -94,10 +88,7 @@ export function Skills() {
 
   const handleRemoveSkill = async (skillId: string) => {
     try {
-      const { error } = await supabase
-        .from('user_skills')
-        .delete()
-        .eq('id', skillId);
+      const { error } = await deleteUserSkill(skillId);
 
       if (error) throw error;
       setSkills((prev) => prev.filter((s) => s.id !== skillId));
@@ -107,6 +98,22 @@ export function Skills() {
     }
   };
 
+  const handleMergeSkills = async (keep: UserSkill, remove: UserSkill) => {
+    if (!user) return;
+
+    const { error } = await mergeUserSkills(keep.id, remove.id);
+    if (error) {
+      console.error('Error merging skills:', error);
+      alert('Failed to merge skills. Please try again.');
+      return;
+    }
+    await loadSkills(user.id);
+  };
+
+  const mergeSuggestions = findNearDuplicates(taxonomy, skills).filter(
+    ([a, b]) => !keptApart.includes(`${a.id}|${b.id}`)
+  );
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     navigate('/');
@@ -179,6 +186,39 @@ export function Skills() {
           </div>
         )}
 
+        {/* Merge Suggestions */}
+        {mergeSuggestions.length > 0 && (
+          <Card className="mb-4">
+            <CardContent>
+              <h2 className="font-semibold text-gray-900 dark:text-white mb-1">Possible duplicates</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                These look like the same skill. Merging keeps the name you pick and the higher level.
+              </p>
+              <div className="space-y-2">
+                {mergeSuggestions.map(([a, b]) => (
+                  <div key={`${a.id}|${b.id}`} className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="flex-1 min-w-0 text-gray-900 dark:text-white truncate">
+                      {a.skillName} / {b.skillName}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => handleMergeSkills(a, b)}>
+                      Keep {a.skillName}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleMergeSkills(b, a)}>
+                      Keep {b.skillName}
+                    </Button>
+                    <button
+                      onClick={() => setKeptApart([...keptApart, `${a.id}|${b.id}`])}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      Not the same
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Skills List */}
         {skills.length === 0 ? (
           <Card>
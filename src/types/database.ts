@@ -0,0 +1,1378 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      api_usage: {
+        Row: {
+          created_at: string | null
+          credits_used: number | null
+          id: string
+          metadata: Json | null
+          operation: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          credits_used?: number | null
+          id?: string
+          metadata?: Json | null
+          operation: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          credits_used?: number | null
+          id?: string
+          metadata?: Json | null
+          operation?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      assessment_results: {
+        Row: {
+          answers: Json | null
+          assessment_id: string
+          completed_at: string | null
+          id: string
+          passed: boolean | null
+          score: number | null
+          user_id: string
+        }
+        Insert: {
+          answers?: Json | null
+          assessment_id: string
+          completed_at?: string | null
+          id?: string
+          passed?: boolean | null
+          score?: number | null
+          user_id: string
+        }
+        Update: {
+          answers?: Json | null
+          assessment_id?: string
+          completed_at?: string | null
+          id?: string
+          passed?: boolean | null
+          score?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assessment_results_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "assessments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assessments: {
+        Row: {
+          career_path_id: string | null
+          created_at: string | null
+          id: string
+          milestone_id: string | null
+          passing_score: number | null
+          questions: Json | null
+          title: string
+        }
+        Insert: {
+          career_path_id?: string | null
+          created_at?: string | null
+          id?: string
+          milestone_id?: string | null
+          passing_score?: number | null
+          questions?: Json | null
+          title: string
+        }
+        Update: {
+          career_path_id?: string | null
+          created_at?: string | null
+          id?: string
+          milestone_id?: string | null
+          passing_score?: number | null
+          questions?: Json | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assessments_career_path_id_fkey"
+            columns: ["career_path_id"]
+            isOneToOne: false
+            referencedRelation: "career_paths"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assessments_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      career_paths: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          required_skills: Json | null
+          salary_range: Json | null
+          typical_timeline_months: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          required_skills?: Json | null
+          salary_range?: Json | null
+          typical_timeline_months?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          required_skills?: Json | null
+          salary_range?: Json | null
+          typical_timeline_months?: number | null
+        }
+        Relationships: []
+      }
+      credentials: {
+        Row: {
+          description: string | null
+          id: string
+          issued_at: string | null
+          metadata: Json | null
+          title: string
+          user_id: string
+          verification_code: string | null
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          issued_at?: string | null
+          metadata?: Json | null
+          title: string
+          user_id: string
+          verification_code?: string | null
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          issued_at?: string | null
+          metadata?: Json | null
+          title?: string
+          user_id?: string
+          verification_code?: string | null
+        }
+        Relationships: []
+      }
+      daily_goals: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          duration: string
+          goal_date: string
+          id: string
+          is_completed: boolean | null
+          is_partial_task: boolean | null
+          milestone_title: string | null
+          minutes: number
+          portion: number
+          position: number
+          roadmap_id: string | null
+          subtask_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          duration: string
+          goal_date: string
+          id?: string
+          is_completed?: boolean | null
+          is_partial_task?: boolean | null
+          milestone_title?: string | null
+          minutes: number
+          portion?: number
+          position?: number
+          roadmap_id?: string | null
+          subtask_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          duration?: string
+          goal_date?: string
+          id?: string
+          is_completed?: boolean | null
+          is_partial_task?: boolean | null
+          milestone_title?: string | null
+          minutes?: number
+          portion?: number
+          position?: number
+          roadmap_id?: string | null
+          subtask_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "daily_goals_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "daily_goals_subtask_id_fkey"
+            columns: ["subtask_id"]
+            isOneToOne: false
+            referencedRelation: "subtasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_blocks: {
+        Row: {
+          created_at: string | null
+          daily_goal_id: string | null
+          duration_minutes: number
+          id: string
+          milestone_title: string | null
+          roadmap_id: string | null
+          starts_at: string
+          subtask_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          daily_goal_id?: string | null
+          duration_minutes: number
+          id?: string
+          milestone_title?: string | null
+          roadmap_id?: string | null
+          starts_at: string
+          subtask_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          daily_goal_id?: string | null
+          duration_minutes?: number
+          id?: string
+          milestone_title?: string | null
+          roadmap_id?: string | null
+          starts_at?: string
+          subtask_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_blocks_daily_goal_id_fkey"
+            columns: ["daily_goal_id"]
+            isOneToOne: false
+            referencedRelation: "daily_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_blocks_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goal_blocks_subtask_id_fkey"
+            columns: ["subtask_id"]
+            isOneToOne: false
+            referencedRelation: "subtasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milestones: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          description: string | null
+          due_date: string | null
+          estimated_weeks: number | null
+          id: string
+          order_index: number | null
+          resources: Json | null
+          roadmap_id: string
+          status: string | null
+          title: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          description?: string | null
+          due_date?: string | null
+          estimated_weeks?: number | null
+          id?: string
+          order_index?: number | null
+          resources?: Json | null
+          roadmap_id: string
+          status?: string | null
+          title: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          description?: string | null
+          due_date?: string | null
+          estimated_weeks?: number | null
+          id?: string
+          order_index?: number | null
+          resources?: Json | null
+          roadmap_id?: string
+          status?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milestones_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roadmap_generations: {
+        Row: {
+          created_at: string | null
+          error: string | null
+          events: Json | null
+          id: string
+          roadmap_id: string | null
+          status: string | null
+          target_career: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          error?: string | null
+          events?: Json | null
+          id?: string
+          roadmap_id?: string | null
+          status?: string | null
+          target_career: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          error?: string | null
+          events?: Json | null
+          id?: string
+          roadmap_id?: string | null
+          status?: string | null
+          target_career?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roadmap_generations_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roadmap_versions: {
+        Row: {
+          created_at: string | null
+          id: string
+          reason: string
+          restored_from_version: number | null
+          roadmap_id: string
+          snapshot: Json
+          user_id: string
+          version_number: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          reason: string
+          restored_from_version?: number | null
+          roadmap_id: string
+          snapshot: Json
+          user_id: string
+          version_number: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          reason?: string
+          restored_from_version?: number | null
+          roadmap_id?: string
+          snapshot?: Json
+          user_id?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roadmap_versions_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roadmaps: {
+        Row: {
+          ai_generated_plan: Json | null
+          career_path_id: string | null
+          citations: Json | null
+          created_at: string | null
+          goal_weight: number
+          id: string
+          target_career: string
+          target_date: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          ai_generated_plan?: Json | null
+          career_path_id?: string | null
+          citations?: Json | null
+          created_at?: string | null
+          goal_weight?: number
+          id?: string
+          target_career: string
+          target_date?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          ai_generated_plan?: Json | null
+          career_path_id?: string | null
+          citations?: Json | null
+          created_at?: string | null
+          goal_weight?: number
+          id?: string
+          target_career?: string
+          target_date?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roadmaps_career_path_id_fkey"
+            columns: ["career_path_id"]
+            isOneToOne: false
+            referencedRelation: "career_paths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_aliases: {
+        Row: {
+          alias: string
+          skill_id: string
+        }
+        Insert: {
+          alias: string
+          skill_id: string
+        }
+        Update: {
+          alias?: string
+          skill_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_aliases_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skill_taxonomy"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_gap_analysis: {
+        Row: {
+          analyzed_at: string | null
+          created_at: string | null
+          critical_gaps: Json | null
+          id: string
+          milestone_skill_mapping: Json | null
+          overall_readiness: number | null
+          recommendations: Json | null
+          roadmap_id: string
+          user_id: string
+        }
+        Insert: {
+          analyzed_at?: string | null
+          created_at?: string | null
+          critical_gaps?: Json | null
+          id?: string
+          milestone_skill_mapping?: Json | null
+          overall_readiness?: number | null
+          recommendations?: Json | null
+          roadmap_id: string
+          user_id: string
+        }
+        Update: {
+          analyzed_at?: string | null
+          created_at?: string | null
+          critical_gaps?: Json | null
+          id?: string
+          milestone_skill_mapping?: Json | null
+          overall_readiness?: number | null
+          recommendations?: Json | null
+          roadmap_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_gap_analysis_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_gap_snapshots: {
+        Row: {
+          analyzed_at: string
+          critical_gaps: Json
+          id: string
+          overall_readiness: number
+          roadmap_id: string
+          skill_levels: Json | null
+          user_id: string
+        }
+        Insert: {
+          analyzed_at?: string
+          critical_gaps?: Json
+          id?: string
+          overall_readiness: number
+          roadmap_id: string
+          skill_levels?: Json | null
+          user_id: string
+        }
+        Update: {
+          analyzed_at?: string
+          critical_gaps?: Json
+          id?: string
+          overall_readiness?: number
+          roadmap_id?: string
+          skill_levels?: Json | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_gap_snapshots_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_relations: {
+        Row: {
+          related_skill_id: string
+          skill_id: string
+          weight: number
+        }
+        Insert: {
+          related_skill_id: string
+          skill_id: string
+          weight: number
+        }
+        Update: {
+          related_skill_id?: string
+          skill_id?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_relations_related_skill_id_fkey"
+            columns: ["related_skill_id"]
+            isOneToOne: false
+            referencedRelation: "skill_taxonomy"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "skill_relations_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skill_taxonomy"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      skill_taxonomy: {
+        Row: {
+          created_at: string | null
+          id: string
+          kind: string
+          name: string
+          parent_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id: string
+          kind?: string
+          name: string
+          parent_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          kind?: string
+          name?: string
+          parent_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_taxonomy_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "skill_taxonomy"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      study_sessions: {
+        Row: {
+          created_at: string | null
+          daily_goal_id: string | null
+          ended_at: string | null
+          estimated_minutes: number | null
+          focus_minutes: number
+          id: string
+          interruptions: number
+          pomodoros: number
+          started_at: string
+          subtask_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          daily_goal_id?: string | null
+          ended_at?: string | null
+          estimated_minutes?: number | null
+          focus_minutes?: number
+          id?: string
+          interruptions?: number
+          pomodoros?: number
+          started_at?: string
+          subtask_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          daily_goal_id?: string | null
+          ended_at?: string | null
+          estimated_minutes?: number | null
+          focus_minutes?: number
+          id?: string
+          interruptions?: number
+          pomodoros?: number
+          started_at?: string
+          subtask_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_sessions_daily_goal_id_fkey"
+            columns: ["daily_goal_id"]
+            isOneToOne: false
+            referencedRelation: "daily_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_sessions_subtask_id_fkey"
+            columns: ["subtask_id"]
+            isOneToOne: false
+            referencedRelation: "subtasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subtask_time_logs: {
+        Row: {
+          daily_goal_id: string | null
+          id: string
+          logged_at: string | null
+          minutes: number
+          note: string | null
+          progress_after: number
+          progress_before: number
+          subtask_id: string
+          user_id: string
+        }
+        Insert: {
+          daily_goal_id?: string | null
+          id?: string
+          logged_at?: string | null
+          minutes: number
+          note?: string | null
+          progress_after: number
+          progress_before: number
+          subtask_id: string
+          user_id: string
+        }
+        Update: {
+          daily_goal_id?: string | null
+          id?: string
+          logged_at?: string | null
+          minutes?: number
+          note?: string | null
+          progress_after?: number
+          progress_before?: number
+          subtask_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subtask_time_logs_daily_goal_id_fkey"
+            columns: ["daily_goal_id"]
+            isOneToOne: false
+            referencedRelation: "daily_goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subtask_time_logs_subtask_id_fkey"
+            columns: ["subtask_id"]
+            isOneToOne: false
+            referencedRelation: "subtasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subtasks: {
+        Row: {
+          calibrated_minutes: number | null
+          completed_at: string | null
+          created_at: string | null
+          description: string | null
+          estimated_at: string | null
+          estimated_minutes: number | null
+          id: string
+          is_completed: boolean | null
+          last_progress_note: string | null
+          milestone_id: string
+          minutes_spent: number
+          order_index: number | null
+          progress: number
+          title: string
+        }
+        Insert: {
+          calibrated_minutes?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          description?: string | null
+          estimated_at?: string | null
+          estimated_minutes?: number | null
+          id?: string
+          is_completed?: boolean | null
+          last_progress_note?: string | null
+          milestone_id: string
+          minutes_spent?: number
+          order_index?: number | null
+          progress?: number
+          title: string
+        }
+        Update: {
+          calibrated_minutes?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          description?: string | null
+          estimated_at?: string | null
+          estimated_minutes?: number | null
+          id?: string
+          is_completed?: boolean | null
+          last_progress_note?: string | null
+          milestone_id?: string
+          minutes_spent?: number
+          order_index?: number | null
+          progress?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subtasks_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "milestones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      target_role_skills: {
+        Row: {
+          created_at: string | null
+          id: string
+          priority: string | null
+          required_level: number | null
+          roadmap_id: string
+          skill_id: string | null
+          skill_key: string
+          skill_name: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          priority?: string | null
+          required_level?: number | null
+          roadmap_id: string
+          skill_id?: string | null
+          skill_key?: string
+          skill_name: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          priority?: string | null
+          required_level?: number | null
+          roadmap_id?: string
+          skill_id?: string | null
+          skill_key?: string
+          skill_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "target_role_skills_roadmap_id_fkey"
+            columns: ["roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "target_role_skills_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skill_taxonomy"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_certifications: {
+        Row: {
+          created_at: string | null
+          expires_date: string | null
+          id: string
+          issued_date: string | null
+          issuer: string | null
+          name: string
+          source: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_date?: string | null
+          id?: string
+          issued_date?: string | null
+          issuer?: string | null
+          name: string
+          source?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_date?: string | null
+          id?: string
+          issued_date?: string | null
+          issuer?: string | null
+          name?: string
+          source?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_education: {
+        Row: {
+          created_at: string | null
+          degree: string | null
+          end_date: string | null
+          field_of_study: string | null
+          id: string
+          institution: string
+          level: string | null
+          source: string
+          start_date: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          degree?: string | null
+          end_date?: string | null
+          field_of_study?: string | null
+          id?: string
+          institution: string
+          level?: string | null
+          source?: string
+          start_date?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          degree?: string | null
+          end_date?: string | null
+          field_of_study?: string | null
+          id?: string
+          institution?: string
+          level?: string | null
+          source?: string
+          start_date?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_positions: {
+        Row: {
+          company: string | null
+          created_at: string | null
+          description: string | null
+          end_date: string | null
+          id: string
+          is_current: boolean
+          location: string | null
+          source: string
+          start_date: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          company?: string | null
+          created_at?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          is_current?: boolean
+          location?: string | null
+          source?: string
+          start_date?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          company?: string | null
+          created_at?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          is_current?: boolean
+          location?: string | null
+          source?: string
+          start_date?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          available_hours: number | null
+          created_at: string | null
+          current_job: string | null
+          education_level: string | null
+          focus_roadmap_id: string | null
+          full_name: string | null
+          id: string
+          income_bracket: string | null
+          learning_style: string | null
+          updated_at: string | null
+          weekday_minutes: number[] | null
+          years_experience: number | null
+        }
+        Insert: {
+          available_hours?: number | null
+          created_at?: string | null
+          current_job?: string | null
+          education_level?: string | null
+          focus_roadmap_id?: string | null
+          full_name?: string | null
+          id: string
+          income_bracket?: string | null
+          learning_style?: string | null
+          updated_at?: string | null
+          weekday_minutes?: number[] | null
+          years_experience?: number | null
+        }
+        Update: {
+          available_hours?: number | null
+          created_at?: string | null
+          current_job?: string | null
+          education_level?: string | null
+          focus_roadmap_id?: string | null
+          full_name?: string | null
+          id?: string
+          income_bracket?: string | null
+          learning_style?: string | null
+          updated_at?: string | null
+          weekday_minutes?: number[] | null
+          years_experience?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_focus_roadmap_id_fkey"
+            columns: ["focus_roadmap_id"]
+            isOneToOne: false
+            referencedRelation: "roadmaps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_skills: {
+        Row: {
+          created_at: string | null
+          id: string
+          proficiency_level: number
+          skill_id: string | null
+          skill_key: string
+          skill_name: string
+          source: Database["public"]["Enums"]["skill_source"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          proficiency_level?: number
+          skill_id?: string | null
+          skill_key?: string
+          skill_name: string
+          source?: Database["public"]["Enums"]["skill_source"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          proficiency_level?: number
+          skill_id?: string | null
+          skill_key?: string
+          skill_name?: string
+          source?: Database["public"]["Enums"]["skill_source"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_skills_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skill_taxonomy"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      apply_roadmap_replan: {
+        Args: {
+          p_plan: Json
+          p_roadmap_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      build_roadmap_snapshot: {
+        Args: {
+          p_roadmap_id: string
+        }
+        Returns: Json
+      }
+      calculate_skill_readiness: {
+        Args: {
+          target_roadmap_id: string
+          target_user_id: string
+        }
+        Returns: number
+      }
+      complete_daily_goal: {
+        Args: {
+          p_goal_id: string
+          p_minutes?: number
+        }
+        Returns: Json
+      }
+      create_roadmap_with_plan: {
+        Args: {
+          p_citations?: Json
+          p_plan: Json
+          p_target_career: string
+          p_target_date: string
+          p_usage_metadata?: Json
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      finish_study_session: {
+        Args: {
+          p_focus_minutes: number
+          p_interruptions: number
+          p_pomodoros: number
+          p_session_id: string
+        }
+        Returns: undefined
+      }
+      get_monthly_api_usage: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: {
+          operation: string
+          total_credits: number
+          usage_count: number
+        }[]
+      }
+      merge_user_skills: {
+        Args: {
+          p_keep_id: string
+          p_remove_id: string
+        }
+        Returns: undefined
+      }
+      milestone_estimated_weeks: {
+        Args: {
+          p_milestone: Json
+        }
+        Returns: number
+      }
+      normalize_skill_name: {
+        Args: {
+          name: string
+        }
+        Returns: string
+      }
+      replace_imported_profile: {
+        Args: {
+          p_certifications: Json
+          p_education: Json
+          p_positions: Json
+          p_source: string
+        }
+        Returns: undefined
+      }
+      resolve_skill_name: {
+        Args: {
+          p_name: string
+        }
+        Returns: {
+          skill_id: string
+          skill_name: string
+        }[]
+      }
+      restore_roadmap_version: {
+        Args: {
+          p_version_id: string
+        }
+        Returns: Json
+      }
+      rotate_calendar_feed_token: {
+        Args: never
+        Returns: string
+      }
+      snapshot_roadmap: {
+        Args: {
+          p_reason: string
+          p_restored_from_version?: number
+          p_roadmap_id: string
+        }
+        Returns: Json
+      }
+    }
+    Enums: {
+      skill_source:
+        | "manual"
+        | "pdf"
+        | "linkedin"
+        | "self_assessment"
+        | "role_requirement"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      skill_source: [
+        "manual",
+        "pdf",
+        "linkedin",
+        "self_assessment",
+        "role_requirement",
+      ],
+    },
+  },
+} as const
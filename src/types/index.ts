@@ -1,3 +1,5 @@
+import type { Database } from './database';
+
 // User profile from onboarding
 export interface UserProfile {
   id: string;
@@ -22,15 +24,25 @@ export interface Subtask {
   isCompleted: boolean;
   completedAt?: string;
   createdAt?: string;
+  progress: number; // 0-1, advanced by finishing partial daily goals
+  minutesSpent: number;
+  lastProgressNote?: string; // the last slice of the task the user finished
+  estimatedMinutes?: number; // the AI's estimate for the whole task
+  calibratedMinutes?: number; // the estimate scaled to the user's pace
 }
 
+// Where a user skill came from (the skill_source enum in the database)
+export type SkillSource = Database['public']['Enums']['skill_source'];
+// Sources that import a whole profile: 'pdf' is any uploaded resume, 'linkedin' a LinkedIn data export
+export type ImportSource = Extract<SkillSource, 'pdf' | 'linkedin'>;
+
 // User skill profile
 export interface UserSkill {
   id: string;
   userId: string;
   skillName: string;
   proficiencyLevel: 0 | 1 | 2 | 3 | 4 | 5; // 0 = needs rating
-  source: 'manual' | 'assessment' | 'linkedin' | 'role_requirement';
+  source: SkillSource;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -76,6 +88,83 @@ export interface SkillGapAnalysis {
   analyzedAt: string;
 }
 
+// One run of the skill gap analysis, kept so runs can be compared
+export interface SkillGapSnapshot {
+  id: string;
+  roadmapId: string;
+  overallReadiness: number;
+  criticalGaps: SkillGap[];
+  skillLevels?: Array<{ skillName: string; proficiencyLevel: number }>; // missing for runs from before snapshots
+  analyzedAt: string;
+}
+
+// Skill found in an imported resume, compared with the user's profile and target roles
+export interface ImportedSkill {
+  skillName: string;
+  evidence: string; // quote from the resume, empty when the model's quote was not found in it
+  suggestedLevel: number;
+  reasoning: string;
+  action: 'add' | 'raise' | 'keep'; // raise: the profile has the skill below the suggested level
+  existing: { id: string; skillName: string; proficiencyLevel: number; source: SkillSource } | null;
+  targets: { skillName: string; requiredLevel: number; targetCareer: string; matchType: SkillMatch['matchType'] }[];
+}
+
+// Education level, with the same values as the education options in onboarding
+export type EducationLevel = 'high_school' | 'some_college' | 'associates' | 'bachelors' | 'masters' | 'phd' | 'trade' | 'bootcamp';
+
+// Labels for the education options in onboarding; self_taught is never read from a resume
+export const EDUCATION_LABELS: Record<EducationLevel | 'self_taught', string> = {
+  high_school: 'High School Diploma',
+  some_college: 'Some College',
+  associates: "Associate's Degree",
+  bachelors: "Bachelor's Degree",
+  masters: "Master's Degree",
+  phd: 'PhD/Doctorate',
+  trade: 'Trade/Vocational Certificate',
+  bootcamp: 'Bootcamp/Short Course',
+  self_taught: 'Self-Taught',
+};
+
+// Dates are YYYY-MM-DD, on the first of the month when only the month is known
+export interface WorkPosition {
+  title: string;
+  company: string | null;
+  location: string | null;
+  startDate: string | null;
+  endDate: string | null; // null for current positions, or when the end is not known
+  isCurrent: boolean;
+  description: string | null;
+}
+
+export interface EducationEntry {
+  institution: string;
+  degree: string | null;
+  fieldOfStudy: string | null;
+  level: EducationLevel | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface Certification {
+  name: string;
+  issuer: string | null;
+  issuedDate: string | null;
+  expiresDate: string | null;
+}
+
+// Work history, education and certifications read from a resume or LinkedIn export
+export interface ResumeProfile {
+  positions: WorkPosition[];
+  education: EducationEntry[];
+  certifications: Certification[];
+  // Values for the matching profile and onboarding fields; null when the resume does not say
+  suggested: {
+    currentJob: string | null;
+    yearsExperience: number | null;
+    education: EducationLevel[];
+  };
+}
+
 // API usage tracking
 export interface ApiUsage {
   id: string;
@@ -108,7 +197,7 @@ export interface Roadmap {
   id: string;
   userId: string;
   targetCareer: string;
-  targetDate: string;
+  targetDate?: string;
   milestones: Milestone[];
   citations: Citation[];
   createdAt: string;
@@ -124,6 +213,7 @@ export interface Milestone {
   status: 'pending' | 'in_progress' | 'completed';
   dueDate?: string;
   completedAt?: string;
+  estimatedWeeks?: number;
   resources: Resource[];
   subtasks?: Subtask[];
 }
@@ -143,6 +233,127 @@ export interface Citation {
   title: string;
 }
 
+// How an edge function parsed an AI response
+export interface AIParseReport {
+  path: 'valid' | 'repaired' | 'retried' | 'fallback';
+  attempts: number;
+  repairs: string[];
+  errors: string[];
+}
+
+// Milestone as generated by the AI, before it is saved
+export interface GeneratedMilestone {
+  title: string;
+  description: string;
+  orderIndex: number;
+  estimatedWeeks: number;
+  resources: Resource[];
+  subtasks: { title: string; description: string }[];
+}
+
+// Required skill as generated by the AI, before it is saved
+export interface GeneratedRequiredSkill {
+  skillName: string;
+  requiredLevel: number;
+  priority: 'critical' | 'high' | 'medium' | 'low';
+}
+
+// Milestone in a proposed re-plan; id is set when it rewrites an existing milestone
+export interface ReplanMilestone extends GeneratedMilestone {
+  id: string | null;
+}
+
+// Revised plan for the remaining milestones, returned by replan-roadmap for review
+export interface ReplanProposal {
+  summary: string;
+  changes: string[];
+  milestones: ReplanMilestone[];
+}
+
+// Roadmap state saved in roadmap_versions (rows are stored as in the database)
+export interface RoadmapSnapshot {
+  milestones: {
+    id: string;
+    title: string;
+    description: string | null;
+    order_index: number;
+    status: Milestone['status'];
+    due_date: string | null;
+    completed_at: string | null;
+    resources: Resource[];
+    estimated_weeks?: number | null; // missing from versions saved before estimates
+    subtasks: {
+      id: string;
+      title: string;
+      description: string | null;
+      order_index: number;
+      is_completed: boolean;
+      completed_at: string | null;
+      // Missing from versions saved before subtask progress
+      progress?: number;
+      minutes_spent?: number;
+      last_progress_note?: string | null;
+      estimated_minutes?: number | null;
+      calibrated_minutes?: number | null;
+      estimated_at?: string | null;
+    }[];
+  }[];
+  target_role_skills: { skill_name: string; required_level: number; priority: TargetRoleSkill['priority'] }[];
+  citations: Citation[];
+}
+
+// Entry in a roadmap's version history
+export interface RoadmapVersion {
+  id: string;
+  roadmapId: string;
+  versionNumber: number;
+  reason: 'initial' | 'generated' | 'replan' | 'edit' | 'checkpoint' | 'restore';
+  restoredFromVersion?: number;
+  snapshot: RoadmapSnapshot;
+  createdAt: string;
+}
+
+// Server-sent event from a streaming roadmap generation
+export type RoadmapGenerationEvent =
+  | { type: 'started'; generationId: string }
+  | { type: 'research' }
+  | { type: 'milestone'; index: number; milestone: GeneratedMilestone }
+  | { type: 'skills'; requiredSkills: GeneratedRequiredSkill[] }
+  | { type: 'saved'; roadmapId: string; skillCount: number; parse: AIParseReport }
+  | { type: 'error'; message: string }
+  | { type: 'cancelled' };
+
+// One of a day's goals, stored in daily_goals
+export interface DailyGoal {
+  id: string;
+  goalDate: string; // YYYY-MM-DD, the user's local day
+  position: number;
+  roadmapId?: string;
+  sourceTaskId?: string;
+  title: string;
+  milestoneTitle: string;
+  duration: 'short' | 'medium' | 'long';
+  minutes: number;
+  isPartialTask: boolean;
+  portion: number; // share of the source task this goal covers, 0-1
+  isCompleted: boolean;
+  completedAt?: string;
+}
+
+// A focus session on a daily goal or subtask, stored in study_sessions
+export interface StudySession {
+  id: string;
+  dailyGoalId?: string;
+  subtaskId?: string;
+  title: string;
+  estimatedMinutes?: number;
+  startedAt: string;
+  endedAt?: string;
+  focusMinutes: number;
+  pomodoros: number;
+  interruptions: number;
+}
+
 // Onboarding form data
 export interface OnboardingData {
   // Step 1: Current situation
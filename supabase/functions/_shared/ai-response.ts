@@ -0,0 +1,284 @@
+// Parse and validate LLM output against a typed schema.
+//
+// completeWithSchema() runs one completion, extracts the JSON, and validates it.
+// Fixable problems (out-of-range levels, unknown enum values, missing optional
+// fields) are repaired in place. Anything else re-prompts the model once with
+// the validation errors; if that still fails the caller's fallback is used.
+
+import type { CompletionRequest, LLMProvider } from './llm.ts'
+
+// Collects problems while a schema walks the raw value
+export interface ValidationContext {
+  errors: string[]
+  repairs: string[]
+}
+
+// A schema always returns a best-effort value; it is only usable when ctx.errors is empty
+export type Schema<T> = (raw: unknown, ctx: ValidationContext) => T
+
+// valid: first response was clean; repaired: first response needed fixes;
+// retried: the model was re-prompted and the second response was usable;
+// fallback: neither response was usable and the fallback value was returned
+export type ParsePath = 'valid' | 'repaired' | 'retried' | 'fallback'
+
+export interface ParseReport {
+  path: ParsePath
+  attempts: number
+  repairs: string[]
+  errors: string[]
+}
+
+export interface ParsedCompletion<T> {
+  data: T
+  parse: ParseReport
+  content: string
+  citations: string[]
+}
+
+// Undo common ways models break otherwise valid JSON
+function repairJsonText(text: string): string {
+  return text
+    // Curly quotes
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    // Perplexity citation markers after a string value: "Coursera"[1][2]
+    .replace(/"(\s*\[\d+\])+/g, '"')
+    // Trailing commas
+    .replace(/,\s*([}\]])/g, '$1')
+}
+
+// Pull the first JSON object out of a model response
+export function extractJson(content: string): unknown {
+  const candidates: string[] = []
+
+  const fenced = content.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/)
+  if (fenced) candidates.push(fenced[1])
+
+  const firstBrace = content.indexOf('{')
+  const lastBrace = content.lastIndexOf('}')
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    candidates.push(content.slice(firstBrace, lastBrace + 1))
+  }
+
+  candidates.push(content)
+
+  for (const candidate of candidates) {
+    for (const text of [candidate, repairJsonText(candidate)]) {
+      try {
+        return JSON.parse(text)
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+
+  throw new Error('Response did not contain valid JSON')
+}
+
+// Extract + validate a single response
+export function parseWithSchema<T>(content: string, schema: Schema<T>): { value: T | null; ctx: ValidationContext } {
+  const ctx: ValidationContext = { errors: [], repairs: [] }
+  let raw: unknown
+  try {
+    raw = extractJson(content)
+  } catch (e) {
+    ctx.errors.push(e instanceof Error ? e.message : 'Response did not contain valid JSON')
+    return { value: null, ctx }
+  }
+  const value = schema(raw, ctx)
+  return { value, ctx }
+}
+
+function buildRetryPrompt(errors: string[]): string {
+  return `Your previous response did not match the required JSON format:
+${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}
+
+Return ONLY the corrected JSON object, using the exact structure requested, with no other text.`
+}
+
+// Complete, validate, re-prompt once on failure, then fall back.
+// Without a fallback, a second failure throws.
+export async function completeWithSchema<T>(
+  llm: LLMProvider,
+  request: CompletionRequest,
+  schema: Schema<T>,
+  fallback?: (content: string) => T
+): Promise<ParsedCompletion<T>> {
+  const first = await llm.complete(request)
+  return resolveWithSchema(llm, request, first, schema, fallback)
+}
+
+// Validate a response that has already been received (e.g. assembled from a stream),
+// re-prompting and falling back exactly like completeWithSchema
+export async function resolveWithSchema<T>(
+  llm: LLMProvider,
+  request: CompletionRequest,
+  first: { content: string; citations: string[] },
+  schema: Schema<T>,
+  fallback?: (content: string) => T
+): Promise<ParsedCompletion<T>> {
+  const firstResult = parseWithSchema(first.content, schema)
+
+  if (firstResult.ctx.errors.length === 0 && firstResult.value !== null) {
+    return {
+      data: firstResult.value,
+      parse: {
+        path: firstResult.ctx.repairs.length > 0 ? 'repaired' : 'valid',
+        attempts: 1,
+        repairs: firstResult.ctx.repairs,
+        errors: [],
+      },
+      content: first.content,
+      citations: first.citations,
+    }
+  }
+
+  console.warn(`${request.task}: invalid response, re-prompting`, firstResult.ctx.errors)
+
+  let second: { content: string; citations: string[] } | null = null
+  try {
+    second = await llm.complete({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: first.content },
+        { role: 'user', content: buildRetryPrompt(firstResult.ctx.errors) },
+      ],
+    })
+  } catch (e) {
+    console.error(`${request.task}: retry failed`, e)
+  }
+
+  if (second) {
+    const secondResult = parseWithSchema(second.content, schema)
+    if (secondResult.ctx.errors.length === 0 && secondResult.value !== null) {
+      return {
+        data: secondResult.value,
+        parse: {
+          path: 'retried',
+          attempts: 2,
+          repairs: secondResult.ctx.repairs,
+          errors: firstResult.ctx.errors,
+        },
+        content: second.content,
+        // Keep the citations from the search-backed first call if the retry has none
+        citations: second.citations.length > 0 ? second.citations : first.citations,
+      }
+    }
+    firstResult.ctx.errors.push(...secondResult.ctx.errors.map(e => `retry: ${e}`))
+  }
+
+  if (!fallback) {
+    throw new Error(`Could not parse ${request.task} response: ${firstResult.ctx.errors.join('; ')}`)
+  }
+
+  return {
+    data: fallback(first.content),
+    parse: {
+      path: 'fallback',
+      attempts: second ? 2 : 1,
+      repairs: [],
+      errors: firstResult.ctx.errors,
+    },
+    content: first.content,
+    citations: first.citations,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Field helpers used by the schemas
+// ---------------------------------------------------------------------------
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function readObject(raw: unknown, path: string, ctx: ValidationContext): Record<string, unknown> {
+  if (isRecord(raw)) return raw
+  ctx.errors.push(`${path} must be a JSON object`)
+  return {}
+}
+
+export function readArray(raw: unknown, path: string, ctx: ValidationContext, required: boolean): unknown[] {
+  if (Array.isArray(raw)) return raw
+  if (required) {
+    ctx.errors.push(`${path} must be an array`)
+  } else if (raw !== undefined && raw !== null) {
+    ctx.repairs.push(`${path} was not an array and was replaced with []`)
+  }
+  return []
+}
+
+// Required strings are errors when missing; optional ones are repaired to the fallback
+export function readString(
+  raw: unknown,
+  path: string,
+  ctx: ValidationContext,
+  options: { required?: boolean; fallback?: string; maxLength?: number } = {}
+): string {
+  if (typeof raw === 'string' && raw.trim().length > 0) {
+    const trimmed = raw.trim()
+    if (options.maxLength && trimmed.length > options.maxLength) {
+      ctx.repairs.push(`${path} was truncated to ${options.maxLength} characters`)
+      return trimmed.slice(0, options.maxLength)
+    }
+    return trimmed
+  }
+  if (typeof raw === 'number') {
+    return String(raw)
+  }
+  if (options.required) {
+    ctx.errors.push(`${path} is required`)
+  } else if (raw !== undefined && raw !== null && options.fallback !== undefined) {
+    ctx.repairs.push(`${path} was invalid and was set to "${options.fallback}"`)
+  }
+  return options.fallback ?? ''
+}
+
+// Numbers are clamped into [min, max]; strings like "4" or "4 weeks" are coerced
+export function readNumber(
+  raw: unknown,
+  path: string,
+  ctx: ValidationContext,
+  options: { min: number; max: number; fallback: number; integer?: boolean }
+): number {
+  let value = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw) : NaN
+  if (!Number.isFinite(value)) {
+    if (raw !== undefined && raw !== null) {
+      ctx.repairs.push(`${path} was not a number and was set to ${options.fallback}`)
+    }
+    return options.fallback
+  }
+  if (typeof raw === 'string') {
+    ctx.repairs.push(`${path} was a string and was converted to a number`)
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    value = Math.round(value)
+  }
+  if (value < options.min || value > options.max) {
+    const clamped = Math.min(options.max, Math.max(options.min, value))
+    ctx.repairs.push(`${path} was ${value} and was clamped to ${clamped}`)
+    return clamped
+  }
+  return value
+}
+
+export function readEnum<T extends string>(
+  raw: unknown,
+  path: string,
+  ctx: ValidationContext,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  const normalized = typeof raw === 'string' ? raw.trim().toLowerCase() : raw
+  if (allowed.includes(normalized as T)) return normalized as T
+  ctx.repairs.push(`${path} "${String(raw)}" is not one of ${allowed.join('|')} and was set to "${fallback}"`)
+  return fallback
+}
+
+export function readBoolean(raw: unknown, fallback: boolean): boolean {
+  if (typeof raw === 'boolean') return raw
+  if (raw === 'true') return true
+  if (raw === 'false') return false
+  return fallback
+}
@@ -0,0 +1,590 @@
+// Typed schemas for every structured response the edge functions ask the model for.
+// Each schema mirrors the JSON shape described in the corresponding prompt.
+
+import {
+  isRecord,
+  readArray,
+  readBoolean,
+  readEnum,
+  readNumber,
+  readObject,
+  readString,
+  type Schema,
+  type ValidationContext,
+} from './ai-response.ts'
+
+export const PRIORITIES = ['critical', 'high', 'medium', 'low'] as const
+export type Priority = typeof PRIORITIES[number]
+
+export const RESOURCE_TYPES = ['course', 'book', 'video', 'article', 'certification'] as const
+export type ResourceType = typeof RESOURCE_TYPES[number]
+
+export const GOAL_DURATIONS = ['short', 'medium', 'long'] as const
+export type GoalDuration = typeof GOAL_DURATIONS[number]
+
+// Same values as the education options in onboarding (self-taught is never read from a resume)
+export const EDUCATION_LEVELS = ['high_school', 'some_college', 'associates', 'bachelors', 'masters', 'phd', 'trade', 'bootcamp'] as const
+export type EducationLevel = typeof EDUCATION_LEVELS[number]
+
+// Daily goals must never exceed 3 hours
+export const MAX_GOAL_MINUTES = 180
+
+export interface RequiredSkillData {
+  skillName: string
+  requiredLevel: number
+  priority: Priority
+}
+
+export interface ResourceData {
+  title: string
+  url: string
+  type: ResourceType
+  provider?: string
+  estimatedHours?: number
+}
+
+export interface SubtaskData {
+  title: string
+  description: string
+}
+
+export interface MilestoneData {
+  title: string
+  description: string
+  orderIndex: number
+  estimatedWeeks: number
+  resources: ResourceData[]
+  subtasks: SubtaskData[]
+}
+
+export interface RoadmapData {
+  summary: string
+  estimatedTimeline: string
+  milestones: MilestoneData[]
+  requiredSkills: RequiredSkillData[]
+  skillGaps: string[]
+  salaryExpectation: Record<string, number>
+}
+
+export interface DailyGoalData {
+  sourceTaskId: string
+  duration: GoalDuration
+  minutes: number
+  dailyTitle: string
+  isPartialTask: boolean
+  // Share of the whole source task this goal covers (1 for whole-task goals)
+  portion: number
+  // The model's estimate for the whole source task, for a typical beginner
+  taskMinutes?: number
+  reasoning: string
+}
+
+export interface SkillRecommendationsData {
+  recommendations: string[]
+  skillRecommendations: Record<string, string[]>
+}
+
+export interface ResumeSkillData {
+  skillName: string
+  // Quote from the resume that shows the skill; empty when the model's quote was not found in it
+  evidence: string
+  proficiencyLevel: number
+  reasoning: string
+}
+
+// Dates are YYYY-MM-DD, on the first of the month (or year) when only that is known
+export interface PositionData {
+  title: string
+  company: string | null
+  location: string | null
+  startDate: string | null
+  endDate: string | null
+  isCurrent: boolean
+  description: string | null
+}
+
+export interface EducationData {
+  institution: string
+  degree: string | null
+  fieldOfStudy: string | null
+  level: EducationLevel | null
+  startDate: string | null
+  endDate: string | null
+}
+
+export interface CertificationData {
+  name: string
+  issuer: string | null
+  issuedDate: string | null
+  expiresDate: string | null
+}
+
+export interface ResumeProfileData {
+  positions: PositionData[]
+  education: EducationData[]
+  certifications: CertificationData[]
+}
+
+export interface ResumeImportData {
+  skills: ResumeSkillData[]
+  profile: ResumeProfileData
+  profileName: string | null
+  success: boolean
+  error?: string
+}
+
+function readStringList(raw: unknown, path: string, ctx: ValidationContext, required = false): string[] {
+  return readArray(raw, path, ctx, required)
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map(item => item.trim())
+}
+
+// Required skills, deduplicated case-insensitively (target_role_skills is unique per roadmap)
+function readRequiredSkills(raw: unknown, path: string, ctx: ValidationContext, required: boolean): RequiredSkillData[] {
+  const seen = new Set<string>()
+  const skills: RequiredSkillData[] = []
+
+  readArray(raw, path, ctx, required).forEach((item, i) => {
+    const itemPath = `${path}[${i}]`
+    const skill = readObject(item, itemPath, ctx)
+    const skillName = readString(skill.skillName ?? skill.name, `${itemPath}.skillName`, ctx, { required: true, maxLength: 100 })
+    if (!skillName) return
+
+    const key = skillName.toLowerCase()
+    if (seen.has(key)) {
+      ctx.repairs.push(`${itemPath} duplicate skill "${skillName}" was removed`)
+      return
+    }
+    seen.add(key)
+
+    skills.push({
+      skillName,
+      requiredLevel: readNumber(skill.requiredLevel, `${itemPath}.requiredLevel`, ctx, { min: 1, max: 5, fallback: 3, integer: true }),
+      priority: readEnum(skill.priority, `${itemPath}.priority`, ctx, PRIORITIES, 'medium'),
+    })
+  })
+
+  return skills
+}
+
+function readSubtasks(raw: unknown, path: string, ctx: ValidationContext): SubtaskData[] {
+  return readArray(raw, path, ctx, true)
+    .map((item, i) => {
+      const itemPath = `${path}[${i}]`
+      if (typeof item === 'string') {
+        ctx.repairs.push(`${itemPath} was a string and was converted to a subtask`)
+        return { title: item.trim(), description: '' }
+      }
+      const subtask = readObject(item, itemPath, ctx)
+      return {
+        title: readString(subtask.title, `${itemPath}.title`, ctx, { required: true, maxLength: 200 }),
+        description: readString(subtask.description, `${itemPath}.description`, ctx, { fallback: '' }),
+      }
+    })
+    .filter(subtask => subtask.title.length > 0)
+}
+
+function readResources(raw: unknown, path: string, ctx: ValidationContext): ResourceData[] {
+  const resources: ResourceData[] = []
+
+  readArray(raw, path, ctx, false).forEach((item, i) => {
+    const itemPath = `${path}[${i}]`
+    const resource = readObject(item, itemPath, ctx)
+    const title = typeof resource.title === 'string' ? resource.title.trim() : ''
+    const url = typeof resource.url === 'string' ? resource.url.trim() : ''
+
+    // A resource without a usable title and link is not worth keeping
+    if (!title || !/^https?:\/\//.test(url)) {
+      ctx.repairs.push(`${itemPath} had no title or valid url and was removed`)
+      return
+    }
+
+    resources.push({
+      title,
+      url,
+      type: readEnum(resource.type, `${itemPath}.type`, ctx, RESOURCE_TYPES, 'article'),
+      provider: typeof resource.provider === 'string' ? resource.provider : undefined,
+      estimatedHours: resource.estimatedHours === undefined
+        ? undefined
+        : readNumber(resource.estimatedHours, `${itemPath}.estimatedHours`, ctx, { min: 0, max: 1000, fallback: 0 }),
+    })
+  })
+
+  return resources
+}
+
+// Exported so streaming callers can preview milestones before the full roadmap has arrived
+export function readMilestone(raw: unknown, path: string, index: number, ctx: ValidationContext): MilestoneData {
+  const milestone = readObject(raw, path, ctx)
+  const subtasks = readSubtasks(milestone.subtasks, `${path}.subtasks`, ctx)
+  if (subtasks.length === 0) {
+    ctx.errors.push(`${path}.subtasks must contain at least one subtask`)
+  }
+
+  return {
+    title: readString(milestone.title, `${path}.title`, ctx, { required: true, maxLength: 200 }),
+    description: readString(milestone.description, `${path}.description`, ctx, { fallback: '' }),
+    orderIndex: readNumber(milestone.orderIndex, `${path}.orderIndex`, ctx, { min: 0, max: 100, fallback: index, integer: true }),
+    estimatedWeeks: readNumber(milestone.estimatedWeeks, `${path}.estimatedWeeks`, ctx, { min: 1, max: 104, fallback: 4 }),
+    resources: readResources(milestone.resources, `${path}.resources`, ctx),
+    subtasks,
+  }
+}
+
+export const roadmapSchema: Schema<RoadmapData> = (raw, ctx) => {
+  const root = readObject(raw, 'roadmap', ctx)
+
+  const milestones = readArray(root.milestones, 'milestones', ctx, true)
+    .map((item, i) => readMilestone(item, `milestones[${i}]`, i, ctx))
+
+  if (milestones.length === 0 && Array.isArray(root.milestones)) {
+    ctx.errors.push('milestones must contain at least one milestone')
+  }
+
+  // Order indexes from the model are often 1-based or duplicated; renumber by position
+  const sortedMilestones = [...milestones].sort((a, b) => a.orderIndex - b.orderIndex)
+  if (sortedMilestones.some((m, i) => m.orderIndex !== i)) {
+    ctx.repairs.push('milestones orderIndex values were renumbered from 0')
+    sortedMilestones.forEach((m, i) => { m.orderIndex = i })
+  }
+
+  const salary = root.salaryExpectation
+  const salaryExpectation: Record<string, number> = {}
+  if (salary && typeof salary === 'object' && !Array.isArray(salary)) {
+    for (const [key, value] of Object.entries(salary)) {
+      if (typeof value === 'number' && Number.isFinite(value)) salaryExpectation[key] = value
+    }
+  }
+
+  return {
+    summary: readString(root.summary, 'summary', ctx, { fallback: '' }),
+    estimatedTimeline: readString(root.estimatedTimeline, 'estimatedTimeline', ctx, { fallback: '' }),
+    milestones: sortedMilestones,
+    requiredSkills: readRequiredSkills(root.requiredSkills, 'requiredSkills', ctx, false),
+    skillGaps: readStringList(root.skillGaps, 'skillGaps', ctx),
+    salaryExpectation,
+  }
+}
+
+export const requiredSkillsSchema: Schema<{ skills: RequiredSkillData[] }> = (raw, ctx) => {
+  const root = readObject(raw, 'response', ctx)
+  const skills = readRequiredSkills(root.skills, 'skills', ctx, true)
+  if (skills.length === 0 && Array.isArray(root.skills)) {
+    ctx.errors.push('skills must contain at least one skill')
+  }
+  return { skills }
+}
+
+export const subtasksSchema: Schema<{ subtasks: SubtaskData[] }> = (raw, ctx) => {
+  const root = readObject(raw, 'response', ctx)
+  const subtasks = readSubtasks(root.subtasks, 'subtasks', ctx)
+  if (subtasks.length === 0 && Array.isArray(root.subtasks)) {
+    ctx.errors.push('subtasks must contain at least one subtask')
+  }
+  return { subtasks }
+}
+
+export const skillRecommendationsSchema: Schema<SkillRecommendationsData> = (raw, ctx) => {
+  const root = readObject(raw, 'response', ctx)
+  const skillRecommendations: Record<string, string[]> = {}
+  const rawSkillRecs = root.skillRecommendations
+  if (rawSkillRecs && typeof rawSkillRecs === 'object' && !Array.isArray(rawSkillRecs)) {
+    for (const [skillName, recs] of Object.entries(rawSkillRecs)) {
+      const list = readStringList(recs, `skillRecommendations.${skillName}`, ctx)
+      if (list.length > 0) skillRecommendations[skillName] = list
+    }
+  }
+  return {
+    recommendations: readStringList(root.recommendations, 'recommendations', ctx, true),
+    skillRecommendations,
+  }
+}
+
+// Level suggested for a skill the model listed without one
+const DEFAULT_IMPORT_LEVEL = 2
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+// "2021-03", "2021", "Mar 2021" or "March 2021" as YYYY-MM-DD; null when absent or unreadable
+function readResumeDate(raw: unknown, path: string, ctx: ValidationContext): string | null {
+  if (raw === undefined || raw === null || raw === '') return null
+  const text = String(raw).trim().toLowerCase()
+
+  const iso = text.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/)
+  const named = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{4})$/)
+  const year = iso ? Number(iso[1]) : named ? Number(named[2]) : NaN
+  const month = iso ? Number(iso[2] || 1) : named ? MONTHS.indexOf(named[1]) + 1 : NaN
+
+  if (!(year >= 1900 && year <= 2100 && month >= 1 && month <= 12)) {
+    ctx.repairs.push(`${path} "${raw}" is not a date and was removed`)
+    return null
+  }
+  return `${year}-${String(month).padStart(2, '0')}-01`
+}
+
+function readOptionalText(raw: unknown, path: string, ctx: ValidationContext, maxLength: number): string | null {
+  return readString(raw, path, ctx, { maxLength }) || null
+}
+
+function readPositions(raw: unknown, ctx: ValidationContext): PositionData[] {
+  const positions: PositionData[] = []
+
+  readArray(raw, 'profile.positions', ctx, false).forEach((item, i) => {
+    const path = `profile.positions[${i}]`
+    const position = readObject(item, path, ctx)
+    const title = readString(position.title, `${path}.title`, ctx, { maxLength: 200 })
+    if (!title) {
+      ctx.repairs.push(`${path} had no title and was removed`)
+      return
+    }
+
+    // "Present" as an end date marks a current position
+    const isCurrent = readBoolean(position.isCurrent, false) ||
+      (typeof position.endDate === 'string' && /^(present|current|now)$/i.test(position.endDate.trim()))
+
+    positions.push({
+      title,
+      company: readOptionalText(position.company, `${path}.company`, ctx, 200),
+      location: readOptionalText(position.location, `${path}.location`, ctx, 200),
+      startDate: readResumeDate(position.startDate, `${path}.startDate`, ctx),
+      endDate: isCurrent ? null : readResumeDate(position.endDate, `${path}.endDate`, ctx),
+      isCurrent,
+      description: readOptionalText(position.description, `${path}.description`, ctx, 1000),
+    })
+  })
+
+  return positions
+}
+
+function readEducationLevel(raw: unknown, path: string, ctx: ValidationContext): EducationLevel | null {
+  if (raw === undefined || raw === null) return null
+  if ((EDUCATION_LEVELS as readonly string[]).includes(String(raw))) return raw as EducationLevel
+  ctx.repairs.push(`${path} "${raw}" is not a known level and was removed`)
+  return null
+}
+
+function readEducation(raw: unknown, ctx: ValidationContext): EducationData[] {
+  const education: EducationData[] = []
+
+  readArray(raw, 'profile.education', ctx, false).forEach((item, i) => {
+    const path = `profile.education[${i}]`
+    const entry = readObject(item, path, ctx)
+    const institution = readString(entry.institution, `${path}.institution`, ctx, { maxLength: 200 })
+    if (!institution) {
+      ctx.repairs.push(`${path} had no institution and was removed`)
+      return
+    }
+
+    education.push({
+      institution,
+      degree: readOptionalText(entry.degree, `${path}.degree`, ctx, 200),
+      fieldOfStudy: readOptionalText(entry.fieldOfStudy, `${path}.fieldOfStudy`, ctx, 200),
+      level: readEducationLevel(entry.level, `${path}.level`, ctx),
+      startDate: readResumeDate(entry.startDate, `${path}.startDate`, ctx),
+      endDate: readResumeDate(entry.endDate, `${path}.endDate`, ctx),
+    })
+  })
+
+  return education
+}
+
+function readCertifications(raw: unknown, ctx: ValidationContext): CertificationData[] {
+  const certifications: CertificationData[] = []
+
+  readArray(raw, 'profile.certifications', ctx, false).forEach((item, i) => {
+    const path = `profile.certifications[${i}]`
+    if (typeof item === 'string' && item.trim()) {
+      ctx.repairs.push(`${path} was a string and was converted to a certification`)
+      certifications.push({ name: item.trim().slice(0, 200), issuer: null, issuedDate: null, expiresDate: null })
+      return
+    }
+
+    const certification = readObject(item, path, ctx)
+    const name = readString(certification.name, `${path}.name`, ctx, { maxLength: 200 })
+    if (!name) {
+      ctx.repairs.push(`${path} had no name and was removed`)
+      return
+    }
+
+    certifications.push({
+      name,
+      issuer: readOptionalText(certification.issuer, `${path}.issuer`, ctx, 200),
+      issuedDate: readResumeDate(certification.issuedDate, `${path}.issuedDate`, ctx),
+      expiresDate: readResumeDate(certification.expiresDate, `${path}.expiresDate`, ctx),
+    })
+  })
+
+  return certifications
+}
+
+// Also reads LinkedIn exports, which are built into the same shape
+export function readResumeProfile(raw: unknown, ctx: ValidationContext): ResumeProfileData {
+  const profile = isRecord(raw) ? raw : {}
+  if (raw !== undefined && raw !== null && !isRecord(raw)) {
+    ctx.repairs.push('profile was not an object and was replaced with an empty profile')
+  }
+
+  return {
+    positions: readPositions(profile.positions, ctx),
+    education: readEducation(profile.education, ctx),
+    certifications: readCertifications(profile.certifications, ctx),
+  }
+}
+
+// Lowercased with runs of whitespace collapsed, for finding quotes in extracted text
+function quoteForm(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+// Evidence must be quoted from the resume that was sent; a quote shortened
+// with "..." counts when every part of it is found
+export function resumeImportSchema(resumeText: string): Schema<ResumeImportData> {
+  const resume = quoteForm(resumeText)
+
+  return (raw, ctx) => {
+    const root = readObject(raw, 'response', ctx)
+    const seen = new Set<string>()
+    const skills: ResumeSkillData[] = []
+
+    readArray(root.skills, 'skills', ctx, true).forEach((item, i) => {
+      const path = `skills[${i}]`
+      if (typeof item === 'string') {
+        ctx.repairs.push(`${path} was a string and was converted to a skill without evidence`)
+      }
+      const skill = typeof item === 'string' ? { skillName: item } : readObject(item, path, ctx)
+      const skillName = readString(skill.skillName ?? skill.name, `${path}.skillName`, ctx, { maxLength: 100 })
+      if (!skillName) return
+
+      const key = skillName.toLowerCase()
+      if (seen.has(key)) {
+        ctx.repairs.push(`${path} duplicate skill "${skillName}" was removed`)
+        return
+      }
+      seen.add(key)
+
+      let evidence = readString(skill.evidence, `${path}.evidence`, ctx, { fallback: '', maxLength: 300 })
+      const parts = evidence.split(/\.{3}|…/).map(quoteForm).filter(Boolean)
+      if (evidence && !parts.every(part => resume.includes(part))) {
+        ctx.repairs.push(`${path}.evidence was not found in the resume and was removed`)
+        evidence = ''
+      }
+
+      skills.push({
+        skillName,
+        evidence,
+        proficiencyLevel: readNumber(skill.proficiencyLevel, `${path}.proficiencyLevel`, ctx, { min: 1, max: 5, fallback: DEFAULT_IMPORT_LEVEL, integer: true }),
+        reasoning: readString(skill.reasoning, `${path}.reasoning`, ctx, { fallback: '', maxLength: 300 }),
+      })
+    })
+
+    return {
+      skills,
+      profile: readResumeProfile(root.profile, ctx),
+      profileName: typeof root.profileName === 'string' && root.profileName.trim() ? root.profileName.trim() : null,
+      success: readBoolean(root.success, skills.length > 0),
+      error: typeof root.error === 'string' ? root.error : undefined,
+    }
+  }
+}
+
+export function durationForMinutes(minutes: number): GoalDuration {
+  if (minutes <= 45) return 'short'
+  if (minutes < 90) return 'medium'
+  return 'long'
+}
+
+// Used when a partial goal does not say how much of its task it covers
+const DEFAULT_PARTIAL_PORTION = 0.25
+
+// Whole-task estimates above this (100 hours) are clamped
+const MAX_TASK_MINUTES = 6000
+
+// Goals must reference one of the task IDs that were sent in the prompt
+export function dailyGoalsSchema(taskIds: Set<string>): Schema<{ goals: DailyGoalData[] }> {
+  return (raw, ctx) => {
+    const root = readObject(raw, 'response', ctx)
+    const goals: DailyGoalData[] = []
+
+    readArray(root.goals, 'goals', ctx, true).forEach((item, i) => {
+      const path = `goals[${i}]`
+      const goal = readObject(item, path, ctx)
+      const sourceTaskId = readString(goal.sourceTaskId, `${path}.sourceTaskId`, ctx, { required: true })
+      if (!taskIds.has(sourceTaskId)) {
+        ctx.repairs.push(`${path}.sourceTaskId "${sourceTaskId}" is not in the task list and the goal was removed`)
+        return
+      }
+
+      const minutes = readNumber(goal.minutes, `${path}.minutes`, ctx, { min: 5, max: MAX_GOAL_MINUTES, fallback: 30, integer: true })
+      const expectedDuration = durationForMinutes(minutes)
+      const duration = readEnum(goal.duration, `${path}.duration`, ctx, GOAL_DURATIONS, expectedDuration)
+      const isPartialTask = readBoolean(goal.isPartialTask, false)
+
+      goals.push({
+        sourceTaskId,
+        duration,
+        minutes,
+        dailyTitle: readString(goal.dailyTitle, `${path}.dailyTitle`, ctx, { required: true, maxLength: 200 }),
+        isPartialTask,
+        portion: isPartialTask
+          ? readNumber(goal.portion, `${path}.portion`, ctx, { min: 0.05, max: 1, fallback: DEFAULT_PARTIAL_PORTION })
+          : 1,
+        taskMinutes: goal.taskMinutes === undefined || goal.taskMinutes === null
+          ? undefined
+          : readNumber(goal.taskMinutes, `${path}.taskMinutes`, ctx, { min: 5, max: MAX_TASK_MINUTES, fallback: minutes, integer: true }),
+        reasoning: readString(goal.reasoning, `${path}.reasoning`, ctx, { fallback: '' }),
+      })
+    })
+
+    if (goals.length === 0) {
+      ctx.errors.push('goals must contain at least one goal that uses an exact task ID from the list')
+    }
+
+    return { goals }
+  }
+}
+
+export interface ReplanMilestoneData extends MilestoneData {
+  // Existing milestone being rewritten, or null for a new one
+  id: string | null
+}
+
+export interface ReplanData {
+  summary: string
+  changes: string[]
+  milestones: ReplanMilestoneData[]
+}
+
+// A revised plan for the remaining milestones. IDs must be remaining (not completed)
+// milestones of the roadmap; anything else is treated as a new milestone.
+export function replanSchema(remainingIds: Set<string>): Schema<ReplanData> {
+  return (raw, ctx) => {
+    const root = readObject(raw, 'replan', ctx)
+    const usedIds = new Set<string>()
+
+    const milestones = readArray(root.milestones, 'milestones', ctx, true).map((item, i): ReplanMilestoneData => {
+      const path = `milestones[${i}]`
+      const milestone = readMilestone(item, path, i, ctx)
+      const rawId = isRecord(item) && typeof item.id === 'string' ? item.id.trim() : ''
+
+      let id: string | null = null
+      if (rawId && remainingIds.has(rawId) && !usedIds.has(rawId)) {
+        id = rawId
+        usedIds.add(rawId)
+      } else if (rawId) {
+        ctx.repairs.push(`${path}.id "${rawId}" is not a remaining milestone and was treated as new`)
+      }
+
+      return { ...milestone, id }
+    })
+
+    if (milestones.length === 0 && Array.isArray(root.milestones)) {
+      ctx.errors.push('milestones must contain at least one remaining milestone')
+    }
+
+    return {
+      summary: readString(root.summary, 'summary', ctx, { fallback: '' }),
+      changes: readStringList(root.changes, 'changes', ctx),
+      milestones,
+    }
+  }
+}
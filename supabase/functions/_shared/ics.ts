@@ -0,0 +1,92 @@
+// Minimal iCalendar (RFC 5545) writer for calendar exports and feeds.
+
+export interface CalendarEvent {
+  uid: string
+  summary: string
+  description?: string
+  url?: string
+  // All-day events use date (YYYY-MM-DD); timed events use start and end
+  date?: string
+  start?: Date
+  end?: Date
+  // Bumps the event in subscribed calendars when it changes
+  lastModified?: Date
+}
+
+// Escape TEXT values (backslash, semicolon, comma and newlines)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+// 2026-03-05T18:30:00.000Z -> 20260305T183000Z
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// 2026-03-05 -> 20260305
+function formatDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString().slice(0, 10)
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CareerGuide//Roadmap Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Ask subscribed clients to refresh every few hours
+    'REFRESH-INTERVAL;VALUE=DURATION:PT4H',
+    'X-PUBLISHED-TTL:PT4H',
+  ]
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatDateTime(now)}`)
+
+    if (event.date) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`, `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`)
+      lines.push('TRANSP:TRANSPARENT')
+    } else if (event.start && event.end) {
+      lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end)}`)
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`)
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`)
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,43 @@
+// Helpers for reading JSON that is still being streamed.
+
+// Return the raw text of every complete object in the array under `key`,
+// e.g. completedArrayItems('{"milestones": [{"a":1}, {"b":', 'milestones') -> ['{"a":1}'].
+// Items that are still open at the end of the text are not returned.
+export function completedArrayItems(text: string, key: string): string[] {
+  const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text)
+  if (!match) return []
+
+  const items: string[] = []
+  let depth = 0
+  let start = -1
+  let inString = false
+  let escaped = false
+
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const ch = text[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (ch === '\\') escaped = true
+      else if (ch === '"') inString = false
+      continue
+    }
+
+    if (ch === '"') {
+      inString = true
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) start = i
+      depth++
+    } else if (ch === '}' || ch === ']') {
+      // Closing bracket of the array itself
+      if (depth === 0) break
+      depth--
+      if (depth === 0 && start !== -1) {
+        items.push(text.slice(start, i + 1))
+        start = -1
+      }
+    }
+  }
+
+  return items
+}
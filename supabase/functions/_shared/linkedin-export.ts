@@ -0,0 +1,220 @@
+// LinkedIn's "Get a copy of your data" archive: skills, endorsements, work
+// history, education and certifications read from its CSV files. The files
+// are recognized by their header row, so single CSVs can be uploaded too,
+// whatever they were renamed to.
+
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2'
+import type { ValidationContext } from './ai-response.ts'
+import {
+  readResumeProfile,
+  type EducationLevel,
+  type ResumeProfileData,
+  type ResumeSkillData,
+} from './ai-schemas.ts'
+
+export type LinkedInTable = 'skills' | 'endorsements' | 'positions' | 'education' | 'certifications' | 'profile'
+
+export interface LinkedInFile {
+  name: string
+  text: string
+}
+
+export interface LinkedInExportData {
+  skills: ResumeSkillData[]
+  profile: ResumeProfileData
+  profileName: string | null
+  // Tables found in the upload, so the app can say what was read
+  tables: LinkedInTable[]
+}
+
+// Columns that identify each table, checked in this order: Skills.csv has
+// only a Name column, which Certifications.csv also has
+const TABLE_COLUMNS: Array<[LinkedInTable, string[]]> = [
+  ['endorsements', ['Skill Name', 'Endorser First Name']],
+  ['certifications', ['Name', 'Authority']],
+  ['positions', ['Company Name', 'Title']],
+  ['education', ['School Name']],
+  ['profile', ['First Name', 'Last Name', 'Headline']],
+  ['skills', ['Name']],
+]
+
+// Some exports put notes above the header row
+const MAX_HEADER_ROW = 5
+
+// Endorsements needed for each level above the default; listed skills start at 2
+const ENDORSEMENT_LEVELS: Array<[number, number]> = [[10, 4], [3, 3]]
+const LISTED_SKILL_LEVEL = 2
+
+// The CSV files in an uploaded archive, or the uploaded CSV itself
+export function readExportFiles(fileName: string, bytes: Uint8Array): LinkedInFile[] {
+  if (!fileName.toLowerCase().endsWith('.zip')) {
+    return [{ name: fileName, text: new TextDecoder().decode(bytes) }]
+  }
+
+  let entries: Record<string, Uint8Array>
+  try {
+    entries = unzipSync(bytes, { filter: file => file.name.toLowerCase().endsWith('.csv') })
+  } catch (zipError) {
+    console.error('ZIP parsing error:', zipError)
+    throw new Error('Could not read the archive. Please upload the ZIP file LinkedIn sent you.')
+  }
+
+  return Object.entries(entries).map(([name, data]) => ({ name, text: strFromU8(data) }))
+}
+
+// Rows of RFC 4180 CSV: quoted fields may hold commas, newlines and "" for a quote
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(value => value.trim()))
+}
+
+// The table a file holds and its rows keyed by column, or null for other files in the archive
+function readTable(file: LinkedInFile): { table: LinkedInTable; records: Record<string, string>[] } | null {
+  const rows = parseCsv(file.text)
+
+  for (let h = 0; h < Math.min(rows.length, MAX_HEADER_ROW); h++) {
+    const header = rows[h].map(column => column.trim())
+    const match = TABLE_COLUMNS.find(([table, columns]) =>
+      columns.every(column => header.includes(column)) && (table !== 'skills' || header.length === 1)
+    )
+    if (!match) continue
+
+    const records = rows.slice(h + 1).map(row =>
+      Object.fromEntries(header.map((column, i) => [column, (row[i] ?? '').trim()]))
+    )
+    return { table: match[0], records }
+  }
+
+  return null
+}
+
+// Closest onboarding education level for a degree; dots are dropped so "B.S." reads as "bs"
+export function educationLevelFor(degree: string, school = ''): EducationLevel | null {
+  const text = degree.toLowerCase().replace(/\./g, '')
+  const both = `${text} ${school.toLowerCase()}`
+
+  if (/\b(phd|dphil|edd|doctor\w*)\b/.test(text)) return 'phd'
+  if (/\b(master\w*|ms|msc|ma|mba|meng|mphil|mfa|med|llm)\b/.test(text)) return 'masters'
+  if (/\b(bachelor\w*|bs|bsc|ba|beng|bba|btech|bfa|llb)\b/.test(text)) return 'bachelors'
+  if (/\b(associate\w*|aa|aas)\b/.test(text)) return 'associates'
+  if (/boot ?camp/.test(both)) return 'bootcamp'
+  if (/\b(apprentice\w*|vocational|journeyman|trade school)\b/.test(both)) return 'trade'
+  if (/\b(high school|secondary school|ged)\b/.test(both)) return 'high_school'
+  return null
+}
+
+function endorsementLevel(count: number): number {
+  return ENDORSEMENT_LEVELS.find(([min]) => count >= min)?.[1] ?? LISTED_SKILL_LEVEL
+}
+
+// Listed skills and endorsed skills, most endorsed first. Endorsements are the
+// only signal of level in the export, so no skill is suggested above 4.
+function readSkills(listed: Record<string, string>[], endorsements: Record<string, string>[]): ResumeSkillData[] {
+  const counts = new Map<string, { skillName: string; count: number; listed: boolean }>()
+  const entry = (name: string) => {
+    const key = name.toLowerCase()
+    if (!counts.has(key)) counts.set(key, { skillName: name, count: 0, listed: false })
+    return counts.get(key)!
+  }
+
+  for (const record of listed) {
+    if (record['Name']) entry(record['Name']).listed = true
+  }
+  for (const record of endorsements) {
+    if (record['Skill Name']) entry(record['Skill Name']).count++
+  }
+
+  return [...counts.values()]
+    .filter(skill => skill.skillName.length < 100)
+    .sort((a, b) => b.count - a.count)
+    .map(skill => ({
+      skillName: skill.skillName,
+      evidence: '',
+      proficiencyLevel: endorsementLevel(skill.count),
+      reasoning: [
+        skill.listed ? 'Listed on your LinkedIn profile' : 'Endorsed on LinkedIn',
+        skill.count > 0 ? `${skill.count} endorsement${skill.count === 1 ? '' : 's'}` : 'no endorsements',
+      ].join(', '),
+    }))
+}
+
+export function readLinkedInExport(files: LinkedInFile[], ctx: ValidationContext): LinkedInExportData {
+  const tables = new Map<LinkedInTable, Record<string, string>[]>()
+  for (const file of files) {
+    const found = readTable(file)
+    if (found) tables.set(found.table, [...(tables.get(found.table) ?? []), ...found.records])
+  }
+  const records = (table: LinkedInTable) => tables.get(table) ?? []
+
+  // Built in the shape the resume import returns, so dates and lengths are checked the same way
+  const profile = readResumeProfile({
+    positions: records('positions').map(p => ({
+      title: p['Title'],
+      company: p['Company Name'],
+      location: p['Location'],
+      startDate: p['Started On'],
+      endDate: p['Finished On'],
+      isCurrent: !!p['Started On'] && !p['Finished On'],
+      description: p['Description'],
+    })),
+    education: records('education').map(e => ({
+      institution: e['School Name'],
+      degree: e['Degree Name'],
+      fieldOfStudy: null,
+      level: educationLevelFor(e['Degree Name'] ?? '', e['School Name'] ?? ''),
+      startDate: e['Start Date'],
+      endDate: e['End Date'],
+    })),
+    certifications: records('certifications').map(c => ({
+      name: c['Name'],
+      issuer: c['Authority'],
+      issuedDate: c['Started On'],
+      expiresDate: c['Finished On'],
+    })),
+  }, ctx)
+
+  const person = records('profile')[0]
+  const profileName = person ? [person['First Name'], person['Last Name']].filter(Boolean).join(' ') || null : null
+
+  return {
+    skills: readSkills(records('skills'), records('endorsements')),
+    profile,
+    profileName,
+    tables: [...tables.keys()],
+  }
+}
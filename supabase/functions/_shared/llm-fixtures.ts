@@ -0,0 +1,209 @@
+// Deterministic fixtures served by the mock LLM provider, keyed by CompletionRequest.task.
+// Fixtures are plain data in the same shape the prompts ask the model for.
+
+import type { CompletionRequest } from './llm.ts'
+
+type Fixture = Record<string, unknown> | ((request: CompletionRequest) => unknown)
+
+// Task and milestone IDs are embedded in prompts as "[ID: <uuid>]"
+function extractTaskIds(request: CompletionRequest): string[] {
+  const prompt = request.messages.map(m => m.content).join('\n')
+  return [...prompt.matchAll(/\[ID: ([^\]]+)\]/g)].map(match => match[1])
+}
+
+// Resume text is embedded in the import prompt between triple quotes
+function extractResumeText(request: CompletionRequest): string {
+  const prompt = request.messages.map(m => m.content).join('\n')
+  return prompt.match(/"""\n([\s\S]*?)\n"""/)?.[1] ?? ''
+}
+
+const FIXTURES: Record<string, Fixture> = {
+  'generate-roadmap': {
+    summary: 'A staged plan that builds fundamentals, applies them in projects and finishes with a focused job search.',
+    estimatedTimeline: '12 months',
+    milestones: [
+      {
+        title: 'Learn the Fundamentals',
+        description: 'Cover the core concepts and tools used day to day in the target role',
+        orderIndex: 0,
+        estimatedWeeks: 8,
+        resources: [
+          { title: 'Foundations Course', url: 'https://example.com/foundations', type: 'course', provider: 'Example Academy', estimatedHours: 40 },
+        ],
+        subtasks: [
+          { title: 'Complete the foundations course', description: 'Work through every module and its exercises' },
+          { title: 'Summarize key concepts', description: 'Write one page of notes per module' },
+          { title: 'Set up a practice environment', description: 'Install the tools used in the role' },
+        ],
+      },
+      {
+        title: 'Build Portfolio Projects',
+        description: 'Apply the fundamentals to two realistic projects',
+        orderIndex: 1,
+        estimatedWeeks: 12,
+        resources: [
+          { title: 'Project Handbook', url: 'https://example.com/projects', type: 'book', provider: 'Example Press', estimatedHours: 15 },
+        ],
+        subtasks: [
+          { title: 'Pick two project ideas', description: 'Choose projects that mirror real job tasks' },
+          { title: 'Build the first project', description: 'Ship a working version and document it' },
+          { title: 'Build the second project', description: 'Focus on a skill the first project did not cover' },
+        ],
+      },
+      {
+        title: 'Earn a Certification',
+        description: 'Validate your skills with an industry-recognized credential',
+        orderIndex: 2,
+        estimatedWeeks: 6,
+        resources: [
+          { title: 'Certification Prep', url: 'https://example.com/cert', type: 'certification', provider: 'Example Institute', estimatedHours: 30 },
+        ],
+        subtasks: [
+          { title: 'Review the exam outline', description: 'List the topics you still need to study' },
+          { title: 'Take two practice exams', description: 'Aim for 80% or higher' },
+          { title: 'Schedule and pass the exam', description: 'Book the exam once practice scores are consistent' },
+        ],
+      },
+      {
+        title: 'Job Search',
+        description: 'Apply for positions and prepare for interviews',
+        orderIndex: 3,
+        estimatedWeeks: 6,
+        resources: [],
+        subtasks: [
+          { title: 'Update resume', description: 'Tailor resume to the target role' },
+          { title: 'Practice interviews', description: 'Complete three mock interviews' },
+          { title: 'Apply to positions', description: 'Submit applications to 10+ companies' },
+        ],
+      },
+    ],
+    requiredSkills: [
+      { skillName: 'Communication', requiredLevel: 4, priority: 'high' },
+      { skillName: 'Problem Solving', requiredLevel: 4, priority: 'critical' },
+      { skillName: 'Data Analysis', requiredLevel: 3, priority: 'medium' },
+      { skillName: 'Project Management', requiredLevel: 3, priority: 'medium' },
+      { skillName: 'SQL', requiredLevel: 3, priority: 'high' },
+    ],
+    skillGaps: ['SQL', 'Data Analysis'],
+    salaryExpectation: { entry: 60000, mid: 85000, senior: 120000 },
+  },
+
+  'generate-required-skills': {
+    skills: [
+      { skillName: 'Communication', requiredLevel: 4, priority: 'high' },
+      { skillName: 'Problem Solving', requiredLevel: 4, priority: 'critical' },
+      { skillName: 'Data Analysis', requiredLevel: 3, priority: 'medium' },
+      { skillName: 'Project Management', requiredLevel: 3, priority: 'medium' },
+      { skillName: 'SQL', requiredLevel: 3, priority: 'high' },
+      { skillName: 'Stakeholder Management', requiredLevel: 2, priority: 'low' },
+    ],
+  },
+
+  'skill-recommendations': {
+    recommendations: [
+      'Focus on the highest priority skill gaps first',
+      'Take one structured course per gap and finish it before starting another',
+      'Build a small project that exercises two gaps at once',
+    ],
+    skillRecommendations: {},
+  },
+
+  'generate-subtasks': {
+    subtasks: [
+      { title: 'Research the topic', description: 'Gather information about this milestone' },
+      { title: 'Create an action plan', description: 'Outline specific steps to complete' },
+      { title: 'Begin implementation', description: 'Start working on the first steps' },
+      { title: 'Review progress', description: 'Check your progress and adjust as needed' },
+    ],
+  },
+
+  'estimate-task-durations': (request: CompletionRequest) => {
+    const ids = extractTaskIds(request)
+    const slots = [
+      { duration: 'short', minutes: 30 },
+      { duration: 'medium', minutes: 60 },
+      { duration: 'long', minutes: 120 },
+    ]
+    return {
+      goals: ids.length === 0 ? [] : slots.map((slot, i) => ({
+        sourceTaskId: ids[Math.min(i, ids.length - 1)],
+        duration: slot.duration,
+        minutes: slot.minutes,
+        dailyTitle: `Work on task ${Math.min(i, ids.length - 1) + 1} for ${slot.minutes} minutes`,
+        isPartialTask: i > 0,
+        portion: i > 0 ? 0.25 : 1,
+        taskMinutes: i > 0 ? slot.minutes * 4 : slot.minutes,
+        reasoning: 'Mock estimate',
+      })),
+    }
+  },
+
+  // Rewrites the first remaining milestone and adds a new one after it
+  'replan-roadmap': (request: CompletionRequest) => {
+    const ids = extractTaskIds(request)
+    return {
+      summary: 'Focus the remaining plan on the largest skill gaps and add a practice milestone.',
+      changes: [
+        'Narrowed the next milestone to the highest priority gaps',
+        'Added a hands-on practice milestone before the job search',
+      ],
+      milestones: [
+        {
+          id: ids[0] || null,
+          title: 'Close the Priority Skill Gaps',
+          description: 'Concentrate on the critical and high priority gaps from your latest analysis',
+          estimatedWeeks: 6,
+          resources: [],
+          subtasks: [
+            { title: 'Pick one course per critical gap', description: 'Choose short, project-based courses' },
+            { title: 'Finish the first course', description: 'Complete every exercise' },
+            { title: 'Re-rate your skills', description: 'Update your skill levels and re-run the analysis' },
+          ],
+        },
+        {
+          id: null,
+          title: 'Hands-on Practice',
+          description: 'Apply the new skills in a realistic project',
+          estimatedWeeks: 4,
+          resources: [],
+          subtasks: [
+            { title: 'Scope a small project', description: 'Pick a problem that uses two of your gap skills' },
+            { title: 'Build and publish it', description: 'Share the result in your portfolio' },
+          ],
+        },
+      ],
+    }
+  },
+
+  'import-pdf-skills': (request: CompletionRequest) => {
+    // Quote the first sentence that names each skill, as the prompt asks
+    const sentences = extractResumeText(request).split(/(?<=[.!?])\s+|\n+/)
+    const skills = ['Communication', 'Project Management', 'Excel', 'Leadership', 'SQL'].map((skillName, i) => ({
+      skillName,
+      evidence: sentences.find(s => s.toLowerCase().includes(skillName.toLowerCase()))?.trim().slice(0, 200),
+      proficiencyLevel: [3, 3, 2, 2, 4][i],
+      reasoning: 'Mock estimate from the roles where the skill appears.',
+    }))
+    const profile = {
+      positions: [
+        { title: 'Operations Analyst', company: 'Example Corp', location: null, startDate: '2021-03', endDate: null, isCurrent: true, description: 'Reporting and process improvement for the operations team.' },
+        { title: 'Operations Assistant', company: 'Example Corp', location: null, startDate: '2018-06', endDate: '2021-02', isCurrent: false, description: null },
+      ],
+      education: [
+        { institution: 'Example University', degree: 'BA', fieldOfStudy: 'Economics', level: 'bachelors', startDate: '2014-09', endDate: '2018-05' },
+      ],
+      certifications: [
+        { name: 'Example Analytics Certificate', issuer: 'Example Institute', issuedDate: '2022-01', expiresDate: null },
+      ],
+    }
+    return { skills, profile, profileName: 'Mock Resume', success: true }
+  },
+}
+
+export function getMockFixture(request: CompletionRequest): unknown {
+  const fixture = FIXTURES[request.task]
+  if (fixture === undefined) {
+    throw new Error(`No mock fixture for task: ${request.task}`)
+  }
+  return typeof fixture === 'function' ? fixture(request) : fixture
+}
@@ -0,0 +1,271 @@
+// Shared LLM provider layer for all edge functions.
+//
+// Pick the provider with the LLM_PROVIDER env var:
+//   perplexity (default) - Perplexity chat completions, supports web search + citations
+//   openai               - any OpenAI-compatible chat completions endpoint
+//   mock                 - deterministic fixtures, no network (local dev and tests)
+//
+// Every provider supports complete() and stream(); stream() yields content deltas
+// as they arrive so callers can report progress on long generations.
+
+import { getMockFixture } from './llm-fixtures.ts'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// 'pro' is the research-grade model, 'standard' the cheaper/faster one
+export type ModelTier = 'standard' | 'pro'
+
+export interface CompletionRequest {
+  // Identifies the calling operation (e.g. 'generate-roadmap'); the mock provider picks its fixture by it
+  task: string
+  messages: ChatMessage[]
+  tier?: ModelTier
+  temperature?: number
+  // Only honoured by providers with built-in web search
+  withCitations?: boolean
+  searchRecency?: 'day' | 'week' | 'month' | 'year'
+  // Aborts the underlying HTTP request (used to cancel streaming generations)
+  signal?: AbortSignal
+}
+
+export interface CompletionResult {
+  content: string
+  citations: string[]
+  provider: string
+  model: string
+}
+
+// One piece of a streamed completion. Citations arrive with whichever chunk carries them.
+export interface StreamChunk {
+  delta: string
+  citations?: string[]
+}
+
+export interface LLMProvider {
+  name: string
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  stream(request: CompletionRequest): AsyncGenerator<StreamChunk>
+}
+
+export type ProviderName = 'perplexity' | 'openai' | 'mock'
+
+// Read a required env var, failing with the same message style the functions already use
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name)
+  if (!value) {
+    throw new Error(`${name} not configured`)
+  }
+  return value
+}
+
+// Yield the parsed JSON payload of each `data:` line in an OpenAI-style SSE response
+async function* readEventStream(response: Response): AsyncGenerator<Record<string, unknown>> {
+  if (!response.body) return
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += value
+
+    let newline = buffer.indexOf('\n')
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim()
+      buffer = buffer.slice(newline + 1)
+      newline = buffer.indexOf('\n')
+
+      if (!line.startsWith('data:')) continue
+      const payload = line.slice(5).trim()
+      if (payload === '[DONE]') return
+      try {
+        yield JSON.parse(payload)
+      } catch {
+        // Ignore keep-alives and partial lines
+      }
+    }
+  }
+}
+
+function deltaContent(event: Record<string, unknown>): string {
+  const choices = event.choices as { delta?: { content?: string } }[] | undefined
+  return choices?.[0]?.delta?.content || ''
+}
+
+export function createPerplexityProvider(apiKey: string): LLMProvider {
+  const models: Record<ModelTier, string> = {
+    standard: Deno.env.get('PERPLEXITY_MODEL') || 'sonar',
+    pro: Deno.env.get('PERPLEXITY_MODEL_PRO') || 'sonar-pro',
+  }
+
+  const send = async (request: CompletionRequest, stream: boolean) => {
+    const model = models[request.tier || 'pro']
+    const response = await fetch('https://api.perplexity.ai/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.2,
+        ...(stream ? { stream: true } : {}),
+        ...(request.withCitations ? { return_citations: true } : {}),
+        ...(request.searchRecency ? { search_recency_filter: request.searchRecency } : {}),
+      }),
+      signal: request.signal,
+    })
+
+    if (!response.ok) {
+      const errText = await response.text()
+      throw new Error(`Perplexity API error: ${errText}`)
+    }
+
+    return { response, model }
+  }
+
+  return {
+    name: 'perplexity',
+    async complete(request) {
+      const { response, model } = await send(request, false)
+      const data = await response.json()
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        citations: Array.isArray(data.citations) ? data.citations : [],
+        provider: 'perplexity',
+        model,
+      }
+    },
+    async *stream(request) {
+      const { response } = await send(request, true)
+      for await (const event of readEventStream(response)) {
+        yield {
+          delta: deltaContent(event),
+          citations: Array.isArray(event.citations) ? event.citations as string[] : undefined,
+        }
+      }
+    },
+  }
+}
+
+export function createOpenAICompatibleProvider(apiKey: string, baseUrl: string): LLMProvider {
+  const models: Record<ModelTier, string> = {
+    standard: Deno.env.get('OPENAI_MODEL') || 'gpt-4o-mini',
+    pro: Deno.env.get('OPENAI_MODEL_PRO') || 'gpt-4o',
+  }
+
+  const send = async (request: CompletionRequest, stream: boolean) => {
+    const model = models[request.tier || 'pro']
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.2,
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal: request.signal,
+    })
+
+    if (!response.ok) {
+      const errText = await response.text()
+      throw new Error(`OpenAI-compatible API error: ${errText}`)
+    }
+
+    return { response, model }
+  }
+
+  return {
+    name: 'openai',
+    async complete(request) {
+      const { response, model } = await send(request, false)
+      const data = await response.json()
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        // No built-in search, so there is nothing to cite
+        citations: [],
+        provider: 'openai',
+        model,
+      }
+    },
+    async *stream(request) {
+      const { response } = await send(request, true)
+      for await (const event of readEventStream(response)) {
+        yield { delta: deltaContent(event) }
+      }
+    },
+  }
+}
+
+// Returns canned responses keyed by request.task. Set LLM_MOCK_FIXTURE_DIR to
+// override a fixture with <dir>/<task>.json.
+// Streams the same content in fixed-size chunks.
+export function createMockProvider(fixtureDir?: string): LLMProvider {
+  const loadPayload = async (request: CompletionRequest): Promise<unknown> => {
+    if (fixtureDir) {
+      try {
+        return JSON.parse(await Deno.readTextFile(`${fixtureDir}/${request.task}.json`))
+      } catch {
+        // Fall through to the built-in fixture
+      }
+    }
+    return getMockFixture(request)
+  }
+
+  const MOCK_CHUNK_SIZE = 80
+  const MOCK_CHUNK_DELAY_MS = 20
+
+  return {
+    name: 'mock',
+    async complete(request) {
+      const payload = await loadPayload(request)
+
+      return {
+        content: '```json\n' + JSON.stringify(payload, null, 2) + '\n```',
+        citations: request.withCitations ? ['https://example.com/mock-source'] : [],
+        provider: 'mock',
+        model: 'mock',
+      }
+    },
+    async *stream(request) {
+      const { content, citations } = await this.complete(request)
+      for (let i = 0; i < content.length; i += MOCK_CHUNK_SIZE) {
+        if (request.signal?.aborted) {
+          throw new DOMException('The operation was aborted', 'AbortError')
+        }
+        await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS))
+        yield {
+          delta: content.slice(i, i + MOCK_CHUNK_SIZE),
+          citations: i === 0 && citations.length > 0 ? citations : undefined,
+        }
+      }
+    },
+  }
+}
+
+// Build the provider configured for this deployment
+export function getLLMProvider(): LLMProvider {
+  const providerName = (Deno.env.get('LLM_PROVIDER') || 'perplexity').toLowerCase() as ProviderName
+
+  switch (providerName) {
+    case 'perplexity':
+      return createPerplexityProvider(requireEnv('PERPLEXITY_API_KEY'))
+    case 'openai':
+      return createOpenAICompatibleProvider(
+        requireEnv('OPENAI_API_KEY'),
+        Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1'
+      )
+    case 'mock':
+      return createMockProvider(Deno.env.get('LLM_MOCK_FIXTURE_DIR'))
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${providerName}`)
+  }
+}
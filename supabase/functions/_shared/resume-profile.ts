@@ -0,0 +1,147 @@
+// Work history, education and certifications read from a resume or a
+// LinkedIn export (migration 022): the profile details they suggest, and the
+// work history as prompt text for roadmap generation.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { EducationLevel, PositionData, ResumeProfileData } from './ai-schemas.ts'
+
+type SupabaseAdmin = ReturnType<typeof createClient>
+
+// Values for the matching user_profiles and onboarding fields; null when the profile does not say
+export interface ProfileSuggestion {
+  currentJob: string | null
+  yearsExperience: number | null
+  education: EducationLevel[]
+}
+
+// Positions listed in a roadmap prompt, most recent first
+const MAX_PROMPT_POSITIONS = 8
+
+// Months from a YYYY-MM-DD date to the start of year 0, so spans can be compared
+function monthIndex(date: string): number {
+  const [year, month] = date.split('-').map(Number)
+  return year * 12 + month - 1
+}
+
+// Current positions first, then by how recently they ended or started
+function byRecency(a: PositionData, b: PositionData): number {
+  if (a.isCurrent !== b.isCurrent) return a.isCurrent ? -1 : 1
+  const aDate = a.endDate ?? a.startDate ?? ''
+  const bDate = b.endDate ?? b.startDate ?? ''
+  return aDate < bDate ? 1 : aDate > bDate ? -1 : 0
+}
+
+// Whole years worked, counting overlapping positions once. Positions without a
+// start date, or without an end date that are not current, are not counted.
+function yearsOfExperience(positions: PositionData[], today: Date): number | null {
+  const now = today.getUTCFullYear() * 12 + today.getUTCMonth()
+  const spans = positions
+    .filter((p) => p.startDate && (p.endDate || p.isCurrent))
+    .map((p) => [monthIndex(p.startDate!), (p.isCurrent ? now : monthIndex(p.endDate!)) + 1] as [number, number])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0])
+
+  if (spans.length === 0) return null
+
+  let months = 0
+  let [currentStart, currentEnd] = spans[0]
+  for (const [start, end] of spans.slice(1)) {
+    if (start <= currentEnd) {
+      currentEnd = Math.max(currentEnd, end)
+    } else {
+      months += currentEnd - currentStart
+      currentStart = start
+      currentEnd = end
+    }
+  }
+  months += currentEnd - currentStart
+
+  return Math.floor(months / 12)
+}
+
+export function suggestProfileDetails(profile: ResumeProfileData, today: Date = new Date()): ProfileSuggestion {
+  const latest = [...profile.positions].sort(byRecency)[0]
+  return {
+    currentJob: latest?.isCurrent ? latest.title : null,
+    yearsExperience: yearsOfExperience(profile.positions, today),
+    education: [...new Set(profile.education.flatMap((e) => (e.level ? [e.level] : [])))],
+  }
+}
+
+function formatMonth(date: string | null): string {
+  return date ? date.slice(0, 7) : '?'
+}
+
+// Work history and certifications for a prompt, or '' when there are none
+export function formatWorkHistory(profile: Pick<ResumeProfileData, 'positions' | 'certifications'>): string {
+  const lines: string[] = []
+
+  const positions = [...profile.positions].sort(byRecency).slice(0, MAX_PROMPT_POSITIONS)
+  if (positions.length > 0) {
+    lines.push('Work History:')
+    for (const p of positions) {
+      const period = `${formatMonth(p.startDate)} to ${p.isCurrent ? 'present' : formatMonth(p.endDate)}`
+      const description = p.description ? `: ${p.description.slice(0, 200)}` : ''
+      lines.push(`- ${p.title}${p.company ? ` at ${p.company}` : ''} (${period})${description}`)
+    }
+  }
+
+  if (profile.certifications.length > 0) {
+    lines.push(`Certifications: ${profile.certifications
+      .map((c) => `${c.name}${c.issuer ? ` (${c.issuer})` : ''}`)
+      .join(', ')}`)
+  }
+
+  return lines.join('\n')
+}
+
+// The user's saved work history and certifications, empty when they cannot be read
+export async function loadWorkHistory(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string
+): Promise<Pick<ResumeProfileData, 'positions' | 'certifications'>> {
+  const [positions, certifications] = await Promise.all([
+    supabaseAdmin
+      .from('user_positions')
+      .select('title, company, location, start_date, end_date, is_current, description')
+      .eq('user_id', userId),
+    supabaseAdmin.from('user_certifications').select('name, issuer, issued_date, expires_date').eq('user_id', userId)
+  ])
+
+  const error = positions.error || certifications.error
+  if (error) {
+    console.error('Failed to load work history:', error)
+    return { positions: [], certifications: [] }
+  }
+
+  return {
+    positions: (positions.data || []).map((p: {
+      title: string
+      company: string | null
+      location: string | null
+      start_date: string | null
+      end_date: string | null
+      is_current: boolean
+      description: string | null
+    }) => ({
+      title: p.title,
+      company: p.company,
+      location: p.location,
+      startDate: p.start_date,
+      endDate: p.end_date,
+      isCurrent: p.is_current,
+      description: p.description
+    })),
+    certifications: (certifications.data || []).map((c: {
+      name: string
+      issuer: string | null
+      issued_date: string | null
+      expires_date: string | null
+    }) => ({
+      name: c.name,
+      issuer: c.issuer,
+      issuedDate: c.issued_date,
+      expiresDate: c.expires_date
+    }))
+  }
+}
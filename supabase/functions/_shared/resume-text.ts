@@ -0,0 +1,113 @@
+// Plain text from an uploaded resume, for the skill extraction prompt.
+// PDFs are read with unpdf, DOCX files from the document XML inside the
+// archive, and text or Markdown files as UTF-8. Scanned PDF pages have no
+// text layer; their numbers are returned so the app can OCR them in the
+// browser and send the text back with the same file.
+
+import { getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1'
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2'
+
+export type ResumeFormat = 'pdf' | 'docx' | 'text'
+
+// A PDF page with less text than this is treated as a scanned image
+const MIN_PAGE_CHARS = 20
+
+export interface ExtractedResume {
+  text: string
+  // 1-based numbers of PDF pages without a text layer
+  imagePages: number[]
+}
+
+export function detectFormat(fileName: string, mimeType?: string): ResumeFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop() ?? ''
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf'
+  if (
+    mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+    extension === 'docx'
+  ) return 'docx'
+  if (mimeType?.startsWith('text/') || ['txt', 'md', 'markdown'].includes(extension)) return 'text'
+  return null
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binaryString = atob(base64)
+  const bytes = new Uint8Array(binaryString.length)
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i)
+  }
+  return bytes
+}
+
+// ocrPages holds text the app recognized for scanned pages, by page number
+async function extractPdf(bytes: Uint8Array, ocrPages: Record<string, string>): Promise<ExtractedResume> {
+  const pages: string[] = []
+  try {
+    const pdf = await getDocumentProxy(bytes)
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i)
+      const textContent = await page.getTextContent()
+      // Marked-content items only group text and have none of their own
+      pages.push(textContent.items.map((item: { str?: string }) => item.str ?? '').join(' '))
+    }
+  } catch (pdfError) {
+    console.error('PDF parsing error:', pdfError)
+    throw new Error('Could not read PDF file. Please make sure it is a valid PDF.')
+  }
+
+  const imagePages: number[] = []
+  const text = pages.map((pageText, i) => {
+    if (pageText.trim().length >= MIN_PAGE_CHARS) return pageText
+    const recognized = ocrPages[String(i + 1)]
+    if (typeof recognized === 'string' && recognized.trim()) return recognized
+    imagePages.push(i + 1)
+    return ''
+  })
+
+  return { text: text.filter(Boolean).join('\n\n'), imagePages }
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function decodeXmlText(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return XML_ENTITIES[name] ?? entity
+    const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+    return Number.isFinite(code) ? String.fromCodePoint(code) : entity
+  })
+}
+
+// Paragraphs of word/document.xml, one per line; tabs and line breaks inside a paragraph are kept
+function extractDocx(bytes: Uint8Array): ExtractedResume {
+  let xml: string
+  try {
+    const files = unzipSync(bytes, { filter: file => file.name === 'word/document.xml' })
+    if (!files['word/document.xml']) throw new Error('word/document.xml is missing')
+    xml = strFromU8(files['word/document.xml'])
+  } catch (docxError) {
+    console.error('DOCX parsing error:', docxError)
+    throw new Error('Could not read Word file. Please make sure it is a valid .docx document.')
+  }
+
+  // Field codes and tracked deletions are not part of the visible text
+  const paragraphs = (xml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || []).map(paragraph =>
+    decodeXmlText(
+      paragraph
+        .replace(/<w:(instrText|delText)\b[^>]*>[\s\S]*?<\/w:\1>/g, '')
+        .replace(/<w:tab\/>/g, '\t') // <w:tab .../> with attributes is a tab stop, not a tab
+        .replace(/<w:br\b[^>]*\/>/g, '\n')
+        .replace(/<[^>]+>/g, '')
+    )
+  )
+
+  return { text: paragraphs.filter(p => p.trim()).join('\n'), imagePages: [] }
+}
+
+export async function extractResumeText(
+  bytes: Uint8Array,
+  format: ResumeFormat,
+  ocrPages: Record<string, string> = {}
+): Promise<ExtractedResume> {
+  if (format === 'pdf') return await extractPdf(bytes, ocrPages)
+  if (format === 'docx') return extractDocx(bytes)
+  return { text: new TextDecoder().decode(bytes), imagePages: [] }
+}
@@ -0,0 +1,126 @@
+// Turns skills extracted from a resume into a review list for AddSkills: each
+// skill is resolved to its canonical name and compared with the user's profile
+// and with the skills their target roles require.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  canonicalSkillName,
+  matchSkills,
+  normalizeSkill,
+  resolveSkill,
+  type SkillMatchType,
+  type TaxonomyIndex,
+} from './skill-scoring.ts'
+import type { ResumeSkillData } from './ai-schemas.ts'
+
+type SupabaseAdmin = ReturnType<typeof createClient>
+
+// add: not in the profile yet; raise: in the profile below the suggested level;
+// keep: already in the profile at or above it
+export type ImportAction = 'add' | 'raise' | 'keep'
+
+export interface ProfileSkill {
+  id: string
+  skillName: string
+  proficiencyLevel: number
+  source: string
+}
+
+export interface RoleSkill {
+  skillName: string
+  requiredLevel: number
+  targetCareer: string
+}
+
+export interface ImportReviewItem {
+  skillName: string
+  evidence: string
+  suggestedLevel: number
+  reasoning: string
+  action: ImportAction
+  existing: ProfileSkill | null
+  targets: Array<RoleSkill & { matchType: SkillMatchType }>
+}
+
+export function reviewImportedSkills(
+  index: TaxonomyIndex,
+  imported: ResumeSkillData[],
+  profile: ProfileSkill[],
+  roleSkills: RoleSkill[]
+): ImportReviewItem[] {
+  const keyFor = (name: string) => resolveSkill(index, name) ?? normalizeSkill(name)
+  const profileByKey = new Map(profile.map((skill) => [keyFor(skill.skillName), skill]))
+  const seen = new Set<string>()
+  const items: ImportReviewItem[] = []
+
+  for (const skill of imported) {
+    // Two names for one canonical skill keep the first, which the model listed as more prominent
+    const key = keyFor(skill.skillName)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+
+    const skillName = canonicalSkillName(index, skill.skillName)
+    const existing = profileByKey.get(key) ?? null
+    const targets = roleSkills.flatMap((role) => {
+      const found = matchSkills(index, skillName, role.skillName)
+      return found ? [{ ...role, matchType: found.matchType }] : []
+    })
+
+    items.push({
+      skillName,
+      evidence: skill.evidence,
+      suggestedLevel: skill.proficiencyLevel,
+      reasoning: skill.reasoning,
+      action: !existing ? 'add' : existing.proficiencyLevel < skill.proficiencyLevel ? 'raise' : 'keep',
+      existing,
+      targets,
+    })
+  }
+
+  return items
+}
+
+// The user's skills and the skills required by each of their roadmaps
+export async function loadImportTargets(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string
+): Promise<{ profile: ProfileSkill[]; roleSkills: RoleSkill[] }> {
+  const [{ data: skills, error: skillsError }, { data: roadmaps, error: roadmapsError }] = await Promise.all([
+    supabaseAdmin.from('user_skills').select('id, skill_name, proficiency_level, source').eq('user_id', userId),
+    supabaseAdmin.from('roadmaps').select('id, target_career').eq('user_id', userId)
+  ])
+
+  if (skillsError) {
+    throw new Error(`Failed to fetch skills: ${skillsError.message}`)
+  }
+  if (roadmapsError) {
+    throw new Error(`Failed to fetch roadmaps: ${roadmapsError.message}`)
+  }
+
+  const profile = (skills || []).map((s: { id: string; skill_name: string; proficiency_level: number; source: string }) => ({
+    id: s.id,
+    skillName: s.skill_name,
+    proficiencyLevel: s.proficiency_level,
+    source: s.source
+  }))
+
+  const careers = new Map((roadmaps || []).map((r: { id: string; target_career: string }) => [r.id, r.target_career]))
+  if (careers.size === 0) return { profile, roleSkills: [] }
+
+  const { data: required, error: requiredError } = await supabaseAdmin
+    .from('target_role_skills')
+    .select('roadmap_id, skill_name, required_level')
+    .in('roadmap_id', [...careers.keys()])
+
+  if (requiredError) {
+    throw new Error(`Failed to fetch target role skills: ${requiredError.message}`)
+  }
+
+  const roleSkills = (required || []).map((r: { roadmap_id: string; skill_name: string; required_level: number }) => ({
+    skillName: r.skill_name,
+    requiredLevel: r.required_level,
+    targetCareer: careers.get(r.roadmap_id) ?? ''
+  }))
+
+  return { profile, roleSkills }
+}
@@ -0,0 +1,306 @@
+// Deterministic skill gap scoring, shared by analyze-skill-gaps and the web app
+// (src/lib/skillScoring.ts re-exports it for instant what-if recalculation).
+// Keep this file free of imports so it runs unchanged under Deno and Vite.
+//
+// Algorithm
+// 1. Names are resolved to canonical skills through the taxonomy (skill_taxonomy,
+//    skill_aliases and skill_relations, see migration 019) by their normalized
+//    form only; there is no substring matching.
+// 2. Each required skill is matched against every user skill rated 1 or higher.
+//    A match is 'exact' when the names are equal after normalization, 'similar'
+//    when both resolve to the same canonical skill (js / JavaScript), and
+//    'transferable' when their skills share a related-skill edge or one is the
+//    category the other belongs to (mentoring counts toward leadership).
+// 3. A match earns partial credit: exact and similar matches count the user's
+//    full level, transferable ones the edge weight (CATEGORY_CREDIT between a
+//    skill and its category) of it, rounded down. That is the current level.
+// 4. The best match is the one with the highest credited level times its
+//    MATCH_CONFIDENCE. Ties go to the stronger match type, then to the user
+//    skill name, so results never depend on the order skills were loaded in.
+// 5. The gap is the required level minus the current level, floored at 0.
+// 6. Readiness is the confidence-weighted share of required levels met, with
+//    each skill weighted by PRIORITY_WEIGHTS:
+//      sum(weight * confidence * min(current, required)) / sum(weight * required)
+//    rounded to a whole percentage.
+
+export type SkillPriority = 'critical' | 'high' | 'medium' | 'low'
+
+export type SkillMatchType = 'exact' | 'similar' | 'transferable'
+
+export interface ScoringUserSkill {
+  skillName: string
+  proficiencyLevel: number // 0 = not rated yet, never counted
+}
+
+export interface ScoringTargetSkill {
+  skillName: string
+  requiredLevel: number
+  priority: string // unknown priorities are weighted as medium
+}
+
+export interface ScoredMatch {
+  userSkill: string
+  matchType: SkillMatchType
+  confidence: number
+}
+
+export interface ScoredSkill {
+  skillName: string
+  requiredLevel: number
+  priority: SkillPriority
+  currentLevel: number // after partial credit
+  gap: number
+  match: ScoredMatch | null
+}
+
+export interface SkillScore {
+  readiness: number // 0-100
+  skills: ScoredSkill[] // in the order the required skills were given
+  gaps: ScoredSkill[] // skills with a gap, most urgent first
+}
+
+// Rows of the taxonomy tables
+export interface SkillTaxonomy {
+  skills: Array<{ id: string; name: string; parentId: string | null }>
+  aliases: Array<{ alias: string; skillId: string }> // alias is normalized
+  relations: Array<{ skillId: string; relatedSkillId: string; weight: number }>
+}
+
+// Lookups built once from a taxonomy
+export interface TaxonomyIndex {
+  skillIds: Map<string, string> // normalized name -> canonical skill ID
+  names: Map<string, string> // canonical skill ID -> display name
+  parents: Map<string, string> // canonical skill ID -> category ID
+  related: Map<string, number> // 'a|b' -> edge weight, both directions
+}
+
+export const PRIORITY_WEIGHTS: Record<SkillPriority, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+}
+
+// Share of the user's level a skill counts for toward its category, and back
+export const CATEGORY_CREDIT = 0.5
+
+// How sure we are that the matched skill is the one required
+export const MATCH_CONFIDENCE: Record<SkillMatchType, number> = {
+  exact: 1,
+  similar: 0.9,
+  transferable: 0.6,
+}
+
+const MATCH_ORDER: SkillMatchType[] = ['exact', 'similar', 'transferable']
+
+const PRIORITY_ORDER: SkillPriority[] = ['critical', 'high', 'medium', 'low']
+
+// Normalize skill name for comparison (normalize_skill_name in SQL follows the same rules)
+export function normalizeSkill(skill: string): string {
+  return skill
+    .toLowerCase()
+    .replace(/[.\-_]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function indexTaxonomy(taxonomy: SkillTaxonomy): TaxonomyIndex {
+  const index: TaxonomyIndex = { skillIds: new Map(), names: new Map(), parents: new Map(), related: new Map() }
+
+  for (const skill of taxonomy.skills) {
+    index.names.set(skill.id, skill.name)
+    index.skillIds.set(normalizeSkill(skill.name), skill.id)
+    if (skill.parentId) index.parents.set(skill.id, skill.parentId)
+  }
+  for (const { alias, skillId } of taxonomy.aliases) {
+    index.skillIds.set(normalizeSkill(alias), skillId)
+  }
+  for (const { skillId, relatedSkillId, weight } of taxonomy.relations) {
+    for (const key of [`${skillId}|${relatedSkillId}`, `${relatedSkillId}|${skillId}`]) {
+      index.related.set(key, Math.max(index.related.get(key) || 0, Number(weight)))
+    }
+  }
+
+  return index
+}
+
+// Used when the taxonomy could not be loaded: only exact name matches count
+export const EMPTY_TAXONOMY: TaxonomyIndex = indexTaxonomy({ skills: [], aliases: [], relations: [] })
+
+// Canonical skill ID for a name, or null when the taxonomy does not know it
+export function resolveSkill(index: TaxonomyIndex, name: string): string | null {
+  return index.skillIds.get(normalizeSkill(name)) ?? null
+}
+
+// Display name for a skill: the canonical name when the taxonomy knows it
+export function canonicalSkillName(index: TaxonomyIndex, name: string): string {
+  const id = resolveSkill(index, name)
+  return (id && index.names.get(id)) || name.trim()
+}
+
+// Share of one skill's level that counts toward another (0 when unrelated)
+function transferCredit(index: TaxonomyIndex, skillId: string, otherId: string): number {
+  const edge = index.related.get(`${skillId}|${otherId}`) || 0
+  const category = index.parents.get(skillId) === otherId || index.parents.get(otherId) === skillId
+    ? CATEGORY_CREDIT
+    : 0
+  return Math.max(edge, category)
+}
+
+// How a user skill relates to a required skill, and the share of its level that counts
+export function matchSkills(
+  index: TaxonomyIndex,
+  userSkill: string,
+  requiredSkill: string
+): { matchType: SkillMatchType; credit: number } | null {
+  if (normalizeSkill(userSkill) === normalizeSkill(requiredSkill)) return { matchType: 'exact', credit: 1 }
+
+  const userId = resolveSkill(index, userSkill)
+  const requiredId = resolveSkill(index, requiredSkill)
+  if (!userId || !requiredId) return null
+  if (userId === requiredId) return { matchType: 'similar', credit: 1 }
+
+  const credit = transferCredit(index, userId, requiredId)
+  return credit > 0 ? { matchType: 'transferable', credit } : null
+}
+
+// Form of a name that ignores spacing, a "js" suffix and a plural "s"
+function looseSkillForm(name: string): string {
+  return normalizeSkill(name).replace(/\s/g, '').replace(/js$/, '').replace(/s$/, '')
+}
+
+// True when two strings differ by at most one inserted, removed or changed character
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false
+  let i = 0
+  let j = 0
+  let edits = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++
+      j++
+      continue
+    }
+    if (++edits > 1) return false
+    if (a.length > b.length) i++
+    else if (b.length > a.length) j++
+    else {
+      i++
+      j++
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1
+}
+
+// Pairs of a user's skills that are probably the same skill under two names.
+// The database already stores one row per canonical skill (migration 020), so
+// this only catches spellings the taxonomy does not know: "Next.js" and
+// "NextJS", "Dockerfile" and "Dockerfiles", or a one-letter typo in names of
+// five or more letters. Pairs that resolve to two different skills are left alone.
+export function findNearDuplicates<T extends { skillName: string }>(index: TaxonomyIndex, skills: T[]): Array<[T, T]> {
+  const pairs: Array<[T, T]> = []
+
+  for (let a = 0; a < skills.length; a++) {
+    for (let b = a + 1; b < skills.length; b++) {
+      const first = skills[a].skillName
+      const second = skills[b].skillName
+      const firstId = resolveSkill(index, first)
+      const secondId = resolveSkill(index, second)
+      if (firstId && secondId && firstId !== secondId) continue
+
+      const looseFirst = looseSkillForm(first)
+      const looseSecond = looseSkillForm(second)
+      if (
+        (looseFirst && looseFirst === looseSecond) ||
+        (Math.min(looseFirst.length, looseSecond.length) >= 5 && withinOneEdit(looseFirst, looseSecond))
+      ) {
+        pairs.push([skills[a], skills[b]])
+      }
+    }
+  }
+
+  return pairs
+}
+
+// Plain code point order, the same in every runtime and locale
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function toPriority(priority: string): SkillPriority {
+  return (PRIORITY_ORDER as string[]).includes(priority) ? priority as SkillPriority : 'medium'
+}
+
+// Best-credited user skill for one required skill (steps 2-4)
+function bestMatch(
+  index: TaxonomyIndex,
+  target: ScoringTargetSkill,
+  userSkills: ScoringUserSkill[]
+): { match: ScoredMatch; level: number } | null {
+  let best: { match: ScoredMatch; level: number; score: number } | null = null
+
+  for (const userSkill of userSkills) {
+    if (userSkill.proficiencyLevel <= 0) continue
+
+    const found = matchSkills(index, userSkill.skillName, target.skillName)
+    if (!found) continue
+
+    const { matchType, credit } = found
+    const level = Math.floor(userSkill.proficiencyLevel * credit)
+    const confidence = MATCH_CONFIDENCE[matchType]
+    // Rounded so equal scores compare equal (3 * 0.6 is 1.7999999999999998, 2 * 0.9 is 1.8)
+    const score = Math.round(Math.min(level, target.requiredLevel) * confidence * 100) / 100
+    const candidate = { match: { userSkill: userSkill.skillName, matchType, confidence }, level, score }
+
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && MATCH_ORDER.indexOf(matchType) < MATCH_ORDER.indexOf(best.match.matchType)) ||
+      (score === best.score && matchType === best.match.matchType && compareNames(userSkill.skillName, best.match.userSkill) < 0)
+    ) {
+      best = candidate
+    }
+  }
+
+  return best && best.level > 0 ? { match: best.match, level: best.level } : null
+}
+
+export function scoreSkills(
+  userSkills: ScoringUserSkill[],
+  targetSkills: ScoringTargetSkill[],
+  index: TaxonomyIndex = EMPTY_TAXONOMY
+): SkillScore {
+  let weightedRequired = 0
+  let weightedAchieved = 0
+
+  const skills: ScoredSkill[] = targetSkills.map((target) => {
+    const priority = toPriority(target.priority)
+    const weight = PRIORITY_WEIGHTS[priority]
+    const best = bestMatch(index, target, userSkills)
+    const currentLevel = best ? best.level : 0
+
+    weightedRequired += weight * target.requiredLevel
+    weightedAchieved += weight * (best ? best.match.confidence : 0) * Math.min(currentLevel, target.requiredLevel)
+
+    return {
+      skillName: target.skillName,
+      requiredLevel: target.requiredLevel,
+      priority,
+      currentLevel,
+      gap: Math.max(0, target.requiredLevel - currentLevel),
+      match: best ? best.match : null,
+    }
+  })
+
+  const gaps = skills
+    .filter((s) => s.gap > 0)
+    .sort((a, b) =>
+      PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority) ||
+      b.gap - a.gap ||
+      compareNames(a.skillName, b.skillName)
+    )
+
+  const readiness = weightedRequired > 0 ? Math.round((weightedAchieved / weightedRequired) * 100) : 0
+
+  return { readiness, skills, gaps }
+}
@@ -0,0 +1,64 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { EMPTY_TAXONOMY, indexTaxonomy, type TaxonomyIndex } from './skill-scoring.ts'
+
+type SupabaseAdmin = ReturnType<typeof createClient>
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+
+// Every row of a query, read a page at a time; the query must have a stable order
+async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<{ data: T[]; error: unknown }> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) return { data: rows, error }
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null }
+  }
+}
+
+// Load the skill taxonomy (migration 019). Falls back to exact name matching
+// when it cannot be read, so analysis and imports still work.
+export async function loadSkillTaxonomy(supabaseAdmin: SupabaseAdmin): Promise<TaxonomyIndex> {
+  const [skills, aliases, relations] = await Promise.all([
+    selectAll<{ id: string; name: string; parent_id: string | null }>((from, to) =>
+      supabaseAdmin.from('skill_taxonomy').select('id, name, parent_id').order('id').range(from, to)
+    ),
+    selectAll<{ alias: string; skill_id: string }>((from, to) =>
+      supabaseAdmin.from('skill_aliases').select('alias, skill_id').order('alias').range(from, to)
+    ),
+    selectAll<{ skill_id: string; related_skill_id: string; weight: number }>((from, to) =>
+      supabaseAdmin
+        .from('skill_relations')
+        .select('skill_id, related_skill_id, weight')
+        .order('skill_id')
+        .order('related_skill_id')
+        .range(from, to)
+    )
+  ])
+
+  const error = skills.error || aliases.error || relations.error
+  if (error) {
+    console.error('Failed to load skill taxonomy:', error)
+    return EMPTY_TAXONOMY
+  }
+
+  return indexTaxonomy({
+    skills: skills.data.map((s) => ({
+      id: s.id,
+      name: s.name,
+      parentId: s.parent_id
+    })),
+    aliases: aliases.data.map((a) => ({
+      alias: a.alias,
+      skillId: a.skill_id
+    })),
+    relations: relations.data.map((r) => ({
+      skillId: r.skill_id,
+      relatedSkillId: r.related_skill_id,
+      weight: Number(r.weight)
+    }))
+  })
+}
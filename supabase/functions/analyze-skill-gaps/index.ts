@@ -1,5 +1,10 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getLLMProvider } from '../_shared/llm.ts'
+import { completeWithSchema, type ParseReport } from '../_shared/ai-response.ts'
+import { requiredSkillsSchema, skillRecommendationsSchema, type SkillRecommendationsData } from '../_shared/ai-schemas.ts'
+import { normalizeSkill, resolveSkill, scoreSkills } from '../_shared/skill-scoring.ts'
+import { loadSkillTaxonomy } from '../_shared/skill-taxonomy.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -40,98 +45,13 @@ interface SkillMatch {
   confidence: number
 }
 
-// Normalize skill name for comparison
-function normalizeSkill(skill: string): string {
-  return skill
-    .toLowerCase()
-    .replace(/[.\-_]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim()
-}
-
-// Check if two skills are similar
-function areSkillsSimilar(skill1: string, skill2: string): boolean {
-  const norm1 = normalizeSkill(skill1)
-  const norm2 = normalizeSkill(skill2)
-
-  // Exact match after normalization
-  if (norm1 === norm2) return true
-
-  // One contains the other
-  if (norm1.includes(norm2) || norm2.includes(norm1)) return true
-
-  // Common abbreviations and variations
-  const equivalents: Record<string, string[]> = {
-    'javascript': ['js', 'ecmascript', 'es6', 'es2015'],
-    'typescript': ['ts'],
-    'python': ['py', 'python3'],
-    'nodejs': ['node', 'node js'],
-    'reactjs': ['react', 'reactjs'],
-    'vuejs': ['vue', 'vuejs'],
-    'angularjs': ['angular'],
-    'postgresql': ['postgres', 'psql'],
-    'mongodb': ['mongo'],
-    'kubernetes': ['k8s'],
-    'amazon web services': ['aws'],
-    'google cloud platform': ['gcp'],
-    'microsoft azure': ['azure'],
-    'machine learning': ['ml'],
-    'artificial intelligence': ['ai'],
-    'natural language processing': ['nlp'],
-    'continuous integration': ['ci'],
-    'continuous deployment': ['cd'],
-    'cicd': ['ci/cd', 'ci cd'],
-    'project management': ['pm', 'project mgmt'],
-    'user experience': ['ux'],
-    'user interface': ['ui'],
-    'search engine optimization': ['seo'],
-  }
-
-  for (const [main, aliases] of Object.entries(equivalents)) {
-    const allVariants = [main, ...aliases]
-    const match1 = allVariants.some(v => norm1.includes(v) || v.includes(norm1))
-    const match2 = allVariants.some(v => norm2.includes(v) || v.includes(norm2))
-    if (match1 && match2) return true
-  }
-
-  return false
-}
-
-// Find transferable skills (skills that partially meet requirements)
-function findTransferableSkills(userSkills: UserSkill[], targetSkill: TargetSkill): SkillMatch | null {
-  const transferableMap: Record<string, string[]> = {
-    'leadership': ['team management', 'management', 'mentoring', 'coaching'],
-    'communication': ['presentation', 'public speaking', 'writing', 'technical writing'],
-    'problem solving': ['analytical thinking', 'critical thinking', 'debugging', 'troubleshooting'],
-    'programming': ['coding', 'software development', 'development'],
-    'data analysis': ['analytics', 'data science', 'statistics', 'excel'],
-    'design': ['graphic design', 'visual design', 'ui design', 'ux design'],
-    'marketing': ['digital marketing', 'content marketing', 'social media'],
-    'sales': ['business development', 'account management', 'customer relations'],
-  }
-
-  const targetNorm = normalizeSkill(targetSkill.skill_name)
-
-  for (const [category, related] of Object.entries(transferableMap)) {
-    const isTargetInCategory = targetNorm.includes(category) || related.some(r => targetNorm.includes(r))
-    if (isTargetInCategory) {
-      for (const userSkill of userSkills) {
-        const userNorm = normalizeSkill(userSkill.skill_name)
-        const isUserInCategory = userNorm.includes(category) || related.some(r => userNorm.includes(r))
-        if (isUserInCategory && userSkill.skill_name.toLowerCase() !== targetSkill.skill_name.toLowerCase()) {
-          return {
-            requiredSkill: targetSkill.skill_name,
-            userSkill: userSkill.skill_name,
-            matchType: 'transferable',
-            confidence: 0.6
-          }
-        }
-      }
-    }
-  }
-
-  return null
-}
+// Used when the model cannot produce usable recommendations
+const GENERIC_RECOMMENDATIONS = [
+  'Focus on the highest priority skill gaps first',
+  'Consider online courses and certifications',
+  'Practice through hands-on projects',
+  'Join communities and network with professionals in the field'
+]
 
 serve(async (req) => {
   // Handle CORS preflight
@@ -143,13 +63,10 @@ serve(async (req) => {
   }
 
   try {
-    const PERPLEXITY_API_KEY = Deno.env.get('PERPLEXITY_API_KEY')
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
 
-    if (!PERPLEXITY_API_KEY) {
-      throw new Error('PERPLEXITY_API_KEY not configured')
-    }
+    const llm = getLLMProvider()
 
     if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error('Supabase credentials not configured')
@@ -200,6 +117,13 @@ serve(async (req) => {
       throw new Error(`Failed to fetch target skills: ${targetSkillsError.message}`)
     }
 
+    // Parse report for each AI call made during this analysis
+    const parse: { requiredSkills?: ParseReport; recommendations?: ParseReport } = {}
+
+    // Same key as skill_key in the database (migration 020)
+    const taxonomy = await loadSkillTaxonomy(supabaseAdmin)
+    const skillKey = (name: string) => resolveSkill(taxonomy, name) ?? normalizeSkill(name)
+
     // If no target skills exist, generate them using AI
     if (!targetSkills || targetSkills.length === 0) {
       const skillsPrompt = `List the most important skills required for a ${targetCareer} role.
@@ -219,56 +143,54 @@ Include 6-10 skills with:
 - requiredLevel: 1 (Beginner) to 5 (Expert)
 - priority: how critical the skill is for the role`
 
-      const skillsResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'sonar-pro',
-          messages: [
-            { role: 'user', content: skillsPrompt }
-          ],
-          temperature: 0.2,
-        }),
-      })
+      try {
+        // No fallback here: if both attempts fail the analysis runs without required skills
+        const { data: parsedSkills, parse: skillsParse } = await completeWithSchema(
+          llm,
+          {
+            task: 'generate-required-skills',
+            tier: 'pro',
+            messages: [
+              { role: 'user', content: skillsPrompt }
+            ],
+            temperature: 0.2,
+          },
+          requiredSkillsSchema
+        )
+        parse.requiredSkills = skillsParse
+
+        // Insert target skills, once each when the model lists a skill under two names
+        const generatedKeys = new Set<string>()
+        const skillsToInsert = parsedSkills.skills.filter(skill => {
+          const key = skillKey(skill.skillName)
+          if (generatedKeys.has(key)) return false
+          generatedKeys.add(key)
+          return true
+        }).map(skill => ({
+          roadmap_id: roadmapId,
+          skill_name: skill.skillName,
+          required_level: skill.requiredLevel,
+          priority: skill.priority
+        }))
+
+        const { data: insertedSkills } = await supabaseAdmin
+          .from('target_role_skills')
+          .insert(skillsToInsert)
+          .select()
 
-      if (skillsResponse.ok) {
-        const skillsData = await skillsResponse.json()
-        const content = skillsData.choices[0].message.content
-
-        try {
-          const jsonMatch = content.match(/```json\n?([\s\S]*?)\n?```/) || content.match(/\{[\s\S]*\}/)
-          const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : content
-          const parsedSkills = JSON.parse(jsonString)
-
-          // Insert target skills
-          const skillsToInsert = parsedSkills.skills.map((skill: { skillName: string; requiredLevel: number; priority: string }) => ({
-            roadmap_id: roadmapId,
-            skill_name: skill.skillName,
-            required_level: Math.min(5, Math.max(1, skill.requiredLevel || 3)),
-            priority: ['critical', 'high', 'medium', 'low'].includes(skill.priority) ? skill.priority : 'medium'
-          }))
-
-          const { data: insertedSkills } = await supabaseAdmin
-            .from('target_role_skills')
-            .insert(skillsToInsert)
-            .select()
-
-          targetSkills = insertedSkills || []
-        } catch (e) {
-          console.error('Failed to parse skills:', e)
-        }
+        targetSkills = insertedSkills || []
+      } catch (e) {
+        console.error('Failed to generate skills:', e)
       }
     }
 
-    // Auto-add required skills to user_skills (with level 0 = needs rating)
+    // Auto-add required skills to user_skills (with level 0 = needs rating),
+    // unless the user already has them under another name
     if (targetSkills && targetSkills.length > 0) {
-      const existingSkillNames = new Set((userSkills || []).map((s: UserSkill) => s.skill_name.toLowerCase()))
+      const existingSkillKeys = new Set((userSkills || []).map((s: UserSkill) => skillKey(s.skill_name)))
 
       const skillsToAdd = targetSkills
-        .filter((ts: TargetSkill) => !existingSkillNames.has(ts.skill_name.toLowerCase()))
+        .filter((ts: TargetSkill) => !existingSkillKeys.has(skillKey(ts.skill_name)))
         .map((ts: TargetSkill) => ({
           user_id: user.id,
           skill_name: ts.skill_name,
@@ -283,94 +205,36 @@ Include 6-10 skills with:
       }
     }
 
-    // Create skill map for easy lookup (including fuzzy matching)
-    const userSkillMap = new Map<string, number>()
-    const skillMatches: SkillMatch[] = []
-
-    for (const userSkill of (userSkills || [])) {
-      userSkillMap.set(userSkill.skill_name.toLowerCase(), userSkill.proficiency_level)
-    }
-
-    // Calculate skill gaps with fuzzy matching
-    const skillGaps: SkillGap[] = (targetSkills || []).map((target: TargetSkill) => {
-      let currentLevel = userSkillMap.get(target.skill_name.toLowerCase()) || 0
-      let matchedUserSkill: string | undefined = undefined
-
-      // If no exact match, try fuzzy matching
-      if (currentLevel === 0) {
-        for (const userSkill of (userSkills || [])) {
-          if (areSkillsSimilar(userSkill.skill_name, target.skill_name)) {
-            currentLevel = userSkill.proficiency_level
-            matchedUserSkill = userSkill.skill_name
-            skillMatches.push({
-              requiredSkill: target.skill_name,
-              userSkill: userSkill.skill_name,
-              matchType: 'similar',
-              confidence: 0.9
-            })
-            break
-          }
-        }
-      }
-
-      // If still no match, check for transferable skills
-      if (currentLevel === 0) {
-        const transferable = findTransferableSkills(userSkills || [], target)
-        if (transferable) {
-          // Give partial credit for transferable skills
-          const userSkill = (userSkills || []).find((s: UserSkill) => s.skill_name === transferable.userSkill)
-          if (userSkill) {
-            currentLevel = Math.floor(userSkill.proficiency_level * 0.5) // 50% credit
-            matchedUserSkill = `${transferable.userSkill} (transferable)`
-            skillMatches.push(transferable)
-          }
-        }
-      }
-
-      const gap = Math.max(0, target.required_level - currentLevel)
-
-      return {
-        skillName: target.skill_name,
-        currentLevel,
-        requiredLevel: target.required_level,
-        gap,
-        priority: target.priority,
-        recommendations: [],
-        matchedUserSkill
-      }
-    }).filter((gap: SkillGap) => gap.gap > 0)
-      .sort((a: SkillGap, b: SkillGap) => {
-        const priorityOrder: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 }
-        if (priorityOrder[a.priority] !== priorityOrder[b.priority]) {
-          return priorityOrder[a.priority] - priorityOrder[b.priority]
-        }
-        return b.gap - a.gap
-      })
-
-    // Calculate overall readiness (with fuzzy matching considered)
-    let totalRequired = 0
-    let totalAchieved = 0
-
-    for (const target of (targetSkills || [])) {
-      totalRequired += target.required_level
-
-      // Check exact match first
-      let current = userSkillMap.get(target.skill_name.toLowerCase()) || 0
-
-      // Then fuzzy match
-      if (current === 0) {
-        for (const userSkill of (userSkills || [])) {
-          if (areSkillsSimilar(userSkill.skill_name, target.skill_name)) {
-            current = userSkill.proficiency_level
-            break
-          }
-        }
-      }
-
-      totalAchieved += Math.min(current, target.required_level)
-    }
+    // Score the required skills against the user's skills (see _shared/skill-scoring.ts)
+    const score = scoreSkills(
+      (userSkills || []).map((s: UserSkill) => ({ skillName: s.skill_name, proficiencyLevel: s.proficiency_level })),
+      (targetSkills || []).map((t: TargetSkill) => ({ skillName: t.skill_name, requiredLevel: t.required_level, priority: t.priority })),
+      taxonomy
+    )
 
-    const overallReadiness = totalRequired > 0 ? Math.round((totalAchieved / totalRequired) * 100) : 0
+    // Matches other than exact ones are shown so the user can see what counted
+    const skillMatches: SkillMatch[] = score.skills
+      .filter((s) => s.match && s.match.matchType !== 'exact')
+      .map((s) => ({
+        requiredSkill: s.skillName,
+        userSkill: s.match!.userSkill,
+        matchType: s.match!.matchType,
+        confidence: s.match!.confidence
+      }))
+
+    const skillGaps: SkillGap[] = score.gaps.map((g) => ({
+      skillName: g.skillName,
+      currentLevel: g.currentLevel,
+      requiredLevel: g.requiredLevel,
+      gap: g.gap,
+      priority: g.priority,
+      recommendations: [],
+      matchedUserSkill: g.match && g.match.matchType !== 'exact'
+        ? g.match.matchType === 'transferable' ? `${g.match.userSkill} (transferable)` : g.match.userSkill
+        : undefined
+    }))
+
+    const overallReadiness = score.readiness
 
     // Get AI recommendations for top gaps
     let recommendations: string[] = []
@@ -395,54 +259,39 @@ Your response must be valid JSON:
   }
 }`
 
-      const recResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'sonar-pro',
-          messages: [
-            { role: 'user', content: recPrompt }
-          ],
-          temperature: 0.3,
-        }),
-      })
-
-      if (recResponse.ok) {
-        const recData = await recResponse.json()
-        const content = recData.choices[0].message.content
-
-        try {
-          const jsonMatch = content.match(/```json\n?([\s\S]*?)\n?```/) || content.match(/\{[\s\S]*\}/)
-          const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : content
-          const parsedRec = JSON.parse(jsonString)
-
-          recommendations = parsedRec.recommendations || []
-
-          // Add skill-specific recommendations
-          if (parsedRec.skillRecommendations) {
-            skillGaps.forEach((gap: SkillGap) => {
-              const skillRecs = parsedRec.skillRecommendations[gap.skillName]
-              if (skillRecs && Array.isArray(skillRecs)) {
-                gap.recommendations = skillRecs
-              }
-            })
+      try {
+        const { data: parsedRec, parse: recParse } = await completeWithSchema(
+          llm,
+          {
+            task: 'skill-recommendations',
+            tier: 'pro',
+            messages: [
+              { role: 'user', content: recPrompt }
+            ],
+            temperature: 0.3,
+          },
+          skillRecommendationsSchema,
+          (): SkillRecommendationsData => ({ recommendations: GENERIC_RECOMMENDATIONS, skillRecommendations: {} })
+        )
+        parse.recommendations = recParse
+
+        recommendations = parsedRec.recommendations
+
+        // Add skill-specific recommendations
+        skillGaps.forEach((gap: SkillGap) => {
+          const skillRecs = parsedRec.skillRecommendations[gap.skillName]
+          if (skillRecs) {
+            gap.recommendations = skillRecs
           }
-        } catch (e) {
-          console.error('Failed to parse recommendations:', e)
-          recommendations = [
-            'Focus on the highest priority skill gaps first',
-            'Consider online courses and certifications',
-            'Practice through hands-on projects',
-            'Join communities and network with professionals in the field'
-          ]
-        }
+        })
+      } catch (e) {
+        console.error('Failed to get recommendations:', e)
+        recommendations = GENERIC_RECOMMENDATIONS
       }
     }
 
     // Save analysis to database
+    const analyzedAt = new Date().toISOString()
     const { data: analysis, error: analysisError } = await supabaseAdmin
       .from('skill_gap_analysis')
       .upsert({
@@ -452,7 +301,7 @@ Your response must be valid JSON:
         critical_gaps: skillGaps,
         recommendations,
         milestone_skill_mapping: { skillMatches }, // Store skill matches for display
-        analyzed_at: new Date().toISOString()
+        analyzed_at: analyzedAt
       }, {
         onConflict: 'roadmap_id,user_id'
       })
@@ -463,6 +312,25 @@ Your response must be valid JSON:
       console.error('Failed to save analysis:', analysisError)
     }
 
+    // Keep this run, with the skill levels it was based on, for comparison with later runs
+    const { error: snapshotError } = await supabaseAdmin
+      .from('skill_gap_snapshots')
+      .insert({
+        roadmap_id: roadmapId,
+        user_id: user.id,
+        overall_readiness: overallReadiness,
+        critical_gaps: skillGaps,
+        skill_levels: (userSkills || []).map((s: UserSkill) => ({
+          skillName: s.skill_name,
+          proficiencyLevel: s.proficiency_level
+        })),
+        analyzed_at: analyzedAt
+      })
+
+    if (snapshotError) {
+      console.error('Failed to save analysis snapshot:', snapshotError)
+    }
+
     // Track API usage
     await supabaseAdmin
       .from('api_usage')
@@ -482,9 +350,10 @@ Your response must be valid JSON:
           critical_gaps: skillGaps,
           recommendations,
           milestone_skill_mapping: { skillMatches },
-          analyzed_at: new Date().toISOString()
+          analyzed_at: analyzedAt
         },
         skillMatches, // Return skill matches for frontend display
+        parse, // How each AI response was parsed (valid, repaired, retried or fallback)
         message: 'Skill gap analysis completed'
       }),
       {
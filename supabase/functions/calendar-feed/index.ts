@@ -0,0 +1,180 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildCalendar, type CalendarEvent } from '../_shared/ics.ts'
+
+// Serves a user's milestones (with due dates) and scheduled goal blocks as iCalendar.
+//   GET  ?token=<feed token>  - subscribable feed for Google/Outlook/Apple calendars
+//   POST with Authorization   - one-off .ics download for the signed-in user
+// Calendar apps cannot send an Authorization header, so deploy with --no-verify-jwt;
+// the feed token (or the user's JWT for downloads) is checked here instead.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+// Goal blocks older than this are left out of the calendar
+const BLOCK_HISTORY_DAYS = 30
+
+type SupabaseAdmin = ReturnType<typeof createClient>
+
+interface MilestoneRow {
+  id: string
+  roadmap_id: string
+  title: string
+  description: string | null
+  status: 'pending' | 'in_progress' | 'completed'
+  due_date: string
+}
+
+interface GoalBlockRow {
+  id: string
+  roadmap_id: string | null
+  title: string
+  milestone_title: string | null
+  starts_at: string
+  duration_minutes: number
+  created_at: string
+}
+
+async function loadEvents(supabaseAdmin: SupabaseAdmin, userId: string): Promise<CalendarEvent[]> {
+  const appUrl = Deno.env.get('APP_URL')?.replace(/\/$/, '')
+
+  const { data: roadmaps, error: roadmapsError } = await supabaseAdmin
+    .from('roadmaps')
+    .select('id, target_career')
+    .eq('user_id', userId)
+
+  if (roadmapsError) {
+    throw new Error(`Failed to fetch roadmaps: ${roadmapsError.message}`)
+  }
+
+  const careers = new Map((roadmaps || []).map((r: { id: string; target_career: string }) => [r.id, r.target_career]))
+  const events: CalendarEvent[] = []
+
+  if (careers.size > 0) {
+    const { data: milestones, error: milestonesError } = await supabaseAdmin
+      .from('milestones')
+      .select('id, roadmap_id, title, description, status, due_date')
+      .in('roadmap_id', [...careers.keys()])
+      .not('due_date', 'is', null)
+
+    if (milestonesError) {
+      throw new Error(`Failed to fetch milestones: ${milestonesError.message}`)
+    }
+
+    for (const milestone of (milestones || []) as MilestoneRow[]) {
+      events.push({
+        uid: `milestone-${milestone.id}@careerguide`,
+        summary: `${milestone.status === 'completed' ? '✓ ' : ''}${milestone.title}`,
+        description: [`${careers.get(milestone.roadmap_id)} roadmap milestone`, milestone.description]
+          .filter(Boolean)
+          .join('\n\n'),
+        url: appUrl ? `${appUrl}/roadmap/${milestone.roadmap_id}` : undefined,
+        date: milestone.due_date,
+      })
+    }
+  }
+
+  const since = new Date(Date.now() - BLOCK_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const { data: blocks, error: blocksError } = await supabaseAdmin
+    .from('goal_blocks')
+    .select('id, roadmap_id, title, milestone_title, starts_at, duration_minutes, created_at')
+    .eq('user_id', userId)
+    .gte('starts_at', since)
+    .order('starts_at')
+
+  if (blocksError) {
+    throw new Error(`Failed to fetch goal blocks: ${blocksError.message}`)
+  }
+
+  for (const block of (blocks || []) as GoalBlockRow[]) {
+    const start = new Date(block.starts_at)
+    events.push({
+      uid: `goal-block-${block.id}@careerguide`,
+      summary: block.title,
+      description: block.milestone_title ? `Daily goal for: ${block.milestone_title}` : 'Daily goal',
+      url: appUrl && block.roadmap_id ? `${appUrl}/roadmap/${block.roadmap_id}` : undefined,
+      start,
+      end: new Date(start.getTime() + block.duration_minutes * 60 * 1000),
+      lastModified: new Date(block.created_at),
+    })
+  }
+
+  return events
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    })
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Supabase credentials not configured')
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+    const feedToken = new URL(req.url).searchParams.get('token')
+    let userId: string
+
+    if (req.method === 'GET' && feedToken) {
+      // Subscribed calendar: identify the user by their feed token
+      const { data: feed } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .select('user_id')
+        .eq('token', feedToken)
+        .maybeSingle()
+
+      if (!feed) {
+        return new Response('Calendar feed not found', { status: 404, headers: corsHeaders })
+      }
+
+      userId = feed.user_id
+    } else {
+      // Get authorization header for user identification
+      const authHeader = req.headers.get('Authorization')
+      if (!authHeader) {
+        throw new Error('Authorization header required')
+      }
+
+      const token = authHeader.replace('Bearer ', '')
+      const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token)
+
+      if (userError || !user) {
+        console.error('Auth error:', userError)
+        throw new Error('Invalid authorization token')
+      }
+
+      userId = user.id
+    }
+
+    const calendar = buildCalendar('CareerGuide', await loadEvents(supabaseAdmin, userId))
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        ...(feedToken ? {} : { 'Content-Disposition': 'attachment; filename="careerguide.ics"' }),
+      },
+    })
+
+  } catch (error) {
+    console.error('Function error:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to build calendar' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -1,5 +1,14 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getLLMProvider } from '../_shared/llm.ts'
+import { completeWithSchema } from '../_shared/ai-response.ts'
+import {
+  dailyGoalsSchema,
+  durationForMinutes,
+  MAX_GOAL_MINUTES,
+  type DailyGoalData,
+  type GoalDuration,
+} from '../_shared/ai-schemas.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,19 +16,141 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+interface TimeSlot {
+  duration: GoalDuration
+  minutes: number
+}
+
+// Used when the client does not send the user's time budget
+const DEFAULT_SLOTS: TimeSlot[] = [
+  { duration: 'short', minutes: 30 },
+  { duration: 'medium', minutes: 60 },
+  { duration: 'long', minutes: 120 },
+]
+
+const SLOT_DESCRIPTIONS: Record<GoalDuration, string> = {
+  short: 'A focused task',
+  medium: 'A more substantial task',
+  long: 'A significant task needing focused work',
+}
+
+// Keep client-sent slots to at most 3 goals that together fit in MAX_GOAL_MINUTES
+function readSlots(raw: unknown): TimeSlot[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null
+
+  const slots: TimeSlot[] = []
+  let total = 0
+  for (const item of raw.slice(0, 3)) {
+    const minutes = Math.round(Number((item as { minutes?: unknown })?.minutes))
+    if (!Number.isFinite(minutes) || minutes < 5) continue
+
+    const fitted = Math.min(minutes, MAX_GOAL_MINUTES - total)
+    if (fitted < 5) break
+    slots.push({ duration: durationForMinutes(fitted), minutes: fitted })
+    total += fitted
+  }
+
+  return slots.length > 0 ? slots : null
+}
+
+type SupabaseAdmin = ReturnType<typeof createClient>
+
+// How long the user takes compared with the time planned for their goals
+interface Pace {
+  ratio: number // above 1 is slower than planned
+  sampleMinutes: number // planned minutes of finished goals it is based on
+}
+
+const PACE_HISTORY_DAYS = 60
+
+// Planned minutes a neutral pace of 1 counts as, so a few sessions only nudge the ratio
+const PACE_PRIOR_MINUTES = 120
+
+const MIN_PACE = 0.5
+const MAX_PACE = 2
+
+// Pace from finished daily goals with logged focus sessions. Falls back to a
+// neutral pace when there is no history or it cannot be read.
+async function loadPace(supabaseAdmin: SupabaseAdmin, userId: string): Promise<Pace> {
+  const neutral = { ratio: 1, sampleMinutes: 0 }
+  const since = new Date(Date.now() - PACE_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+  const { data: goals, error: goalsError } = await supabaseAdmin
+    .from('daily_goals')
+    .select('id, minutes')
+    .eq('user_id', userId)
+    .eq('is_completed', true)
+    .gte('goal_date', since)
+
+  if (goalsError || !goals || goals.length === 0) {
+    if (goalsError) console.error('Failed to fetch goal history:', goalsError)
+    return neutral
+  }
+
+  const { data: sessions, error: sessionsError } = await supabaseAdmin
+    .from('study_sessions')
+    .select('daily_goal_id, focus_minutes')
+    .in('daily_goal_id', goals.map((g: { id: string }) => g.id))
+    .not('ended_at', 'is', null)
+
+  if (sessionsError) {
+    console.error('Failed to fetch study sessions:', sessionsError)
+    return neutral
+  }
+
+  const actual = new Map<string, number>()
+  for (const session of (sessions || []) as { daily_goal_id: string; focus_minutes: number }[]) {
+    actual.set(session.daily_goal_id, (actual.get(session.daily_goal_id) || 0) + session.focus_minutes)
+  }
+
+  // Only goals the user timed say anything about their pace
+  let plannedMinutes = 0
+  let actualMinutes = 0
+  for (const goal of goals as { id: string; minutes: number }[]) {
+    const focused = actual.get(goal.id) || 0
+    if (focused === 0) continue
+    plannedMinutes += goal.minutes
+    actualMinutes += focused
+  }
+
+  const ratio = (actualMinutes + PACE_PRIOR_MINUTES) / (plannedMinutes + PACE_PRIOR_MINUTES)
+  return { ratio: Math.min(MAX_PACE, Math.max(MIN_PACE, ratio)), sampleMinutes: plannedMinutes }
+}
+
+// Which of the given subtasks belong to the user, with the model estimates already stored on them.
+// Task IDs come from the client, so only owned tasks may be written back.
+async function loadOwnedTasks(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  taskIds: string[]
+): Promise<{ owned: Set<string>; estimates: Map<string, number> }> {
+  const { data, error } = await supabaseAdmin
+    .from('subtasks')
+    .select('id, estimated_minutes, milestones!inner(roadmaps!inner(user_id))')
+    .in('id', taskIds)
+    .eq('milestones.roadmaps.user_id', userId)
+
+  if (error) {
+    console.error('Failed to fetch task estimates:', error)
+    return { owned: new Set(), estimates: new Map() }
+  }
+
+  const rows = (data || []) as { id: string; estimated_minutes: number | null }[]
+  return {
+    owned: new Set(rows.map(row => row.id)),
+    estimates: new Map(rows.flatMap(row => row.estimated_minutes !== null ? [[row.id, row.estimated_minutes] as [string, number]] : [])),
+  }
+}
+
 interface TaskInput {
   id: string
   title: string
   milestoneTitle: string
-}
-
-interface DailyGoalOutput {
-  sourceTaskId: string
-  duration: 'short' | 'medium' | 'long'
-  minutes: number
-  dailyTitle: string
-  isPartialTask: boolean
-  reasoning: string
+  // Career of the task's roadmap, when the user follows more than one
+  targetCareer?: string
+  // Set when earlier partial goals already covered part of the task
+  progress?: number
+  lastProgressNote?: string
 }
 
 serve(async (req) => {
@@ -32,14 +163,15 @@ serve(async (req) => {
   }
 
   try {
-    const PERPLEXITY_API_KEY = Deno.env.get('PERPLEXITY_API_KEY')
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
 
-    if (!PERPLEXITY_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error('Missing environment variables')
     }
 
+    const llm = getLLMProvider()
+
     // Get auth header
     const authHeader = req.headers.get('Authorization')
     if (!authHeader) {
@@ -57,36 +189,70 @@ serve(async (req) => {
 
     // Get request body
     const body = await req.json()
-    const { tasks, targetCareer } = body as { tasks: TaskInput[], targetCareer: string }
+    const { tasks, targetCareer, review } = body as { tasks: TaskInput[], targetCareer: string, review?: boolean }
+    const budgetSlots = readSlots(body.slots)
+    const slots = budgetSlots || DEFAULT_SLOTS
 
     if (!tasks || tasks.length === 0) {
       throw new Error('No tasks provided')
     }
 
+    const [pace, { owned: ownedTaskIds, estimates: storedEstimates }] = await Promise.all([
+      loadPace(supabaseAdmin, user.id),
+      loadOwnedTasks(supabaseAdmin, user.id, tasks.map(t => t.id)),
+    ])
+    const calibrate = (minutes: number) => Math.max(5, Math.round(minutes * pace.ratio))
+
+    // Tasks may come from several roadmaps, each for a different career
+    const careers = [...new Set(tasks.map(t => t.targetCareer).filter((c): c is string => !!c))]
+    const multipleCareers = careers.length > 1
+
     // Build the task list for the prompt - tasks are already in priority order
-    const taskList = tasks.map((t, i) =>
-      `${i + 1}. [ID: ${t.id}] "${t.title}" (Milestone: ${t.milestoneTitle})`
+    const taskList = tasks.map((t, i) => {
+      const progress = t.progress && t.progress > 0
+        ? ` [About ${Math.round(t.progress * 100)}% done${t.lastProgressNote ? `; last finished: "${t.lastProgressNote}"` : ''}]`
+        : ''
+      const career = multipleCareers && t.targetCareer ? `Career: ${t.targetCareer}, ` : ''
+      const stored = storedEstimates.get(t.id)
+      const estimate = stored ? ` [Takes this learner ~${calibrate(stored)} minutes in total]` : ''
+      return `${i + 1}. [ID: ${t.id}] "${t.title}" (${career}Milestone: ${t.milestoneTitle})${progress}${estimate}`
+    }).join('\n')
+
+    const careerDescription = multipleCareers
+      ? `careers as ${careers.join(' and ')} (they are working on several roadmaps at once)`
+      : `a career as a ${careers[0] || targetCareer || 'professional'}`
+
+    const slotList = slots.map((slot, i) =>
+      `${i + 1}. ${slot.duration.toUpperCase()} goal (~${slot.minutes} minutes): ${SLOT_DESCRIPTIONS[slot.duration]} that can be completed in about ${slot.minutes} minutes`
     ).join('\n')
+    const totalMinutes = slots.reduce((sum, slot) => sum + slot.minutes, 0)
+    const goalCount = `${slots.length} daily goal${slots.length === 1 ? '' : 's'}`
 
-    const prompt = `You are creating 3 daily goals for someone who is a BEGINNER breaking into a career as a ${targetCareer || 'professional'}. They need realistic, achievable goals that make meaningful progress.
+    // Only worth mentioning when the user is clearly slower or faster than planned
+    const paceNote = Math.abs(pace.ratio - 1) >= 0.1
+      ? `From their logged focus sessions, this learner usually needs about ${pace.ratio.toFixed(1)}x the planned time. Size each goal so it fits its slot at THEIR pace (a ${slots[0].minutes}-minute slot holds about ${Math.round(slots[0].minutes / pace.ratio)} minutes of typical-beginner work).\n`
+      : ''
 
+    const prompt = `You are creating ${goalCount} for someone who is a BEGINNER breaking into ${careerDescription}. They need realistic, achievable goals that make meaningful progress.
+${budgetSlots ? `Together the goals must fit the ${totalMinutes} minutes they have to study today.\n` : ''}${review ? 'Today is a rest day, so the goal is a light REVIEW of work they already did on these tasks (recap notes, redo an exercise), not new material.\n' : ''}${paceNote}
 Here are their upcoming tasks IN PRIORITY ORDER (most important first):
 ${taskList}
 
-Create exactly 3 daily goals with these SPECIFIC time slots:
-1. SHORT goal (~30 minutes): A focused task that can be completed in about 30 minutes
-2. MEDIUM goal (~1 hour): A more substantial task requiring about 1 hour
-3. LONG goal (~2 hours): A significant task requiring about 2 hours of focused work
+Create exactly ${goalCount} with these SPECIFIC time slots:
+${slotList}
 
 IMPORTANT RULES:
 - Goals should come from the tasks above, prioritizing earlier tasks in the list
-- If a task would take longer than its time slot, create a PARTIAL goal (e.g., "Start section 1 of..." or "Complete first 3 exercises of...")
+${multipleCareers ? '- The list is already balanced between their careers; keep goals from more than one career when the top tasks do\n' : ''}- If a task would take longer than its time slot, create a PARTIAL goal (e.g., "Start section 1 of..." or "Complete first 3 exercises of...")
 - If a task fits within the time slot, use it directly
 - Each goal must be specific, actionable, and achievable in the given time
 - Goals should represent meaningful progress, not busywork
 - A single source task can be used for multiple goals if it's large (different portions)
+- Some tasks are already partly done. Continue from where the user stopped (after the "last finished" step) and do not repeat work already done
+- For every goal, set "portion" to the share of the WHOLE source task the goal covers (0.05 to 1). Use 1 when the goal finishes the task, including the final slice of a partly done task (set "isPartialTask" to false for that one)
+- For every goal, set "taskMinutes" to how long the WHOLE source task takes a typical beginner, in minutes
 
-Return ONLY valid JSON in this exact format:
+Return ONLY valid JSON in this exact format (one goal per time slot, using each slot's duration and minutes):
 {
   "goals": [
     {
@@ -95,6 +261,8 @@ Return ONLY valid JSON in this exact format:
       "minutes": 30,
       "dailyTitle": "Review introduction to Python basics",
       "isPartialTask": false,
+      "portion": 1,
+      "taskMinutes": 30,
       "reasoning": "This intro section can be completed in 30 minutes"
     },
     {
@@ -103,6 +271,8 @@ Return ONLY valid JSON in this exact format:
       "minutes": 60,
       "dailyTitle": "Complete first two practice exercises",
       "isPartialTask": true,
+      "portion": 0.33,
+      "taskMinutes": 180,
       "reasoning": "Full exercise set takes 3 hours; first two exercises are ~1 hour"
     },
     {
@@ -111,6 +281,8 @@ Return ONLY valid JSON in this exact format:
       "minutes": 120,
       "dailyTitle": "Build the header and navigation components",
       "isPartialTask": true,
+      "portion": 0.25,
+      "taskMinutes": 480,
       "reasoning": "Full project takes 8 hours; header/nav is a solid 2-hour chunk"
     }
   ]
@@ -118,97 +290,79 @@ Return ONLY valid JSON in this exact format:
 
 Use the EXACT task IDs (UUIDs) from the input list.`
 
-    const perplexityRes = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'sonar',
+    // Goals pointing at task IDs that were not in the prompt are dropped by the schema
+    const taskIdSet = new Set(tasks.map(t => t.id))
+    const { data: goalsData, parse } = await completeWithSchema(
+      llm,
+      {
+        task: 'estimate-task-durations',
+        tier: 'standard',
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.3,
-      }),
-    })
-
-    if (!perplexityRes.ok) {
-      const errText = await perplexityRes.text()
-      throw new Error(`Perplexity error: ${errText}`)
-    }
-
-    const perplexityData = await perplexityRes.json()
-    const content = perplexityData.choices?.[0]?.message?.content || ''
-
-    // Parse JSON from response
-    let goalsData: { goals: DailyGoalOutput[] } = { goals: [] }
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        goalsData = JSON.parse(jsonMatch[0])
-      }
-    } catch {
-      // Fallback: create default goals from first tasks
-      const taskIds = tasks.slice(0, 3)
-      goalsData = {
-        goals: [
-          {
-            sourceTaskId: taskIds[0]?.id || '',
-            duration: 'short',
-            minutes: 30,
-            dailyTitle: taskIds[0]?.title || 'Quick task',
-            isPartialTask: false,
-            reasoning: 'Default short goal'
-          },
-          {
-            sourceTaskId: taskIds[1]?.id || taskIds[0]?.id || '',
-            duration: 'medium',
-            minutes: 60,
-            dailyTitle: taskIds[1]?.title || taskIds[0]?.title || 'Medium task',
-            isPartialTask: false,
-            reasoning: 'Default medium goal'
-          },
-          {
-            sourceTaskId: taskIds[2]?.id || taskIds[0]?.id || '',
-            duration: 'long',
-            minutes: 120,
-            dailyTitle: taskIds[2]?.title || taskIds[0]?.title || 'Longer task',
+      },
+      dailyGoalsSchema(taskIdSet),
+      () => {
+        // Fallback: one goal per slot from the first tasks
+        const goals: DailyGoalData[] = slots.map((slot, i) => {
+          const task = tasks[Math.min(i, tasks.length - 1)]
+          return {
+            sourceTaskId: task.id,
+            duration: slot.duration,
+            minutes: slot.minutes,
+            dailyTitle: task.title,
             isPartialTask: false,
-            reasoning: 'Default long goal'
+            portion: 1,
+            reasoning: `Default ${slot.duration} goal`
           }
-        ].filter(g => g.sourceTaskId)
+        })
+        return { goals }
       }
+    )
+
+    // One goal per slot at most
+    const validGoals = goalsData.goals.slice(0, slots.length)
+
+    // If AI didn't return enough valid goals, fill the remaining slots from the task list
+    while (validGoals.length < slots.length && validGoals.length < tasks.length) {
+      const idx = validGoals.length
+      const task = tasks[idx]
+      const slot = slots[idx]
+
+      validGoals.push({
+        sourceTaskId: task.id,
+        duration: slot.duration,
+        minutes: slot.minutes,
+        dailyTitle: task.title,
+        isPartialTask: false,
+        portion: 1,
+        reasoning: 'Fallback goal'
+      })
     }
 
-    // Validate and ensure we have proper goals
-    const taskIdSet = new Set(tasks.map(t => t.id))
-    const validGoals = goalsData.goals.filter(g => taskIdSet.has(g.sourceTaskId))
-
-    // If AI didn't return valid goals, create fallbacks
-    if (validGoals.length < 3 && tasks.length > 0) {
-      const durations: Array<{ duration: 'short' | 'medium' | 'long', minutes: number }> = [
-        { duration: 'short', minutes: 30 },
-        { duration: 'medium', minutes: 60 },
-        { duration: 'long', minutes: 120 }
-      ]
-
-      while (validGoals.length < 3 && validGoals.length < tasks.length) {
-        const idx = validGoals.length
-        const task = tasks[Math.min(idx, tasks.length - 1)]
-        const dur = durations[idx]
-
-        if (!validGoals.some(g => g.duration === dur.duration)) {
-          validGoals.push({
-            sourceTaskId: task.id,
-            duration: dur.duration,
-            minutes: dur.minutes,
-            dailyTitle: task.title,
-            isPartialTask: false,
-            reasoning: 'Fallback goal'
-          })
-        }
+    // Store the model's estimate (the first one sticks) with a version scaled to the user's pace,
+    // and size partial goals from it rather than from the model's guess at a share
+    const estimates = new Map<string, number>()
+    for (const goal of validGoals) {
+      if (!ownedTaskIds.has(goal.sourceTaskId)) continue
+      const estimate = storedEstimates.get(goal.sourceTaskId) ?? goal.taskMinutes
+      if (estimate && !estimates.has(goal.sourceTaskId)) estimates.set(goal.sourceTaskId, estimate)
+    }
+
+    for (const goal of validGoals) {
+      const estimate = estimates.get(goal.sourceTaskId)
+      if (goal.isPartialTask && estimate) {
+        goal.portion = Math.min(1, Math.max(0.05, goal.minutes / calibrate(estimate)))
       }
     }
 
+    const estimatedAt = new Date().toISOString()
+    await Promise.all([...estimates].map(([taskId, estimate]) =>
+      supabaseAdmin
+        .from('subtasks')
+        .update({ estimated_minutes: estimate, calibrated_minutes: calibrate(estimate), estimated_at: estimatedAt })
+        .eq('id', taskId)
+    ))
+
     // Track usage
     await supabaseAdmin.from('api_usage').insert({
       user_id: user.id,
@@ -218,7 +372,7 @@ Use the EXACT task IDs (UUIDs) from the input list.`
     })
 
     return new Response(
-      JSON.stringify({ goals: validGoals }),
+      JSON.stringify({ goals: validGoals, pace, parse }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
 
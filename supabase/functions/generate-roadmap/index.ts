@@ -1,5 +1,22 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getLLMProvider, type CompletionRequest, type LLMProvider } from '../_shared/llm.ts'
+import {
+  completeWithSchema,
+  extractJson,
+  resolveWithSchema,
+  type ParseReport,
+  type ValidationContext,
+} from '../_shared/ai-response.ts'
+import {
+  readMilestone,
+  roadmapSchema,
+  type MilestoneData,
+  type RequiredSkillData,
+  type RoadmapData,
+} from '../_shared/ai-schemas.ts'
+import { completedArrayItems } from '../_shared/json-stream.ts'
+import { formatWorkHistory, loadWorkHistory } from '../_shared/resume-profile.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +35,372 @@ interface RequestBody {
   userProfile: UserProfile
   targetCareer: string
   timeframe: string
+  targetDate?: string // YYYY-MM-DD, stored on the saved roadmap
+  stream?: boolean // respond with server-sent events instead of a single JSON body
+  resumeGenerationId?: string // replay and follow a generation that is already running
+}
+
+// Shape returned by the create_roadmap_with_plan Postgres function
+interface SavedRoadmap {
+  roadmap_id: string
+  milestones: { id: string; subtask_ids: string[] }[]
+  skill_count: number
+}
+
+interface Citation {
+  url: string
+  title: string
+}
+
+// Events sent to the client while a streamed generation runs. Every event is also
+// stored on the roadmap_generations row so a reconnecting client can replay them.
+type GenerationEvent =
+  | { type: 'started'; generationId: string }
+  | { type: 'research' }
+  | { type: 'milestone'; index: number; milestone: MilestoneData }
+  | { type: 'skills'; requiredSkills: RequiredSkillData[] }
+  | { type: 'saved'; roadmapId: string; skillCount: number; parse: ParseReport }
+  | { type: 'error'; message: string }
+  | { type: 'cancelled' }
+
+type SendEvent = (event: GenerationEvent) => void
+
+type SupabaseAdmin = ReturnType<typeof createClient>
+
+// How often a running generation records a heartbeat and checks for cancellation
+const HEARTBEAT_MS = 5000
+// A running generation without a heartbeat for this long has lost its worker
+const STALE_GENERATION_MS = 60000
+// How often a resumed stream polls for new events
+const RESUME_POLL_MS = 1500
+
+// Generic plan returned when the model response cannot be parsed, even after a retry
+function buildFallbackRoadmap(content: string, timeframe: string): RoadmapData {
+  return {
+    summary: content.substring(0, 500),
+    estimatedTimeline: timeframe,
+    milestones: [
+      {
+        title: 'Research Phase',
+        description: 'Research the requirements and opportunities in your target field',
+        orderIndex: 0,
+        estimatedWeeks: 2,
+        resources: [],
+        subtasks: [
+          { title: 'Research job postings for target role', description: 'Look at 10+ job postings to understand common requirements' },
+          { title: 'Identify skill gaps', description: 'Compare your current skills to job requirements' },
+          { title: 'Connect with professionals', description: 'Reach out to 3-5 people in the target role for informational interviews' }
+        ]
+      },
+      {
+        title: 'Skill Building',
+        description: 'Develop core skills needed for the role',
+        orderIndex: 1,
+        estimatedWeeks: 8,
+        resources: [],
+        subtasks: [
+          { title: 'Enroll in foundational course', description: 'Start with a comprehensive introductory course' },
+          { title: 'Complete hands-on projects', description: 'Build at least 2 projects to apply your learning' },
+          { title: 'Join relevant communities', description: 'Participate in online forums and local meetups' }
+        ]
+      },
+      {
+        title: 'Practice & Portfolio',
+        description: 'Build practical experience and create a portfolio',
+        orderIndex: 2,
+        estimatedWeeks: 6,
+        resources: [],
+        subtasks: [
+          { title: 'Create portfolio website', description: 'Showcase your projects and skills online' },
+          { title: 'Contribute to open source', description: 'Make contributions to relevant projects' },
+          { title: 'Document your work', description: 'Write case studies for your projects' }
+        ]
+      },
+      {
+        title: 'Job Search',
+        description: 'Apply for positions and prepare for interviews',
+        orderIndex: 3,
+        estimatedWeeks: 4,
+        resources: [],
+        subtasks: [
+          { title: 'Update resume', description: 'Tailor resume to target role' },
+          { title: 'Practice interviews', description: 'Complete mock interviews' },
+          { title: 'Apply to positions', description: 'Submit applications to 10+ companies' }
+        ]
+      }
+    ],
+    requiredSkills: [],
+    skillGaps: [],
+    salaryExpectation: {}
+  }
+}
+
+function formatCitations(citations: string[]): Citation[] {
+  return citations.map((url: string, index: number) => ({
+    url,
+    title: `Source ${index + 1}`
+  }))
+}
+
+// Save roadmap, milestones, subtasks and required skills in one transaction.
+// The same call records the generate_roadmap usage row.
+async function saveRoadmap(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  body: RequestBody,
+  roadmapData: RoadmapData,
+  citations: Citation[],
+  parse: ParseReport
+): Promise<SavedRoadmap> {
+  const { data: saved, error: saveError } = await supabaseAdmin.rpc('create_roadmap_with_plan', {
+    p_user_id: userId,
+    p_target_career: body.targetCareer,
+    p_target_date: body.targetDate || null,
+    p_plan: roadmapData,
+    p_citations: citations,
+    p_usage_metadata: {
+      target_career: body.targetCareer,
+      milestone_count: roadmapData.milestones.length,
+      parse_path: parse.path
+    }
+  })
+
+  if (saveError || !saved) {
+    throw new Error(`Failed to save roadmap: ${saveError?.message || 'no data returned'}`)
+  }
+
+  // First entry in the roadmap's version history; the roadmap itself is already saved
+  const { error: versionError } = await supabaseAdmin.rpc('snapshot_roadmap', {
+    p_roadmap_id: (saved as SavedRoadmap).roadmap_id,
+    p_reason: 'generated',
+  })
+
+  if (versionError) {
+    console.error('Failed to save roadmap version:', versionError)
+  }
+
+  return saved as SavedRoadmap
+}
+
+// Wrap a producer in a text/event-stream response. If the client disconnects the
+// producer keeps running, so the generation can still finish and be resumed.
+function sseResponse(produce: (send: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder()
+  let open = true
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send: SendEvent = (event) => {
+        if (!open) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+        } catch {
+          open = false
+        }
+      }
+
+      produce(send)
+        .catch((error) => {
+          console.error('Stream error:', error)
+          send({ type: 'error', message: error instanceof Error ? error.message : 'Generation failed' })
+        })
+        .finally(() => {
+          if (open) {
+            open = false
+            controller.close()
+          }
+        })
+    },
+    cancel() {
+      open = false
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+    status: 200,
+  })
+}
+
+// Stream the completion, emitting each milestone as soon as its JSON is complete,
+// then validate, save, and report the saved roadmap
+async function runGeneration(
+  supabaseAdmin: SupabaseAdmin,
+  llm: LLMProvider,
+  userId: string,
+  generationId: string,
+  body: RequestBody,
+  request: CompletionRequest,
+  send: SendEvent
+): Promise<void> {
+  const events: GenerationEvent[] = []
+  const abort = new AbortController()
+
+  const record = async (event: GenerationEvent, update: Record<string, unknown> = {}) => {
+    events.push(event)
+    send(event)
+    await supabaseAdmin
+      .from('roadmap_generations')
+      .update({ events, updated_at: new Date().toISOString(), ...update })
+      .eq('id', generationId)
+      .eq('status', 'running')
+  }
+
+  // Touch updated_at and read back the status in one round trip
+  const heartbeat = async (): Promise<boolean> => {
+    const { data } = await supabaseAdmin
+      .from('roadmap_generations')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', generationId)
+      .eq('status', 'running')
+      .select('id')
+    return Array.isArray(data) && data.length > 0
+  }
+
+  const cancel = async () => {
+    abort.abort()
+    events.push({ type: 'cancelled' })
+    send({ type: 'cancelled' })
+    await supabaseAdmin
+      .from('roadmap_generations')
+      .update({ events, updated_at: new Date().toISOString() })
+      .eq('id', generationId)
+  }
+
+  try {
+    await record({ type: 'started', generationId })
+    await record({ type: 'research' })
+
+    let content = ''
+    let citations: string[] = []
+    let emitted = 0
+    let lastHeartbeat = Date.now()
+
+    for await (const chunk of llm.stream({ ...request, signal: abort.signal })) {
+      content += chunk.delta
+      if (chunk.citations) citations = chunk.citations
+
+      // Preview milestones as they complete; the saved event carries the validated roadmap
+      const items = completedArrayItems(content, 'milestones')
+      while (emitted < items.length) {
+        try {
+          const ctx: ValidationContext = { errors: [], repairs: [] }
+          const milestone = readMilestone(extractJson(items[emitted]), `milestones[${emitted}]`, emitted, ctx)
+          await record({ type: 'milestone', index: emitted, milestone })
+        } catch {
+          // Not parseable yet on its own; the final parse will still include it
+        }
+        emitted++
+      }
+
+      if (Date.now() - lastHeartbeat > HEARTBEAT_MS) {
+        lastHeartbeat = Date.now()
+        if (!(await heartbeat())) {
+          await cancel()
+          return
+        }
+      }
+    }
+
+    const { data: roadmapData, parse, citations: finalCitations } = await resolveWithSchema(
+      llm,
+      request,
+      { content, citations },
+      roadmapSchema,
+      (content) => buildFallbackRoadmap(content, body.timeframe)
+    )
+
+    await record({ type: 'skills', requiredSkills: roadmapData.requiredSkills })
+
+    if (!(await heartbeat())) {
+      await cancel()
+      return
+    }
+
+    const saved = await saveRoadmap(supabaseAdmin, userId, body, roadmapData, formatCitations(finalCitations), parse)
+    const savedEvent: GenerationEvent = { type: 'saved', roadmapId: saved.roadmap_id, skillCount: saved.skill_count, parse }
+
+    // Complete only if still running: a cancel that landed while saving wins,
+    // and the roadmap saved for it is deleted again
+    const { data: completed } = await supabaseAdmin
+      .from('roadmap_generations')
+      .update({
+        events: [...events, savedEvent],
+        status: 'completed',
+        roadmap_id: saved.roadmap_id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', generationId)
+      .eq('status', 'running')
+      .select('id')
+
+    if (!Array.isArray(completed) || completed.length === 0) {
+      await supabaseAdmin.from('roadmaps').delete().eq('id', saved.roadmap_id)
+      await cancel()
+      return
+    }
+
+    events.push(savedEvent)
+    send(savedEvent)
+  } catch (error) {
+    if (abort.signal.aborted) return
+    console.error('Generation error:', error)
+    const message = error instanceof Error ? error.message : 'Generation failed'
+    await record({ type: 'error', message }, { status: 'failed', error: message })
+  }
+}
+
+// Replay the stored events of a generation, then follow it until it finishes
+async function followGeneration(
+  supabaseAdmin: SupabaseAdmin,
+  userId: string,
+  generationId: string,
+  send: SendEvent
+): Promise<void> {
+  let sent = 0
+
+  while (true) {
+    const { data: generation, error } = await supabaseAdmin
+      .from('roadmap_generations')
+      .select('status, events, updated_at')
+      .eq('id', generationId)
+      .eq('user_id', userId)
+      .single()
+
+    if (error || !generation) {
+      send({ type: 'error', message: 'Generation not found' })
+      return
+    }
+
+    const events = (generation.events || []) as GenerationEvent[]
+    for (; sent < events.length; sent++) {
+      send(events[sent])
+    }
+
+    if (generation.status !== 'running') {
+      if (generation.status === 'cancelled' && !events.some(e => e.type === 'cancelled')) {
+        send({ type: 'cancelled' })
+      }
+      return
+    }
+
+    // The worker that owned this generation stopped without finishing
+    if (Date.now() - new Date(generation.updated_at).getTime() > STALE_GENERATION_MS) {
+      const message = 'Generation stopped unexpectedly. Please try again.'
+      await supabaseAdmin
+        .from('roadmap_generations')
+        .update({ status: 'failed', error: message, updated_at: new Date().toISOString() })
+        .eq('id', generationId)
+      send({ type: 'error', message })
+      return
+    }
+
+    await new Promise(resolve => setTimeout(resolve, RESUME_POLL_MS))
+  }
 }
 
 serve(async (req) => {
@@ -27,15 +410,52 @@ serve(async (req) => {
   }
 
   try {
-    const PERPLEXITY_API_KEY = Deno.env.get('PERPLEXITY_API_KEY')
-    if (!PERPLEXITY_API_KEY) {
-      throw new Error('PERPLEXITY_API_KEY not configured')
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Supabase credentials not configured')
+    }
+
+    const llm = getLLMProvider()
+
+    // Get authorization header for user identification
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Authorization header required')
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+    // Get user from JWT token
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token)
+
+    if (userError || !user) {
+      console.error('Auth error:', userError)
+      throw new Error('Invalid authorization token')
     }
 
     // Get request body
-    const { userProfile, targetCareer, timeframe }: RequestBody = await req.json()
+    const body: RequestBody = await req.json()
 
-    // Build the prompt for Perplexity
+    // Resume: replay what has happened so far and keep following the generation
+    if (body.resumeGenerationId) {
+      const generationId = body.resumeGenerationId
+      return sseResponse(send => followGeneration(supabaseAdmin, user.id, generationId, send))
+    }
+
+    const { userProfile, targetCareer, timeframe } = body
+
+    if (!targetCareer) {
+      throw new Error('targetCareer is required')
+    }
+
+    // Work history and certifications saved from a resume or LinkedIn import
+    const workHistory = formatWorkHistory(await loadWorkHistory(supabaseAdmin, user.id))
+
+    // Build the prompt
     const systemPrompt = `You are a career guidance expert. Generate a detailed, actionable career roadmap in JSON format.
 
 Your response must be valid JSON with this exact structure:
@@ -93,7 +513,7 @@ Available Hours per Week: ${userProfile.availableHours}
 Preferred Learning Style: ${userProfile.learningStyle}
 Target Career: ${targetCareer}
 Desired Timeframe: ${timeframe}
-
+${workHistory ? `\n${workHistory}\n\nBuild on the experience in this work history: skip what the person has clearly done already and favor transferable strengths.\n` : ''}
 Search for:
 1. Current job requirements and skills needed for ${targetCareer}
 2. Best online courses and certifications for this transition
@@ -105,112 +525,52 @@ Generate a comprehensive, milestone-based roadmap with:
 - 3-6 subtasks per milestone
 - Required skills with proficiency levels`
 
-    // Call Perplexity API
-    const perplexityResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'sonar-pro',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.2,
-        return_citations: true,
-        search_recency_filter: 'month'
-      }),
-    })
-
-    if (!perplexityResponse.ok) {
-      const error = await perplexityResponse.text()
-      throw new Error(`Perplexity API error: ${error}`)
-    }
-
-    const perplexityData = await perplexityResponse.json()
-    const content = perplexityData.choices[0].message.content
-    const citations = perplexityData.citations || []
-
-    // Parse the JSON response from Perplexity
-    let roadmapData
-    try {
-      // Extract JSON from the response (it might be wrapped in markdown code blocks)
-      const jsonMatch = content.match(/```json\n?([\s\S]*?)\n?```/) || content.match(/\{[\s\S]*\}/)
-      const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : content
-      roadmapData = JSON.parse(jsonString)
-    } catch (parseError) {
-      // If parsing fails, create a structured response from the text
-      roadmapData = {
-        summary: content.substring(0, 500),
-        estimatedTimeline: timeframe,
-        milestones: [
-          {
-            title: 'Research Phase',
-            description: 'Research the requirements and opportunities in your target field',
-            orderIndex: 0,
-            estimatedWeeks: 2,
-            resources: [],
-            subtasks: [
-              { title: 'Research job postings for target role', description: 'Look at 10+ job postings to understand common requirements' },
-              { title: 'Identify skill gaps', description: 'Compare your current skills to job requirements' },
-              { title: 'Connect with professionals', description: 'Reach out to 3-5 people in the target role for informational interviews' }
-            ]
-          },
-          {
-            title: 'Skill Building',
-            description: 'Develop core skills needed for the role',
-            orderIndex: 1,
-            estimatedWeeks: 8,
-            resources: [],
-            subtasks: [
-              { title: 'Enroll in foundational course', description: 'Start with a comprehensive introductory course' },
-              { title: 'Complete hands-on projects', description: 'Build at least 2 projects to apply your learning' },
-              { title: 'Join relevant communities', description: 'Participate in online forums and local meetups' }
-            ]
-          },
-          {
-            title: 'Practice & Portfolio',
-            description: 'Build practical experience and create a portfolio',
-            orderIndex: 2,
-            estimatedWeeks: 6,
-            resources: [],
-            subtasks: [
-              { title: 'Create portfolio website', description: 'Showcase your projects and skills online' },
-              { title: 'Contribute to open source', description: 'Make contributions to relevant projects' },
-              { title: 'Document your work', description: 'Write case studies for your projects' }
-            ]
-          },
-          {
-            title: 'Job Search',
-            description: 'Apply for positions and prepare for interviews',
-            orderIndex: 3,
-            estimatedWeeks: 4,
-            resources: [],
-            subtasks: [
-              { title: 'Update resume', description: 'Tailor resume to target role' },
-              { title: 'Practice interviews', description: 'Complete mock interviews' },
-              { title: 'Apply to positions', description: 'Submit applications to 10+ companies' }
-            ]
-          }
-        ],
-        requiredSkills: [],
-        skillGaps: [],
-        salaryExpectation: {}
+    const request: CompletionRequest = {
+      task: 'generate-roadmap',
+      tier: 'pro',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.2,
+      withCitations: true,
+      searchRecency: 'month',
+    }
+
+    // Streaming: create a generation row the client can resume or cancel, then stream events
+    if (body.stream) {
+      const { data: generation, error: generationError } = await supabaseAdmin
+        .from('roadmap_generations')
+        .insert({ user_id: user.id, target_career: targetCareer })
+        .select('id')
+        .single()
+
+      if (generationError || !generation) {
+        throw new Error(`Failed to start generation: ${generationError?.message || 'no data returned'}`)
       }
+
+      return sseResponse(send => runGeneration(supabaseAdmin, llm, user.id, generation.id, body, request, send))
     }
 
-    // Format citations
-    const formattedCitations = citations.map((url: string, index: number) => ({
-      url,
-      title: `Source ${index + 1}`
-    }))
+    // Validate against the roadmap schema; the canned plan is only used if the retry also fails
+    const { data: roadmapData, parse, content, citations } = await completeWithSchema(
+      llm,
+      request,
+      roadmapSchema,
+      (content) => buildFallbackRoadmap(content, timeframe)
+    )
+
+    const formattedCitations = formatCitations(citations)
+    const savedRoadmap = await saveRoadmap(supabaseAdmin, user.id, body, roadmapData, formattedCitations, parse)
 
     return new Response(
       JSON.stringify({
+        roadmapId: savedRoadmap.roadmap_id,
+        milestones: savedRoadmap.milestones,
+        skillCount: savedRoadmap.skill_count,
         roadmap: roadmapData,
         citations: formattedCitations,
+        parse,
         rawResponse: content
       }),
       {
@@ -1,5 +1,8 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getLLMProvider } from '../_shared/llm.ts'
+import { completeWithSchema } from '../_shared/ai-response.ts'
+import { subtasksSchema } from '../_shared/ai-schemas.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,18 +26,19 @@ serve(async (req) => {
 
   try {
     console.log('Checking environment variables...')
-    const PERPLEXITY_API_KEY = Deno.env.get('PERPLEXITY_API_KEY')
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
 
-    console.log('PERPLEXITY_API_KEY exists:', !!PERPLEXITY_API_KEY)
     console.log('SUPABASE_URL exists:', !!SUPABASE_URL)
     console.log('SERVICE_ROLE_KEY exists:', !!SUPABASE_SERVICE_ROLE_KEY)
 
-    if (!PERPLEXITY_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error('Missing environment variables')
     }
 
+    const llm = getLLMProvider()
+    console.log('LLM provider:', llm.name)
+
     // Get auth header
     console.log('Checking authorization header...')
     const authHeader = req.headers.get('Authorization')
@@ -67,62 +71,37 @@ serve(async (req) => {
       throw new Error('Missing milestoneId or milestoneTitle')
     }
 
-    console.log('Calling Perplexity API...')
-    // Call Perplexity API
+    console.log('Calling LLM provider...')
     const prompt = `Generate 4-5 specific subtasks for this career milestone. Return ONLY valid JSON in this format: {"subtasks": [{"title": "task", "description": "details"}]}
 
 Milestone: ${milestoneTitle}
 Description: ${milestoneDescription || 'N/A'}
 Target Career: ${targetCareer || 'N/A'}`
 
-    const perplexityRes = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'sonar-pro',
+    const { data: subtasksData, parse } = await completeWithSchema(
+      llm,
+      {
+        task: 'generate-subtasks',
+        tier: 'pro',
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.3,
-      }),
-    })
-
-    console.log('Perplexity response status:', perplexityRes.status)
-
-    if (!perplexityRes.ok) {
-      const errText = await perplexityRes.text()
-      console.log('Perplexity error:', errText)
-      throw new Error(`Perplexity error: ${errText}`)
-    }
-
-    const perplexityData = await perplexityRes.json()
-    const content = perplexityData.choices?.[0]?.message?.content || ''
-    console.log('Perplexity content length:', content.length)
-
-    // Parse JSON from response
-    let subtasksData = { subtasks: [] }
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        subtasksData = JSON.parse(jsonMatch[0])
-      }
-    } catch {
-      // Fallback
-      subtasksData = {
+      },
+      subtasksSchema,
+      () => ({
         subtasks: [
           { title: 'Research the topic', description: 'Gather information about this milestone' },
           { title: 'Create an action plan', description: 'Outline specific steps to complete' },
           { title: 'Begin implementation', description: 'Start working on the first steps' },
           { title: 'Review progress', description: 'Check your progress and adjust as needed' }
         ]
-      }
-    }
+      })
+    )
+    console.log('Subtasks parse path:', parse.path)
 
     // Insert subtasks
-    const subtasksToInsert = (subtasksData.subtasks || []).map((s: any, i: number) => ({
+    const subtasksToInsert = subtasksData.subtasks.map((s, i) => ({
       milestone_id: milestoneId,
-      title: s.title || `Task ${i + 1}`,
+      title: s.title,
       description: s.description || null,
       order_index: i,
       is_completed: false
@@ -146,7 +125,7 @@ Target Career: ${targetCareer || 'N/A'}`
     })
 
     return new Response(
-      JSON.stringify({ subtasks: insertedSubtasks }),
+      JSON.stringify({ subtasks: insertedSubtasks, parse }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
 
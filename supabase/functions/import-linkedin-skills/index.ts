@@ -1,5 +1,11 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { ValidationContext } from '../_shared/ai-response.ts'
+import { decodeBase64 } from '../_shared/resume-text.ts'
+import { readExportFiles, readLinkedInExport } from '../_shared/linkedin-export.ts'
+import { suggestProfileDetails } from '../_shared/resume-profile.ts'
+import { loadImportTargets, reviewImportedSkills } from '../_shared/skill-import.ts'
+import { loadSkillTaxonomy } from '../_shared/skill-taxonomy.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,7 +14,7 @@ const corsHeaders = {
 }
 
 serve(async (req) => {
-  console.log('=== Import LinkedIn Skills Function ===')
+  console.log('=== Import LinkedIn Export Function ===')
 
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -16,11 +22,10 @@ serve(async (req) => {
   }
 
   try {
-    const PERPLEXITY_API_KEY = Deno.env.get('PERPLEXITY_API_KEY')
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
 
-    if (!PERPLEXITY_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error('Missing environment variables')
     }
 
@@ -39,98 +44,57 @@ serve(async (req) => {
       throw new Error(`Auth failed: ${userError?.message || 'no user'}`)
     }
 
-    // Get request body
-    const { linkedinUrl } = await req.json()
+    // The archive LinkedIn sends, or one or more of the CSV files in it
+    const { files } = await req.json()
 
-    if (!linkedinUrl) {
-      throw new Error('LinkedIn URL is required')
+    if (!Array.isArray(files) || files.length === 0) {
+      throw new Error('A LinkedIn data export (ZIP or CSV) is required')
     }
 
-    // Validate it looks like a LinkedIn URL
-    if (!linkedinUrl.includes('linkedin.com/in/')) {
-      throw new Error('Please provide a valid LinkedIn profile URL (e.g., https://linkedin.com/in/username)')
-    }
-
-    console.log('Fetching skills from:', linkedinUrl)
-
-    // Call Perplexity to extract skills from LinkedIn profile
-    const prompt = `Visit this LinkedIn profile and extract ALL skills listed in the Skills section: ${linkedinUrl}
-
-Return ONLY a valid JSON object in this exact format, with no other text:
-{
-  "skills": ["Skill 1", "Skill 2", "Skill 3"],
-  "profileName": "Person's Name",
-  "success": true
-}
-
-If you cannot access the profile or find skills, return:
-{
-  "skills": [],
-  "profileName": null,
-  "success": false,
-  "error": "Brief reason why"
-}
-
-Important: Only include actual skill names, not categories or headers.`
-
-    const perplexityRes = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'sonar-pro',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-      }),
+    const exportFiles = files.flatMap((file: { fileName?: string; fileBase64?: string }) => {
+      const fileName = file.fileName || 'export.csv'
+      if (!/\.(zip|csv)$/i.test(fileName) || !file.fileBase64) {
+        throw new Error(`${fileName} is not a ZIP or CSV file`)
+      }
+      return readExportFiles(fileName, decodeBase64(file.fileBase64))
     })
 
-    if (!perplexityRes.ok) {
-      const errText = await perplexityRes.text()
-      throw new Error(`Perplexity error: ${errText}`)
-    }
-
-    const perplexityData = await perplexityRes.json()
-    const content = perplexityData.choices?.[0]?.message?.content || ''
+    console.log('Files received:', exportFiles.map((f) => f.name).join(', '))
 
-    console.log('Perplexity response:', content)
-
-    // Parse JSON from response
-    let result = { skills: [], profileName: null, success: false, error: 'Failed to parse response' }
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        result = JSON.parse(jsonMatch[0])
-      }
-    } catch (e) {
-      console.error('JSON parse error:', e)
+    // Dates and lengths are checked like a resume import; anything dropped is logged
+    const ctx: ValidationContext = { errors: [], repairs: [] }
+    const result = readLinkedInExport(exportFiles, ctx)
+    if (ctx.repairs.length > 0) {
+      console.log('Export repairs:', ctx.repairs)
     }
 
-    if (!result.success || result.skills.length === 0) {
+    if (result.tables.length === 0) {
       return new Response(
         JSON.stringify({
           success: false,
           skills: [],
-          error: result.error || 'Could not find skills. Make sure your LinkedIn profile is set to public visibility.'
+          error: 'No LinkedIn data found. Upload the ZIP file from LinkedIn, or its Skills.csv, Positions.csv, Education.csv or Certifications.csv.'
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
       )
     }
 
-    // Track API usage
-    await supabaseAdmin.from('api_usage').insert({
-      user_id: user.id,
-      operation: 'import_linkedin_skills',
-      credits_used: 1,
-      metadata: { linkedin_url: linkedinUrl, skills_found: result.skills.length }
-    })
+    // Resolve names through the skill taxonomy and compare them with the profile and target roles
+    const [taxonomy, { profile: userSkills, roleSkills }] = await Promise.all([
+      loadSkillTaxonomy(supabaseAdmin),
+      loadImportTargets(supabaseAdmin, user.id)
+    ])
+    const skills = reviewImportedSkills(taxonomy, result.skills, userSkills, roleSkills)
 
     return new Response(
       JSON.stringify({
         success: true,
-        skills: result.skills,
-        profileName: result.profileName
+        skills,
+        imagePages: [],
+        // Work history, education and certifications, with the profile details they suggest
+        profile: { ...result.profile, suggested: suggestProfileDetails(result.profile) },
+        profileName: result.profileName,
+        tables: result.tables
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
@@ -1,6 +1,12 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1'
+import { getLLMProvider } from '../_shared/llm.ts'
+import { completeWithSchema } from '../_shared/ai-response.ts'
+import { resumeImportSchema } from '../_shared/ai-schemas.ts'
+import { loadImportTargets, reviewImportedSkills } from '../_shared/skill-import.ts'
+import { loadSkillTaxonomy } from '../_shared/skill-taxonomy.ts'
+import { suggestProfileDetails } from '../_shared/resume-profile.ts'
+import { decodeBase64, detectFormat, extractResumeText, type ExtractedResume } from '../_shared/resume-text.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,7 +15,7 @@ const corsHeaders = {
 }
 
 serve(async (req) => {
-  console.log('=== Import PDF Skills Function ===')
+  console.log('=== Import Resume Skills Function ===')
 
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -17,14 +23,15 @@ serve(async (req) => {
   }
 
   try {
-    const PERPLEXITY_API_KEY = Deno.env.get('PERPLEXITY_API_KEY')
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
 
-    if (!PERPLEXITY_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error('Missing environment variables')
     }
 
+    const llm = getLLMProvider()
+
     // Get auth header
     const authHeader = req.headers.get('Authorization')
     if (!authHeader) {
@@ -40,60 +47,102 @@ serve(async (req) => {
       throw new Error(`Auth failed: ${userError?.message || 'no user'}`)
     }
 
-    // Get request body with PDF data
-    const { pdfBase64, fileName } = await req.json()
-
-    if (!pdfBase64) {
-      throw new Error('PDF data is required')
-    }
-
-    console.log('Processing PDF:', fileName || 'unnamed.pdf')
-
-    // Decode base64 to Uint8Array
-    const binaryString = atob(pdfBase64)
-    const pdfBuffer = new Uint8Array(binaryString.length)
-    for (let i = 0; i < binaryString.length; i++) {
-      pdfBuffer[i] = binaryString.charCodeAt(i)
-    }
+    // Get request body: a resume file (PDF, DOCX, TXT or Markdown) or pasted text.
+    // ocrPages carries text the app recognized for scanned PDF pages, by page number.
+    const { fileBase64, pdfBase64, fileName, mimeType, text, ocrPages } = await req.json()
+
+    let extracted: ExtractedResume
+    if (typeof text === 'string' && text.trim()) {
+      console.log('Processing pasted text')
+      extracted = { text, imagePages: [] }
+    } else {
+      // pdfBase64 is what older versions of the app send
+      const fileData = fileBase64 || pdfBase64
+      if (!fileData) {
+        throw new Error('A resume file or text is required')
+      }
 
-    // Extract text from PDF using unpdf
-    let pdfText = ''
-    try {
-      const pdf = await getDocumentProxy(pdfBuffer)
-      const textParts: string[] = []
-
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i)
-        const textContent = await page.getTextContent()
-        const pageText = textContent.items
-          .map((item: any) => item.str || '')
-          .join(' ')
-        textParts.push(pageText)
+      const format = pdfBase64 ? 'pdf' : detectFormat(fileName || '', mimeType)
+      if (!format) {
+        throw new Error('Unsupported file type. Please upload a PDF, Word (.docx) or text file.')
       }
 
-      pdfText = textParts.join('\n\n')
-      console.log('Extracted text length:', pdfText.length)
-    } catch (pdfError) {
-      console.error('PDF parsing error:', pdfError)
-      throw new Error('Could not read PDF file. Please make sure it is a valid PDF.')
+      console.log('Processing file:', fileName || 'unnamed', format)
+      extracted = await extractResumeText(decodeBase64(fileData), format, ocrPages || {})
     }
 
-    if (!pdfText || pdfText.trim().length < 50) {
-      throw new Error('Could not extract text from PDF. The file may be image-based or empty.')
+    const resumeText = extracted.text
+    console.log('Extracted text length:', resumeText.length)
+
+    if (resumeText.trim().length < 50) {
+      // Scanned PDFs are read by the app with OCR and sent again
+      if (extracted.imagePages.length > 0) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            needsOcr: true,
+            imagePages: extracted.imagePages,
+            skills: [],
+            error: 'This PDF is a scanned image and needs text recognition.'
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+        )
+      }
+      throw new Error('Could not extract text from this document. It may be empty.')
     }
 
     // Truncate if too long (keep first 15000 chars for API limits)
-    const truncatedText = pdfText.substring(0, 15000)
+    const truncatedText = resumeText.substring(0, 15000)
 
-    // Call Perplexity to extract skills from the text
-    const prompt = `Analyze this resume/LinkedIn profile text and extract ALL professional skills mentioned.
+    // Ask the model to extract skills from the text, with a quote and a level for each, and the work history
+    const prompt = `Analyze this resume/LinkedIn profile text. Extract ALL professional skills mentioned, and the person's work history, education and certifications.
 
 Text:
+"""
 ${truncatedText}
+"""
 
 Return ONLY a valid JSON object in this exact format, with no other text:
 {
-  "skills": ["Skill 1", "Skill 2", "Skill 3"],
+  "skills": [
+    {
+      "skillName": "Skill 1",
+      "evidence": "Exact quote from the text that shows the skill",
+      "proficiencyLevel": 3,
+      "reasoning": "One sentence on why this level fits"
+    }
+  ],
+  "profile": {
+    "positions": [
+      {
+        "title": "Job title",
+        "company": "Company name",
+        "location": "City, Country or null",
+        "startDate": "YYYY-MM",
+        "endDate": "YYYY-MM, or null if current",
+        "isCurrent": false,
+        "description": "One or two sentences on the work done, or null"
+      }
+    ],
+    "education": [
+      {
+        "institution": "School name",
+        "degree": "Degree name or null",
+        "fieldOfStudy": "Field or null",
+        "level": "high_school|some_college|associates|bachelors|masters|phd|trade|bootcamp",
+        "startDate": "YYYY-MM or null",
+        "endDate": "YYYY-MM or null"
+      }
+    ],
+    "certifications": [
+      {
+        "name": "Certification name",
+        "issuer": "Issuing organization or null",
+        "issuedDate": "YYYY-MM or null",
+        "expiresDate": "YYYY-MM or null"
+      }
+    ]
+  },
   "profileName": "Person's Name if found",
   "success": true
 }
@@ -105,70 +154,77 @@ Important guidelines:
 - Include certifications and methodologies
 - Do NOT include job titles, company names, or education degrees as skills
 - Extract actual skill names, not descriptions
-- Aim to find 10-50 skills if present`
-
-    const perplexityRes = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'sonar-pro',
+- Aim to find 10-50 skills if present
+- evidence must be copied word for word from the text, at most 200 characters
+- proficiencyLevel is 1 (Beginner) to 5 (Expert), inferred from how many years the skill was used, how recently, and the seniority of the roles it was used in
+- A skill only listed, with no role or project behind it, is at most level 2
+- reasoning names the years and roles the level is based on
+- List the most prominent skills first
+- Use YYYY-MM for dates, or YYYY when only the year is given; use null for dates that are not in the text
+- List positions and education most recent first
+- level is the closest match for the entry, or null if none fits`
+
+    // The schema trims and deduplicates the skills, drops quotes that are not in the text and normalizes dates
+    const { data: result, parse, content } = await completeWithSchema(
+      llm,
+      {
+        task: 'import-pdf-skills',
+        tier: 'pro',
         messages: [{ role: 'user', content: prompt }],
         temperature: 0.1,
-      }),
-    })
-
-    if (!perplexityRes.ok) {
-      const errText = await perplexityRes.text()
-      throw new Error(`AI processing error: ${errText}`)
-    }
-
-    const perplexityData = await perplexityRes.json()
-    const content = perplexityData.choices?.[0]?.message?.content || ''
+      },
+      resumeImportSchema(truncatedText),
+      () => ({ skills: [], profile: { positions: [], education: [], certifications: [] }, profileName: null, success: false })
+    )
 
     console.log('AI response length:', content.length)
 
-    // Parse JSON from response
-    let result = { skills: [], profileName: null, success: false }
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        result = JSON.parse(jsonMatch[0])
-      }
-    } catch (e) {
-      console.error('JSON parse error:', e)
-    }
+    const hasProfile = result.profile.positions.length > 0 ||
+      result.profile.education.length > 0 ||
+      result.profile.certifications.length > 0
 
-    if (!result.skills || result.skills.length === 0) {
+    if (result.skills.length === 0 && !hasProfile) {
       return new Response(
         JSON.stringify({
           success: false,
           skills: [],
-          error: 'No skills found in the document. Please make sure it contains skill information.'
+          error: 'No skills found in the document. Please make sure it contains skill information.',
+          parse
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
       )
     }
 
-    // Deduplicate and clean skills
-    const uniqueSkills = [...new Set(result.skills.map((s: string) => s.trim()))]
-      .filter((s: string) => s.length > 0 && s.length < 100)
+    // Resolve names through the skill taxonomy and compare them with the profile and target roles
+    const [taxonomy, { profile: userSkills, roleSkills }] = await Promise.all([
+      loadSkillTaxonomy(supabaseAdmin),
+      loadImportTargets(supabaseAdmin, user.id)
+    ])
+    const skills = reviewImportedSkills(taxonomy, result.skills, userSkills, roleSkills)
 
     // Track API usage
     await supabaseAdmin.from('api_usage').insert({
       user_id: user.id,
       operation: 'import_pdf_skills',
       credits_used: 1,
-      metadata: { file_name: fileName, skills_found: uniqueSkills.length }
+      metadata: {
+        file_name: fileName,
+        source: typeof text === 'string' && text.trim() ? 'text' : 'file',
+        ocr_pages: Object.keys(ocrPages || {}).length,
+        skills_found: result.skills.length,
+        positions_found: result.profile.positions.length
+      }
     })
 
     return new Response(
       JSON.stringify({
         success: true,
-        skills: uniqueSkills,
-        profileName: result.profileName
+        skills,
+        imagePages: extracted.imagePages, // scanned pages that were not read
+        // Work history, education and certifications, with the profile details they suggest
+        profile: { ...result.profile, suggested: suggestProfileDetails(result.profile) },
+        profileName: result.profileName,
+        parse
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
@@ -0,0 +1,293 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getLLMProvider } from '../_shared/llm.ts'
+import { completeWithSchema } from '../_shared/ai-response.ts'
+import { replanSchema, type ReplanData } from '../_shared/ai-schemas.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// propose: ask the model for a revised plan and return it for review (nothing is saved)
+// apply: save a reviewed plan through the apply_roadmap_replan Postgres function
+interface RequestBody {
+  roadmapId: string
+  action: 'propose' | 'apply'
+  feedback?: string
+  plan?: ReplanData
+}
+
+interface MilestoneRow {
+  id: string
+  title: string
+  description: string | null
+  order_index: number
+  status: 'pending' | 'in_progress' | 'completed'
+  completed_at: string | null
+}
+
+interface SubtaskRow {
+  milestone_id: string
+  title: string
+  is_completed: boolean
+  completed_at: string | null
+}
+
+interface SkillGap {
+  skillName: string
+  currentLevel: number
+  requiredLevel: number
+  priority: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders
+    })
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Supabase credentials not configured')
+    }
+
+    // Get authorization header for user identification
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Authorization header required')
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+    // Get user from JWT token
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token)
+
+    if (userError || !user) {
+      console.error('Auth error:', userError)
+      throw new Error('Invalid authorization token')
+    }
+
+    // Get request body
+    const { roadmapId, action, feedback, plan }: RequestBody = await req.json()
+
+    if (!roadmapId) {
+      throw new Error('roadmapId is required')
+    }
+
+    // Check ownership before anything runs with the service role: the RPCs below
+    // see no auth.uid() under it, so they cannot check it themselves
+    const { data: roadmap, error: roadmapError } = await supabaseAdmin
+      .from('roadmaps')
+      .select('id, target_career, target_date, created_at')
+      .eq('id', roadmapId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (roadmapError || !roadmap) {
+      throw new Error('Roadmap not found')
+    }
+
+    // Apply a plan the user has reviewed
+    if (action === 'apply') {
+      if (!plan || !Array.isArray(plan.milestones) || plan.milestones.length === 0) {
+        throw new Error('plan with at least one milestone is required')
+      }
+
+      // Keep the pre-replan state (including recent progress) in the version history
+      await supabaseAdmin.rpc('snapshot_roadmap', { p_roadmap_id: roadmapId, p_reason: 'checkpoint' })
+
+      const { data: result, error: applyError } = await supabaseAdmin.rpc('apply_roadmap_replan', {
+        p_user_id: user.id,
+        p_roadmap_id: roadmapId,
+        p_plan: plan,
+      })
+
+      if (applyError) {
+        throw new Error(`Failed to apply plan: ${applyError.message}`)
+      }
+
+      const { error: versionError } = await supabaseAdmin.rpc('snapshot_roadmap', {
+        p_roadmap_id: roadmapId,
+        p_reason: 'replan',
+      })
+
+      if (versionError) {
+        console.error('Failed to save roadmap version:', versionError)
+      }
+
+      return new Response(
+        JSON.stringify({ result, message: 'Roadmap updated' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    const llm = getLLMProvider()
+
+    // Load the roadmap's progress
+    const { data: milestoneRows, error: milestonesError } = await supabaseAdmin
+      .from('milestones')
+      .select('id, title, description, order_index, status, completed_at')
+      .eq('roadmap_id', roadmapId)
+      .order('order_index')
+
+    if (milestonesError) {
+      throw new Error(`Failed to fetch milestones: ${milestonesError.message}`)
+    }
+
+    const milestones = (milestoneRows || []) as MilestoneRow[]
+    const milestoneIds = milestones.map(m => m.id)
+
+    const { data: subtaskRows } = milestoneIds.length > 0
+      ? await supabaseAdmin
+        .from('subtasks')
+        .select('milestone_id, title, is_completed, completed_at')
+        .in('milestone_id', milestoneIds)
+        .order('order_index')
+      : { data: [] }
+
+    const subtasks = (subtaskRows || []) as SubtaskRow[]
+
+    const { data: analysis } = await supabaseAdmin
+      .from('skill_gap_analysis')
+      .select('overall_readiness, critical_gaps')
+      .eq('roadmap_id', roadmapId)
+      .eq('user_id', user.id)
+      .order('analyzed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data: profile } = await supabaseAdmin
+      .from('user_profiles')
+      .select('available_hours')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    const completedMilestones = milestones.filter(m => m.status === 'completed')
+    const remainingMilestones = milestones.filter(m => m.status !== 'completed')
+
+    if (remainingMilestones.length === 0) {
+      throw new Error('All milestones are completed; there is nothing left to re-plan')
+    }
+
+    // Pace of progress since the roadmap was created
+    const now = Date.now()
+    const weeksElapsed = Math.max(1, (now - new Date(roadmap.created_at).getTime()) / (7 * DAY_MS))
+    const completedSubtasks = subtasks.filter(s => s.is_completed).length
+    const subtasksPerWeek = completedSubtasks / weeksElapsed
+    const weeksRemaining = roadmap.target_date
+      ? Math.max(0, (new Date(roadmap.target_date).getTime() - now) / (7 * DAY_MS))
+      : null
+
+    const describeSubtasks = (milestoneId: string) => subtasks
+      .filter(s => s.milestone_id === milestoneId)
+      .map(s => `    - [${s.is_completed ? 'x' : ' '}] ${s.title}`)
+      .join('\n')
+
+    const completedList = completedMilestones.length > 0
+      ? completedMilestones.map(m => `- ${m.title}`).join('\n')
+      : '- (none yet)'
+
+    const remainingList = remainingMilestones
+      .map(m => `- [ID: ${m.id}] "${m.title}" (${m.status})${m.description ? ` - ${m.description}` : ''}\n${describeSubtasks(m.id)}`)
+      .join('\n')
+
+    const gaps = ((analysis?.critical_gaps || []) as SkillGap[])
+      .slice(0, 8)
+      .map(g => `- ${g.skillName} (${g.priority}): current ${g.currentLevel}, required ${g.requiredLevel}`)
+      .join('\n')
+
+    const prompt = `You are a career guidance expert revising a learning roadmap for someone becoming a ${roadmap.target_career}.
+
+COMPLETED MILESTONES (keep these, do not include them in your answer):
+${completedList}
+
+REMAINING MILESTONES ([x] = completed subtask, which will be kept automatically):
+${remainingList}
+
+SKILL GAP ANALYSIS:
+Overall readiness: ${analysis ? `${analysis.overall_readiness}%` : 'not analyzed yet'}
+${gaps || '- (no gaps recorded)'}
+
+PACE OF PROGRESS:
+- ${completedSubtasks} of ${subtasks.length} tasks completed in ${Math.round(weeksElapsed)} weeks (${subtasksPerWeek.toFixed(1)} tasks per week)
+- ${completedMilestones.length} of ${milestones.length} milestones completed
+- Available hours per week: ${profile?.available_hours ?? 'unknown'}
+- Weeks until target date: ${weeksRemaining === null ? 'no target date' : Math.round(weeksRemaining)}
+${feedback ? `\nUSER FEEDBACK:\n${feedback}\n` : ''}
+Rewrite ONLY the remaining milestones so the plan fits the user's real pace and focuses on their largest skill gaps.
+- To revise an existing remaining milestone, include its exact "id". Its completed subtasks are kept; list only NEW or still-open subtasks.
+- To add a milestone, use "id": null.
+- Remaining milestones you leave out are removed (unless they have completed subtasks).
+- Each milestone needs 2-6 specific, actionable subtasks.
+
+Return ONLY valid JSON in this exact format:
+{
+  "summary": "One or two sentences explaining the revised plan",
+  "changes": ["Short description of each change"],
+  "milestones": [
+    {
+      "id": "exact_id_from_remaining_list_or_null",
+      "title": "Milestone title",
+      "description": "What to accomplish",
+      "estimatedWeeks": 4,
+      "resources": [
+        { "title": "Resource name", "url": "https://...", "type": "course|book|video|article|certification", "provider": "Provider name", "estimatedHours": 10 }
+      ],
+      "subtasks": [
+        { "title": "Specific action item", "description": "Brief description" }
+      ]
+    }
+  ]
+}`
+
+    // No fallback: a plan the model could not produce is not worth showing for review
+    const { data: proposal, parse, citations } = await completeWithSchema(
+      llm,
+      {
+        task: 'replan-roadmap',
+        tier: 'pro',
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.2,
+        withCitations: true,
+        searchRecency: 'month',
+      },
+      replanSchema(new Set(remainingMilestones.map(m => m.id)))
+    )
+
+    // Track API usage
+    await supabaseAdmin.from('api_usage').insert({
+      user_id: user.id,
+      operation: 'replan_roadmap',
+      credits_used: 1,
+      metadata: { roadmap_id: roadmapId, parse_path: parse.path }
+    })
+
+    return new Response(
+      JSON.stringify({
+        proposal,
+        parse,
+        citations: citations.map((url: string, index: number) => ({ url, title: `Source ${index + 1}` })),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+
+  } catch (error) {
+    console.error('Function error:', error)
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to re-plan roadmap' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,133 @@
+-- CareerGuide: Transactional roadmap creation
+-- Migration 003
+--
+-- Saves a generated roadmap with its milestones, subtasks and required skills
+-- in a single transaction, and records the generate_roadmap API usage row.
+-- Called by the generate-roadmap edge function with the service role.
+
+-- ============================================
+-- FUNCTION: Create roadmap with full plan
+-- ============================================
+CREATE OR REPLACE FUNCTION create_roadmap_with_plan(
+  p_user_id UUID,
+  p_target_career TEXT,
+  p_target_date DATE,
+  p_plan JSONB,
+  p_citations JSONB DEFAULT '[]',
+  p_usage_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  new_roadmap_id UUID;
+  new_milestone_id UUID;
+  milestone JSONB;
+  milestone_index BIGINT;
+  subtask JSONB;
+  subtask_index BIGINT;
+  subtask_ids UUID[];
+  new_subtask_id UUID;
+  milestone_results JSONB := '[]';
+  skill JSONB;
+  skill_count INTEGER := 0;
+BEGIN
+  IF p_target_career IS NULL OR length(trim(p_target_career)) = 0 THEN
+    RAISE EXCEPTION 'target career is required';
+  END IF;
+
+  IF jsonb_typeof(p_plan->'milestones') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_plan->'milestones') = 0 THEN
+    RAISE EXCEPTION 'plan must contain at least one milestone';
+  END IF;
+
+  -- Roadmap
+  INSERT INTO roadmaps (user_id, target_career, target_date, ai_generated_plan, citations)
+  VALUES (p_user_id, p_target_career, p_target_date, p_plan, COALESCE(p_citations, '[]'))
+  RETURNING id INTO new_roadmap_id;
+
+  -- Milestones and their subtasks
+  FOR milestone, milestone_index IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_plan->'milestones') WITH ORDINALITY
+  LOOP
+    INSERT INTO milestones (roadmap_id, title, description, order_index, status, resources)
+    VALUES (
+      new_roadmap_id,
+      COALESCE(NULLIF(trim(milestone->>'title'), ''), 'Milestone ' || (milestone_index + 1)),
+      COALESCE(milestone->>'description', ''),
+      COALESCE((milestone->>'orderIndex')::INTEGER, milestone_index),
+      'pending',
+      COALESCE(milestone->'resources', '[]')
+    )
+    RETURNING id INTO new_milestone_id;
+
+    subtask_ids := ARRAY[]::UUID[];
+
+    IF jsonb_typeof(milestone->'subtasks') = 'array' THEN
+      FOR subtask, subtask_index IN
+        SELECT value, ordinality - 1 FROM jsonb_array_elements(milestone->'subtasks') WITH ORDINALITY
+      LOOP
+        CONTINUE WHEN NULLIF(trim(subtask->>'title'), '') IS NULL;
+
+        INSERT INTO subtasks (milestone_id, title, description, order_index, is_completed)
+        VALUES (
+          new_milestone_id,
+          trim(subtask->>'title'),
+          NULLIF(subtask->>'description', ''),
+          subtask_index,
+          FALSE
+        )
+        RETURNING id INTO new_subtask_id;
+
+        subtask_ids := subtask_ids || new_subtask_id;
+      END LOOP;
+    END IF;
+
+    milestone_results := milestone_results || jsonb_build_object(
+      'id', new_milestone_id,
+      'subtask_ids', to_jsonb(subtask_ids)
+    );
+  END LOOP;
+
+  -- Required skills for the target role (duplicates by name are ignored)
+  IF jsonb_typeof(p_plan->'requiredSkills') = 'array' THEN
+    FOR skill IN SELECT value FROM jsonb_array_elements(p_plan->'requiredSkills')
+    LOOP
+      CONTINUE WHEN NULLIF(trim(skill->>'skillName'), '') IS NULL;
+
+      INSERT INTO target_role_skills (roadmap_id, skill_name, required_level, priority)
+      VALUES (
+        new_roadmap_id,
+        trim(skill->>'skillName'),
+        LEAST(5, GREATEST(1, COALESCE((skill->>'requiredLevel')::INTEGER, 3))),
+        CASE
+          WHEN skill->>'priority' IN ('critical', 'high', 'medium', 'low') THEN skill->>'priority'
+          ELSE 'medium'
+        END
+      )
+      ON CONFLICT (roadmap_id, skill_name) DO NOTHING;
+
+      IF FOUND THEN
+        skill_count := skill_count + 1;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Track API usage in the same transaction
+  INSERT INTO api_usage (user_id, operation, credits_used, metadata)
+  VALUES (
+    p_user_id,
+    'generate_roadmap',
+    1,
+    COALESCE(p_usage_metadata, '{}') || jsonb_build_object('roadmap_id', new_roadmap_id)
+  );
+
+  RETURN jsonb_build_object(
+    'roadmap_id', new_roadmap_id,
+    'milestones', milestone_results,
+    'skill_count', skill_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role may call this; it takes the user ID as a parameter
+REVOKE EXECUTE ON FUNCTION create_roadmap_with_plan(UUID, TEXT, DATE, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_roadmap_with_plan(UUID, TEXT, DATE, JSONB, JSONB, JSONB) TO service_role;
@@ -0,0 +1,35 @@
+-- CareerGuide: Streaming roadmap generation
+-- Migration 004
+--
+-- Tracks in-flight roadmap generations so a client can resume the event
+-- stream after a reload, or cancel a generation that is still running.
+
+-- ============================================
+-- ROADMAP GENERATIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS roadmap_generations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  status TEXT DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  target_career TEXT NOT NULL,
+  events JSONB DEFAULT '[]', -- every event sent to the client, in order
+  roadmap_id UUID REFERENCES roadmaps ON DELETE SET NULL,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE roadmap_generations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (rows are written by the generate-roadmap function with the service role)
+CREATE POLICY "Users can view own roadmap generations" ON roadmap_generations
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users may only cancel their own running generations
+CREATE POLICY "Users can cancel own roadmap generations" ON roadmap_generations
+  FOR UPDATE USING (auth.uid() = user_id AND status = 'running')
+  WITH CHECK (auth.uid() = user_id AND status = 'cancelled');
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_roadmap_generations_user_id ON roadmap_generations(user_id);
@@ -0,0 +1,170 @@
+-- CareerGuide: Adaptive re-planning
+-- Migration 005
+--
+-- Applies a revised plan to an existing roadmap in one transaction.
+-- Completed milestones and completed subtasks are never modified or removed;
+-- only the remaining milestones are rewritten.
+
+-- ============================================
+-- FUNCTION: Apply a re-plan to a roadmap
+-- ============================================
+-- p_plan.milestones is the full list of remaining milestones, in order. Each item
+-- with an "id" rewrites that existing milestone; items without one are added.
+CREATE OR REPLACE FUNCTION apply_roadmap_replan(
+  p_user_id UUID,
+  p_roadmap_id UUID,
+  p_plan JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  next_index INTEGER := 0;
+  milestone JSONB;
+  target_id UUID;
+  kept_ids UUID[] := ARRAY[]::UUID[];
+  subtask JSONB;
+  subtask_index BIGINT;
+  subtask_offset INTEGER;
+  added_count INTEGER := 0;
+  updated_count INTEGER := 0;
+  removed_count INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM roadmaps WHERE id = p_roadmap_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'roadmap not found';
+  END IF;
+
+  IF jsonb_typeof(p_plan->'milestones') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_plan->'milestones') = 0 THEN
+    RAISE EXCEPTION 'plan must contain at least one milestone';
+  END IF;
+
+  -- Completed milestones stay first, in their current order
+  UPDATE milestones m
+  SET order_index = ranked.position
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY order_index, created_at) - 1 AS position
+    FROM milestones
+    WHERE roadmap_id = p_roadmap_id AND status = 'completed'
+  ) ranked
+  WHERE m.id = ranked.id;
+
+  SELECT COUNT(*) INTO next_index
+  FROM milestones
+  WHERE roadmap_id = p_roadmap_id AND status = 'completed';
+
+  FOR milestone IN SELECT value FROM jsonb_array_elements(p_plan->'milestones')
+  LOOP
+    target_id := NULL;
+
+    -- Only remaining milestones of this roadmap can be rewritten
+    IF NULLIF(milestone->>'id', '') IS NOT NULL THEN
+      SELECT id INTO target_id
+      FROM milestones
+      WHERE id = (milestone->>'id')::UUID
+        AND roadmap_id = p_roadmap_id
+        AND status <> 'completed'
+        AND NOT (id = ANY(kept_ids));
+    END IF;
+
+    IF target_id IS NOT NULL THEN
+      UPDATE milestones
+      SET
+        title = COALESCE(NULLIF(trim(milestone->>'title'), ''), title),
+        description = COALESCE(milestone->>'description', description),
+        resources = COALESCE(milestone->'resources', resources),
+        order_index = next_index
+      WHERE id = target_id;
+
+      -- Completed subtasks are kept; the rest are replaced by the new plan
+      DELETE FROM subtasks WHERE milestone_id = target_id AND NOT is_completed;
+      updated_count := updated_count + 1;
+    ELSE
+      INSERT INTO milestones (roadmap_id, title, description, order_index, status, resources)
+      VALUES (
+        p_roadmap_id,
+        COALESCE(NULLIF(trim(milestone->>'title'), ''), 'Milestone ' || (next_index + 1)),
+        COALESCE(milestone->>'description', ''),
+        next_index,
+        'pending',
+        COALESCE(milestone->'resources', '[]')
+      )
+      RETURNING id INTO target_id;
+      added_count := added_count + 1;
+    END IF;
+
+    kept_ids := kept_ids || target_id;
+    next_index := next_index + 1;
+
+    -- New subtasks follow any completed ones that were kept
+    SELECT COALESCE(MAX(order_index) + 1, 0) INTO subtask_offset
+    FROM subtasks
+    WHERE milestone_id = target_id;
+
+    IF jsonb_typeof(milestone->'subtasks') = 'array' THEN
+      FOR subtask, subtask_index IN
+        SELECT value, ordinality - 1 FROM jsonb_array_elements(milestone->'subtasks') WITH ORDINALITY
+      LOOP
+        CONTINUE WHEN NULLIF(trim(subtask->>'title'), '') IS NULL;
+
+        INSERT INTO subtasks (milestone_id, title, description, order_index, is_completed)
+        VALUES (
+          target_id,
+          trim(subtask->>'title'),
+          NULLIF(subtask->>'description', ''),
+          subtask_offset + subtask_index,
+          FALSE
+        );
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  -- Remaining milestones left out of the new plan are removed, unless they hold
+  -- completed subtasks. Those are kept at the end with only their completed work.
+  DELETE FROM subtasks s
+  USING milestones m
+  WHERE s.milestone_id = m.id
+    AND m.roadmap_id = p_roadmap_id
+    AND m.status <> 'completed'
+    AND NOT (m.id = ANY(kept_ids))
+    AND NOT s.is_completed;
+
+  WITH dropped AS (
+    DELETE FROM milestones m
+    WHERE m.roadmap_id = p_roadmap_id
+      AND m.status <> 'completed'
+      AND NOT (m.id = ANY(kept_ids))
+      AND NOT EXISTS (SELECT 1 FROM subtasks s WHERE s.milestone_id = m.id)
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO removed_count FROM dropped;
+
+  UPDATE milestones m
+  SET order_index = next_index + ranked.position
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY order_index, created_at) - 1 AS position
+    FROM milestones
+    WHERE roadmap_id = p_roadmap_id
+      AND status <> 'completed'
+      AND NOT (id = ANY(kept_ids))
+  ) ranked
+  WHERE m.id = ranked.id;
+
+  UPDATE roadmaps
+  SET
+    ai_generated_plan = COALESCE(ai_generated_plan, '{}') || jsonb_build_object(
+      'replanSummary', COALESCE(p_plan->>'summary', ''),
+      'replannedAt', NOW()
+    ),
+    updated_at = NOW()
+  WHERE id = p_roadmap_id;
+
+  RETURN jsonb_build_object(
+    'added', added_count,
+    'updated', updated_count,
+    'removed', removed_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role may call this; it takes the user ID as a parameter
+REVOKE EXECUTE ON FUNCTION apply_roadmap_replan(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_roadmap_replan(UUID, UUID, JSONB) TO service_role;
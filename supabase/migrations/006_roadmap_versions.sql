@@ -0,0 +1,257 @@
+-- CareerGuide: Roadmap version history
+-- Migration 006
+--
+-- Keeps a snapshot of a roadmap's milestones, subtasks, target role skills and
+-- citations after every regeneration, re-plan, bulk edit or restore, so users can
+-- compare versions and roll back to an older one.
+
+-- ============================================
+-- ROADMAP VERSIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS roadmap_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  roadmap_id UUID REFERENCES roadmaps ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  version_number INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('initial', 'generated', 'replan', 'edit', 'checkpoint', 'restore')),
+  restored_from_version INTEGER, -- set when reason = 'restore'
+  snapshot JSONB NOT NULL, -- { milestones: [{ ..., subtasks: [] }], target_role_skills: [], citations: [] }
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(roadmap_id, version_number)
+);
+
+-- Enable RLS
+ALTER TABLE roadmap_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (versions are only written through the functions below)
+CREATE POLICY "Users can view own roadmap versions" ON roadmap_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_roadmap_versions_roadmap_id ON roadmap_versions(roadmap_id);
+
+-- ============================================
+-- FUNCTION: Build a snapshot of a roadmap
+-- ============================================
+CREATE OR REPLACE FUNCTION build_roadmap_snapshot(p_roadmap_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'milestones', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'title', m.title,
+          'description', m.description,
+          'order_index', m.order_index,
+          'status', m.status,
+          'due_date', m.due_date,
+          'completed_at', m.completed_at,
+          'resources', m.resources,
+          'subtasks', COALESCE((
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'id', s.id,
+                'title', s.title,
+                'description', s.description,
+                'order_index', s.order_index,
+                'is_completed', s.is_completed,
+                'completed_at', s.completed_at
+              )
+              ORDER BY s.order_index, s.created_at
+            )
+            FROM subtasks s
+            WHERE s.milestone_id = m.id
+          ), '[]')
+        )
+        ORDER BY m.order_index, m.created_at
+      )
+      FROM milestones m
+      WHERE m.roadmap_id = p_roadmap_id
+    ), '[]'),
+    'target_role_skills', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'skill_name', t.skill_name,
+          'required_level', t.required_level,
+          'priority', t.priority
+        )
+        ORDER BY t.skill_name
+      )
+      FROM target_role_skills t
+      WHERE t.roadmap_id = p_roadmap_id
+    ), '[]'),
+    'citations', COALESCE((SELECT citations FROM roadmaps WHERE id = p_roadmap_id), '[]')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION build_roadmap_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION build_roadmap_snapshot(UUID) TO service_role;
+
+-- ============================================
+-- FUNCTION: Save a new version of a roadmap
+-- ============================================
+-- Returns the new version, or the latest one unchanged when the roadmap has not
+-- changed since it was taken. Callable by the owner or by the service role.
+CREATE OR REPLACE FUNCTION snapshot_roadmap(
+  p_roadmap_id UUID,
+  p_reason TEXT,
+  p_restored_from_version INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  owner_id UUID;
+  current_snapshot JSONB;
+  latest roadmap_versions%ROWTYPE;
+  new_version roadmap_versions%ROWTYPE;
+BEGIN
+  -- Lock the roadmap so concurrent snapshots get distinct version numbers
+  SELECT user_id INTO owner_id FROM roadmaps WHERE id = p_roadmap_id FOR UPDATE;
+
+  IF owner_id IS NULL OR (auth.uid() IS NOT NULL AND auth.uid() <> owner_id) THEN
+    RAISE EXCEPTION 'roadmap not found';
+  END IF;
+
+  current_snapshot := build_roadmap_snapshot(p_roadmap_id);
+
+  SELECT * INTO latest
+  FROM roadmap_versions
+  WHERE roadmap_id = p_roadmap_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF latest.id IS NOT NULL AND latest.snapshot = current_snapshot AND p_reason <> 'restore' THEN
+    RETURN jsonb_build_object('version_id', latest.id, 'version_number', latest.version_number, 'created', FALSE);
+  END IF;
+
+  INSERT INTO roadmap_versions (roadmap_id, user_id, version_number, reason, restored_from_version, snapshot)
+  VALUES (
+    p_roadmap_id,
+    owner_id,
+    COALESCE(latest.version_number, 0) + 1,
+    p_reason,
+    p_restored_from_version,
+    current_snapshot
+  )
+  RETURNING * INTO new_version;
+
+  RETURN jsonb_build_object('version_id', new_version.id, 'version_number', new_version.version_number, 'created', TRUE);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION snapshot_roadmap(UUID, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION snapshot_roadmap(UUID, TEXT, INTEGER) TO authenticated, service_role;
+
+-- ============================================
+-- FUNCTION: Restore a roadmap to an older version
+-- ============================================
+-- Rows are matched by id and updated in place, so anything that references a
+-- milestone or subtask which exists in both versions keeps pointing at it.
+-- The current state is saved as a checkpoint first, so a restore can be undone.
+CREATE OR REPLACE FUNCTION restore_roadmap_version(p_version_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  target roadmap_versions%ROWTYPE;
+  milestone JSONB;
+  subtask JSONB;
+  milestone_ids UUID[] := ARRAY[]::UUID[];
+  subtask_ids UUID[] := ARRAY[]::UUID[];
+BEGIN
+  SELECT * INTO target FROM roadmap_versions WHERE id = p_version_id;
+
+  IF target.id IS NULL OR (auth.uid() IS NOT NULL AND auth.uid() <> target.user_id) THEN
+    RAISE EXCEPTION 'version not found';
+  END IF;
+
+  PERFORM snapshot_roadmap(target.roadmap_id, 'checkpoint');
+
+  FOR milestone IN SELECT value FROM jsonb_array_elements(target.snapshot->'milestones')
+  LOOP
+    INSERT INTO milestones (id, roadmap_id, title, description, order_index, status, due_date, completed_at, resources)
+    VALUES (
+      (milestone->>'id')::UUID,
+      target.roadmap_id,
+      milestone->>'title',
+      milestone->>'description',
+      (milestone->>'order_index')::INTEGER,
+      milestone->>'status',
+      (milestone->>'due_date')::DATE,
+      (milestone->>'completed_at')::TIMESTAMPTZ,
+      COALESCE(milestone->'resources', '[]')
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      order_index = EXCLUDED.order_index,
+      status = EXCLUDED.status,
+      due_date = EXCLUDED.due_date,
+      completed_at = EXCLUDED.completed_at,
+      resources = EXCLUDED.resources
+    WHERE milestones.roadmap_id = target.roadmap_id;
+
+    milestone_ids := milestone_ids || (milestone->>'id')::UUID;
+
+    FOR subtask IN SELECT value FROM jsonb_array_elements(milestone->'subtasks')
+    LOOP
+      INSERT INTO subtasks (id, milestone_id, title, description, order_index, is_completed, completed_at)
+      VALUES (
+        (subtask->>'id')::UUID,
+        (milestone->>'id')::UUID,
+        subtask->>'title',
+        subtask->>'description',
+        (subtask->>'order_index')::INTEGER,
+        COALESCE((subtask->>'is_completed')::BOOLEAN, FALSE),
+        (subtask->>'completed_at')::TIMESTAMPTZ
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        milestone_id = EXCLUDED.milestone_id,
+        title = EXCLUDED.title,
+        description = EXCLUDED.description,
+        order_index = EXCLUDED.order_index,
+        is_completed = EXCLUDED.is_completed,
+        completed_at = EXCLUDED.completed_at;
+
+      subtask_ids := subtask_ids || (subtask->>'id')::UUID;
+    END LOOP;
+  END LOOP;
+
+  -- Drop whatever the older version did not have
+  DELETE FROM subtasks s
+  USING milestones m
+  WHERE s.milestone_id = m.id
+    AND m.roadmap_id = target.roadmap_id
+    AND NOT (s.id = ANY(subtask_ids));
+
+  DELETE FROM milestones
+  WHERE roadmap_id = target.roadmap_id
+    AND NOT (id = ANY(milestone_ids));
+
+  DELETE FROM target_role_skills WHERE roadmap_id = target.roadmap_id;
+
+  INSERT INTO target_role_skills (roadmap_id, skill_name, required_level, priority)
+  SELECT
+    target.roadmap_id,
+    value->>'skill_name',
+    (value->>'required_level')::INTEGER,
+    value->>'priority'
+  FROM jsonb_array_elements(target.snapshot->'target_role_skills');
+
+  UPDATE roadmaps
+  SET
+    citations = COALESCE(target.snapshot->'citations', '[]'),
+    updated_at = NOW()
+  WHERE id = target.roadmap_id;
+
+  RETURN snapshot_roadmap(target.roadmap_id, 'restore', target.version_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION restore_roadmap_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION restore_roadmap_version(UUID) TO authenticated, service_role;
+
+-- ============================================
+-- BACKFILL: First version for existing roadmaps
+-- ============================================
+INSERT INTO roadmap_versions (roadmap_id, user_id, version_number, reason, snapshot)
+SELECT r.id, r.user_id, 1, 'initial', build_roadmap_snapshot(r.id)
+FROM roadmaps r
+WHERE NOT EXISTS (SELECT 1 FROM roadmap_versions v WHERE v.roadmap_id = r.id);
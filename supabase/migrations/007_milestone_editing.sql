@@ -0,0 +1,20 @@
+-- CareerGuide: Manual roadmap editing
+-- Migration 007
+--
+-- Milestones could be created and updated by their owner but not deleted.
+-- Subtasks already have a full set of policies (migration 002).
+
+-- ============================================
+-- MILESTONES: Delete policy
+-- ============================================
+CREATE POLICY "Users can delete milestones of own roadmaps" ON milestones
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM roadmaps
+      WHERE roadmaps.id = milestones.roadmap_id
+      AND roadmaps.user_id = auth.uid()
+    )
+  );
+
+-- Index for ordered milestone lookups
+CREATE INDEX IF NOT EXISTS idx_milestones_roadmap_order ON milestones(roadmap_id, order_index);
@@ -0,0 +1,324 @@
+-- CareerGuide: Milestone scheduling
+-- Migration 008
+--
+-- Keeps the AI's estimatedWeeks for each milestone so the client-side scheduler
+-- can derive due dates from it, the user's available hours and resource hours.
+-- create_roadmap_with_plan and apply_roadmap_replan are redefined to store it.
+
+-- ============================================
+-- MILESTONES: Effort estimate
+-- ============================================
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS estimated_weeks NUMERIC
+  CHECK (estimated_weeks IS NULL OR estimated_weeks > 0);
+
+-- ============================================
+-- FUNCTION: Read estimatedWeeks from a plan milestone
+-- ============================================
+-- Returns NULL for a missing, non-numeric or non-positive value
+CREATE OR REPLACE FUNCTION milestone_estimated_weeks(p_milestone JSONB)
+RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_milestone->'estimatedWeeks') = 'number'
+      AND (p_milestone->>'estimatedWeeks')::NUMERIC > 0
+    THEN (p_milestone->>'estimatedWeeks')::NUMERIC
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- FUNCTION: Create roadmap with full plan (now stores estimated_weeks)
+-- ============================================
+CREATE OR REPLACE FUNCTION create_roadmap_with_plan(
+  p_user_id UUID,
+  p_target_career TEXT,
+  p_target_date DATE,
+  p_plan JSONB,
+  p_citations JSONB DEFAULT '[]',
+  p_usage_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  new_roadmap_id UUID;
+  new_milestone_id UUID;
+  milestone JSONB;
+  milestone_index BIGINT;
+  subtask JSONB;
+  subtask_index BIGINT;
+  subtask_ids UUID[];
+  new_subtask_id UUID;
+  milestone_results JSONB := '[]';
+  skill JSONB;
+  skill_count INTEGER := 0;
+BEGIN
+  IF p_target_career IS NULL OR length(trim(p_target_career)) = 0 THEN
+    RAISE EXCEPTION 'target career is required';
+  END IF;
+
+  IF jsonb_typeof(p_plan->'milestones') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_plan->'milestones') = 0 THEN
+    RAISE EXCEPTION 'plan must contain at least one milestone';
+  END IF;
+
+  -- Roadmap
+  INSERT INTO roadmaps (user_id, target_career, target_date, ai_generated_plan, citations)
+  VALUES (p_user_id, p_target_career, p_target_date, p_plan, COALESCE(p_citations, '[]'))
+  RETURNING id INTO new_roadmap_id;
+
+  -- Milestones and their subtasks
+  FOR milestone, milestone_index IN
+    SELECT value, ordinality - 1 FROM jsonb_array_elements(p_plan->'milestones') WITH ORDINALITY
+  LOOP
+    INSERT INTO milestones (roadmap_id, title, description, order_index, status, resources, estimated_weeks)
+    VALUES (
+      new_roadmap_id,
+      COALESCE(NULLIF(trim(milestone->>'title'), ''), 'Milestone ' || (milestone_index + 1)),
+      COALESCE(milestone->>'description', ''),
+      COALESCE((milestone->>'orderIndex')::INTEGER, milestone_index),
+      'pending',
+      COALESCE(milestone->'resources', '[]'),
+      milestone_estimated_weeks(milestone)
+    )
+    RETURNING id INTO new_milestone_id;
+
+    subtask_ids := ARRAY[]::UUID[];
+
+    IF jsonb_typeof(milestone->'subtasks') = 'array' THEN
+      FOR subtask, subtask_index IN
+        SELECT value, ordinality - 1 FROM jsonb_array_elements(milestone->'subtasks') WITH ORDINALITY
+      LOOP
+        CONTINUE WHEN NULLIF(trim(subtask->>'title'), '') IS NULL;
+
+        INSERT INTO subtasks (milestone_id, title, description, order_index, is_completed)
+        VALUES (
+          new_milestone_id,
+          trim(subtask->>'title'),
+          NULLIF(subtask->>'description', ''),
+          subtask_index,
+          FALSE
+        )
+        RETURNING id INTO new_subtask_id;
+
+        subtask_ids := subtask_ids || new_subtask_id;
+      END LOOP;
+    END IF;
+
+    milestone_results := milestone_results || jsonb_build_object(
+      'id', new_milestone_id,
+      'subtask_ids', to_jsonb(subtask_ids)
+    );
+  END LOOP;
+
+  -- Required skills for the target role (duplicates by name are ignored)
+  IF jsonb_typeof(p_plan->'requiredSkills') = 'array' THEN
+    FOR skill IN SELECT value FROM jsonb_array_elements(p_plan->'requiredSkills')
+    LOOP
+      CONTINUE WHEN NULLIF(trim(skill->>'skillName'), '') IS NULL;
+
+      INSERT INTO target_role_skills (roadmap_id, skill_name, required_level, priority)
+      VALUES (
+        new_roadmap_id,
+        trim(skill->>'skillName'),
+        LEAST(5, GREATEST(1, COALESCE((skill->>'requiredLevel')::INTEGER, 3))),
+        CASE
+          WHEN skill->>'priority' IN ('critical', 'high', 'medium', 'low') THEN skill->>'priority'
+          ELSE 'medium'
+        END
+      )
+      ON CONFLICT (roadmap_id, skill_name) DO NOTHING;
+
+      IF FOUND THEN
+        skill_count := skill_count + 1;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Track API usage in the same transaction
+  INSERT INTO api_usage (user_id, operation, credits_used, metadata)
+  VALUES (
+    p_user_id,
+    'generate_roadmap',
+    1,
+    COALESCE(p_usage_metadata, '{}') || jsonb_build_object('roadmap_id', new_roadmap_id)
+  );
+
+  RETURN jsonb_build_object(
+    'roadmap_id', new_roadmap_id,
+    'milestones', milestone_results,
+    'skill_count', skill_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- FUNCTION: Apply a re-plan to a roadmap (now stores estimated_weeks)
+-- ============================================
+CREATE OR REPLACE FUNCTION apply_roadmap_replan(
+  p_user_id UUID,
+  p_roadmap_id UUID,
+  p_plan JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  next_index INTEGER := 0;
+  milestone JSONB;
+  target_id UUID;
+  kept_ids UUID[] := ARRAY[]::UUID[];
+  subtask JSONB;
+  subtask_index BIGINT;
+  subtask_offset INTEGER;
+  added_count INTEGER := 0;
+  updated_count INTEGER := 0;
+  removed_count INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM roadmaps WHERE id = p_roadmap_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'roadmap not found';
+  END IF;
+
+  IF jsonb_typeof(p_plan->'milestones') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_plan->'milestones') = 0 THEN
+    RAISE EXCEPTION 'plan must contain at least one milestone';
+  END IF;
+
+  -- Completed milestones stay first, in their current order
+  UPDATE milestones m
+  SET order_index = ranked.position
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY order_index, created_at) - 1 AS position
+    FROM milestones
+    WHERE roadmap_id = p_roadmap_id AND status = 'completed'
+  ) ranked
+  WHERE m.id = ranked.id;
+
+  SELECT COUNT(*) INTO next_index
+  FROM milestones
+  WHERE roadmap_id = p_roadmap_id AND status = 'completed';
+
+  FOR milestone IN SELECT value FROM jsonb_array_elements(p_plan->'milestones')
+  LOOP
+    target_id := NULL;
+
+    -- Only remaining milestones of this roadmap can be rewritten
+    IF NULLIF(milestone->>'id', '') IS NOT NULL THEN
+      SELECT id INTO target_id
+      FROM milestones
+      WHERE id = (milestone->>'id')::UUID
+        AND roadmap_id = p_roadmap_id
+        AND status <> 'completed'
+        AND NOT (id = ANY(kept_ids));
+    END IF;
+
+    IF target_id IS NOT NULL THEN
+      UPDATE milestones
+      SET
+        title = COALESCE(NULLIF(trim(milestone->>'title'), ''), title),
+        description = COALESCE(milestone->>'description', description),
+        resources = COALESCE(milestone->'resources', resources),
+        estimated_weeks = COALESCE(milestone_estimated_weeks(milestone), estimated_weeks),
+        order_index = next_index
+      WHERE id = target_id;
+
+      -- Completed subtasks are kept; the rest are replaced by the new plan
+      DELETE FROM subtasks WHERE milestone_id = target_id AND NOT is_completed;
+      updated_count := updated_count + 1;
+    ELSE
+      INSERT INTO milestones (roadmap_id, title, description, order_index, status, resources, estimated_weeks)
+      VALUES (
+        p_roadmap_id,
+        COALESCE(NULLIF(trim(milestone->>'title'), ''), 'Milestone ' || (next_index + 1)),
+        COALESCE(milestone->>'description', ''),
+        next_index,
+        'pending',
+        COALESCE(milestone->'resources', '[]'),
+        milestone_estimated_weeks(milestone)
+      )
+      RETURNING id INTO target_id;
+      added_count := added_count + 1;
+    END IF;
+
+    kept_ids := kept_ids || target_id;
+    next_index := next_index + 1;
+
+    -- New subtasks follow any completed ones that were kept
+    SELECT COALESCE(MAX(order_index) + 1, 0) INTO subtask_offset
+    FROM subtasks
+    WHERE milestone_id = target_id;
+
+    IF jsonb_typeof(milestone->'subtasks') = 'array' THEN
+      FOR subtask, subtask_index IN
+        SELECT value, ordinality - 1 FROM jsonb_array_elements(milestone->'subtasks') WITH ORDINALITY
+      LOOP
+        CONTINUE WHEN NULLIF(trim(subtask->>'title'), '') IS NULL;
+
+        INSERT INTO subtasks (milestone_id, title, description, order_index, is_completed)
+        VALUES (
+          target_id,
+          trim(subtask->>'title'),
+          NULLIF(subtask->>'description', ''),
+          subtask_offset + subtask_index,
+          FALSE
+        );
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  -- Remaining milestones left out of the new plan are removed, unless they hold
+  -- completed subtasks. Those are kept at the end with only their completed work.
+  DELETE FROM subtasks s
+  USING milestones m
+  WHERE s.milestone_id = m.id
+    AND m.roadmap_id = p_roadmap_id
+    AND m.status <> 'completed'
+    AND NOT (m.id = ANY(kept_ids))
+    AND NOT s.is_completed;
+
+  WITH dropped AS (
+    DELETE FROM milestones m
+    WHERE m.roadmap_id = p_roadmap_id
+      AND m.status <> 'completed'
+      AND NOT (m.id = ANY(kept_ids))
+      AND NOT EXISTS (SELECT 1 FROM subtasks s WHERE s.milestone_id = m.id)
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO removed_count FROM dropped;
+
+  UPDATE milestones m
+  SET order_index = next_index + ranked.position
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY order_index, created_at) - 1 AS position
+    FROM milestones
+    WHERE roadmap_id = p_roadmap_id
+      AND status <> 'completed'
+      AND NOT (id = ANY(kept_ids))
+  ) ranked
+  WHERE m.id = ranked.id;
+
+  UPDATE roadmaps
+  SET
+    ai_generated_plan = COALESCE(ai_generated_plan, '{}') || jsonb_build_object(
+      'replanSummary', COALESCE(p_plan->>'summary', ''),
+      'replannedAt', NOW()
+    ),
+    updated_at = NOW()
+  WHERE id = p_roadmap_id;
+
+  RETURN jsonb_build_object(
+    'added', added_count,
+    'updated', updated_count,
+    'removed', removed_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- BACKFILL: Estimates for existing milestones
+-- ============================================
+-- Generated milestones are matched to the saved plan by title
+UPDATE milestones m
+SET estimated_weeks = milestone_estimated_weeks(plan_milestone.value)
+FROM roadmaps r,
+  LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(r.ai_generated_plan->'milestones') = 'array'
+      THEN r.ai_generated_plan->'milestones' ELSE '[]' END
+  ) AS plan_milestone
+WHERE m.roadmap_id = r.id
+  AND m.estimated_weeks IS NULL
+  AND trim(plan_milestone.value->>'title') = m.title;
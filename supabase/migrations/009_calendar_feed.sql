@@ -0,0 +1,82 @@
+-- CareerGuide: Calendar export and feed
+-- Migration 009
+--
+-- Daily-goal blocks the user has put on their calendar, and a secret token per
+-- user for the subscribable iCalendar feed served by the calendar-feed function.
+
+-- ============================================
+-- GOAL BLOCKS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS goal_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  roadmap_id UUID REFERENCES roadmaps ON DELETE CASCADE,
+  subtask_id UUID REFERENCES subtasks ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  milestone_title TEXT,
+  starts_at TIMESTAMPTZ NOT NULL,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 5 AND 480),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE goal_blocks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own goal blocks" ON goal_blocks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own goal blocks" ON goal_blocks
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own goal blocks" ON goal_blocks
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own goal blocks" ON goal_blocks
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_goal_blocks_user_starts_at ON goal_blocks(user_id, starts_at);
+
+-- ============================================
+-- CALENDAR FEED TOKENS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE PRIMARY KEY,
+  token TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (tokens are created through rotate_calendar_feed_token only)
+CREATE POLICY "Users can view own calendar feed token" ON calendar_feed_tokens
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own calendar feed token" ON calendar_feed_tokens
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================
+-- FUNCTION: Create or replace the caller's feed token
+-- ============================================
+-- The old feed URL stops working as soon as a new token is issued
+CREATE OR REPLACE FUNCTION rotate_calendar_feed_token()
+RETURNS TEXT AS $$
+DECLARE
+  new_token TEXT := replace(gen_random_uuid()::TEXT, '-', '') || replace(gen_random_uuid()::TEXT, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not authenticated';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), new_token)
+  ON CONFLICT (user_id) DO UPDATE SET token = EXCLUDED.token, created_at = NOW();
+
+  RETURN new_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION rotate_calendar_feed_token() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION rotate_calendar_feed_token() TO authenticated;
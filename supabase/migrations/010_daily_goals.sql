@@ -0,0 +1,70 @@
+-- CareerGuide: Persisted daily goals
+-- Migration 010
+--
+-- Stores each day's goals (previously cached in localStorage) so the plan is the
+-- same on every device, completed goals survive a reload, and past days can be
+-- shown as history and counted towards streaks.
+
+-- ============================================
+-- DAILY GOALS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS daily_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  goal_date DATE NOT NULL, -- the user's local calendar day
+  position INTEGER NOT NULL DEFAULT 0,
+  roadmap_id UUID REFERENCES roadmaps ON DELETE SET NULL,
+  subtask_id UUID REFERENCES subtasks ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  milestone_title TEXT,
+  duration TEXT NOT NULL CHECK (duration IN ('short', 'medium', 'long')),
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  is_partial_task BOOLEAN DEFAULT FALSE,
+  is_completed BOOLEAN DEFAULT FALSE,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- A second device generating the same day's goals cannot add duplicates
+  UNIQUE(user_id, goal_date, position)
+);
+
+-- Enable RLS
+ALTER TABLE daily_goals ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (goals may only point at the user's own subtasks)
+CREATE POLICY "Users can view own daily goals" ON daily_goals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own daily goals" ON daily_goals
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND (
+      subtask_id IS NULL OR EXISTS (
+        SELECT 1 FROM subtasks s
+        JOIN milestones m ON m.id = s.milestone_id
+        JOIN roadmaps r ON r.id = m.roadmap_id
+        WHERE s.id = daily_goals.subtask_id
+        AND r.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update own daily goals" ON daily_goals
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      subtask_id IS NULL OR EXISTS (
+        SELECT 1 FROM subtasks s
+        JOIN milestones m ON m.id = s.milestone_id
+        JOIN roadmaps r ON r.id = m.roadmap_id
+        WHERE s.id = daily_goals.subtask_id
+        AND r.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete own daily goals" ON daily_goals
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================
+-- GOAL BLOCKS: Link to the daily goal
+-- ============================================
+ALTER TABLE goal_blocks ADD COLUMN IF NOT EXISTS daily_goal_id UUID REFERENCES daily_goals ON DELETE SET NULL;
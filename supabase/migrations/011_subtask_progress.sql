@@ -0,0 +1,479 @@
+-- CareerGuide: Partial progress on subtasks
+-- Migration 011
+--
+-- Daily goals are often a slice of a larger subtask ("Complete first two practice
+-- exercises"). Finishing one now advances the subtask's progress and logs the
+-- time spent instead of completing the whole subtask, and records where the user
+-- stopped so the next day's goals can pick up from there.
+--
+-- apply_roadmap_replan, build_roadmap_snapshot and restore_roadmap_version are
+-- redefined so re-plans keep partly-done subtasks (and their time logs) and
+-- versions carry the new columns.
+
+-- ============================================
+-- SUBTASKS: Progress and time spent
+-- ============================================
+ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS progress NUMERIC NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 1);
+ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS minutes_spent INTEGER NOT NULL DEFAULT 0 CHECK (minutes_spent >= 0);
+ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS last_progress_note TEXT; -- the last slice the user finished
+
+UPDATE subtasks SET progress = 1 WHERE is_completed = TRUE;
+
+-- ============================================
+-- DAILY GOALS: Share of the subtask each goal covers
+-- ============================================
+ALTER TABLE daily_goals ADD COLUMN IF NOT EXISTS portion NUMERIC NOT NULL DEFAULT 1 CHECK (portion > 0 AND portion <= 1);
+
+-- ============================================
+-- SUBTASK TIME LOGS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS subtask_time_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  subtask_id UUID REFERENCES subtasks ON DELETE CASCADE NOT NULL,
+  daily_goal_id UUID REFERENCES daily_goals ON DELETE SET NULL,
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  progress_before NUMERIC NOT NULL,
+  progress_after NUMERIC NOT NULL,
+  note TEXT,
+  logged_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE subtask_time_logs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (entries are written through complete_daily_goal)
+CREATE POLICY "Users can view own subtask time logs" ON subtask_time_logs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own subtask time logs" ON subtask_time_logs
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_subtask_time_logs_subtask_id ON subtask_time_logs(subtask_id);
+
+-- ============================================
+-- FUNCTION: Complete a daily goal
+-- ============================================
+-- Marks the goal done, logs the time against its subtask and advances the
+-- subtask's progress by the goal's portion. A whole-task goal completes the
+-- subtask; a partial goal never takes it past partial_progress_cap, so the
+-- user (or a final whole-task goal) confirms it is really finished.
+CREATE OR REPLACE FUNCTION complete_daily_goal(p_goal_id UUID, p_minutes INTEGER DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  partial_progress_cap CONSTANT NUMERIC := 0.95;
+  goal daily_goals%ROWTYPE;
+  subtask subtasks%ROWTYPE;
+  logged_minutes INTEGER;
+  new_progress NUMERIC;
+BEGIN
+  -- Lock the goal so a double click or a concurrent call waits here and then sees it completed
+  SELECT * INTO goal FROM daily_goals WHERE id = p_goal_id FOR UPDATE;
+
+  IF goal.id IS NULL OR goal.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'daily goal not found';
+  END IF;
+
+  IF goal.is_completed THEN
+    RETURN jsonb_build_object('already_completed', TRUE);
+  END IF;
+
+  UPDATE daily_goals SET is_completed = TRUE, completed_at = NOW() WHERE id = p_goal_id;
+
+  -- Only the caller's own subtasks are advanced
+  SELECT s.* INTO subtask
+  FROM subtasks s
+  JOIN milestones m ON m.id = s.milestone_id
+  JOIN roadmaps r ON r.id = m.roadmap_id
+  WHERE s.id = goal.subtask_id AND r.user_id = auth.uid()
+  FOR UPDATE OF s;
+
+  -- The subtask may have been deleted since the goal was made
+  IF subtask.id IS NULL THEN
+    RETURN jsonb_build_object('already_completed', FALSE);
+  END IF;
+
+  logged_minutes := COALESCE(p_minutes, goal.minutes);
+
+  IF subtask.is_completed THEN
+    new_progress := 1;
+  ELSIF goal.is_partial_task THEN
+    new_progress := LEAST(subtask.progress + goal.portion, GREATEST(partial_progress_cap, subtask.progress));
+  ELSE
+    new_progress := 1;
+  END IF;
+
+  INSERT INTO subtask_time_logs (user_id, subtask_id, daily_goal_id, minutes, progress_before, progress_after, note)
+  VALUES (goal.user_id, subtask.id, goal.id, logged_minutes, subtask.progress, new_progress, goal.title);
+
+  UPDATE subtasks SET
+    progress = new_progress,
+    minutes_spent = minutes_spent + logged_minutes,
+    last_progress_note = CASE WHEN goal.is_partial_task THEN goal.title ELSE last_progress_note END,
+    is_completed = (new_progress >= 1),
+    completed_at = CASE WHEN new_progress >= 1 THEN COALESCE(completed_at, NOW()) ELSE NULL END
+  WHERE id = subtask.id;
+
+  RETURN jsonb_build_object(
+    'already_completed', FALSE,
+    'subtask_id', subtask.id,
+    'progress', new_progress,
+    'minutes_spent', subtask.minutes_spent + logged_minutes,
+    'is_completed', new_progress >= 1
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION complete_daily_goal(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION complete_daily_goal(UUID, INTEGER) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Apply a re-plan to a roadmap (now keeps started subtasks)
+-- ============================================
+-- A subtask counts as started once it has progress or logged time. Deleting it
+-- would also delete its time logs, so it is kept like a completed one.
+CREATE OR REPLACE FUNCTION apply_roadmap_replan(
+  p_user_id UUID,
+  p_roadmap_id UUID,
+  p_plan JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  next_index INTEGER := 0;
+  milestone JSONB;
+  target_id UUID;
+  kept_ids UUID[] := ARRAY[]::UUID[];
+  subtask JSONB;
+  subtask_index BIGINT;
+  subtask_offset INTEGER;
+  added_count INTEGER := 0;
+  updated_count INTEGER := 0;
+  removed_count INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM roadmaps WHERE id = p_roadmap_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'roadmap not found';
+  END IF;
+
+  IF jsonb_typeof(p_plan->'milestones') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_plan->'milestones') = 0 THEN
+    RAISE EXCEPTION 'plan must contain at least one milestone';
+  END IF;
+
+  -- Completed milestones stay first, in their current order
+  UPDATE milestones m
+  SET order_index = ranked.position
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY order_index, created_at) - 1 AS position
+    FROM milestones
+    WHERE roadmap_id = p_roadmap_id AND status = 'completed'
+  ) ranked
+  WHERE m.id = ranked.id;
+
+  SELECT COUNT(*) INTO next_index
+  FROM milestones
+  WHERE roadmap_id = p_roadmap_id AND status = 'completed';
+
+  FOR milestone IN SELECT value FROM jsonb_array_elements(p_plan->'milestones')
+  LOOP
+    target_id := NULL;
+
+    -- Only remaining milestones of this roadmap can be rewritten
+    IF NULLIF(milestone->>'id', '') IS NOT NULL THEN
+      SELECT id INTO target_id
+      FROM milestones
+      WHERE id = (milestone->>'id')::UUID
+        AND roadmap_id = p_roadmap_id
+        AND status <> 'completed'
+        AND NOT (id = ANY(kept_ids));
+    END IF;
+
+    IF target_id IS NOT NULL THEN
+      UPDATE milestones
+      SET
+        title = COALESCE(NULLIF(trim(milestone->>'title'), ''), title),
+        description = COALESCE(milestone->>'description', description),
+        resources = COALESCE(milestone->'resources', resources),
+        estimated_weeks = COALESCE(milestone_estimated_weeks(milestone), estimated_weeks),
+        order_index = next_index
+      WHERE id = target_id;
+
+      -- Started subtasks are kept; the rest are replaced by the new plan
+      DELETE FROM subtasks
+      WHERE milestone_id = target_id
+        AND NOT is_completed
+        AND progress = 0
+        AND minutes_spent = 0;
+      updated_count := updated_count + 1;
+    ELSE
+      INSERT INTO milestones (roadmap_id, title, description, order_index, status, resources, estimated_weeks)
+      VALUES (
+        p_roadmap_id,
+        COALESCE(NULLIF(trim(milestone->>'title'), ''), 'Milestone ' || (next_index + 1)),
+        COALESCE(milestone->>'description', ''),
+        next_index,
+        'pending',
+        COALESCE(milestone->'resources', '[]'),
+        milestone_estimated_weeks(milestone)
+      )
+      RETURNING id INTO target_id;
+      added_count := added_count + 1;
+    END IF;
+
+    kept_ids := kept_ids || target_id;
+    next_index := next_index + 1;
+
+    -- New subtasks follow any started ones that were kept
+    SELECT COALESCE(MAX(order_index) + 1, 0) INTO subtask_offset
+    FROM subtasks
+    WHERE milestone_id = target_id;
+
+    IF jsonb_typeof(milestone->'subtasks') = 'array' THEN
+      FOR subtask, subtask_index IN
+        SELECT value, ordinality - 1 FROM jsonb_array_elements(milestone->'subtasks') WITH ORDINALITY
+      LOOP
+        CONTINUE WHEN NULLIF(trim(subtask->>'title'), '') IS NULL;
+
+        INSERT INTO subtasks (milestone_id, title, description, order_index, is_completed)
+        VALUES (
+          target_id,
+          trim(subtask->>'title'),
+          NULLIF(subtask->>'description', ''),
+          subtask_offset + subtask_index,
+          FALSE
+        );
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  -- Remaining milestones left out of the new plan are removed, unless they hold
+  -- started subtasks. Those are kept at the end with only their started work.
+  DELETE FROM subtasks s
+  USING milestones m
+  WHERE s.milestone_id = m.id
+    AND m.roadmap_id = p_roadmap_id
+    AND m.status <> 'completed'
+    AND NOT (m.id = ANY(kept_ids))
+    AND NOT s.is_completed
+    AND s.progress = 0
+    AND s.minutes_spent = 0;
+
+  WITH dropped AS (
+    DELETE FROM milestones m
+    WHERE m.roadmap_id = p_roadmap_id
+      AND m.status <> 'completed'
+      AND NOT (m.id = ANY(kept_ids))
+      AND NOT EXISTS (SELECT 1 FROM subtasks s WHERE s.milestone_id = m.id)
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO removed_count FROM dropped;
+
+  UPDATE milestones m
+  SET order_index = next_index + ranked.position
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY order_index, created_at) - 1 AS position
+    FROM milestones
+    WHERE roadmap_id = p_roadmap_id
+      AND status <> 'completed'
+      AND NOT (id = ANY(kept_ids))
+  ) ranked
+  WHERE m.id = ranked.id;
+
+  UPDATE roadmaps
+  SET
+    ai_generated_plan = COALESCE(ai_generated_plan, '{}') || jsonb_build_object(
+      'replanSummary', COALESCE(p_plan->>'summary', ''),
+      'replannedAt', NOW()
+    ),
+    updated_at = NOW()
+  WHERE id = p_roadmap_id;
+
+  RETURN jsonb_build_object(
+    'added', added_count,
+    'updated', updated_count,
+    'removed', removed_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- FUNCTION: Build a snapshot of a roadmap (now with subtask progress)
+-- ============================================
+CREATE OR REPLACE FUNCTION build_roadmap_snapshot(p_roadmap_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'milestones', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'title', m.title,
+          'description', m.description,
+          'order_index', m.order_index,
+          'status', m.status,
+          'due_date', m.due_date,
+          'completed_at', m.completed_at,
+          'resources', m.resources,
+          'subtasks', COALESCE((
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'id', s.id,
+                'title', s.title,
+                'description', s.description,
+                'order_index', s.order_index,
+                'is_completed', s.is_completed,
+                'completed_at', s.completed_at,
+                'progress', s.progress,
+                'minutes_spent', s.minutes_spent,
+                'last_progress_note', s.last_progress_note
+              )
+              ORDER BY s.order_index, s.created_at
+            )
+            FROM subtasks s
+            WHERE s.milestone_id = m.id
+          ), '[]')
+        )
+        ORDER BY m.order_index, m.created_at
+      )
+      FROM milestones m
+      WHERE m.roadmap_id = p_roadmap_id
+    ), '[]'),
+    'target_role_skills', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'skill_name', t.skill_name,
+          'required_level', t.required_level,
+          'priority', t.priority
+        )
+        ORDER BY t.skill_name
+      )
+      FROM target_role_skills t
+      WHERE t.roadmap_id = p_roadmap_id
+    ), '[]'),
+    'citations', COALESCE((SELECT citations FROM roadmaps WHERE id = p_roadmap_id), '[]')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION build_roadmap_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION build_roadmap_snapshot(UUID) TO service_role;
+
+-- ============================================
+-- FUNCTION: Restore a roadmap to an older version (now with subtask progress)
+-- ============================================
+CREATE OR REPLACE FUNCTION restore_roadmap_version(p_version_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  partial_progress_cap CONSTANT NUMERIC := 0.95;
+  target roadmap_versions%ROWTYPE;
+  milestone JSONB;
+  subtask JSONB;
+  milestone_ids UUID[] := ARRAY[]::UUID[];
+  subtask_ids UUID[] := ARRAY[]::UUID[];
+  subtask_completed BOOLEAN;
+BEGIN
+  SELECT * INTO target FROM roadmap_versions WHERE id = p_version_id;
+
+  IF target.id IS NULL OR (auth.uid() IS NOT NULL AND auth.uid() <> target.user_id) THEN
+    RAISE EXCEPTION 'version not found';
+  END IF;
+
+  PERFORM snapshot_roadmap(target.roadmap_id, 'checkpoint');
+
+  FOR milestone IN SELECT value FROM jsonb_array_elements(target.snapshot->'milestones')
+  LOOP
+    INSERT INTO milestones (id, roadmap_id, title, description, order_index, status, due_date, completed_at, resources)
+    VALUES (
+      (milestone->>'id')::UUID,
+      target.roadmap_id,
+      milestone->>'title',
+      milestone->>'description',
+      (milestone->>'order_index')::INTEGER,
+      milestone->>'status',
+      (milestone->>'due_date')::DATE,
+      (milestone->>'completed_at')::TIMESTAMPTZ,
+      COALESCE(milestone->'resources', '[]')
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      order_index = EXCLUDED.order_index,
+      status = EXCLUDED.status,
+      due_date = EXCLUDED.due_date,
+      completed_at = EXCLUDED.completed_at,
+      resources = EXCLUDED.resources
+    WHERE milestones.roadmap_id = target.roadmap_id;
+
+    milestone_ids := milestone_ids || (milestone->>'id')::UUID;
+
+    FOR subtask IN SELECT value FROM jsonb_array_elements(milestone->'subtasks')
+    LOOP
+      subtask_completed := COALESCE((subtask->>'is_completed')::BOOLEAN, FALSE);
+
+      -- Versions saved before this migration have no progress; it follows is_completed,
+      -- as when a subtask is checked off or reopened
+      INSERT INTO subtasks (
+        id, milestone_id, title, description, order_index, is_completed, completed_at,
+        progress, minutes_spent, last_progress_note
+      )
+      VALUES (
+        (subtask->>'id')::UUID,
+        (milestone->>'id')::UUID,
+        subtask->>'title',
+        subtask->>'description',
+        (subtask->>'order_index')::INTEGER,
+        subtask_completed,
+        (subtask->>'completed_at')::TIMESTAMPTZ,
+        CASE
+          WHEN subtask_completed THEN 1
+          ELSE LEAST(COALESCE((subtask->>'progress')::NUMERIC, 0), partial_progress_cap)
+        END,
+        COALESCE((subtask->>'minutes_spent')::INTEGER, 0),
+        subtask->>'last_progress_note'
+      )
+      -- Time already logged against a subtask stays with it, as its time logs do
+      ON CONFLICT (id) DO UPDATE SET
+        milestone_id = EXCLUDED.milestone_id,
+        title = EXCLUDED.title,
+        description = EXCLUDED.description,
+        order_index = EXCLUDED.order_index,
+        is_completed = EXCLUDED.is_completed,
+        completed_at = EXCLUDED.completed_at,
+        progress = EXCLUDED.progress,
+        last_progress_note = EXCLUDED.last_progress_note;
+
+      subtask_ids := subtask_ids || (subtask->>'id')::UUID;
+    END LOOP;
+  END LOOP;
+
+  -- Drop whatever the older version did not have
+  DELETE FROM subtasks s
+  USING milestones m
+  WHERE s.milestone_id = m.id
+    AND m.roadmap_id = target.roadmap_id
+    AND NOT (s.id = ANY(subtask_ids));
+
+  DELETE FROM milestones
+  WHERE roadmap_id = target.roadmap_id
+    AND NOT (id = ANY(milestone_ids));
+
+  DELETE FROM target_role_skills WHERE roadmap_id = target.roadmap_id;
+
+  INSERT INTO target_role_skills (roadmap_id, skill_name, required_level, priority)
+  SELECT
+    target.roadmap_id,
+    value->>'skill_name',
+    (value->>'required_level')::INTEGER,
+    value->>'priority'
+  FROM jsonb_array_elements(target.snapshot->'target_role_skills');
+
+  UPDATE roadmaps
+  SET
+    citations = COALESCE(target.snapshot->'citations', '[]'),
+    updated_at = NOW()
+  WHERE id = target.roadmap_id;
+
+  RETURN snapshot_roadmap(target.roadmap_id, 'restore', target.version_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION restore_roadmap_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION restore_roadmap_version(UUID) TO authenticated, service_role;
@@ -0,0 +1,17 @@
+-- CareerGuide: Daily goals across roadmaps
+-- Migration 012
+--
+-- Users with more than one roadmap choose how daily goals are shared between
+-- them: a weight per roadmap, or a single focus roadmap that gets every goal.
+
+-- ============================================
+-- ROADMAPS: Share of daily goals
+-- ============================================
+-- 0 pauses the roadmap; otherwise goals are split in proportion to the weights
+ALTER TABLE roadmaps ADD COLUMN IF NOT EXISTS goal_weight INTEGER NOT NULL DEFAULT 1 CHECK (goal_weight BETWEEN 0 AND 10);
+
+-- ============================================
+-- USER PROFILES: Focus roadmap
+-- ============================================
+-- When set, daily goals come only from this roadmap while it has open tasks
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS focus_roadmap_id UUID REFERENCES roadmaps ON DELETE SET NULL;
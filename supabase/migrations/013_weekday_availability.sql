@@ -0,0 +1,18 @@
+-- CareerGuide: Study time per weekday
+-- Migration 013
+--
+-- Minutes the user can study on each day of the week, so daily goals can be
+-- sized to fit the day (up to 3 hours) and skipped on days with no time.
+
+-- ============================================
+-- USER PROFILES: Minutes per weekday
+-- ============================================
+-- Sunday first, matching Date.getDay(). NULL spreads available_hours evenly over the week.
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS weekday_minutes INTEGER[]
+  CHECK (
+    weekday_minutes IS NULL OR (
+      array_length(weekday_minutes, 1) = 7
+      AND 0 <= ALL(weekday_minutes)
+      AND 180 >= ALL(weekday_minutes)
+    )
+  );
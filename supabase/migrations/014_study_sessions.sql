@@ -0,0 +1,114 @@
+-- CareerGuide: Focus sessions
+-- Migration 014
+--
+-- Pomodoro-style focus sessions started from a daily goal or a subtask. Each
+-- session records when it started and ended, the minutes actually spent
+-- focusing and how often it was interrupted, so planned and actual time can
+-- be compared.
+
+-- ============================================
+-- STUDY SESSIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS study_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  daily_goal_id UUID REFERENCES daily_goals ON DELETE SET NULL,
+  subtask_id UUID REFERENCES subtasks ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  estimated_minutes INTEGER CHECK (estimated_minutes > 0), -- the goal's planned time, when started from a goal
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ, -- NULL while running, or if the session was never finished
+  focus_minutes INTEGER NOT NULL DEFAULT 0 CHECK (focus_minutes >= 0),
+  pomodoros INTEGER NOT NULL DEFAULT 0 CHECK (pomodoros >= 0),
+  interruptions INTEGER NOT NULL DEFAULT 0 CHECK (interruptions >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE study_sessions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (sessions are finished through finish_study_session, and may
+-- only point at the user's own subtasks)
+CREATE POLICY "Users can view own study sessions" ON study_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own study sessions" ON study_sessions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND (
+      subtask_id IS NULL OR EXISTS (
+        SELECT 1 FROM subtasks s
+        JOIN milestones m ON m.id = s.milestone_id
+        JOIN roadmaps r ON r.id = m.roadmap_id
+        WHERE s.id = study_sessions.subtask_id
+        AND r.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete own study sessions" ON study_sessions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_study_sessions_user_started_at ON study_sessions(user_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_study_sessions_daily_goal_id ON study_sessions(daily_goal_id);
+
+-- ============================================
+-- FUNCTION: Finish a focus session
+-- ============================================
+-- Time from sessions on a daily goal is logged against its subtask when the
+-- goal is completed (complete_daily_goal). Sessions started straight from a
+-- subtask are logged against it here, without changing its progress.
+CREATE OR REPLACE FUNCTION finish_study_session(
+  p_session_id UUID,
+  p_focus_minutes INTEGER,
+  p_pomodoros INTEGER,
+  p_interruptions INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  session study_sessions%ROWTYPE;
+  subtask subtasks%ROWTYPE;
+BEGIN
+  -- Lock the session so a second finish waits here and then sees it ended
+  SELECT * INTO session FROM study_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF session.id IS NULL OR session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'study session not found';
+  END IF;
+
+  IF session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'study session already finished';
+  END IF;
+
+  UPDATE study_sessions SET
+    ended_at = NOW(),
+    focus_minutes = GREATEST(p_focus_minutes, 0),
+    pomodoros = GREATEST(p_pomodoros, 0),
+    interruptions = GREATEST(p_interruptions, 0)
+  WHERE id = p_session_id;
+
+  IF session.daily_goal_id IS NOT NULL OR session.subtask_id IS NULL OR p_focus_minutes <= 0 THEN
+    RETURN;
+  END IF;
+
+  -- Only the caller's own subtasks are logged against
+  SELECT s.* INTO subtask
+  FROM subtasks s
+  JOIN milestones m ON m.id = s.milestone_id
+  JOIN roadmaps r ON r.id = m.roadmap_id
+  WHERE s.id = session.subtask_id AND r.user_id = auth.uid()
+  FOR UPDATE OF s;
+
+  IF subtask.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO subtask_time_logs (user_id, subtask_id, minutes, progress_before, progress_after, note)
+  VALUES (session.user_id, subtask.id, p_focus_minutes, subtask.progress, subtask.progress, 'Focus session');
+
+  UPDATE subtasks SET minutes_spent = minutes_spent + p_focus_minutes WHERE id = subtask.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION finish_study_session(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION finish_study_session(UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,212 @@
+-- CareerGuide: Calibrated task estimates
+-- Migration 015
+--
+-- estimate-task-durations now asks the model how long each whole subtask takes
+-- and scales that by the user's own pace (focus minutes against planned minutes
+-- on finished daily goals). Both numbers are kept on the subtask so goals can
+-- be sized for slow and fast learners alike.
+--
+-- Roadmap versions now carry the estimates, and milestones' estimated_weeks
+-- (migration 008), so a restore brings them back with the rows.
+
+-- ============================================
+-- SUBTASKS: Estimates
+-- ============================================
+ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER CHECK (estimated_minutes > 0); -- the model's estimate
+ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS calibrated_minutes INTEGER CHECK (calibrated_minutes > 0); -- scaled to the user's pace
+ALTER TABLE subtasks ADD COLUMN IF NOT EXISTS estimated_at TIMESTAMPTZ;
+
+-- ============================================
+-- FUNCTION: Build a snapshot of a roadmap (now with estimates)
+-- ============================================
+CREATE OR REPLACE FUNCTION build_roadmap_snapshot(p_roadmap_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'milestones', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', m.id,
+          'title', m.title,
+          'description', m.description,
+          'order_index', m.order_index,
+          'status', m.status,
+          'due_date', m.due_date,
+          'completed_at', m.completed_at,
+          'resources', m.resources,
+          'estimated_weeks', m.estimated_weeks,
+          'subtasks', COALESCE((
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'id', s.id,
+                'title', s.title,
+                'description', s.description,
+                'order_index', s.order_index,
+                'is_completed', s.is_completed,
+                'completed_at', s.completed_at,
+                'progress', s.progress,
+                'minutes_spent', s.minutes_spent,
+                'last_progress_note', s.last_progress_note,
+                'estimated_minutes', s.estimated_minutes,
+                'calibrated_minutes', s.calibrated_minutes,
+                'estimated_at', s.estimated_at
+              )
+              ORDER BY s.order_index, s.created_at
+            )
+            FROM subtasks s
+            WHERE s.milestone_id = m.id
+          ), '[]')
+        )
+        ORDER BY m.order_index, m.created_at
+      )
+      FROM milestones m
+      WHERE m.roadmap_id = p_roadmap_id
+    ), '[]'),
+    'target_role_skills', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'skill_name', t.skill_name,
+          'required_level', t.required_level,
+          'priority', t.priority
+        )
+        ORDER BY t.skill_name
+      )
+      FROM target_role_skills t
+      WHERE t.roadmap_id = p_roadmap_id
+    ), '[]'),
+    'citations', COALESCE((SELECT citations FROM roadmaps WHERE id = p_roadmap_id), '[]')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION build_roadmap_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION build_roadmap_snapshot(UUID) TO service_role;
+
+-- ============================================
+-- FUNCTION: Restore a roadmap to an older version (now with estimates)
+-- ============================================
+CREATE OR REPLACE FUNCTION restore_roadmap_version(p_version_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  partial_progress_cap CONSTANT NUMERIC := 0.95;
+  target roadmap_versions%ROWTYPE;
+  milestone JSONB;
+  subtask JSONB;
+  milestone_ids UUID[] := ARRAY[]::UUID[];
+  subtask_ids UUID[] := ARRAY[]::UUID[];
+  subtask_completed BOOLEAN;
+BEGIN
+  SELECT * INTO target FROM roadmap_versions WHERE id = p_version_id;
+
+  IF target.id IS NULL OR (auth.uid() IS NOT NULL AND auth.uid() <> target.user_id) THEN
+    RAISE EXCEPTION 'version not found';
+  END IF;
+
+  PERFORM snapshot_roadmap(target.roadmap_id, 'checkpoint');
+
+  FOR milestone IN SELECT value FROM jsonb_array_elements(target.snapshot->'milestones')
+  LOOP
+    INSERT INTO milestones (id, roadmap_id, title, description, order_index, status, due_date, completed_at, resources, estimated_weeks)
+    VALUES (
+      (milestone->>'id')::UUID,
+      target.roadmap_id,
+      milestone->>'title',
+      milestone->>'description',
+      (milestone->>'order_index')::INTEGER,
+      milestone->>'status',
+      (milestone->>'due_date')::DATE,
+      (milestone->>'completed_at')::TIMESTAMPTZ,
+      COALESCE(milestone->'resources', '[]'),
+      (milestone->>'estimated_weeks')::NUMERIC
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      order_index = EXCLUDED.order_index,
+      status = EXCLUDED.status,
+      due_date = EXCLUDED.due_date,
+      completed_at = EXCLUDED.completed_at,
+      resources = EXCLUDED.resources,
+      estimated_weeks = COALESCE(EXCLUDED.estimated_weeks, milestones.estimated_weeks)
+    WHERE milestones.roadmap_id = target.roadmap_id;
+
+    milestone_ids := milestone_ids || (milestone->>'id')::UUID;
+
+    FOR subtask IN SELECT value FROM jsonb_array_elements(milestone->'subtasks')
+    LOOP
+      subtask_completed := COALESCE((subtask->>'is_completed')::BOOLEAN, FALSE);
+
+      -- Versions saved before this migration have no progress; it follows is_completed,
+      -- as when a subtask is checked off or reopened
+      INSERT INTO subtasks (
+        id, milestone_id, title, description, order_index, is_completed, completed_at,
+        progress, minutes_spent, last_progress_note, estimated_minutes, calibrated_minutes, estimated_at
+      )
+      VALUES (
+        (subtask->>'id')::UUID,
+        (milestone->>'id')::UUID,
+        subtask->>'title',
+        subtask->>'description',
+        (subtask->>'order_index')::INTEGER,
+        subtask_completed,
+        (subtask->>'completed_at')::TIMESTAMPTZ,
+        CASE
+          WHEN subtask_completed THEN 1
+          ELSE LEAST(COALESCE((subtask->>'progress')::NUMERIC, 0), partial_progress_cap)
+        END,
+        COALESCE((subtask->>'minutes_spent')::INTEGER, 0),
+        subtask->>'last_progress_note',
+        (subtask->>'estimated_minutes')::INTEGER,
+        (subtask->>'calibrated_minutes')::INTEGER,
+        (subtask->>'estimated_at')::TIMESTAMPTZ
+      )
+      -- Time already logged against a subtask stays with it, as its time logs do.
+      -- Estimates missing from older versions keep the ones the subtask has.
+      ON CONFLICT (id) DO UPDATE SET
+        milestone_id = EXCLUDED.milestone_id,
+        title = EXCLUDED.title,
+        description = EXCLUDED.description,
+        order_index = EXCLUDED.order_index,
+        is_completed = EXCLUDED.is_completed,
+        completed_at = EXCLUDED.completed_at,
+        progress = EXCLUDED.progress,
+        last_progress_note = EXCLUDED.last_progress_note,
+        estimated_minutes = COALESCE(EXCLUDED.estimated_minutes, subtasks.estimated_minutes),
+        calibrated_minutes = COALESCE(EXCLUDED.calibrated_minutes, subtasks.calibrated_minutes),
+        estimated_at = COALESCE(EXCLUDED.estimated_at, subtasks.estimated_at);
+
+      subtask_ids := subtask_ids || (subtask->>'id')::UUID;
+    END LOOP;
+  END LOOP;
+
+  -- Drop whatever the older version did not have
+  DELETE FROM subtasks s
+  USING milestones m
+  WHERE s.milestone_id = m.id
+    AND m.roadmap_id = target.roadmap_id
+    AND NOT (s.id = ANY(subtask_ids));
+
+  DELETE FROM milestones
+  WHERE roadmap_id = target.roadmap_id
+    AND NOT (id = ANY(milestone_ids));
+
+  DELETE FROM target_role_skills WHERE roadmap_id = target.roadmap_id;
+
+  INSERT INTO target_role_skills (roadmap_id, skill_name, required_level, priority)
+  SELECT
+    target.roadmap_id,
+    value->>'skill_name',
+    (value->>'required_level')::INTEGER,
+    value->>'priority'
+  FROM jsonb_array_elements(target.snapshot->'target_role_skills');
+
+  UPDATE roadmaps
+  SET
+    citations = COALESCE(target.snapshot->'citations', '[]'),
+    updated_at = NOW()
+  WHERE id = target.roadmap_id;
+
+  RETURN snapshot_roadmap(target.roadmap_id, 'restore', target.version_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION restore_roadmap_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION restore_roadmap_version(UUID) TO authenticated, service_role;
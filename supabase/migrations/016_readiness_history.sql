@@ -0,0 +1,33 @@
+-- CareerGuide: Readiness history
+-- Migration 016
+--
+-- skill_gap_analysis keeps only the latest run for each roadmap, so
+-- analyze-skill-gaps also saves every run as a snapshot here. The roadmap
+-- progress view charts their readiness over time next to the subtask burndown.
+
+-- ============================================
+-- SKILL GAP SNAPSHOTS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS skill_gap_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  roadmap_id UUID REFERENCES roadmaps ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  overall_readiness INTEGER NOT NULL CHECK (overall_readiness BETWEEN 0 AND 100),
+  analyzed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE skill_gap_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (snapshots are written by analyze-skill-gaps)
+CREATE POLICY "Users can view own skill gap snapshots" ON skill_gap_snapshots
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_skill_gap_snapshots_roadmap_analyzed_at ON skill_gap_snapshots(roadmap_id, analyzed_at);
+
+-- Keep the runs that already happened
+INSERT INTO skill_gap_snapshots (roadmap_id, user_id, overall_readiness, analyzed_at)
+SELECT roadmap_id, user_id, overall_readiness, analyzed_at
+FROM skill_gap_analysis
+WHERE overall_readiness IS NOT NULL AND analyzed_at IS NOT NULL;
@@ -0,0 +1,21 @@
+-- CareerGuide: Skill gap analysis snapshots
+-- Migration 017
+--
+-- Snapshots (migration 016) now also keep the gaps each run found and the
+-- skill levels it was based on, so gaps can be compared between runs.
+
+-- ============================================
+-- SKILL GAP SNAPSHOTS: Gaps and skill levels
+-- ============================================
+ALTER TABLE skill_gap_snapshots ADD COLUMN IF NOT EXISTS critical_gaps JSONB NOT NULL DEFAULT '[]';
+-- [{ skillName, proficiencyLevel }] the run was based on; NULL for runs from before snapshots
+ALTER TABLE skill_gap_snapshots ADD COLUMN IF NOT EXISTS skill_levels JSONB;
+
+-- Earlier runs only kept their readiness; the latest one still has its gaps
+UPDATE skill_gap_snapshots s
+SET critical_gaps = a.critical_gaps
+FROM skill_gap_analysis a
+WHERE a.roadmap_id = s.roadmap_id
+  AND a.user_id = s.user_id
+  AND a.analyzed_at = s.analyzed_at
+  AND a.critical_gaps IS NOT NULL;
@@ -0,0 +1,25 @@
+-- CareerGuide: Shared skill scoring
+-- Migration 018
+--
+-- Readiness is now scored in one place, supabase/functions/_shared/skill-scoring.ts,
+-- which analyze-skill-gaps and the web app both use. calculate_skill_readiness
+-- used to score skills again with exact name matches only and could disagree
+-- with the analysis, so it now returns the readiness of the latest analysis run.
+
+-- ============================================
+-- HELPER FUNCTION: Calculate skill readiness
+-- ============================================
+CREATE OR REPLACE FUNCTION calculate_skill_readiness(target_roadmap_id UUID, target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  readiness INTEGER := 0;
+BEGIN
+  SELECT overall_readiness INTO readiness
+  FROM skill_gap_snapshots
+  WHERE roadmap_id = target_roadmap_id AND user_id = target_user_id
+  ORDER BY analyzed_at DESC
+  LIMIT 1;
+
+  RETURN COALESCE(readiness, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,896 @@
+-- CareerGuide: Skill taxonomy
+-- Migration 019
+--
+-- Canonical skills with their aliases, parent categories and weighted edges
+-- between related skills. Skill matching in gap analysis, imports and the app
+-- resolves names through these tables instead of substring checks against
+-- hard-coded maps, so "java" no longer matches "javascript" and "ai" no longer
+-- matches every name containing those letters.
+--
+-- The seed has two parts: a hand-picked starter set covering the skills the
+-- roadmaps and career paths ask for most (categories, frameworks, tools and
+-- soft skills, with the related-skill edges), and every programming language
+-- in GitHub Linguist's language list (the linguist-languages package, MIT
+-- License) with Linguist's aliases. The languages are generated by
+-- scripts/language-taxonomy.mjs; run `npm run db:languages` after updating
+-- linguist-languages instead of editing them by hand.
+
+-- ============================================
+-- FUNCTION: Normalize a skill name
+-- ============================================
+-- Same rules as normalizeSkill in supabase/functions/_shared/skill-scoring.ts
+CREATE OR REPLACE FUNCTION normalize_skill_name(name TEXT)
+RETURNS TEXT AS $$
+  SELECT btrim(regexp_replace(regexp_replace(lower(name), '[._-]', '', 'g'), '\s+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- SKILL TAXONOMY TABLES
+-- ============================================
+CREATE TABLE IF NOT EXISTS skill_taxonomy (
+  id TEXT PRIMARY KEY, -- canonical skill ID, e.g. 'javascript'
+  name TEXT NOT NULL, -- display name
+  kind TEXT NOT NULL DEFAULT 'skill' CHECK (kind IN ('skill', 'category')),
+  parent_id TEXT REFERENCES skill_taxonomy ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Every name a skill is known by, normalized; includes the skill's own name
+CREATE TABLE IF NOT EXISTS skill_aliases (
+  alias TEXT PRIMARY KEY CHECK (alias = normalize_skill_name(alias)),
+  skill_id TEXT REFERENCES skill_taxonomy ON DELETE CASCADE NOT NULL
+);
+
+-- Experience in one skill carries over to the other; the weight (0-1) is the
+-- share of the level it counts for. Edges apply in both directions.
+CREATE TABLE IF NOT EXISTS skill_relations (
+  skill_id TEXT REFERENCES skill_taxonomy ON DELETE CASCADE NOT NULL,
+  related_skill_id TEXT REFERENCES skill_taxonomy ON DELETE CASCADE NOT NULL,
+  weight NUMERIC(3, 2) NOT NULL CHECK (weight > 0 AND weight <= 1),
+  PRIMARY KEY (skill_id, related_skill_id),
+  CHECK (skill_id <> related_skill_id)
+);
+
+-- Reference data is public (read-only for users)
+ALTER TABLE skill_taxonomy ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Skill taxonomy is viewable by everyone" ON skill_taxonomy
+  FOR SELECT USING (true);
+
+ALTER TABLE skill_aliases ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Skill aliases are viewable by everyone" ON skill_aliases
+  FOR SELECT USING (true);
+
+ALTER TABLE skill_relations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Skill relations are viewable by everyone" ON skill_relations
+  FOR SELECT USING (true);
+
+-- Indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_skill_aliases_skill_id ON skill_aliases(skill_id);
+CREATE INDEX IF NOT EXISTS idx_skill_relations_related_skill_id ON skill_relations(related_skill_id);
+
+-- ============================================
+-- SEED DATA
+-- ============================================
+INSERT INTO skill_taxonomy (id, name, kind, parent_id) VALUES
+  ('programming', 'Programming', 'category', NULL),
+  ('programming-languages', 'Programming Languages', 'category', 'programming'),
+  ('web-development', 'Web Development', 'category', 'programming'),
+  ('frontend-development', 'Frontend Development', 'category', 'web-development'),
+  ('backend-development', 'Backend Development', 'category', 'web-development'),
+  ('mobile-development', 'Mobile Development', 'category', 'programming'),
+  ('databases', 'Databases', 'category', NULL),
+  ('cloud-computing', 'Cloud Computing', 'category', NULL),
+  ('devops', 'DevOps', 'category', NULL),
+  ('software-testing', 'Software Testing', 'category', NULL),
+  ('data-analysis', 'Data Analysis', 'category', NULL),
+  ('machine-learning', 'Machine Learning', 'category', 'data-analysis'),
+  ('cybersecurity', 'Cybersecurity', 'category', NULL),
+  ('design', 'Design', 'category', NULL),
+  ('product-management', 'Product Management', 'category', NULL),
+  ('project-management', 'Project Management', 'category', NULL),
+  ('leadership', 'Leadership', 'category', NULL),
+  ('communication', 'Communication', 'category', NULL),
+  ('problem-solving', 'Problem Solving', 'category', NULL),
+  ('marketing', 'Marketing', 'category', NULL),
+  ('sales', 'Sales', 'category', NULL),
+  ('finance', 'Finance', 'category', NULL)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO skill_taxonomy (id, name, kind, parent_id) VALUES
+  ('javascript', 'JavaScript', 'skill', 'programming-languages'),
+  ('typescript', 'TypeScript', 'skill', 'programming-languages'),
+  ('python', 'Python', 'skill', 'programming-languages'),
+  ('java', 'Java', 'skill', 'programming-languages'),
+  ('csharp', 'C#', 'skill', 'programming-languages'),
+  ('cpp', 'C++', 'skill', 'programming-languages'),
+  ('c', 'C', 'skill', 'programming-languages'),
+  ('go', 'Go', 'skill', 'programming-languages'),
+  ('rust', 'Rust', 'skill', 'programming-languages'),
+  ('ruby', 'Ruby', 'skill', 'programming-languages'),
+  ('php', 'PHP', 'skill', 'programming-languages'),
+  ('kotlin', 'Kotlin', 'skill', 'programming-languages'),
+  ('swift', 'Swift', 'skill', 'programming-languages'),
+  ('r', 'R', 'skill', 'programming-languages'),
+  ('sql', 'SQL', 'skill', 'databases'),
+  ('html', 'HTML', 'skill', 'frontend-development'),
+  ('css', 'CSS', 'skill', 'frontend-development'),
+  ('react', 'React', 'skill', 'frontend-development'),
+  ('vue', 'Vue', 'skill', 'frontend-development'),
+  ('angular', 'Angular', 'skill', 'frontend-development'),
+  ('nodejs', 'Node.js', 'skill', 'backend-development'),
+  ('express', 'Express', 'skill', 'backend-development'),
+  ('django', 'Django', 'skill', 'backend-development'),
+  ('flask', 'Flask', 'skill', 'backend-development'),
+  ('spring', 'Spring', 'skill', 'backend-development'),
+  ('dotnet', '.NET', 'skill', 'backend-development'),
+  ('rest-apis', 'REST APIs', 'skill', 'backend-development'),
+  ('graphql', 'GraphQL', 'skill', 'backend-development'),
+  ('react-native', 'React Native', 'skill', 'mobile-development'),
+  ('flutter', 'Flutter', 'skill', 'mobile-development'),
+  ('ios-development', 'iOS Development', 'skill', 'mobile-development'),
+  ('android-development', 'Android Development', 'skill', 'mobile-development'),
+  ('postgresql', 'PostgreSQL', 'skill', 'databases'),
+  ('mysql', 'MySQL', 'skill', 'databases'),
+  ('mongodb', 'MongoDB', 'skill', 'databases'),
+  ('redis', 'Redis', 'skill', 'databases'),
+  ('aws', 'Amazon Web Services', 'skill', 'cloud-computing'),
+  ('gcp', 'Google Cloud Platform', 'skill', 'cloud-computing'),
+  ('azure', 'Microsoft Azure', 'skill', 'cloud-computing'),
+  ('docker', 'Docker', 'skill', 'devops'),
+  ('kubernetes', 'Kubernetes', 'skill', 'devops'),
+  ('ci-cd', 'CI/CD', 'skill', 'devops'),
+  ('terraform', 'Terraform', 'skill', 'devops'),
+  ('linux', 'Linux', 'skill', 'devops'),
+  ('git', 'Git', 'skill', 'programming'),
+  ('unit-testing', 'Unit Testing', 'skill', 'software-testing'),
+  ('test-automation', 'Test Automation', 'skill', 'software-testing'),
+  ('statistics', 'Statistics', 'skill', 'data-analysis'),
+  ('excel', 'Excel', 'skill', 'data-analysis'),
+  ('data-visualization', 'Data Visualization', 'skill', 'data-analysis'),
+  ('data-science', 'Data Science', 'skill', 'data-analysis'),
+  ('deep-learning', 'Deep Learning', 'skill', 'machine-learning'),
+  ('nlp', 'Natural Language Processing', 'skill', 'machine-learning'),
+  ('artificial-intelligence', 'Artificial Intelligence', 'skill', 'machine-learning'),
+  ('pandas', 'Pandas', 'skill', 'data-analysis'),
+  ('tensorflow', 'TensorFlow', 'skill', 'machine-learning'),
+  ('pytorch', 'PyTorch', 'skill', 'machine-learning'),
+  ('network-security', 'Network Security', 'skill', 'cybersecurity'),
+  ('incident-response', 'Incident Response', 'skill', 'cybersecurity'),
+  ('risk-assessment', 'Risk Assessment', 'skill', 'cybersecurity'),
+  ('compliance', 'Compliance', 'skill', 'cybersecurity'),
+  ('user-research', 'User Research', 'skill', 'design'),
+  ('ux-design', 'UX Design', 'skill', 'design'),
+  ('ui-design', 'UI Design', 'skill', 'design'),
+  ('visual-design', 'Visual Design', 'skill', 'design'),
+  ('wireframing', 'Wireframing', 'skill', 'design'),
+  ('prototyping', 'Prototyping', 'skill', 'design'),
+  ('product-strategy', 'Product Strategy', 'skill', 'product-management'),
+  ('roadmapping', 'Product Roadmapping', 'skill', 'product-management'),
+  ('agile', 'Agile', 'skill', 'project-management'),
+  ('stakeholder-management', 'Stakeholder Management', 'skill', 'project-management'),
+  ('team-management', 'Team Management', 'skill', 'leadership'),
+  ('mentoring', 'Mentoring', 'skill', 'leadership'),
+  ('coaching', 'Coaching', 'skill', 'leadership'),
+  ('public-speaking', 'Public Speaking', 'skill', 'communication'),
+  ('technical-writing', 'Technical Writing', 'skill', 'communication'),
+  ('writing', 'Writing', 'skill', 'communication'),
+  ('critical-thinking', 'Critical Thinking', 'skill', 'problem-solving'),
+  ('debugging', 'Debugging', 'skill', 'problem-solving'),
+  ('seo', 'Search Engine Optimization', 'skill', 'marketing'),
+  ('digital-marketing', 'Digital Marketing', 'skill', 'marketing'),
+  ('content-marketing', 'Content Marketing', 'skill', 'marketing'),
+  ('social-media-marketing', 'Social Media Marketing', 'skill', 'marketing'),
+  ('business-development', 'Business Development', 'skill', 'sales'),
+  ('account-management', 'Account Management', 'skill', 'sales'),
+  ('customer-relations', 'Customer Relations', 'skill', 'sales'),
+  ('financial-analysis', 'Financial Analysis', 'skill', 'finance'),
+  ('accounting', 'Accounting', 'skill', 'finance')
+ON CONFLICT (id) DO NOTHING;
+
+-- Other names each skill goes by (names themselves are added below)
+INSERT INTO skill_aliases (alias, skill_id) VALUES
+  ('js', 'javascript'),
+  ('ecmascript', 'javascript'),
+  ('es6', 'javascript'),
+  ('es2015', 'javascript'),
+  ('ts', 'typescript'),
+  ('py', 'python'),
+  ('python3', 'python'),
+  ('c sharp', 'csharp'),
+  ('csharp', 'csharp'),
+  ('cplusplus', 'cpp'),
+  ('cpp', 'cpp'),
+  ('golang', 'go'),
+  ('r programming', 'r'),
+  ('structured query language', 'sql'),
+  ('html5', 'html'),
+  ('css3', 'css'),
+  ('reactjs', 'react'),
+  ('vuejs', 'vue'),
+  ('angularjs', 'angular'),
+  ('node', 'nodejs'),
+  ('node js', 'nodejs'),
+  ('expressjs', 'express'),
+  ('spring boot', 'spring'),
+  ('dotnet', 'dotnet'),
+  ('aspnet', 'dotnet'),
+  ('rest', 'rest-apis'),
+  ('restful apis', 'rest-apis'),
+  ('api design', 'rest-apis'),
+  ('ios', 'ios-development'),
+  ('android', 'android-development'),
+  ('postgres', 'postgresql'),
+  ('psql', 'postgresql'),
+  ('mongo', 'mongodb'),
+  ('aws', 'aws'),
+  ('gcp', 'gcp'),
+  ('google cloud', 'gcp'),
+  ('azure', 'azure'),
+  ('containers', 'docker'),
+  ('k8s', 'kubernetes'),
+  ('cicd', 'ci-cd'),
+  ('ci cd', 'ci-cd'),
+  ('continuous integration', 'ci-cd'),
+  ('continuous deployment', 'ci-cd'),
+  ('continuous delivery', 'ci-cd'),
+  ('infrastructure as code', 'terraform'),
+  ('iac', 'terraform'),
+  ('unix', 'linux'),
+  ('version control', 'git'),
+  ('github', 'git'),
+  ('gitlab', 'git'),
+  ('testing', 'unit-testing'),
+  ('automated testing', 'test-automation'),
+  ('selenium', 'test-automation'),
+  ('cypress', 'test-automation'),
+  ('statistical analysis', 'statistics'),
+  ('microsoft excel', 'excel'),
+  ('spreadsheets', 'excel'),
+  ('tableau', 'data-visualization'),
+  ('power bi', 'data-visualization'),
+  ('dataviz', 'data-visualization'),
+  ('neural networks', 'deep-learning'),
+  ('nlp', 'nlp'),
+  ('ai', 'artificial-intelligence'),
+  ('risk management', 'risk-assessment'),
+  ('regulatory compliance', 'compliance'),
+  ('ux research', 'user-research'),
+  ('user experience', 'ux-design'),
+  ('ux', 'ux-design'),
+  ('user experience design', 'ux-design'),
+  ('user interface', 'ui-design'),
+  ('ui', 'ui-design'),
+  ('user interface design', 'ui-design'),
+  ('graphic design', 'visual-design'),
+  ('wireframes', 'wireframing'),
+  ('figma', 'prototyping'),
+  ('strategy', 'product-strategy'),
+  ('roadmapping', 'roadmapping'),
+  ('scrum', 'agile'),
+  ('kanban', 'agile'),
+  ('agile methodologies', 'agile'),
+  ('people management', 'team-management'),
+  ('management', 'team-management'),
+  ('presentation', 'public-speaking'),
+  ('presentations', 'public-speaking'),
+  ('documentation', 'technical-writing'),
+  ('copywriting', 'writing'),
+  ('analytical thinking', 'critical-thinking'),
+  ('troubleshooting', 'debugging'),
+  ('seo', 'seo'),
+  ('online marketing', 'digital-marketing'),
+  ('social media', 'social-media-marketing'),
+  ('customer relationship management', 'customer-relations'),
+  ('crm', 'customer-relations'),
+  ('bookkeeping', 'accounting')
+ON CONFLICT (alias) DO NOTHING;
+
+INSERT INTO skill_relations (skill_id, related_skill_id, weight) VALUES
+  ('typescript', 'javascript', 0.8),
+  ('react', 'react-native', 0.6),
+  ('react', 'vue', 0.5),
+  ('react', 'angular', 0.5),
+  ('vue', 'angular', 0.5),
+  ('javascript', 'nodejs', 0.6),
+  ('express', 'nodejs', 0.7),
+  ('python', 'django', 0.5),
+  ('python', 'flask', 0.5),
+  ('java', 'spring', 0.5),
+  ('csharp', 'dotnet', 0.6),
+  ('java', 'kotlin', 0.6),
+  ('c', 'cpp', 0.6),
+  ('java', 'csharp', 0.5),
+  ('postgresql', 'mysql', 0.7),
+  ('postgresql', 'sql', 0.7),
+  ('mysql', 'sql', 0.7),
+  ('aws', 'gcp', 0.6),
+  ('aws', 'azure', 0.6),
+  ('gcp', 'azure', 0.6),
+  ('docker', 'kubernetes', 0.5),
+  ('terraform', 'aws', 0.4),
+  ('python', 'r', 0.4),
+  ('python', 'pandas', 0.5),
+  ('statistics', 'data-science', 0.6),
+  ('r', 'statistics', 0.5),
+  ('data-science', 'machine-learning', 0.6),
+  ('deep-learning', 'tensorflow', 0.6),
+  ('deep-learning', 'pytorch', 0.6),
+  ('excel', 'financial-analysis', 0.4),
+  ('excel', 'data-visualization', 0.4),
+  ('ux-design', 'ui-design', 0.6),
+  ('ux-design', 'user-research', 0.6),
+  ('ui-design', 'visual-design', 0.6),
+  ('wireframing', 'prototyping', 0.7),
+  ('team-management', 'stakeholder-management', 0.5),
+  ('mentoring', 'coaching', 0.7),
+  ('technical-writing', 'writing', 0.7),
+  ('critical-thinking', 'debugging', 0.4),
+  ('digital-marketing', 'seo', 0.6),
+  ('digital-marketing', 'content-marketing', 0.6),
+  ('digital-marketing', 'social-media-marketing', 0.6),
+  ('business-development', 'account-management', 0.5),
+  ('account-management', 'customer-relations', 0.6),
+  ('swift', 'ios-development', 0.7),
+  ('kotlin', 'android-development', 0.7),
+  ('network-security', 'incident-response', 0.5),
+  ('risk-assessment', 'compliance', 0.6),
+  ('unit-testing', 'test-automation', 0.6)
+ON CONFLICT (skill_id, related_skill_id) DO NOTHING;
+
+-- Each skill and category is also known by its own name
+INSERT INTO skill_aliases (alias, skill_id)
+SELECT normalize_skill_name(name), id FROM skill_taxonomy
+ON CONFLICT (alias) DO NOTHING;
+
+-- ============================================
+-- SEED DATA: Programming languages (GitHub Linguist)
+-- ============================================
+-- Languages the starter set already has keep their IDs and gain Linguist's
+-- aliases; aliases the starter set gives another skill are kept as they are
+CREATE TEMP TABLE linguist_languages (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  aliases TEXT[] NOT NULL
+);
+
+-- BEGIN GENERATED: npm run db:languages
+-- linguist-languages 9.5.0: 515 programming languages
+INSERT INTO linguist_languages (id, name, aliases) VALUES
+  ('1c-enterprise', '1C Enterprise', ARRAY[]::TEXT[]),
+  ('4d', '4D', ARRAY[]::TEXT[]),
+  ('abap', 'ABAP', ARRAY[]::TEXT[]),
+  ('abap-cds', 'ABAP CDS', ARRAY[]::TEXT[]),
+  ('actionscript', 'ActionScript', ARRAY['actionscript 3', 'actionscript3', 'as3']::TEXT[]),
+  ('ada', 'Ada', ARRAY['ada95', 'ada2005']::TEXT[]),
+  ('agda', 'Agda', ARRAY[]::TEXT[]),
+  ('ags-script', 'AGS Script', ARRAY['ags']::TEXT[]),
+  ('aidl', 'AIDL', ARRAY[]::TEXT[]),
+  ('aiken', 'Aiken', ARRAY[]::TEXT[]),
+  ('al', 'AL', ARRAY[]::TEXT[]),
+  ('aleo', 'Aleo', ARRAY[]::TEXT[]),
+  ('algol', 'ALGOL', ARRAY[]::TEXT[]),
+  ('alloy', 'Alloy', ARRAY[]::TEXT[]),
+  ('ampl', 'AMPL', ARRAY[]::TEXT[]),
+  ('angelscript', 'AngelScript', ARRAY[]::TEXT[]),
+  ('answer-set-programming', 'Answer Set Programming', ARRAY[]::TEXT[]),
+  ('antlr', 'ANTLR', ARRAY[]::TEXT[]),
+  ('apex', 'Apex', ARRAY[]::TEXT[]),
+  ('apl', 'APL', ARRAY[]::TEXT[]),
+  ('applescript', 'AppleScript', ARRAY['apples', 'osascript']::TEXT[]),
+  ('arc', 'Arc', ARRAY[]::TEXT[]),
+  ('asl', 'ASL', ARRAY[]::TEXT[]),
+  ('asp-net', 'ASP.NET', ARRAY['aspx', 'aspx-vb']::TEXT[]),
+  ('aspectj', 'AspectJ', ARRAY[]::TEXT[]),
+  ('assembly', 'Assembly', ARRAY['asm', 'nasm']::TEXT[]),
+  ('asymptote', 'Asymptote', ARRAY[]::TEXT[]),
+  ('ats', 'ATS', ARRAY['ats2']::TEXT[]),
+  ('augeas', 'Augeas', ARRAY[]::TEXT[]),
+  ('autohotkey', 'AutoHotkey', ARRAY['ahk']::TEXT[]),
+  ('autoit', 'AutoIt', ARRAY['au3', 'AutoIt3', 'AutoItScript']::TEXT[]),
+  ('awk', 'Awk', ARRAY[]::TEXT[]),
+  ('b', 'B', ARRAY[]::TEXT[]),
+  ('b-formal-method', 'B (Formal Method)', ARRAY[]::TEXT[]),
+  ('b4x', 'B4X', ARRAY['basic for android']::TEXT[]),
+  ('ballerina', 'Ballerina', ARRAY[]::TEXT[]),
+  ('baml', 'BAML', ARRAY[]::TEXT[]),
+  ('basic', 'BASIC', ARRAY[]::TEXT[]),
+  ('batchfile', 'Batchfile', ARRAY['bat', 'batch', 'dosbatch', 'winbatch']::TEXT[]),
+  ('beef', 'Beef', ARRAY[]::TEXT[]),
+  ('befunge', 'Befunge', ARRAY[]::TEXT[]),
+  ('berry', 'Berry', ARRAY['be']::TEXT[]),
+  ('bibtex-style', 'BibTeX Style', ARRAY[]::TEXT[]),
+  ('bicep', 'Bicep', ARRAY[]::TEXT[]),
+  ('bitbake', 'BitBake', ARRAY[]::TEXT[]),
+  ('blitzbasic', 'BlitzBasic', ARRAY['b3d', 'blitz3d', 'blitzplus', 'bplus']::TEXT[]),
+  ('blitzmax', 'BlitzMax', ARRAY['bmax']::TEXT[]),
+  ('bluespec', 'Bluespec', ARRAY['bluespec bsv', 'bsv']::TEXT[]),
+  ('boo', 'Boo', ARRAY[]::TEXT[]),
+  ('boogie', 'Boogie', ARRAY[]::TEXT[]),
+  ('bqn', 'BQN', ARRAY[]::TEXT[]),
+  ('brainfuck', 'Brainfuck', ARRAY[]::TEXT[]),
+  ('brighterscript', 'BrighterScript', ARRAY[]::TEXT[]),
+  ('brightscript', 'Brightscript', ARRAY[]::TEXT[]),
+  ('c', 'C', ARRAY[]::TEXT[]),
+  ('csharp', 'C#', ARRAY['csharp', 'cake', 'cakescript']::TEXT[]),
+  ('cplusplus', 'C++', ARRAY['cpp']::TEXT[]),
+  ('c3', 'C3', ARRAY[]::TEXT[]),
+  ('cadence', 'Cadence', ARRAY[]::TEXT[]),
+  ('cairo', 'Cairo', ARRAY[]::TEXT[]),
+  ('cangjie', 'Cangjie', ARRAY[]::TEXT[]),
+  ('cap-cds', 'CAP CDS', ARRAY['cds']::TEXT[]),
+  ('cap-n-proto', 'Cap''n Proto', ARRAY[]::TEXT[]),
+  ('carbon', 'Carbon', ARRAY[]::TEXT[]),
+  ('cartocss', 'CartoCSS', ARRAY['Carto']::TEXT[]),
+  ('ceylon', 'Ceylon', ARRAY[]::TEXT[]),
+  ('chapel', 'Chapel', ARRAY['chpl']::TEXT[]),
+  ('charity', 'Charity', ARRAY[]::TEXT[]),
+  ('chuck', 'ChucK', ARRAY[]::TEXT[]),
+  ('circom', 'Circom', ARRAY[]::TEXT[]),
+  ('cirru', 'Cirru', ARRAY[]::TEXT[]),
+  ('clarion', 'Clarion', ARRAY[]::TEXT[]),
+  ('clarity', 'Clarity', ARRAY[]::TEXT[]),
+  ('classic-asp', 'Classic ASP', ARRAY['asp']::TEXT[]),
+  ('clean', 'Clean', ARRAY[]::TEXT[]),
+  ('click', 'Click', ARRAY[]::TEXT[]),
+  ('clips', 'CLIPS', ARRAY[]::TEXT[]),
+  ('clojure', 'Clojure', ARRAY[]::TEXT[]),
+  ('clue', 'Clue', ARRAY[]::TEXT[]),
+  ('cmake', 'CMake', ARRAY[]::TEXT[]),
+  ('cobol', 'COBOL', ARRAY[]::TEXT[]),
+  ('codeql', 'CodeQL', ARRAY['ql']::TEXT[]),
+  ('coffeescript', 'CoffeeScript', ARRAY['coffee', 'coffee-script']::TEXT[]),
+  ('coldfusion', 'ColdFusion', ARRAY['cfm', 'cfml', 'coldfusion html']::TEXT[]),
+  ('common-lisp', 'Common Lisp', ARRAY['lisp']::TEXT[]),
+  ('common-workflow-language', 'Common Workflow Language', ARRAY['cwl']::TEXT[]),
+  ('component-pascal', 'Component Pascal', ARRAY[]::TEXT[]),
+  ('cool', 'Cool', ARRAY[]::TEXT[]),
+  ('cql', 'CQL', ARRAY[]::TEXT[]),
+  ('crystal', 'Crystal', ARRAY[]::TEXT[]),
+  ('csound', 'Csound', ARRAY['csound-orc']::TEXT[]),
+  ('csound-document', 'Csound Document', ARRAY['csound-csd']::TEXT[]),
+  ('csound-score', 'Csound Score', ARRAY['csound-sco']::TEXT[]),
+  ('cuda', 'Cuda', ARRAY[]::TEXT[]),
+  ('cue', 'CUE', ARRAY[]::TEXT[]),
+  ('curry', 'Curry', ARRAY[]::TEXT[]),
+  ('cweb', 'CWeb', ARRAY[]::TEXT[]),
+  ('cycript', 'Cycript', ARRAY[]::TEXT[]),
+  ('cypher', 'Cypher', ARRAY[]::TEXT[]),
+  ('cython', 'Cython', ARRAY['pyrex']::TEXT[]),
+  ('d', 'D', ARRAY['Dlang']::TEXT[]),
+  ('dafny', 'Dafny', ARRAY[]::TEXT[]),
+  ('dart', 'Dart', ARRAY[]::TEXT[]),
+  ('daslang', 'Daslang', ARRAY[]::TEXT[]),
+  ('dataweave', 'DataWeave', ARRAY[]::TEXT[]),
+  ('denizenscript', 'DenizenScript', ARRAY[]::TEXT[]),
+  ('dhall', 'Dhall', ARRAY[]::TEXT[]),
+  ('digital-command-language', 'DIGITAL Command Language', ARRAY['dcl']::TEXT[]),
+  ('dm', 'DM', ARRAY['byond']::TEXT[]),
+  ('dockerfile', 'Dockerfile', ARRAY['Containerfile']::TEXT[]),
+  ('dogescript', 'Dogescript', ARRAY[]::TEXT[]),
+  ('dtrace', 'DTrace', ARRAY['dtrace-script']::TEXT[]),
+  ('dune', 'Dune', ARRAY[]::TEXT[]),
+  ('dylan', 'Dylan', ARRAY[]::TEXT[]),
+  ('e', 'E', ARRAY[]::TEXT[]),
+  ('earthly', 'Earthly', ARRAY['Earthfile']::TEXT[]),
+  ('ec', 'eC', ARRAY[]::TEXT[]),
+  ('ecl', 'ECL', ARRAY[]::TEXT[]),
+  ('edgeql', 'EdgeQL', ARRAY['esdl']::TEXT[]),
+  ('eiffel', 'Eiffel', ARRAY[]::TEXT[]),
+  ('elixir', 'Elixir', ARRAY[]::TEXT[]),
+  ('elm', 'Elm', ARRAY[]::TEXT[]),
+  ('elvish', 'Elvish', ARRAY[]::TEXT[]),
+  ('emacs-lisp', 'Emacs Lisp', ARRAY['cask', 'eask', 'elisp', 'emacs']::TEXT[]),
+  ('emberscript', 'EmberScript', ARRAY[]::TEXT[]),
+  ('eq', 'EQ', ARRAY[]::TEXT[]),
+  ('erlang', 'Erlang', ARRAY[]::TEXT[]),
+  ('euphoria', 'Euphoria', ARRAY[]::TEXT[]),
+  ('f', 'F*', ARRAY['fstar']::TEXT[]),
+  ('fsharp', 'F#', ARRAY['fsharp']::TEXT[]),
+  ('factor', 'Factor', ARRAY[]::TEXT[]),
+  ('fancy', 'Fancy', ARRAY[]::TEXT[]),
+  ('fantom', 'Fantom', ARRAY[]::TEXT[]),
+  ('faust', 'Faust', ARRAY[]::TEXT[]),
+  ('fennel', 'Fennel', ARRAY[]::TEXT[]),
+  ('filebench-wml', 'Filebench WML', ARRAY[]::TEXT[]),
+  ('firrtl', 'FIRRTL', ARRAY[]::TEXT[]),
+  ('flix', 'Flix', ARRAY[]::TEXT[]),
+  ('fluent', 'Fluent', ARRAY[]::TEXT[]),
+  ('flux', 'FLUX', ARRAY[]::TEXT[]),
+  ('forth', 'Forth', ARRAY[]::TEXT[]),
+  ('fortran', 'Fortran', ARRAY[]::TEXT[]),
+  ('fpp', 'FPP', ARRAY[]::TEXT[]),
+  ('freebasic', 'FreeBASIC', ARRAY['fb']::TEXT[]),
+  ('freemarker', 'FreeMarker', ARRAY['ftl']::TEXT[]),
+  ('frege', 'Frege', ARRAY[]::TEXT[]),
+  ('futhark', 'Futhark', ARRAY[]::TEXT[]),
+  ('g-code', 'G-code', ARRAY[]::TEXT[]),
+  ('game-maker-language', 'Game Maker Language', ARRAY[]::TEXT[]),
+  ('gaml', 'GAML', ARRAY[]::TEXT[]),
+  ('gams', 'GAMS', ARRAY[]::TEXT[]),
+  ('gap', 'GAP', ARRAY[]::TEXT[]),
+  ('gcc-machine-description', 'GCC Machine Description', ARRAY[]::TEXT[]),
+  ('gdb', 'GDB', ARRAY[]::TEXT[]),
+  ('gdscript', 'GDScript', ARRAY[]::TEXT[]),
+  ('gdshader', 'GDShader', ARRAY[]::TEXT[]),
+  ('genero-4gl', 'Genero 4gl', ARRAY[]::TEXT[]),
+  ('genie', 'Genie', ARRAY[]::TEXT[]),
+  ('genshi', 'Genshi', ARRAY['xml+genshi', 'xml+kid']::TEXT[]),
+  ('gherkin', 'Gherkin', ARRAY['cucumber']::TEXT[]),
+  ('gleam', 'Gleam', ARRAY[]::TEXT[]),
+  ('glsl', 'GLSL', ARRAY[]::TEXT[]),
+  ('glyph', 'Glyph', ARRAY[]::TEXT[]),
+  ('gno', 'Gno', ARRAY['gnolang']::TEXT[]),
+  ('gnuplot', 'Gnuplot', ARRAY[]::TEXT[]),
+  ('go', 'Go', ARRAY['golang']::TEXT[]),
+  ('golo', 'Golo', ARRAY[]::TEXT[]),
+  ('gosu', 'Gosu', ARRAY[]::TEXT[]),
+  ('grace', 'Grace', ARRAY[]::TEXT[]),
+  ('grammatical-framework', 'Grammatical Framework', ARRAY['gf']::TEXT[]),
+  ('groovy', 'Groovy', ARRAY[]::TEXT[]),
+  ('gsc', 'GSC', ARRAY[]::TEXT[]),
+  ('hack', 'Hack', ARRAY[]::TEXT[]),
+  ('harbour', 'Harbour', ARRAY[]::TEXT[]),
+  ('hare', 'Hare', ARRAY[]::TEXT[]),
+  ('haskell', 'Haskell', ARRAY[]::TEXT[]),
+  ('haxe', 'Haxe', ARRAY[]::TEXT[]),
+  ('hcl', 'HCL', ARRAY['HashiCorp Configuration Language', 'opentofu', 'terraform']::TEXT[]),
+  ('hip', 'HIP', ARRAY[]::TEXT[]),
+  ('hiveql', 'HiveQL', ARRAY[]::TEXT[]),
+  ('hlsl', 'HLSL', ARRAY[]::TEXT[]),
+  ('holyc', 'HolyC', ARRAY[]::TEXT[]),
+  ('hoon', 'hoon', ARRAY[]::TEXT[]),
+  ('hurl', 'Hurl', ARRAY[]::TEXT[]),
+  ('hy', 'Hy', ARRAY['hylang']::TEXT[]),
+  ('hyphy', 'HyPhy', ARRAY[]::TEXT[]),
+  ('idl', 'IDL', ARRAY[]::TEXT[]),
+  ('idris', 'Idris', ARRAY[]::TEXT[]),
+  ('igor-pro', 'IGOR Pro', ARRAY['igor', 'igorpro']::TEXT[]),
+  ('il-assembly', 'IL Assembly', ARRAY['ilasm', 'msil']::TEXT[]),
+  ('imagej-macro', 'ImageJ Macro', ARRAY['ijm']::TEXT[]),
+  ('imba', 'Imba', ARRAY[]::TEXT[]),
+  ('imhex-pattern-language', 'ImHex Pattern Language', ARRAY['ImHex', 'ImHexPatternLanguage', 'imhexpl']::TEXT[]),
+  ('inform-7', 'Inform 7', ARRAY['i7', 'inform7']::TEXT[]),
+  ('ink', 'Ink', ARRAY[]::TEXT[]),
+  ('inno-setup', 'Inno Setup', ARRAY[]::TEXT[]),
+  ('io', 'Io', ARRAY[]::TEXT[]),
+  ('ioke', 'Ioke', ARRAY[]::TEXT[]),
+  ('isabelle', 'Isabelle', ARRAY[]::TEXT[]),
+  ('ispc', 'ISPC', ARRAY[]::TEXT[]),
+  ('j', 'J', ARRAY[]::TEXT[]),
+  ('jac', 'Jac', ARRAY[]::TEXT[]),
+  ('jai', 'Jai', ARRAY[]::TEXT[]),
+  ('janet', 'Janet', ARRAY[]::TEXT[]),
+  ('jasmin', 'Jasmin', ARRAY[]::TEXT[]),
+  ('jass', 'JASS', ARRAY['jass2']::TEXT[]),
+  ('java', 'Java', ARRAY[]::TEXT[]),
+  ('javascript', 'JavaScript', ARRAY['js', 'node']::TEXT[]),
+  ('jcl', 'JCL', ARRAY[]::TEXT[]),
+  ('jetbrains-mps', 'JetBrains MPS', ARRAY['mps']::TEXT[]),
+  ('jolie', 'Jolie', ARRAY[]::TEXT[]),
+  ('jq', 'jq', ARRAY[]::TEXT[]),
+  ('jsoniq', 'JSONiq', ARRAY[]::TEXT[]),
+  ('jsonnet', 'Jsonnet', ARRAY[]::TEXT[]),
+  ('julia', 'Julia', ARRAY[]::TEXT[]),
+  ('just', 'Just', ARRAY['Justfile']::TEXT[]),
+  ('kaitai-struct', 'Kaitai Struct', ARRAY['ksy']::TEXT[]),
+  ('kakounescript', 'KakouneScript', ARRAY['kak', 'kakscript']::TEXT[]),
+  ('kcl', 'KCL', ARRAY[]::TEXT[]),
+  ('kerboscript', 'KerboScript', ARRAY[]::TEXT[]),
+  ('kframework', 'KFramework', ARRAY[]::TEXT[]),
+  ('koka', 'Koka', ARRAY[]::TEXT[]),
+  ('kolmafia-ash', 'KoLmafia ASH', ARRAY[]::TEXT[]),
+  ('kotlin', 'Kotlin', ARRAY[]::TEXT[]),
+  ('krl', 'KRL', ARRAY[]::TEXT[]),
+  ('labview', 'LabVIEW', ARRAY[]::TEXT[]),
+  ('lambdapi', 'Lambdapi', ARRAY[]::TEXT[]),
+  ('langium', 'Langium', ARRAY[]::TEXT[]),
+  ('lasso', 'Lasso', ARRAY['lassoscript']::TEXT[]),
+  ('lean', 'Lean', ARRAY[]::TEXT[]),
+  ('leo', 'Leo', ARRAY[]::TEXT[]),
+  ('lex', 'Lex', ARRAY['flex']::TEXT[]),
+  ('lfe', 'LFE', ARRAY[]::TEXT[]),
+  ('ligolang', 'LigoLANG', ARRAY[]::TEXT[]),
+  ('lilypond', 'LilyPond', ARRAY[]::TEXT[]),
+  ('limbo', 'Limbo', ARRAY[]::TEXT[]),
+  ('linear-programming', 'Linear Programming', ARRAY[]::TEXT[]),
+  ('linker-script', 'Linker Script', ARRAY[]::TEXT[]),
+  ('liquidsoap', 'Liquidsoap', ARRAY[]::TEXT[]),
+  ('livecode-script', 'LiveCode Script', ARRAY[]::TEXT[]),
+  ('livescript', 'LiveScript', ARRAY['live-script', 'ls']::TEXT[]),
+  ('llvm', 'LLVM', ARRAY[]::TEXT[]),
+  ('lobster', 'Lobster', ARRAY[]::TEXT[]),
+  ('logos', 'Logos', ARRAY[]::TEXT[]),
+  ('logtalk', 'Logtalk', ARRAY[]::TEXT[]),
+  ('lolcode', 'LOLCODE', ARRAY[]::TEXT[]),
+  ('lookml', 'LookML', ARRAY[]::TEXT[]),
+  ('loomscript', 'LoomScript', ARRAY[]::TEXT[]),
+  ('lsl', 'LSL', ARRAY[]::TEXT[]),
+  ('lua', 'Lua', ARRAY[]::TEXT[]),
+  ('luau', 'Luau', ARRAY[]::TEXT[]),
+  ('m', 'M', ARRAY['mumps']::TEXT[]),
+  ('m4', 'M4', ARRAY[]::TEXT[]),
+  ('macaulay2', 'Macaulay2', ARRAY['m2']::TEXT[]),
+  ('makefile', 'Makefile', ARRAY['bsdmake', 'make', 'mf']::TEXT[]),
+  ('mako', 'Mako', ARRAY[]::TEXT[]),
+  ('mathematical-programming-system', 'Mathematical Programming System', ARRAY[]::TEXT[]),
+  ('matlab', 'MATLAB', ARRAY['octave']::TEXT[]),
+  ('max', 'Max', ARRAY['max/msp', 'maxmsp']::TEXT[]),
+  ('maxscript', 'MAXScript', ARRAY[]::TEXT[]),
+  ('mcfunction', 'mcfunction', ARRAY[]::TEXT[]),
+  ('mercury', 'Mercury', ARRAY[]::TEXT[]),
+  ('meson', 'Meson', ARRAY[]::TEXT[]),
+  ('metal', 'Metal', ARRAY[]::TEXT[]),
+  ('metta', 'MeTTa', ARRAY[]::TEXT[]),
+  ('minid', 'MiniD', ARRAY[]::TEXT[]),
+  ('miniscript', 'MiniScript', ARRAY[]::TEXT[]),
+  ('minizinc', 'MiniZinc', ARRAY[]::TEXT[]),
+  ('mint', 'Mint', ARRAY[]::TEXT[]),
+  ('mirah', 'Mirah', ARRAY[]::TEXT[]),
+  ('mirc-script', 'mIRC Script', ARRAY[]::TEXT[]),
+  ('mlir', 'MLIR', ARRAY[]::TEXT[]),
+  ('modelica', 'Modelica', ARRAY[]::TEXT[]),
+  ('modula-2', 'Modula-2', ARRAY[]::TEXT[]),
+  ('modula-3', 'Modula-3', ARRAY[]::TEXT[]),
+  ('module-management-system', 'Module Management System', ARRAY[]::TEXT[]),
+  ('mojo', 'Mojo', ARRAY[]::TEXT[]),
+  ('monkey', 'Monkey', ARRAY[]::TEXT[]),
+  ('monkey-c', 'Monkey C', ARRAY[]::TEXT[]),
+  ('moocode', 'Moocode', ARRAY[]::TEXT[]),
+  ('moonbit', 'MoonBit', ARRAY[]::TEXT[]),
+  ('moonscript', 'MoonScript', ARRAY[]::TEXT[]),
+  ('motoko', 'Motoko', ARRAY[]::TEXT[]),
+  ('move', 'Move', ARRAY[]::TEXT[]),
+  ('mql4', 'MQL4', ARRAY[]::TEXT[]),
+  ('mql5', 'MQL5', ARRAY[]::TEXT[]),
+  ('mupad', 'mupad', ARRAY[]::TEXT[]),
+  ('myghty', 'Myghty', ARRAY[]::TEXT[]),
+  ('nasal', 'Nasal', ARRAY[]::TEXT[]),
+  ('nasl', 'NASL', ARRAY[]::TEXT[]),
+  ('ncl', 'NCL', ARRAY[]::TEXT[]),
+  ('nearley', 'Nearley', ARRAY[]::TEXT[]),
+  ('nemerle', 'Nemerle', ARRAY[]::TEXT[]),
+  ('nesc', 'nesC', ARRAY[]::TEXT[]),
+  ('netlinx', 'NetLinx', ARRAY[]::TEXT[]),
+  ('netlinxpluserb', 'NetLinx+ERB', ARRAY[]::TEXT[]),
+  ('netlogo', 'NetLogo', ARRAY[]::TEXT[]),
+  ('newlisp', 'NewLisp', ARRAY[]::TEXT[]),
+  ('nextflow', 'Nextflow', ARRAY[]::TEXT[]),
+  ('nickel', 'Nickel', ARRAY[]::TEXT[]),
+  ('nim', 'Nim', ARRAY[]::TEXT[]),
+  ('nit', 'Nit', ARRAY[]::TEXT[]),
+  ('nix', 'Nix', ARRAY['nixos']::TEXT[]),
+  ('nmodl', 'NMODL', ARRAY[]::TEXT[]),
+  ('noir', 'Noir', ARRAY['nargo']::TEXT[]),
+  ('nsis', 'NSIS', ARRAY[]::TEXT[]),
+  ('nu', 'Nu', ARRAY['nush']::TEXT[]),
+  ('nushell', 'Nushell', ARRAY['nu-script', 'nushell-script']::TEXT[]),
+  ('nwscript', 'NWScript', ARRAY[]::TEXT[]),
+  ('oberon', 'Oberon', ARRAY[]::TEXT[]),
+  ('objective-c', 'Objective-C', ARRAY['obj-c', 'objc', 'objectivec']::TEXT[]),
+  ('objective-cplusplus', 'Objective-C++', ARRAY['obj-c++', 'objc++', 'objectivec++']::TEXT[]),
+  ('objective-j', 'Objective-J', ARRAY['obj-j', 'objectivej', 'objj']::TEXT[]),
+  ('objectscript', 'ObjectScript', ARRAY[]::TEXT[]),
+  ('ocaml', 'OCaml', ARRAY[]::TEXT[]),
+  ('odin', 'Odin', ARRAY['odinlang', 'odin-lang']::TEXT[]),
+  ('omgrofl', 'Omgrofl', ARRAY[]::TEXT[]),
+  ('omnetplusplus-msg', 'OMNeT++ MSG', ARRAY['omnetpp-msg']::TEXT[]),
+  ('omnetplusplus-ned', 'OMNeT++ NED', ARRAY['omnetpp-ned']::TEXT[]),
+  ('ooc', 'ooc', ARRAY[]::TEXT[]),
+  ('opa', 'Opa', ARRAY[]::TEXT[]),
+  ('opal', 'Opal', ARRAY[]::TEXT[]),
+  ('open-policy-agent', 'Open Policy Agent', ARRAY[]::TEXT[]),
+  ('openedge-abl', 'OpenEdge ABL', ARRAY['progress', 'openedge', 'abl']::TEXT[]),
+  ('openqasm', 'OpenQASM', ARRAY[]::TEXT[]),
+  ('openscad', 'OpenSCAD', ARRAY[]::TEXT[]),
+  ('overpassql', 'OverpassQL', ARRAY[]::TEXT[]),
+  ('overpy', 'OverPy', ARRAY['opy']::TEXT[]),
+  ('ox', 'Ox', ARRAY[]::TEXT[]),
+  ('oxygene', 'Oxygene', ARRAY[]::TEXT[]),
+  ('oz', 'Oz', ARRAY[]::TEXT[]),
+  ('p4', 'P4', ARRAY[]::TEXT[]),
+  ('pact', 'Pact', ARRAY[]::TEXT[]),
+  ('pan', 'Pan', ARRAY[]::TEXT[]),
+  ('papyrus', 'Papyrus', ARRAY[]::TEXT[]),
+  ('parrot', 'Parrot', ARRAY[]::TEXT[]),
+  ('pascal', 'Pascal', ARRAY['delphi', 'objectpascal']::TEXT[]),
+  ('pawn', 'Pawn', ARRAY[]::TEXT[]),
+  ('pddl', 'PDDL', ARRAY[]::TEXT[]),
+  ('peg-js', 'PEG.js', ARRAY[]::TEXT[]),
+  ('pep8', 'Pep8', ARRAY[]::TEXT[]),
+  ('perl', 'Perl', ARRAY['cperl']::TEXT[]),
+  ('php', 'PHP', ARRAY['inc']::TEXT[]),
+  ('picolisp', 'PicoLisp', ARRAY[]::TEXT[]),
+  ('piglatin', 'PigLatin', ARRAY[]::TEXT[]),
+  ('pike', 'Pike', ARRAY[]::TEXT[]),
+  ('pkl', 'Pkl', ARRAY[]::TEXT[]),
+  ('plpgsql', 'PLpgSQL', ARRAY[]::TEXT[]),
+  ('plsql', 'PLSQL', ARRAY[]::TEXT[]),
+  ('pogoscript', 'PogoScript', ARRAY[]::TEXT[]),
+  ('polar', 'Polar', ARRAY[]::TEXT[]),
+  ('pony', 'Pony', ARRAY[]::TEXT[]),
+  ('portugol', 'Portugol', ARRAY[]::TEXT[]),
+  ('pov-ray-sdl', 'POV-Ray SDL', ARRAY['pov-ray', 'povray']::TEXT[]),
+  ('power-query', 'Power Query', ARRAY['powerquery']::TEXT[]),
+  ('powerbuilder', 'PowerBuilder', ARRAY[]::TEXT[]),
+  ('powershell', 'PowerShell', ARRAY['posh', 'pwsh']::TEXT[]),
+  ('praat', 'Praat', ARRAY[]::TEXT[]),
+  ('pro-c', 'Pro*C', ARRAY[]::TEXT[]),
+  ('processing', 'Processing', ARRAY[]::TEXT[]),
+  ('procfile', 'Procfile', ARRAY[]::TEXT[]),
+  ('prolog', 'Prolog', ARRAY[]::TEXT[]),
+  ('promela', 'Promela', ARRAY[]::TEXT[]),
+  ('propeller-spin', 'Propeller Spin', ARRAY[]::TEXT[]),
+  ('puppet', 'Puppet', ARRAY[]::TEXT[]),
+  ('purebasic', 'PureBasic', ARRAY[]::TEXT[]),
+  ('purescript', 'PureScript', ARRAY[]::TEXT[]),
+  ('pyret', 'Pyret', ARRAY[]::TEXT[]),
+  ('python', 'Python', ARRAY['py', 'py3', 'python3', 'rusthon']::TEXT[]),
+  ('q', 'q', ARRAY[]::TEXT[]),
+  ('qsharp', 'Q#', ARRAY['qsharp']::TEXT[]),
+  ('qmake', 'QMake', ARRAY[]::TEXT[]),
+  ('qml', 'QML', ARRAY[]::TEXT[]),
+  ('qt-script', 'Qt Script', ARRAY[]::TEXT[]),
+  ('quake', 'Quake', ARRAY[]::TEXT[]),
+  ('quakec', 'QuakeC', ARRAY[]::TEXT[]),
+  ('quickbasic', 'QuickBASIC', ARRAY['qb', 'qbasic', 'qb64', 'classic qbasic', 'classic quickbasic']::TEXT[]),
+  ('quint', 'Quint', ARRAY[]::TEXT[]),
+  ('r', 'R', ARRAY['Rscript', 'splus']::TEXT[]),
+  ('racket', 'Racket', ARRAY[]::TEXT[]),
+  ('ragel', 'Ragel', ARRAY['ragel-rb', 'ragel-ruby']::TEXT[]),
+  ('raku', 'Raku', ARRAY['perl6', 'perl-6']::TEXT[]),
+  ('rascal', 'Rascal', ARRAY[]::TEXT[]),
+  ('rascript', 'RAScript', ARRAY[]::TEXT[]),
+  ('realbasic', 'REALbasic', ARRAY[]::TEXT[]),
+  ('reason', 'Reason', ARRAY[]::TEXT[]),
+  ('rebol', 'Rebol', ARRAY[]::TEXT[]),
+  ('red', 'Red', ARRAY['red/system']::TEXT[]),
+  ('redcode', 'Redcode', ARRAY[]::TEXT[]),
+  ('redscript', 'Redscript', ARRAY[]::TEXT[]),
+  ('ren-py', 'Ren''Py', ARRAY['renpy']::TEXT[]),
+  ('renderscript', 'RenderScript', ARRAY[]::TEXT[]),
+  ('rescript', 'ReScript', ARRAY[]::TEXT[]),
+  ('rexx', 'REXX', ARRAY['arexx']::TEXT[]),
+  ('rez', 'Rez', ARRAY[]::TEXT[]),
+  ('rhai', 'Rhai', ARRAY[]::TEXT[]),
+  ('ring', 'Ring', ARRAY[]::TEXT[]),
+  ('robotframework', 'RobotFramework', ARRAY[]::TEXT[]),
+  ('roc', 'Roc', ARRAY[]::TEXT[]),
+  ('rocq-prover', 'Rocq Prover', ARRAY['coq', 'rocq']::TEXT[]),
+  ('rouge', 'Rouge', ARRAY[]::TEXT[]),
+  ('routeros-script', 'RouterOS Script', ARRAY[]::TEXT[]),
+  ('rpc', 'RPC', ARRAY['rpcgen', 'oncrpc', 'xdr']::TEXT[]),
+  ('rpgle', 'RPGLE', ARRAY['ile rpg', 'sqlrpgle']::TEXT[]),
+  ('ruby', 'Ruby', ARRAY['jruby', 'macruby', 'rake', 'rb', 'rbx']::TEXT[]),
+  ('rust', 'Rust', ARRAY['rs']::TEXT[]),
+  ('sage', 'Sage', ARRAY[]::TEXT[]),
+  ('sail', 'Sail', ARRAY[]::TEXT[]),
+  ('salt', 'Salt', ARRAY['saltstack', 'saltstate']::TEXT[]),
+  ('sas', 'SAS', ARRAY[]::TEXT[]),
+  ('scala', 'Scala', ARRAY[]::TEXT[]),
+  ('scenic', 'Scenic', ARRAY[]::TEXT[]),
+  ('scheme', 'Scheme', ARRAY[]::TEXT[]),
+  ('scilab', 'Scilab', ARRAY[]::TEXT[]),
+  ('sed', 'sed', ARRAY[]::TEXT[]),
+  ('self', 'Self', ARRAY[]::TEXT[]),
+  ('shaderlab', 'ShaderLab', ARRAY[]::TEXT[]),
+  ('shell', 'Shell', ARRAY['sh', 'shell-script', 'bash', 'zsh', 'envrc']::TEXT[]),
+  ('shellsession', 'ShellSession', ARRAY['bash session', 'console']::TEXT[]),
+  ('shen', 'Shen', ARRAY[]::TEXT[]),
+  ('sieve', 'Sieve', ARRAY[]::TEXT[]),
+  ('singularity', 'Singularity', ARRAY[]::TEXT[]),
+  ('sip', 'SIP', ARRAY[]::TEXT[]),
+  ('slang', 'Slang', ARRAY[]::TEXT[]),
+  ('slash', 'Slash', ARRAY[]::TEXT[]),
+  ('slice', 'Slice', ARRAY[]::TEXT[]),
+  ('smali', 'Smali', ARRAY[]::TEXT[]),
+  ('smalltalk', 'Smalltalk', ARRAY['squeak']::TEXT[]),
+  ('smarty', 'Smarty', ARRAY[]::TEXT[]),
+  ('smithy', 'Smithy', ARRAY[]::TEXT[]),
+  ('smpl', 'SmPL', ARRAY['coccinelle']::TEXT[]),
+  ('smt', 'SMT', ARRAY[]::TEXT[]),
+  ('solidity', 'Solidity', ARRAY[]::TEXT[]),
+  ('sourcepawn', 'SourcePawn', ARRAY['sourcemod']::TEXT[]),
+  ('sqf', 'SQF', ARRAY[]::TEXT[]),
+  ('sqlpl', 'SQLPL', ARRAY[]::TEXT[]),
+  ('squirrel', 'Squirrel', ARRAY[]::TEXT[]),
+  ('stan', 'Stan', ARRAY[]::TEXT[]),
+  ('standard-ml', 'Standard ML', ARRAY['sml']::TEXT[]),
+  ('starlark', 'Starlark', ARRAY['bazel', 'bzl']::TEXT[]),
+  ('stata', 'Stata', ARRAY[]::TEXT[]),
+  ('supercollider', 'SuperCollider', ARRAY[]::TEXT[]),
+  ('surrealql', 'SurrealQL', ARRAY['surql']::TEXT[]),
+  ('sway', 'Sway', ARRAY[]::TEXT[]),
+  ('swift', 'Swift', ARRAY[]::TEXT[]),
+  ('swig', 'SWIG', ARRAY[]::TEXT[]),
+  ('systemverilog', 'SystemVerilog', ARRAY[]::TEXT[]),
+  ('tact', 'Tact', ARRAY[]::TEXT[]),
+  ('talon', 'Talon', ARRAY[]::TEXT[]),
+  ('tape', 'Tape', ARRAY['vhs']::TEXT[]),
+  ('tcl', 'Tcl', ARRAY['sdc', 'xdc']::TEXT[]),
+  ('teal', 'Teal', ARRAY[]::TEXT[]),
+  ('terra', 'Terra', ARRAY[]::TEXT[]),
+  ('thrift', 'Thrift', ARRAY[]::TEXT[]),
+  ('ti-program', 'TI Program', ARRAY[]::TEXT[]),
+  ('tl-verilog', 'TL-Verilog', ARRAY[]::TEXT[]),
+  ('tla', 'TLA', ARRAY[]::TEXT[]),
+  ('toit', 'Toit', ARRAY[]::TEXT[]),
+  ('tolk', 'Tolk', ARRAY[]::TEXT[]),
+  ('tree-sitter-query', 'Tree-sitter Query', ARRAY['tsq']::TEXT[]),
+  ('tsql', 'TSQL', ARRAY[]::TEXT[]),
+  ('turing', 'Turing', ARRAY[]::TEXT[]),
+  ('txl', 'TXL', ARRAY[]::TEXT[]),
+  ('typescript', 'TypeScript', ARRAY['ts']::TEXT[]),
+  ('typespec', 'TypeSpec', ARRAY['tsp']::TEXT[]),
+  ('typst', 'Typst', ARRAY['typ']::TEXT[]),
+  ('ucode', 'ucode', ARRAY[]::TEXT[]),
+  ('uno', 'Uno', ARRAY[]::TEXT[]),
+  ('unrealscript', 'UnrealScript', ARRAY[]::TEXT[]),
+  ('untyped-plutus-core', 'Untyped Plutus Core', ARRAY[]::TEXT[]),
+  ('urweb', 'UrWeb', ARRAY['Ur/Web', 'Ur']::TEXT[]),
+  ('v', 'V', ARRAY['vlang']::TEXT[]),
+  ('vala', 'Vala', ARRAY[]::TEXT[]),
+  ('vba', 'VBA', ARRAY['visual basic for applications']::TEXT[]),
+  ('vbscript', 'VBScript', ARRAY[]::TEXT[]),
+  ('vcl', 'VCL', ARRAY[]::TEXT[]),
+  ('verilog', 'Verilog', ARRAY[]::TEXT[]),
+  ('verse', 'Verse', ARRAY[]::TEXT[]),
+  ('vhdl', 'VHDL', ARRAY[]::TEXT[]),
+  ('vim-script', 'Vim script', ARRAY['vim', 'viml', 'nvim', 'vimscript']::TEXT[]),
+  ('visual-basic-net', 'Visual Basic .NET', ARRAY['visual basic', 'vbnet', 'vb .net', 'vb.net']::TEXT[]),
+  ('visual-basic-6-0', 'Visual Basic 6.0', ARRAY['vb6', 'vb 6', 'visual basic 6', 'visual basic classic', 'classic visual basic']::TEXT[]),
+  ('volt', 'Volt', ARRAY[]::TEXT[]),
+  ('vyper', 'Vyper', ARRAY[]::TEXT[]),
+  ('wdl', 'WDL', ARRAY['Workflow Description Language']::TEXT[]),
+  ('webassembly', 'WebAssembly', ARRAY['wast', 'wasm']::TEXT[]),
+  ('webidl', 'WebIDL', ARRAY[]::TEXT[]),
+  ('wgsl', 'WGSL', ARRAY[]::TEXT[]),
+  ('whiley', 'Whiley', ARRAY[]::TEXT[]),
+  ('wisp', 'wisp', ARRAY[]::TEXT[]),
+  ('witcher-script', 'Witcher Script', ARRAY[]::TEXT[]),
+  ('wolfram-language', 'Wolfram Language', ARRAY['mathematica', 'mma', 'wolfram', 'wolfram lang', 'wl']::TEXT[]),
+  ('wollok', 'Wollok', ARRAY[]::TEXT[]),
+  ('wren', 'Wren', ARRAY['wrenlang']::TEXT[]),
+  ('x10', 'X10', ARRAY['xten']::TEXT[]),
+  ('xbase', 'xBase', ARRAY['advpl', 'clipper', 'foxpro']::TEXT[]),
+  ('xc', 'XC', ARRAY[]::TEXT[]),
+  ('xmake', 'Xmake', ARRAY[]::TEXT[]),
+  ('xojo', 'Xojo', ARRAY[]::TEXT[]),
+  ('xonsh', 'Xonsh', ARRAY[]::TEXT[]),
+  ('xproc', 'XProc', ARRAY[]::TEXT[]),
+  ('xquery', 'XQuery', ARRAY[]::TEXT[]),
+  ('xs', 'XS', ARRAY[]::TEXT[]),
+  ('xslt', 'XSLT', ARRAY['xsl']::TEXT[]),
+  ('xtend', 'Xtend', ARRAY[]::TEXT[]),
+  ('yacc', 'Yacc', ARRAY[]::TEXT[]),
+  ('yara', 'YARA', ARRAY[]::TEXT[]),
+  ('yul', 'Yul', ARRAY[]::TEXT[]),
+  ('zap', 'ZAP', ARRAY[]::TEXT[]),
+  ('zeek', 'Zeek', ARRAY['bro']::TEXT[]),
+  ('zenscript', 'ZenScript', ARRAY[]::TEXT[]),
+  ('zephir', 'Zephir', ARRAY[]::TEXT[]),
+  ('zig', 'Zig', ARRAY[]::TEXT[]),
+  ('zil', 'ZIL', ARRAY[]::TEXT[]),
+  ('zimpl', 'Zimpl', ARRAY[]::TEXT[]);
+-- END GENERATED
+
+INSERT INTO skill_taxonomy (id, name, kind, parent_id)
+SELECT l.id, l.name, 'skill', 'programming-languages'
+FROM linguist_languages l
+WHERE NOT EXISTS (SELECT 1 FROM skill_aliases a WHERE a.alias = normalize_skill_name(l.name))
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO skill_aliases (alias, skill_id)
+SELECT normalize_skill_name(l.name), l.id
+FROM linguist_languages l
+JOIN skill_taxonomy t ON t.id = l.id AND t.name = l.name
+ON CONFLICT (alias) DO NOTHING;
+
+INSERT INTO skill_aliases (alias, skill_id)
+SELECT normalize_skill_name(other.name), a.skill_id
+FROM linguist_languages l
+JOIN skill_aliases a ON a.alias = normalize_skill_name(l.name)
+CROSS JOIN LATERAL unnest(l.aliases) AS other(name)
+WHERE normalize_skill_name(other.name) <> ''
+ON CONFLICT (alias) DO NOTHING;
+
+DROP TABLE linguist_languages;
@@ -0,0 +1,337 @@
+-- CareerGuide: Canonical skill names
+-- Migration 020
+--
+-- Skill names in user_skills and target_role_skills are resolved through the
+-- skill taxonomy (migration 019) whenever a row is written, so "React",
+-- "React.js" and "ReactJS" are stored once, as "React". Names the taxonomy
+-- does not know are kept as written, but one spelling is used per normalized
+-- name. Existing duplicates are merged once, below, and the same way when an
+-- older roadmap version is restored.
+
+-- ============================================
+-- FUNCTION: Resolve a skill name
+-- ============================================
+-- The canonical skill for a name, or NULL when the taxonomy does not know it
+CREATE OR REPLACE FUNCTION resolve_skill_name(p_name TEXT, OUT skill_id TEXT, OUT skill_name TEXT)
+AS $$
+  SELECT t.id, t.name
+  FROM skill_aliases a
+  JOIN skill_taxonomy t ON t.id = a.skill_id
+  WHERE a.alias = normalize_skill_name(p_name);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- COLUMNS: Canonical skill and comparison key
+-- ============================================
+ALTER TABLE user_skills ADD COLUMN IF NOT EXISTS skill_id TEXT REFERENCES skill_taxonomy ON DELETE SET NULL;
+ALTER TABLE user_skills ADD COLUMN IF NOT EXISTS skill_key TEXT; -- skill_id, or the normalized name for unknown skills
+
+ALTER TABLE target_role_skills ADD COLUMN IF NOT EXISTS skill_id TEXT REFERENCES skill_taxonomy ON DELETE SET NULL;
+ALTER TABLE target_role_skills ADD COLUMN IF NOT EXISTS skill_key TEXT;
+
+UPDATE user_skills us SET
+  skill_id = (SELECT r.skill_id FROM resolve_skill_name(us.skill_name) r),
+  skill_key = COALESCE((SELECT r.skill_id FROM resolve_skill_name(us.skill_name) r), normalize_skill_name(us.skill_name));
+
+UPDATE target_role_skills trs SET
+  skill_id = (SELECT r.skill_id FROM resolve_skill_name(trs.skill_name) r),
+  skill_key = COALESCE((SELECT r.skill_id FROM resolve_skill_name(trs.skill_name) r), normalize_skill_name(trs.skill_name));
+
+-- ============================================
+-- ONE-TIME MERGE: Existing duplicates
+-- ============================================
+-- A user's duplicates keep the highest level; rated skills win over ones
+-- that only came from role requirements, then the oldest row wins.
+DELETE FROM user_skills
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (
+      PARTITION BY user_id, skill_key
+      ORDER BY proficiency_level DESC NULLS LAST, (source = 'role_requirement'), created_at, id
+    ) AS rank
+    FROM user_skills
+  ) ranked
+  WHERE rank > 1
+);
+
+-- A roadmap's duplicate requirements keep the highest level and priority
+WITH merged AS (
+  SELECT
+    roadmap_id,
+    skill_key,
+    MIN(id::TEXT)::UUID AS keep_id,
+    MAX(required_level) AS required_level,
+    MIN(CASE priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END) AS priority_rank
+  FROM target_role_skills
+  GROUP BY roadmap_id, skill_key
+  HAVING COUNT(*) > 1
+)
+UPDATE target_role_skills trs SET
+  required_level = merged.required_level,
+  priority = (ARRAY['critical', 'high', 'medium', 'low'])[merged.priority_rank + 1]
+FROM merged
+WHERE trs.id = merged.keep_id;
+
+DELETE FROM target_role_skills trs
+USING target_role_skills keep
+WHERE keep.roadmap_id = trs.roadmap_id
+  AND keep.skill_key = trs.skill_key
+  AND keep.id::TEXT < trs.id::TEXT;
+
+-- Store known skills under their canonical name
+UPDATE user_skills us SET skill_name = t.name
+FROM skill_taxonomy t
+WHERE t.id = us.skill_id AND us.skill_name <> t.name;
+
+UPDATE target_role_skills trs SET skill_name = t.name
+FROM skill_taxonomy t
+WHERE t.id = trs.skill_id AND trs.skill_name <> t.name;
+
+ALTER TABLE user_skills ALTER COLUMN skill_key SET NOT NULL;
+ALTER TABLE target_role_skills ALTER COLUMN skill_key SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_skills_user_skill_key ON user_skills(user_id, skill_key);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_target_role_skills_roadmap_skill_key ON target_role_skills(roadmap_id, skill_key);
+
+-- ============================================
+-- TRIGGERS: Canonicalize on write
+-- ============================================
+-- Unknown skills take the spelling already stored for the same key, so
+-- existing ON CONFLICT (…, skill_name) clauses still catch the duplicate.
+CREATE OR REPLACE FUNCTION public.canonicalize_user_skill()
+RETURNS TRIGGER AS $$
+DECLARE
+  resolved RECORD;
+  existing_name TEXT;
+BEGIN
+  NEW.skill_name := btrim(regexp_replace(NEW.skill_name, '\s+', ' ', 'g'));
+  SELECT * INTO resolved FROM resolve_skill_name(NEW.skill_name);
+
+  NEW.skill_id := resolved.skill_id;
+  NEW.skill_name := COALESCE(resolved.skill_name, NEW.skill_name);
+  NEW.skill_key := COALESCE(resolved.skill_id, normalize_skill_name(NEW.skill_name));
+
+  IF NEW.skill_id IS NULL THEN
+    SELECT skill_name INTO existing_name
+    FROM public.user_skills
+    WHERE user_id = NEW.user_id AND skill_key = NEW.skill_key AND id <> NEW.id;
+
+    NEW.skill_name := COALESCE(existing_name, NEW.skill_name);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.canonicalize_target_role_skill()
+RETURNS TRIGGER AS $$
+DECLARE
+  resolved RECORD;
+  existing_name TEXT;
+BEGIN
+  NEW.skill_name := btrim(regexp_replace(NEW.skill_name, '\s+', ' ', 'g'));
+  SELECT * INTO resolved FROM resolve_skill_name(NEW.skill_name);
+
+  NEW.skill_id := resolved.skill_id;
+  NEW.skill_name := COALESCE(resolved.skill_name, NEW.skill_name);
+  NEW.skill_key := COALESCE(resolved.skill_id, normalize_skill_name(NEW.skill_name));
+
+  IF NEW.skill_id IS NULL THEN
+    SELECT skill_name INTO existing_name
+    FROM public.target_role_skills
+    WHERE roadmap_id = NEW.roadmap_id AND skill_key = NEW.skill_key AND id <> NEW.id;
+
+    NEW.skill_name := COALESCE(existing_name, NEW.skill_name);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_user_skill_written ON user_skills;
+CREATE TRIGGER on_user_skill_written
+  BEFORE INSERT OR UPDATE OF skill_name ON user_skills
+  FOR EACH ROW EXECUTE FUNCTION public.canonicalize_user_skill();
+
+DROP TRIGGER IF EXISTS on_target_role_skill_written ON target_role_skills;
+CREATE TRIGGER on_target_role_skill_written
+  BEFORE INSERT OR UPDATE OF skill_name ON target_role_skills
+  FOR EACH ROW EXECUTE FUNCTION public.canonicalize_target_role_skill();
+
+-- ============================================
+-- FUNCTION: Merge two of a user's skills
+-- ============================================
+-- Used for the merge suggestions on the skills page. The kept skill takes the
+-- higher of the two levels.
+CREATE OR REPLACE FUNCTION merge_user_skills(p_keep_id UUID, p_remove_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  kept user_skills%ROWTYPE;
+  removed user_skills%ROWTYPE;
+BEGIN
+  SELECT * INTO kept FROM user_skills WHERE id = p_keep_id;
+  SELECT * INTO removed FROM user_skills WHERE id = p_remove_id;
+
+  IF kept.id IS NULL OR removed.id IS NULL
+    OR kept.user_id IS DISTINCT FROM auth.uid()
+    OR removed.user_id IS DISTINCT FROM auth.uid()
+    OR kept.id = removed.id THEN
+    RAISE EXCEPTION 'skill not found';
+  END IF;
+
+  DELETE FROM user_skills WHERE id = p_remove_id;
+
+  UPDATE user_skills SET
+    proficiency_level = GREATEST(kept.proficiency_level, removed.proficiency_level),
+    updated_at = NOW()
+  WHERE id = p_keep_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION merge_user_skills(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_user_skills(UUID, UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Restore a roadmap to an older version (now merging duplicate requirements)
+-- ============================================
+CREATE OR REPLACE FUNCTION restore_roadmap_version(p_version_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  partial_progress_cap CONSTANT NUMERIC := 0.95;
+  priority_order CONSTANT TEXT[] := ARRAY['critical', 'high', 'medium', 'low'];
+  target roadmap_versions%ROWTYPE;
+  milestone JSONB;
+  subtask JSONB;
+  requirement JSONB;
+  milestone_ids UUID[] := ARRAY[]::UUID[];
+  subtask_ids UUID[] := ARRAY[]::UUID[];
+  subtask_completed BOOLEAN;
+BEGIN
+  SELECT * INTO target FROM roadmap_versions WHERE id = p_version_id;
+
+  IF target.id IS NULL OR (auth.uid() IS NOT NULL AND auth.uid() <> target.user_id) THEN
+    RAISE EXCEPTION 'version not found';
+  END IF;
+
+  PERFORM snapshot_roadmap(target.roadmap_id, 'checkpoint');
+
+  FOR milestone IN SELECT value FROM jsonb_array_elements(target.snapshot->'milestones')
+  LOOP
+    INSERT INTO milestones (id, roadmap_id, title, description, order_index, status, due_date, completed_at, resources, estimated_weeks)
+    VALUES (
+      (milestone->>'id')::UUID,
+      target.roadmap_id,
+      milestone->>'title',
+      milestone->>'description',
+      (milestone->>'order_index')::INTEGER,
+      milestone->>'status',
+      (milestone->>'due_date')::DATE,
+      (milestone->>'completed_at')::TIMESTAMPTZ,
+      COALESCE(milestone->'resources', '[]'),
+      (milestone->>'estimated_weeks')::NUMERIC
+    )
+    ON CONFLICT (id) DO UPDATE SET
+      title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      order_index = EXCLUDED.order_index,
+      status = EXCLUDED.status,
+      due_date = EXCLUDED.due_date,
+      completed_at = EXCLUDED.completed_at,
+      resources = EXCLUDED.resources,
+      estimated_weeks = COALESCE(EXCLUDED.estimated_weeks, milestones.estimated_weeks)
+    WHERE milestones.roadmap_id = target.roadmap_id;
+
+    milestone_ids := milestone_ids || (milestone->>'id')::UUID;
+
+    FOR subtask IN SELECT value FROM jsonb_array_elements(milestone->'subtasks')
+    LOOP
+      subtask_completed := COALESCE((subtask->>'is_completed')::BOOLEAN, FALSE);
+
+      -- Versions saved before this migration have no progress; it follows is_completed,
+      -- as when a subtask is checked off or reopened
+      INSERT INTO subtasks (
+        id, milestone_id, title, description, order_index, is_completed, completed_at,
+        progress, minutes_spent, last_progress_note, estimated_minutes, calibrated_minutes, estimated_at
+      )
+      VALUES (
+        (subtask->>'id')::UUID,
+        (milestone->>'id')::UUID,
+        subtask->>'title',
+        subtask->>'description',
+        (subtask->>'order_index')::INTEGER,
+        subtask_completed,
+        (subtask->>'completed_at')::TIMESTAMPTZ,
+        CASE
+          WHEN subtask_completed THEN 1
+          ELSE LEAST(COALESCE((subtask->>'progress')::NUMERIC, 0), partial_progress_cap)
+        END,
+        COALESCE((subtask->>'minutes_spent')::INTEGER, 0),
+        subtask->>'last_progress_note',
+        (subtask->>'estimated_minutes')::INTEGER,
+        (subtask->>'calibrated_minutes')::INTEGER,
+        (subtask->>'estimated_at')::TIMESTAMPTZ
+      )
+      -- Time already logged against a subtask stays with it, as its time logs do.
+      -- Estimates missing from older versions keep the ones the subtask has.
+      ON CONFLICT (id) DO UPDATE SET
+        milestone_id = EXCLUDED.milestone_id,
+        title = EXCLUDED.title,
+        description = EXCLUDED.description,
+        order_index = EXCLUDED.order_index,
+        is_completed = EXCLUDED.is_completed,
+        completed_at = EXCLUDED.completed_at,
+        progress = EXCLUDED.progress,
+        last_progress_note = EXCLUDED.last_progress_note,
+        estimated_minutes = COALESCE(EXCLUDED.estimated_minutes, subtasks.estimated_minutes),
+        calibrated_minutes = COALESCE(EXCLUDED.calibrated_minutes, subtasks.calibrated_minutes),
+        estimated_at = COALESCE(EXCLUDED.estimated_at, subtasks.estimated_at);
+
+      subtask_ids := subtask_ids || (subtask->>'id')::UUID;
+    END LOOP;
+  END LOOP;
+
+  -- Drop whatever the older version did not have
+  DELETE FROM subtasks s
+  USING milestones m
+  WHERE s.milestone_id = m.id
+    AND m.roadmap_id = target.roadmap_id
+    AND NOT (s.id = ANY(subtask_ids));
+
+  DELETE FROM milestones
+  WHERE roadmap_id = target.roadmap_id
+    AND NOT (id = ANY(milestone_ids));
+
+  DELETE FROM target_role_skills WHERE roadmap_id = target.roadmap_id;
+
+  -- Versions saved before canonical names can hold two names for one skill
+  -- ("React" and "ReactJS"); they are merged as when this migration ran
+  FOR requirement IN SELECT value FROM jsonb_array_elements(target.snapshot->'target_role_skills')
+  LOOP
+    INSERT INTO target_role_skills (roadmap_id, skill_name, required_level, priority)
+    VALUES (
+      target.roadmap_id,
+      requirement->>'skill_name',
+      (requirement->>'required_level')::INTEGER,
+      requirement->>'priority'
+    )
+    ON CONFLICT (roadmap_id, skill_key) DO UPDATE SET
+      required_level = GREATEST(target_role_skills.required_level, EXCLUDED.required_level),
+      priority = CASE
+        WHEN array_position(priority_order, EXCLUDED.priority) < array_position(priority_order, target_role_skills.priority)
+          THEN EXCLUDED.priority
+        ELSE target_role_skills.priority
+      END;
+  END LOOP;
+
+  UPDATE roadmaps
+  SET
+    citations = COALESCE(target.snapshot->'citations', '[]'),
+    updated_at = NOW()
+  WHERE id = target.roadmap_id;
+
+  RETURN snapshot_roadmap(target.roadmap_id, 'restore', target.version_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION restore_roadmap_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION restore_roadmap_version(UUID) TO authenticated, service_role;
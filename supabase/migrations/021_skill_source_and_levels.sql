@@ -0,0 +1,59 @@
+-- CareerGuide: Skill source and level model
+-- Migration 021
+--
+-- user_skills.source was free text, and the app wrote values the schema never
+-- listed ('pdf', 'self_assessment'). It is now the skill_source enum, so the
+-- generated types in src/types/database.ts carry the allowed values.
+--
+-- Level 0 means "not rated yet": skills added from role requirements are
+-- stored at 0 until the user rates them. Migration 002 only allowed 1-5, so
+-- those rows were rejected; 0-5 is now allowed and level is never NULL.
+
+-- ============================================
+-- TYPE: Where a user's skill came from
+-- ============================================
+DO $$
+BEGIN
+  CREATE TYPE skill_source AS ENUM (
+    'manual',           -- typed in by the user
+    'pdf',              -- imported from an uploaded resume
+    'linkedin',         -- imported from LinkedIn
+    'self_assessment',  -- rated by the user on the required skills screen
+    'role_requirement'  -- required by a target role, not rated yet
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- ============================================
+-- USER SKILLS: Source
+-- ============================================
+-- 'assessment' was listed in 002 but never written; treat it as the user's own rating
+UPDATE user_skills SET source = 'self_assessment' WHERE source = 'assessment';
+UPDATE user_skills SET source = 'manual'
+WHERE source IS NULL
+   OR source NOT IN ('manual', 'pdf', 'linkedin', 'self_assessment', 'role_requirement');
+
+ALTER TABLE user_skills ALTER COLUMN source DROP DEFAULT;
+ALTER TABLE user_skills ALTER COLUMN source TYPE skill_source USING source::skill_source;
+ALTER TABLE user_skills ALTER COLUMN source SET DEFAULT 'manual';
+ALTER TABLE user_skills ALTER COLUMN source SET NOT NULL;
+
+-- ============================================
+-- USER SKILLS: Level, with 0 as not rated yet
+-- ============================================
+UPDATE user_skills SET proficiency_level = 0 WHERE proficiency_level IS NULL;
+
+ALTER TABLE user_skills DROP CONSTRAINT IF EXISTS user_skills_proficiency_level_check;
+ALTER TABLE user_skills ADD CONSTRAINT user_skills_proficiency_level_check
+  CHECK (proficiency_level BETWEEN 0 AND 5);
+ALTER TABLE user_skills ALTER COLUMN proficiency_level SET DEFAULT 0;
+ALTER TABLE user_skills ALTER COLUMN proficiency_level SET NOT NULL;
+
+-- ============================================
+-- SKILL KEYS: Optional on insert
+-- ============================================
+-- The canonicalize triggers (migration 020) always set skill_key; the default
+-- only keeps callers from having to pass a value that is overwritten anyway.
+ALTER TABLE user_skills ALTER COLUMN skill_key SET DEFAULT '';
+ALTER TABLE target_role_skills ALTER COLUMN skill_key SET DEFAULT '';
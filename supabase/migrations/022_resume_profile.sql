@@ -0,0 +1,169 @@
+-- CareerGuide: Work history, education and certifications
+-- Migration 022
+--
+-- Structured profile entries read from an imported resume: positions with
+-- dates, education and certifications. Roadmap generation uses the work
+-- history, and the import offers to fill in current job, years of experience
+-- and education on user_profiles from it.
+--
+-- source uses the same values as user_skills.source: 'pdf' for an uploaded
+-- resume (any file type or pasted text), 'linkedin' for a LinkedIn import.
+-- Importing again replaces the entries from that source only.
+
+-- ============================================
+-- WORK POSITIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_positions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  company TEXT,
+  location TEXT,
+  start_date DATE, -- first of the month when only the month is known
+  end_date DATE, -- NULL for current positions, or when the end is not known
+  is_current BOOLEAN NOT NULL DEFAULT FALSE,
+  description TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'pdf', 'linkedin')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================
+-- EDUCATION TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_education (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  institution TEXT NOT NULL,
+  degree TEXT,
+  field_of_study TEXT,
+  -- Same values as the education options in onboarding
+  level TEXT CHECK (level IN ('high_school', 'some_college', 'associates', 'bachelors', 'masters', 'phd', 'trade', 'bootcamp')),
+  start_date DATE,
+  end_date DATE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'pdf', 'linkedin')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================
+-- CERTIFICATIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_certifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  issuer TEXT,
+  issued_date DATE,
+  expires_date DATE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'pdf', 'linkedin')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE user_positions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_education ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_certifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (imports are saved through replace_imported_profile)
+CREATE POLICY "Users can view own positions" ON user_positions
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own positions" ON user_positions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own positions" ON user_positions
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own positions" ON user_positions
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own education" ON user_education
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own education" ON user_education
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own education" ON user_education
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own education" ON user_education
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own certifications" ON user_certifications
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own certifications" ON user_certifications
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own certifications" ON user_certifications
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own certifications" ON user_certifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_user_positions_user_id ON user_positions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_education_user_id ON user_education(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_certifications_user_id ON user_certifications(user_id);
+
+-- ============================================
+-- FUNCTION: Replace the entries from one import source
+-- ============================================
+-- Entries are the camelCase objects returned by the import functions. Dates
+-- are YYYY-MM-DD strings or null; entries without a title, institution or
+-- name are skipped.
+CREATE OR REPLACE FUNCTION replace_imported_profile(
+  p_source TEXT,
+  p_positions JSONB,
+  p_education JSONB,
+  p_certifications JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not signed in';
+  END IF;
+
+  IF p_source NOT IN ('pdf', 'linkedin') THEN
+    RAISE EXCEPTION 'unknown import source: %', p_source;
+  END IF;
+
+  DELETE FROM user_positions WHERE user_id = auth.uid() AND source = p_source;
+  DELETE FROM user_education WHERE user_id = auth.uid() AND source = p_source;
+  DELETE FROM user_certifications WHERE user_id = auth.uid() AND source = p_source;
+
+  INSERT INTO user_positions (user_id, title, company, location, start_date, end_date, is_current, description, source)
+  SELECT
+    auth.uid(),
+    trim(value->>'title'),
+    NULLIF(trim(value->>'company'), ''),
+    NULLIF(trim(value->>'location'), ''),
+    (value->>'startDate')::DATE,
+    (value->>'endDate')::DATE,
+    COALESCE((value->>'isCurrent')::BOOLEAN, FALSE),
+    NULLIF(trim(value->>'description'), ''),
+    p_source
+  FROM jsonb_array_elements(COALESCE(p_positions, '[]'))
+  WHERE NULLIF(trim(value->>'title'), '') IS NOT NULL;
+
+  INSERT INTO user_education (user_id, institution, degree, field_of_study, level, start_date, end_date, source)
+  SELECT
+    auth.uid(),
+    trim(value->>'institution'),
+    NULLIF(trim(value->>'degree'), ''),
+    NULLIF(trim(value->>'fieldOfStudy'), ''),
+    CASE
+      WHEN value->>'level' IN ('high_school', 'some_college', 'associates', 'bachelors', 'masters', 'phd', 'trade', 'bootcamp')
+        THEN value->>'level'
+    END,
+    (value->>'startDate')::DATE,
+    (value->>'endDate')::DATE,
+    p_source
+  FROM jsonb_array_elements(COALESCE(p_education, '[]'))
+  WHERE NULLIF(trim(value->>'institution'), '') IS NOT NULL;
+
+  INSERT INTO user_certifications (user_id, name, issuer, issued_date, expires_date, source)
+  SELECT
+    auth.uid(),
+    trim(value->>'name'),
+    NULLIF(trim(value->>'issuer'), ''),
+    (value->>'issuedDate')::DATE,
+    (value->>'expiresDate')::DATE,
+    p_source
+  FROM jsonb_array_elements(COALESCE(p_certifications, '[]'))
+  WHERE NULLIF(trim(value->>'name'), '') IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION replace_imported_profile(TEXT, JSONB, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION replace_imported_profile(TEXT, JSONB, JSONB, JSONB) TO authenticated;
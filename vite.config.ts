@@ -2,11 +2,22 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
+// Tesseract loads its core and model by name from a directory, so they keep their names
+const TESSERACT_ASSET = /^(tesseract-core-.*\.wasm\.js|.*\.traineddata\.gz)$/
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
   base: '/CareerGuide/', // GitHub Pages base path
   build: {
-    outDir: 'dist'
+    outDir: 'dist',
+    rollupOptions: {
+      output: {
+        assetFileNames: (asset) =>
+          asset.names.some((name) => TESSERACT_ASSET.test(name))
+            ? 'assets/tesseract/[name][extname]'
+            : 'assets/[name]-[hash][extname]',
+      },
+    },
   }
 })